@@ -1,26 +1,21 @@
 import * as anchor from "@coral-xyz/anchor";
 import { Program } from "@coral-xyz/anchor";
 import { 
-  Connection, 
   Keypair, 
   PublicKey, 
   LAMPORTS_PER_SOL,
   clusterApiUrl
 } from "@solana/web3.js";
 import fs from "fs";
-import path from "path";
-
-// Load the IDL (this would be generated after building the program)
-const idl = JSON.parse(
-  fs.readFileSync(
-    path.resolve(__dirname, "../target/idl/pay_to_reply.json"),
-    "utf-8"
-  )
-);
+import { createHash, randomBytes } from "crypto";
+import { IDL, PayToReply } from "../../src/idl/pay_to_reply";
+import { createConnection, readClusterSettingsFromEnv, resolveClusterConfig, getExplorerTxUrl } from "../../src/utils/clusterConfig";
 
 async function main() {
-  // Configure connection to Sonic DevNet
-  const connection = new Connection("https://api.testnet.sonic.game", "confirmed");
+  // Configure the cluster from SOLANA_CLUSTER / SOLANA_RPC_URL / PROGRAM_ID (defaults to Sonic Testnet)
+  const cluster = resolveClusterConfig(readClusterSettingsFromEnv(process.env));
+  const connection = createConnection(cluster);
+  console.log(`Using ${cluster.label} at ${cluster.rpcUrl}`);
   
   // Load the sender's wallet from a keypair file
   // This can be replaced with any method to load a keypair
@@ -29,12 +24,13 @@ async function main() {
   // Create the wallet provider
   const wallet = new anchor.Wallet(sender);
   const provider = new anchor.AnchorProvider(connection, wallet, {
-    preflightCommitment: "confirmed",
+    commitment: cluster.commitment,
+    preflightCommitment: cluster.commitment,
   });
   
   // Create the program interface
-  const programId = new PublicKey("GPS2swU3p4XGWisAh3n4QWQuMvrQdfnz2eSwME2dp66A");
-  const program = new anchor.Program(idl, programId, provider);
+  const programId = new PublicKey(cluster.programId);
+  const program = new anchor.Program<PayToReply>(IDL, programId, provider);
   
   // Get the recipient's address from command line arguments or use a default
   const recipientAddress = process.argv[2] || "8rRSCYJWGrgEnBXUHtgUMseNBfkrXLHVQvVmvn7Puqp4";
@@ -44,22 +40,37 @@ async function main() {
   const amountInSOL = process.argv[3] ? parseFloat(process.argv[3]) : 0.01;
   const amount = amountInSOL * LAMPORTS_PER_SOL;
   
+  // The message body stays off chain; its SHA-256 is committed with the escrow
+  const content = process.argv[4] || "Hello from send-payment";
+  const contentHash = Array.from(createHash("sha256").update(content).digest());
+  
   console.log(`Sending ${amountInSOL} SOL from ${sender.publicKey.toString()} to ${recipient.toString()}`);
   
+  // Same message ID format as the web app: 'm' + 31 random hex characters
+  const messageId = `m${randomBytes(16).toString("hex").slice(0, 31)}`;
+  const [messageEscrow] = PublicKey.findProgramAddressSync(
+    [Buffer.from("msg"), sender.publicKey.toBuffer(), recipient.toBuffer(), Buffer.from(messageId)],
+    programId
+  );
+  
+  console.log(`Message ID: ${messageId}`);
+  console.log(`Escrow account: ${messageEscrow.toString()}`);
+  
   try {
-    // Send the payment
+    // Escrow the payment until the recipient approves or rejects it (0 = never expires)
     const tx = await program.methods
-      .sendMessagePayment(new anchor.BN(amount))
+      .createMessagePayment(new anchor.BN(amount), messageId, new anchor.BN(0), contentHash)
       .accounts({
         sender: sender.publicKey,
         recipient,
+        messageEscrow,
         systemProgram: anchor.web3.SystemProgram.programId,
       })
       .signers([sender])
       .rpc();
     
     console.log("Transaction successful with signature:", tx);
-    console.log(`You can view the transaction at: https://explorer.sonic.game/tx/${tx}`);
+    console.log(`You can view the transaction at: ${getExplorerTxUrl(cluster, tx)}`);
   } catch (error) {
     console.error("Error sending payment:", error);
   }
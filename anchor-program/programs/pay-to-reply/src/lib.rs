@@ -1,5 +1,6 @@
 use anchor_lang::prelude::*;
 use anchor_lang::solana_program::system_instruction;
+use anchor_spl::token::{self, CloseAccount, Mint, Token, TokenAccount, Transfer};
 
 declare_id!("GPS2swU3p4XGWisAh3n4QWQuMvrQdfnz2eSwME2dp66A");
 
@@ -7,12 +8,28 @@ declare_id!("GPS2swU3p4XGWisAh3n4QWQuMvrQdfnz2eSwME2dp66A");
 pub mod pay_to_reply {
     use super::*;
 
-    /// Sends SOL from the sender to an escrow account as part of a message payment
+    /// Sends SOL from the sender to an escrow account as part of a message payment.
+    /// `content_hash` is the SHA-256 of the message body, which lives off chain; it is
+    /// committed in this instruction so the stored content can be checked later. The
+    /// client salts the body first so the public hash can't confirm a guess at it.
     pub fn create_message_payment(
         ctx: Context<CreateMessagePayment>,
         amount: u64,
         message_id: String,
+        expires_at: i64,
+        content_hash: [u8; 32],
     ) -> Result<()> {
+        // New escrows must use a full-length message ID; 4-char IDs are legacy only
+        require!(
+            message_id.len() > MessageEscrow::LEGACY_MESSAGE_ID_LEN
+                && message_id.len() <= MessageEscrow::MAX_MESSAGE_ID_LEN,
+            EscrowError::InvalidMessageId
+        );
+
+        // An expiry of 0 means the escrow never expires
+        let now = Clock::get()?.unix_timestamp;
+        require!(expires_at == 0 || expires_at > now, EscrowError::InvalidExpiry);
+
         // Create the escrow account data
         let message_escrow = &mut ctx.accounts.message_escrow;
         message_escrow.sender = ctx.accounts.sender.key();
@@ -20,7 +37,8 @@ pub mod pay_to_reply {
         message_escrow.amount = amount;
         message_escrow.message_id = message_id.clone();
         message_escrow.status = EscrowStatus::Pending;
-        message_escrow.created_at = Clock::get()?.unix_timestamp;
+        message_escrow.created_at = now;
+        message_escrow.expires_at = expires_at;
 
         // Transfer SOL from sender to escrow account
         let transfer_instruction = system_instruction::transfer(
@@ -46,11 +64,13 @@ pub mod pay_to_reply {
             ctx.accounts.recipient.key(),
             message_id
         );
+        msg!("Content hash: {}", to_hex(&content_hash));
 
         Ok(())
     }
 
-    /// Approves a message payment, transferring SOL from escrow to recipient
+    /// Approves a message payment, transferring SOL from escrow to recipient.
+    /// The escrow is closed and its rent returned to the sender.
     pub fn approve_message_payment(ctx: Context<ProcessMessagePayment>) -> Result<()> {
         let message_escrow = &mut ctx.accounts.message_escrow;
         
@@ -68,7 +88,14 @@ pub mod pay_to_reply {
             EscrowError::InvalidRecipient
         );
 
-        // Update escrow status
+        // Once the deadline passes the funds belong to the sender again
+        require!(
+            !message_escrow.is_expired(Clock::get()?.unix_timestamp),
+            EscrowError::EscrowExpired
+        );
+
+        // Update escrow status; it is only visible in this transaction's logs once
+        // the account is closed
         message_escrow.status = EscrowStatus::Approved;
         message_escrow.processed_at = Clock::get()?.unix_timestamp;
 
@@ -76,7 +103,7 @@ pub mod pay_to_reply {
         let escrow_info = ctx.accounts.message_escrow.to_account_info();
         let escrow_balance = **escrow_info.lamports.borrow();
         
-        // Keep some lamports for rent exemption
+        // The rent-exempt minimum goes back to the sender when the escrow is closed
         let rent = Rent::get()?;
         let data_len = escrow_info.data_len();
         let rent_exemption = rent.minimum_balance(data_len);
@@ -97,7 +124,61 @@ pub mod pay_to_reply {
         Ok(())
     }
 
-    /// Rejects a message payment, returning SOL from escrow to sender
+    /// Approves part of a message payment: `recipient_amount` lamports go to the
+    /// recipient and the rest of the payment is refunded to the sender.
+    /// The escrow is closed and its rent returned to the sender.
+    pub fn partially_approve_message_payment(
+        ctx: Context<ProcessMessagePayment>,
+        recipient_amount: u64,
+    ) -> Result<()> {
+        let message_escrow = &mut ctx.accounts.message_escrow;
+
+        // Verify the message is pending
+        require_eq!(
+            message_escrow.status,
+            EscrowStatus::Pending,
+            EscrowError::InvalidEscrowStatus
+        );
+
+        // Verify the recipient is the one approving
+        require_keys_eq!(
+            message_escrow.recipient,
+            ctx.accounts.recipient.key(),
+            EscrowError::InvalidRecipient
+        );
+
+        let now = Clock::get()?.unix_timestamp;
+        require!(!message_escrow.is_expired(now), EscrowError::EscrowExpired);
+
+        // A split leaves something for both sides; a full or zero share is an approve or reject
+        require!(
+            recipient_amount > 0 && recipient_amount < message_escrow.amount,
+            EscrowError::InvalidSplitAmount
+        );
+
+        message_escrow.status = EscrowStatus::Approved;
+        message_escrow.processed_at = now;
+        let refund_amount = message_escrow.amount - recipient_amount;
+
+        // Pay the recipient's share; closing the escrow then sends the refund and
+        // the rent, everything left in it, back to the sender
+        let escrow_info = ctx.accounts.message_escrow.to_account_info();
+        **escrow_info.try_borrow_mut_lamports()? -= recipient_amount;
+        **ctx.accounts.recipient.to_account_info().try_borrow_mut_lamports()? += recipient_amount;
+
+        msg!(
+            "Message payment partially approved: {} lamports to {}, {} lamports refunded to {}",
+            recipient_amount,
+            ctx.accounts.recipient.key(),
+            refund_amount,
+            ctx.accounts.sender.key()
+        );
+
+        Ok(())
+    }
+
+    /// Rejects a message payment, returning SOL from escrow to sender.
+    /// The escrow is closed and its rent returned to the sender.
     pub fn reject_message_payment(ctx: Context<ProcessMessagePayment>) -> Result<()> {
         let message_escrow = &mut ctx.accounts.message_escrow;
         
@@ -123,7 +204,7 @@ pub mod pay_to_reply {
         let escrow_info = ctx.accounts.message_escrow.to_account_info();
         let escrow_balance = **escrow_info.lamports.borrow();
         
-        // Keep some lamports for rent exemption
+        // The rent-exempt minimum goes back to the sender when the escrow is closed
         let rent = Rent::get()?;
         let data_len = escrow_info.data_len();
         let rent_exemption = rent.minimum_balance(data_len);
@@ -144,6 +225,259 @@ pub mod pay_to_reply {
         Ok(())
     }
 
+    /// Returns SOL from an expired escrow to the sender once the deadline has passed.
+    /// The escrow is closed and its rent returned to the sender.
+    pub fn reclaim_expired_payment(ctx: Context<ReclaimMessagePayment>) -> Result<()> {
+        let message_escrow = &mut ctx.accounts.message_escrow;
+
+        // Verify the message is pending
+        require_eq!(
+            message_escrow.status,
+            EscrowStatus::Pending,
+            EscrowError::InvalidEscrowStatus
+        );
+
+        // Verify the deadline has passed
+        let now = Clock::get()?.unix_timestamp;
+        require!(message_escrow.is_expired(now), EscrowError::EscrowNotExpired);
+
+        // Update escrow status
+        message_escrow.status = EscrowStatus::Expired;
+        message_escrow.processed_at = now;
+
+        // Get the amount stored in the escrow account
+        let escrow_info = ctx.accounts.message_escrow.to_account_info();
+        let escrow_balance = **escrow_info.lamports.borrow();
+
+        // The rent-exempt minimum goes back to the sender when the escrow is closed
+        let rent = Rent::get()?;
+        let data_len = escrow_info.data_len();
+        let rent_exemption = rent.minimum_balance(data_len);
+
+        // Calculate amount to transfer (balance minus rent exemption)
+        let transfer_amount = escrow_balance - rent_exemption;
+
+        // Transfer SOL from escrow back to sender
+        **escrow_info.try_borrow_mut_lamports()? -= transfer_amount;
+        **ctx.accounts.sender.to_account_info().try_borrow_mut_lamports()? += transfer_amount;
+
+        msg!(
+            "Expired message payment reclaimed: {} lamports returned from escrow to {}",
+            transfer_amount,
+            ctx.accounts.sender.key()
+        );
+
+        Ok(())
+    }
+
+    /// Moves SPL tokens from the sender into a vault owned by a token escrow account.
+    /// The vault is the escrow's associated token account, created by the client
+    /// in the same transaction. `content_hash` commits the message body as in
+    /// `create_message_payment`.
+    pub fn create_token_message_payment(
+        ctx: Context<CreateTokenMessagePayment>,
+        amount: u64,
+        message_id: String,
+        expires_at: i64,
+        content_hash: [u8; 32],
+    ) -> Result<()> {
+        require!(
+            message_id.len() > MessageEscrow::LEGACY_MESSAGE_ID_LEN
+                && message_id.len() <= MessageEscrow::MAX_MESSAGE_ID_LEN,
+            EscrowError::InvalidMessageId
+        );
+
+        // An expiry of 0 means the escrow never expires
+        let now = Clock::get()?.unix_timestamp;
+        require!(expires_at == 0 || expires_at > now, EscrowError::InvalidExpiry);
+
+        let message_escrow = &mut ctx.accounts.message_escrow;
+        message_escrow.sender = ctx.accounts.sender.key();
+        message_escrow.recipient = ctx.accounts.recipient.key();
+        message_escrow.mint = ctx.accounts.mint.key();
+        message_escrow.amount = amount;
+        message_escrow.message_id = message_id.clone();
+        message_escrow.status = EscrowStatus::Pending;
+        message_escrow.created_at = now;
+        message_escrow.expires_at = expires_at;
+        message_escrow.bump = *ctx.bumps.get("message_escrow").unwrap();
+
+        token::transfer(
+            CpiContext::new(
+                ctx.accounts.token_program.to_account_info(),
+                Transfer {
+                    from: ctx.accounts.sender_token_account.to_account_info(),
+                    to: ctx.accounts.escrow_vault.to_account_info(),
+                    authority: ctx.accounts.sender.to_account_info(),
+                },
+            ),
+            amount,
+        )?;
+
+        msg!(
+            "Token message payment escrow created: {} of mint {} from {} to {} for message {}",
+            amount,
+            ctx.accounts.mint.key(),
+            ctx.accounts.sender.key(),
+            ctx.accounts.recipient.key(),
+            message_id
+        );
+        msg!("Content hash: {}", to_hex(&content_hash));
+
+        Ok(())
+    }
+
+    /// Approves a token message payment, transferring the vault's tokens to the recipient
+    pub fn approve_token_message_payment(ctx: Context<ProcessTokenMessagePayment>) -> Result<()> {
+        let message_escrow = &mut ctx.accounts.message_escrow;
+
+        require_eq!(
+            message_escrow.status,
+            EscrowStatus::Pending,
+            EscrowError::InvalidEscrowStatus
+        );
+
+        let now = Clock::get()?.unix_timestamp;
+        require!(!message_escrow.is_expired(now), EscrowError::EscrowExpired);
+
+        message_escrow.status = EscrowStatus::Approved;
+        message_escrow.processed_at = now;
+
+        let amount = message_escrow.amount;
+        release_token_escrow(
+            &ctx.accounts.message_escrow,
+            &ctx.accounts.escrow_vault,
+            &[(&ctx.accounts.recipient_token_account, amount)],
+            &ctx.accounts.sender.to_account_info(),
+            &ctx.accounts.token_program,
+        )?;
+
+        msg!(
+            "Token message payment approved: {} of mint {} from escrow to {}",
+            amount,
+            ctx.accounts.message_escrow.mint,
+            ctx.accounts.recipient.key()
+        );
+
+        Ok(())
+    }
+
+    /// Approves part of a token message payment: `recipient_amount` base units go to
+    /// the recipient and the rest of the vault is refunded to the sender
+    pub fn partially_approve_token_message_payment(
+        ctx: Context<ProcessTokenMessagePayment>,
+        recipient_amount: u64,
+    ) -> Result<()> {
+        let message_escrow = &mut ctx.accounts.message_escrow;
+
+        require_eq!(
+            message_escrow.status,
+            EscrowStatus::Pending,
+            EscrowError::InvalidEscrowStatus
+        );
+
+        let now = Clock::get()?.unix_timestamp;
+        require!(!message_escrow.is_expired(now), EscrowError::EscrowExpired);
+
+        require!(
+            recipient_amount > 0 && recipient_amount < message_escrow.amount,
+            EscrowError::InvalidSplitAmount
+        );
+
+        message_escrow.status = EscrowStatus::Approved;
+        message_escrow.processed_at = now;
+
+        let refund_amount = message_escrow.amount - recipient_amount;
+        release_token_escrow(
+            &ctx.accounts.message_escrow,
+            &ctx.accounts.escrow_vault,
+            &[
+                (&ctx.accounts.recipient_token_account, recipient_amount),
+                (&ctx.accounts.sender_token_account, refund_amount),
+            ],
+            &ctx.accounts.sender.to_account_info(),
+            &ctx.accounts.token_program,
+        )?;
+
+        msg!(
+            "Token message payment partially approved: {} of mint {} to {}, {} refunded to {}",
+            recipient_amount,
+            ctx.accounts.message_escrow.mint,
+            ctx.accounts.recipient.key(),
+            refund_amount,
+            ctx.accounts.sender.key()
+        );
+
+        Ok(())
+    }
+
+    /// Rejects a token message payment, returning the vault's tokens to the sender
+    pub fn reject_token_message_payment(ctx: Context<ProcessTokenMessagePayment>) -> Result<()> {
+        let message_escrow = &mut ctx.accounts.message_escrow;
+
+        require_eq!(
+            message_escrow.status,
+            EscrowStatus::Pending,
+            EscrowError::InvalidEscrowStatus
+        );
+
+        message_escrow.status = EscrowStatus::Rejected;
+        message_escrow.processed_at = Clock::get()?.unix_timestamp;
+
+        let amount = message_escrow.amount;
+        release_token_escrow(
+            &ctx.accounts.message_escrow,
+            &ctx.accounts.escrow_vault,
+            &[(&ctx.accounts.sender_token_account, amount)],
+            &ctx.accounts.sender.to_account_info(),
+            &ctx.accounts.token_program,
+        )?;
+
+        msg!(
+            "Token message payment rejected: {} of mint {} returned from escrow to {}",
+            amount,
+            ctx.accounts.message_escrow.mint,
+            ctx.accounts.sender.key()
+        );
+
+        Ok(())
+    }
+
+    /// Returns tokens from an expired token escrow to the sender once the deadline has passed
+    pub fn reclaim_expired_token_payment(ctx: Context<ReclaimTokenMessagePayment>) -> Result<()> {
+        let message_escrow = &mut ctx.accounts.message_escrow;
+
+        require_eq!(
+            message_escrow.status,
+            EscrowStatus::Pending,
+            EscrowError::InvalidEscrowStatus
+        );
+
+        let now = Clock::get()?.unix_timestamp;
+        require!(message_escrow.is_expired(now), EscrowError::EscrowNotExpired);
+
+        message_escrow.status = EscrowStatus::Expired;
+        message_escrow.processed_at = now;
+
+        let amount = message_escrow.amount;
+        release_token_escrow(
+            &ctx.accounts.message_escrow,
+            &ctx.accounts.escrow_vault,
+            &[(&ctx.accounts.sender_token_account, amount)],
+            &ctx.accounts.sender.to_account_info(),
+            &ctx.accounts.token_program,
+        )?;
+
+        msg!(
+            "Expired token message payment reclaimed: {} of mint {} returned from escrow to {}",
+            amount,
+            ctx.accounts.message_escrow.mint,
+            ctx.accounts.sender.key()
+        );
+
+        Ok(())
+    }
+
     /// Donates funds from the donor to a charity/donation address
     pub fn donate_funds(
         ctx: Context<DonateFunds>,
@@ -196,7 +530,9 @@ pub struct CreateMessagePayment<'info> {
         space = MessageEscrow::space(),
         seeds = [
             b"msg",
-            message_id[..4].as_bytes()
+            sender.key().as_ref(),
+            recipient.key().as_ref(),
+            message_id.as_bytes()
         ],
         bump
     )]
@@ -206,26 +542,24 @@ pub struct CreateMessagePayment<'info> {
     pub system_program: Program<'info, System>,
 }
 
-/// Context for processing (approving/rejecting) a message payment
+/// Context for processing (approving, partially approving or rejecting) a message payment
 #[derive(Accounts)]
 pub struct ProcessMessagePayment<'info> {
     /// The original sender of the payment
     #[account(mut)]
-    /// CHECK: This is safe because we only credit this account when rejecting
+    /// CHECK: This is safe because we only credit this account (refunds and escrow rent)
     pub sender: AccountInfo<'info>,
     
     /// The recipient of the payment, must be a signer
     #[account(mut)]
     pub recipient: Signer<'info>,
     
-    /// The escrow account holding the SOL
+    /// The escrow account holding the SOL, closed to the sender once settled
+    /// Address is checked against both the legacy and the current seed layout
     #[account(
         mut,
-        seeds = [
-            b"msg",
-            message_escrow.message_id[..4].as_bytes()
-        ],
-        bump,
+        close = sender,
+        constraint = message_escrow.key() == message_escrow.expected_address() @ EscrowError::InvalidEscrowAddress,
         constraint = message_escrow.sender == sender.key() @ EscrowError::InvalidSender,
         constraint = message_escrow.recipient == recipient.key() @ EscrowError::InvalidRecipient
     )]
@@ -235,6 +569,237 @@ pub struct ProcessMessagePayment<'info> {
     pub system_program: Program<'info, System>,
 }
 
+/// Context for reclaiming an expired message payment
+#[derive(Accounts)]
+pub struct ReclaimMessagePayment<'info> {
+    /// The original sender of the payment, must be a signer
+    #[account(mut)]
+    pub sender: Signer<'info>,
+
+    /// The recipient who did not act before the deadline
+    /// CHECK: This is safe because we never write to this account
+    pub recipient: AccountInfo<'info>,
+
+    /// The escrow account holding the SOL, closed to the sender once settled
+    /// Address is checked against both the legacy and the current seed layout
+    #[account(
+        mut,
+        close = sender,
+        constraint = message_escrow.key() == message_escrow.expected_address() @ EscrowError::InvalidEscrowAddress,
+        constraint = message_escrow.sender == sender.key() @ EscrowError::InvalidSender,
+        constraint = message_escrow.recipient == recipient.key() @ EscrowError::InvalidRecipient
+    )]
+    pub message_escrow: Account<'info, MessageEscrow>,
+
+    /// The system program, used for transfers
+    pub system_program: Program<'info, System>,
+}
+
+/// Lowercase hex of a byte string, for logging content hashes
+fn to_hex(bytes: &[u8]) -> String {
+    bytes.iter().map(|byte| format!("{:02x}", byte)).collect()
+}
+
+/// Pay out a token escrow's vault to each (destination, amount), signing as the
+/// escrow PDA, then close the empty vault and return its rent to the sender
+fn release_token_escrow<'info>(
+    message_escrow: &Account<'info, TokenMessageEscrow>,
+    escrow_vault: &Account<'info, TokenAccount>,
+    payouts: &[(&Account<'info, TokenAccount>, u64)],
+    sender: &AccountInfo<'info>,
+    token_program: &Program<'info, Token>,
+) -> Result<()> {
+    let bump = [message_escrow.bump];
+    let signer_seeds: &[&[u8]] = &[
+        b"msg",
+        message_escrow.sender.as_ref(),
+        message_escrow.recipient.as_ref(),
+        message_escrow.message_id.as_bytes(),
+        &bump,
+    ];
+
+    for &(destination, amount) in payouts {
+        token::transfer(
+            CpiContext::new_with_signer(
+                token_program.to_account_info(),
+                Transfer {
+                    from: escrow_vault.to_account_info(),
+                    to: destination.to_account_info(),
+                    authority: message_escrow.to_account_info(),
+                },
+                &[signer_seeds],
+            ),
+            amount,
+        )?;
+    }
+
+    token::close_account(CpiContext::new_with_signer(
+        token_program.to_account_info(),
+        CloseAccount {
+            account: escrow_vault.to_account_info(),
+            destination: sender.clone(),
+            authority: message_escrow.to_account_info(),
+        },
+        &[signer_seeds],
+    ))
+}
+
+/// Context for creating a token message payment
+#[derive(Accounts)]
+#[instruction(amount: u64, message_id: String)]
+pub struct CreateTokenMessagePayment<'info> {
+    /// The account sending tokens, must be a signer
+    #[account(mut)]
+    pub sender: Signer<'info>,
+
+    /// The account that will receive the tokens if approved
+    /// CHECK: This is safe because we're not writing to this account
+    pub recipient: AccountInfo<'info>,
+
+    /// The token being paid, e.g. USDC
+    pub mint: Account<'info, Mint>,
+
+    /// The sender's token account the payment is taken from
+    #[account(
+        mut,
+        token::mint = mint,
+        token::authority = sender
+    )]
+    pub sender_token_account: Account<'info, TokenAccount>,
+
+    /// The escrow account recording the payment; same seeds as a SOL escrow
+    #[account(
+        init,
+        payer = sender,
+        space = TokenMessageEscrow::space(),
+        seeds = [
+            b"msg",
+            sender.key().as_ref(),
+            recipient.key().as_ref(),
+            message_id.as_bytes()
+        ],
+        bump
+    )]
+    pub message_escrow: Account<'info, TokenMessageEscrow>,
+
+    /// Token account owned by the escrow that holds the tokens until settlement
+    #[account(
+        mut,
+        token::mint = mint,
+        token::authority = message_escrow
+    )]
+    pub escrow_vault: Account<'info, TokenAccount>,
+
+    /// The token program, used for transfers
+    pub token_program: Program<'info, Token>,
+
+    /// The system program, used for account creation
+    pub system_program: Program<'info, System>,
+}
+
+/// Context for processing (approving, partially approving or rejecting) a token message payment
+#[derive(Accounts)]
+pub struct ProcessTokenMessagePayment<'info> {
+    /// The original sender of the payment; receives the escrow and vault rent
+    /// CHECK: Only used to check the escrow's seeds and to receive rent
+    #[account(mut)]
+    pub sender: AccountInfo<'info>,
+
+    /// The recipient of the payment, must be a signer
+    #[account(mut)]
+    pub recipient: Signer<'info>,
+
+    /// The escrow account recording the payment, closed to the sender once settled
+    #[account(
+        mut,
+        close = sender,
+        seeds = [
+            b"msg",
+            sender.key().as_ref(),
+            recipient.key().as_ref(),
+            message_escrow.message_id.as_bytes()
+        ],
+        bump = message_escrow.bump,
+        constraint = message_escrow.sender == sender.key() @ EscrowError::InvalidSender,
+        constraint = message_escrow.recipient == recipient.key() @ EscrowError::InvalidRecipient
+    )]
+    pub message_escrow: Account<'info, TokenMessageEscrow>,
+
+    /// Token account owned by the escrow that holds the tokens
+    #[account(
+        mut,
+        token::mint = message_escrow.mint,
+        token::authority = message_escrow
+    )]
+    pub escrow_vault: Account<'info, TokenAccount>,
+
+    /// Where the recipient's share goes
+    #[account(
+        mut,
+        token::mint = message_escrow.mint,
+        token::authority = recipient
+    )]
+    pub recipient_token_account: Account<'info, TokenAccount>,
+
+    /// Where refunded tokens go
+    #[account(
+        mut,
+        token::mint = message_escrow.mint,
+        token::authority = sender
+    )]
+    pub sender_token_account: Account<'info, TokenAccount>,
+
+    /// The token program, used for transfers
+    pub token_program: Program<'info, Token>,
+}
+
+/// Context for reclaiming an expired token message payment
+#[derive(Accounts)]
+pub struct ReclaimTokenMessagePayment<'info> {
+    /// The original sender of the payment, must be a signer
+    #[account(mut)]
+    pub sender: Signer<'info>,
+
+    /// The recipient who did not act before the deadline
+    /// CHECK: Only used to check the escrow's seeds
+    pub recipient: AccountInfo<'info>,
+
+    /// The escrow account recording the payment, closed to the sender once settled
+    #[account(
+        mut,
+        close = sender,
+        seeds = [
+            b"msg",
+            sender.key().as_ref(),
+            recipient.key().as_ref(),
+            message_escrow.message_id.as_bytes()
+        ],
+        bump = message_escrow.bump,
+        constraint = message_escrow.sender == sender.key() @ EscrowError::InvalidSender,
+        constraint = message_escrow.recipient == recipient.key() @ EscrowError::InvalidRecipient
+    )]
+    pub message_escrow: Account<'info, TokenMessageEscrow>,
+
+    /// Token account owned by the escrow that holds the tokens
+    #[account(
+        mut,
+        token::mint = message_escrow.mint,
+        token::authority = message_escrow
+    )]
+    pub escrow_vault: Account<'info, TokenAccount>,
+
+    /// Where reclaimed tokens go
+    #[account(
+        mut,
+        token::mint = message_escrow.mint,
+        token::authority = sender
+    )]
+    pub sender_token_account: Account<'info, TokenAccount>,
+
+    /// The token program, used for transfers
+    pub token_program: Program<'info, Token>,
+}
+
 /// Context for donating funds
 #[derive(Accounts)]
 pub struct DonateFunds<'info> {
@@ -257,6 +822,7 @@ pub enum EscrowStatus {
     Pending,
     Approved,
     Rejected,
+    Expired,
 }
 
 impl std::fmt::Display for EscrowStatus {
@@ -265,6 +831,7 @@ impl std::fmt::Display for EscrowStatus {
             EscrowStatus::Pending => write!(f, "Pending"),
             EscrowStatus::Approved => write!(f, "Approved"),
             EscrowStatus::Rejected => write!(f, "Rejected"),
+            EscrowStatus::Expired => write!(f, "Expired"),
         }
     }
 }
@@ -279,16 +846,51 @@ pub struct MessageEscrow {
     pub status: EscrowStatus,
     pub created_at: i64,
     pub processed_at: i64,
+    /// Unix timestamp after which the sender may reclaim the payment (0 = never).
+    /// Appended last so legacy accounts, which have zeroed spare space, decode as 0.
+    pub expires_at: i64,
 }
 
 impl MessageEscrow {
+    /// Length of message IDs created before seeds included sender and recipient
+    pub const LEGACY_MESSAGE_ID_LEN: usize = 4;
+
+    /// Maximum message ID length (a single PDA seed is limited to 32 bytes)
+    pub const MAX_MESSAGE_ID_LEN: usize = 32;
+
+    /// Derives the PDA this escrow should live at.
+    ///
+    /// Legacy escrows were seeded on `["msg", message_id[..4]]`; current escrows
+    /// are seeded on `["msg", sender, recipient, message_id]`.
+    pub fn expected_address(&self) -> Pubkey {
+        let (address, _bump) = if self.message_id.len() == Self::LEGACY_MESSAGE_ID_LEN {
+            Pubkey::find_program_address(&[b"msg", self.message_id.as_bytes()], &crate::ID)
+        } else {
+            Pubkey::find_program_address(
+                &[
+                    b"msg",
+                    self.sender.as_ref(),
+                    self.recipient.as_ref(),
+                    self.message_id.as_bytes(),
+                ],
+                &crate::ID,
+            )
+        };
+        address
+    }
+
+    /// Whether the escrow has a deadline that has passed
+    pub fn is_expired(&self, now: i64) -> bool {
+        self.expires_at > 0 && now >= self.expires_at
+    }
+
     pub fn space() -> usize {
         // Calculate space needed for the account data
         // 32 bytes each for sender and recipient public keys
         // 8 bytes for amount
         // 50 bytes for message_id (allowing for reasonable ID length)
         // 1 byte for status enum
-        // 8 bytes each for timestamps
+        // 8 bytes each for timestamps (created, processed, expires)
         // Plus some buffer for serialization overhead
         8 + // discriminator
         32 + // sender
@@ -297,7 +899,48 @@ impl MessageEscrow {
         4 + 50 + // message_id (4 bytes for string length + max 50 chars)
         1 + // status
         8 + // created_at
-        8 // processed_at
+        8 + // processed_at
+        8 // expires_at
+    }
+}
+
+/// Escrow account for a payment in an SPL token rather than SOL.
+/// The tokens sit in `escrow_vault`, the escrow's associated token account.
+#[account]
+pub struct TokenMessageEscrow {
+    pub sender: Pubkey,
+    pub recipient: Pubkey,
+    pub mint: Pubkey,
+    /// In the mint's base units
+    pub amount: u64,
+    pub message_id: String,
+    pub status: EscrowStatus,
+    pub created_at: i64,
+    pub processed_at: i64,
+    /// Unix timestamp after which the sender may reclaim the payment (0 = never)
+    pub expires_at: i64,
+    /// PDA bump, stored so the escrow can sign vault transfers
+    pub bump: u8,
+}
+
+impl TokenMessageEscrow {
+    /// Whether the escrow has a deadline that has passed
+    pub fn is_expired(&self, now: i64) -> bool {
+        self.expires_at > 0 && now >= self.expires_at
+    }
+
+    pub fn space() -> usize {
+        8 + // discriminator
+        32 + // sender
+        32 + // recipient
+        32 + // mint
+        8 + // amount
+        4 + MessageEscrow::MAX_MESSAGE_ID_LEN + // message_id
+        1 + // status
+        8 + // created_at
+        8 + // processed_at
+        8 + // expires_at
+        1 // bump
     }
 }
 
@@ -310,4 +953,16 @@ pub enum EscrowError {
     InvalidRecipient,
     #[msg("Invalid sender")]
     InvalidSender,
+    #[msg("Invalid message ID")]
+    InvalidMessageId,
+    #[msg("Escrow account address does not match its seeds")]
+    InvalidEscrowAddress,
+    #[msg("Expiry must be in the future")]
+    InvalidExpiry,
+    #[msg("Escrow has expired")]
+    EscrowExpired,
+    #[msg("Escrow has not expired yet")]
+    EscrowNotExpired,
+    #[msg("Split amount must be more than zero and less than the payment")]
+    InvalidSplitAmount,
 }
@@ -2,11 +2,12 @@
 import * as anchor from "@coral-xyz/anchor";
 import { Program } from "@coral-xyz/anchor";
 import { PublicKey, Keypair, LAMPORTS_PER_SOL, Connection } from "@solana/web3.js";
-import { PayToReply } from "../target/types/pay_to_reply";
+import { PayToReply } from "../../src/idl/pay_to_reply";
 import { expect } from "chai";
+import { createHash } from "crypto";
 
 describe("Squeaky Wheel", () => {
-  // Configure the client to use the Sonic DevNet cluster
+  // Configure the client from Anchor.toml; `npm test` points it at a local validator
   const provider = anchor.AnchorProvider.env();
   anchor.setProvider(provider);
 
@@ -23,44 +24,138 @@ describe("Squeaky Wheel", () => {
   const donationKeypair = Keypair.generate();
   const donationPubkey = donationKeypair.publicKey;
   
-  it("Sends SOL from sender to recipient", async () => {
+  // Fund the recipient so it can sign approve/reject transactions
+  before(async () => {
+    const signature = await provider.connection.requestAirdrop(recipientPubkey, LAMPORTS_PER_SOL);
+    await provider.connection.confirmTransaction(signature, "confirmed");
+  });
+  
+  // Escrow a payment for the recipient and return its message ID and escrow address
+  const createEscrow = async (amount: number) => {
+    // SHA-256 of the off-chain message body, committed when the escrow is created
+    const contentHash = Array.from(createHash("sha256").update("Test message").digest());
+    const messageId = `m${Keypair.generate().publicKey.toBuffer().toString("hex").slice(0, 31)}`;
+    const [messageEscrow] = PublicKey.findProgramAddressSync(
+      [Buffer.from("msg"), senderPubkey.toBuffer(), recipientPubkey.toBuffer(), Buffer.from(messageId)],
+      program.programId
+    );
+    
+    const tx = await program.methods
+      .createMessagePayment(new anchor.BN(amount), messageId, new anchor.BN(0), contentHash)
+      .accounts({
+        sender: senderPubkey,
+        recipient: recipientPubkey,
+        messageEscrow,
+        systemProgram: anchor.web3.SystemProgram.programId,
+      })
+      .rpc();
+    
+    console.log("Create transaction signature:", tx);
+    return { messageId, messageEscrow };
+  };
+  
+  it("Releases an escrowed payment to the recipient on approval", async () => {
     // Amount to send: 0.001 SOL
     const amount = 0.001 * LAMPORTS_PER_SOL;
-    
-    // Get initial balances
     const connection = provider.connection;
-    const initialSenderBalance = await connection.getBalance(senderPubkey);
-    const initialRecipientBalance = await connection.getBalance(recipientPubkey);
     
-    console.log(`Initial sender balance: ${initialSenderBalance / LAMPORTS_PER_SOL} SOL`);
-    console.log(`Initial recipient balance: ${initialRecipientBalance / LAMPORTS_PER_SOL} SOL`);
+    const { messageEscrow } = await createEscrow(amount);
+    const escrow = await program.account.messageEscrow.fetch(messageEscrow);
+    expect(escrow.amount.toNumber()).to.equal(amount);
+    expect(escrow.status).to.deep.equal({ pending: {} });
+    
+    const initialRecipientBalance = await connection.getBalance(recipientPubkey);
+    const initialSenderBalance = await connection.getBalance(senderPubkey);
+    const rent = await connection.getBalance(messageEscrow) - amount;
     
-    // Send the payment
     const tx = await program.methods
-      .sendMessagePayment(new anchor.BN(amount))
+      .approveMessagePayment()
       .accounts({
         sender: senderPubkey,
         recipient: recipientPubkey,
+        messageEscrow,
         systemProgram: anchor.web3.SystemProgram.programId,
       })
+      .signers([recipientKeypair])
       .rpc();
     
-    console.log("Transaction signature:", tx);
-    console.log("https://explorer.sonic.game/tx/" + tx);
+    console.log("Approve transaction signature:", tx);
     
-    // Get final balances
+    // The escrow is closed once settled
+    const settled = await program.account.messageEscrow.fetchNullable(messageEscrow);
+    expect(settled).to.equal(null);
+    
+    // The recipient pays the fee, so it gains the amount minus at most one fee
+    const finalRecipientBalance = await connection.getBalance(recipientPubkey);
+    expect(finalRecipientBalance).to.be.greaterThan(initialRecipientBalance + amount - 10000);
+    
+    // The escrow's rent goes back to the sender
     const finalSenderBalance = await connection.getBalance(senderPubkey);
+    expect(finalSenderBalance).to.equal(initialSenderBalance + rent);
+  });
+  
+  it("Splits an escrowed payment between recipient and sender on partial approval", async () => {
+    const amount = 0.002 * LAMPORTS_PER_SOL;
+    const recipientAmount = 0.0005 * LAMPORTS_PER_SOL;
+    const connection = provider.connection;
+    
+    const { messageEscrow } = await createEscrow(amount);
+    const initialRecipientBalance = await connection.getBalance(recipientPubkey);
+    const initialSenderBalance = await connection.getBalance(senderPubkey);
+    const rent = await connection.getBalance(messageEscrow) - amount;
+    
+    const tx = await program.methods
+      .partiallyApproveMessagePayment(new anchor.BN(recipientAmount))
+      .accounts({
+        sender: senderPubkey,
+        recipient: recipientPubkey,
+        messageEscrow,
+        systemProgram: anchor.web3.SystemProgram.programId,
+      })
+      .signers([recipientKeypair])
+      .rpc();
+    
+    console.log("Partial approve transaction signature:", tx);
+    
+    const settled = await program.account.messageEscrow.fetchNullable(messageEscrow);
+    expect(settled).to.equal(null);
+    
+    // The recipient pays the fee, so it gains its share minus at most one fee
     const finalRecipientBalance = await connection.getBalance(recipientPubkey);
+    expect(finalRecipientBalance).to.be.greaterThan(initialRecipientBalance + recipientAmount - 10000);
     
-    console.log(`Final sender balance: ${finalSenderBalance / LAMPORTS_PER_SOL} SOL`);
-    console.log(`Final recipient balance: ${finalRecipientBalance / LAMPORTS_PER_SOL} SOL`);
+    // The sender gets the rest of the payment and the rent back
+    const finalSenderBalance = await connection.getBalance(senderPubkey);
+    expect(finalSenderBalance).to.equal(initialSenderBalance + amount - recipientAmount + rent);
+  });
+  
+  it("Refunds an escrowed payment to the sender on rejection", async () => {
+    const amount = 0.001 * LAMPORTS_PER_SOL;
+    const connection = provider.connection;
     
-    // Verify the recipient received the exact amount
-    expect(finalRecipientBalance).to.equal(initialRecipientBalance + amount);
+    const { messageEscrow } = await createEscrow(amount);
+    const initialSenderBalance = await connection.getBalance(senderPubkey);
+    const rent = await connection.getBalance(messageEscrow) - amount;
     
-    // Verify the sender's balance decreased by at least the amount sent
-    // (it will be slightly more due to transaction fees)
-    expect(finalSenderBalance).to.be.lessThan(initialSenderBalance - amount);
+    const tx = await program.methods
+      .rejectMessagePayment()
+      .accounts({
+        sender: senderPubkey,
+        recipient: recipientPubkey,
+        messageEscrow,
+        systemProgram: anchor.web3.SystemProgram.programId,
+      })
+      .signers([recipientKeypair])
+      .rpc();
+    
+    console.log("Reject transaction signature:", tx);
+    
+    const settled = await program.account.messageEscrow.fetchNullable(messageEscrow);
+    expect(settled).to.equal(null);
+    
+    // The recipient pays the fee, so the sender gets the full amount and the rent back
+    const finalSenderBalance = await connection.getBalance(senderPubkey);
+    expect(finalSenderBalance).to.equal(initialSenderBalance + amount + rent);
   });
   
   it("Donates SOL to a donation address", async () => {
@@ -86,7 +181,6 @@ describe("Squeaky Wheel", () => {
       .rpc();
     
     console.log("Donation transaction signature:", tx);
-    console.log("https://explorer.sonic.game/tx/" + tx);
     
     // Get final balances
     const finalDonorBalance = await connection.getBalance(senderPubkey);
@@ -0,0 +1,54 @@
+import { execFileSync } from "child_process";
+import { isDeepStrictEqual } from "util";
+import { IDL } from "@/idl/pay_to_reply";
+import { normalizeIdl, toTypeScriptIdl } from "./sync-idl";
+
+// Fail if src/idl/pay_to_reply.ts no longer matches the Rust program.
+//
+// Usage:
+//   npm run idl:check
+//
+// Requires the anchor CLI. Run `anchor build && npm run idl:sync` to fix a mismatch.
+
+const PROGRAM_SOURCE = "anchor-program/programs/pay-to-reply/src/lib.rs";
+
+// Collect the paths where two IDL objects differ, e.g. instructions[1].accounts[0].isMut
+const diffPaths = (expected: unknown, actual: unknown, at = ""): string[] => {
+  if (isDeepStrictEqual(expected, actual)) {
+    return [];
+  }
+  if (expected && actual && typeof expected === "object" && typeof actual === "object") {
+    const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+    return [...keys].flatMap((key) => {
+      const childPath = Array.isArray(expected) ? `${at}[${key}]` : at ? `${at}.${key}` : key;
+      return diffPaths(
+        (expected as Record<string, unknown>)[key],
+        (actual as Record<string, unknown>)[key],
+        childPath
+      );
+    });
+  }
+  return [`${at || "<root>"}: expected ${JSON.stringify(expected)}, found ${JSON.stringify(actual)}`];
+};
+
+function main() {
+  const parsed = execFileSync("anchor", ["idl", "parse", "--file", PROGRAM_SOURCE], {
+    encoding: "utf-8",
+  });
+
+  const expected = toTypeScriptIdl(JSON.parse(parsed));
+  const actual = normalizeIdl(IDL);
+  const differences = diffPaths(expected, actual);
+
+  if (differences.length === 0) {
+    console.log(`src/idl/pay_to_reply.ts matches ${PROGRAM_SOURCE}`);
+    return;
+  }
+
+  console.error(`src/idl/pay_to_reply.ts is out of date with ${PROGRAM_SOURCE}:`);
+  differences.forEach((difference) => console.error(`  ${difference}`));
+  console.error("Run `anchor build && npm run idl:sync` to regenerate it.");
+  process.exitCode = 1;
+}
+
+main();
@@ -0,0 +1,77 @@
+import { PublicKey } from "@solana/web3.js";
+import { createClient } from "@supabase/supabase-js";
+import type { Database } from "@/integrations/supabase/types";
+import { reconcileMessageEscrows } from "@/utils/escrowReconciler";
+import { createConnection, readClusterSettingsFromEnv, resolveClusterConfig } from "@/utils/clusterConfig";
+
+// Reconcile on-chain MessageEscrow accounts with the messages table.
+//
+// Usage:
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm run reconcile:escrows -- [--repair] [--wallet <ADDRESS>]
+//
+// The cluster comes from SOLANA_CLUSTER (localnet | sonic-testnet | custom), optionally
+// overridden by SOLANA_RPC_URL, SOLANA_FALLBACK_RPC_URLS, PROGRAM_ID and SOLANA_COMMITMENT.
+//
+// Exits with code 1 if any mismatch is left unrepaired, so it can run from cron/CI.
+
+async function main() {
+  const args = process.argv.slice(2);
+  const repair = args.includes("--repair");
+  const walletIndex = args.indexOf("--wallet");
+  const walletAddress = walletIndex !== -1 ? args[walletIndex + 1] : undefined;
+
+  const supabaseUrl = process.env.SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!supabaseUrl || !supabaseKey) {
+    throw new Error("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set");
+  }
+
+  const cluster = resolveClusterConfig(readClusterSettingsFromEnv(process.env));
+  const connection = createConnection(cluster);
+  const programId = new PublicKey(cluster.programId);
+  const supabase = createClient<Database>(supabaseUrl, supabaseKey, {
+    auth: { persistSession: false },
+  });
+
+  console.log(`Cluster: ${cluster.label}`);
+  console.log(`RPC endpoint: ${connection.rpcEndpoint}`);
+  console.log(`Program ID: ${programId.toBase58()}`);
+
+  const report = await reconcileMessageEscrows({
+    connection,
+    programId,
+    supabase,
+    walletAddress,
+    repair,
+    paymentTokens: cluster.paymentTokens,
+  });
+
+  console.log(`Scanned ${report.escrowsScanned} escrows and ${report.rowsScanned} message rows`);
+
+  if (report.mismatches.length === 0) {
+    console.log("No mismatches found");
+    return;
+  }
+
+  console.table(
+    report.mismatches.map((mismatch) => ({
+      kind: mismatch.kind,
+      messageId: mismatch.messageId,
+      escrow: mismatch.escrowAddress || "",
+      repaired: mismatch.repaired,
+      detail: mismatch.detail,
+    }))
+  );
+
+  const unrepaired = report.mismatches.length - report.repairedCount;
+  console.log(`${report.mismatches.length} mismatches, ${report.repairedCount} repaired, ${unrepaired} need attention`);
+
+  if (unrepaired > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error("Reconciliation failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,67 @@
+import { PublicKey } from "@solana/web3.js";
+import { createClient } from "@supabase/supabase-js";
+import type { Database } from "@/integrations/supabase/types";
+import { runScheduledMessages } from "@/utils/scheduledMessageRunner";
+import { createConnection, readClusterSettingsFromEnv, resolveClusterConfig } from "@/utils/clusterConfig";
+
+// Send scheduled messages that are due, using the transactions their senders signed
+// when scheduling them.
+//
+// Usage:
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm run scheduled:send -- [--limit <N>]
+//
+// The cluster comes from SOLANA_CLUSTER (localnet | sonic-testnet | custom), optionally
+// overridden by SOLANA_RPC_URL, SOLANA_FALLBACK_RPC_URLS, PROGRAM_ID and SOLANA_COMMITMENT.
+// It must be the cluster the messages were signed on.
+//
+// Meant to run from cron every minute or so. Messages still confirming are picked up by
+// the next run. Exits with code 1 if any message failed.
+
+async function main() {
+  const args = process.argv.slice(2);
+  const limitIndex = args.indexOf("--limit");
+  const limit = limitIndex !== -1 ? parseInt(args[limitIndex + 1], 10) : undefined;
+
+  const supabaseUrl = process.env.SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!supabaseUrl || !supabaseKey) {
+    throw new Error("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set");
+  }
+
+  const cluster = resolveClusterConfig(readClusterSettingsFromEnv(process.env));
+  const connection = createConnection(cluster);
+  const supabase = createClient<Database>(supabaseUrl, supabaseKey, {
+    auth: { persistSession: false },
+  });
+
+  console.log(`Cluster: ${cluster.label}`);
+  console.log(`RPC endpoint: ${connection.rpcEndpoint}`);
+
+  const results = await runScheduledMessages({ connection, supabase, programId: new PublicKey(cluster.programId), limit });
+
+  if (results.length === 0) {
+    console.log("No scheduled messages are due");
+    return;
+  }
+
+  console.table(
+    results.map((result) => ({
+      messageId: result.messageId,
+      outcome: result.outcome,
+      signature: result.signature || "",
+      error: result.error || "",
+    }))
+  );
+
+  const count = (outcome: string) => results.filter((result) => result.outcome === outcome).length;
+  console.log(`${count("sent")} sent, ${count("pending")} still sending, ${count("failed")} failed, ${count("skipped")} skipped`);
+
+  if (count("failed") > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error("Sending scheduled messages failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,81 @@
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+
+// Generate src/idl/pay_to_reply.ts from the IDL that `anchor build` writes to
+// anchor-program/target/idl/pay_to_reply.json.
+//
+// Usage:
+//   npm run idl:sync -- [path/to/pay_to_reply.json]
+//
+// The output mirrors anchor's target/types file: a `PayToReply` literal type for
+// `Program<PayToReply>` and an `IDL` constant holding the same object.
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const DEFAULT_IDL_PATH = path.join(ROOT, "anchor-program/target/idl/pay_to_reply.json");
+const OUTPUT_PATH = path.join(ROOT, "src/idl/pay_to_reply.ts");
+
+// Doc comments and deploy metadata change without changing the interface, so drop them
+export const normalizeIdl = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(normalizeIdl);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([key]) => key !== "docs" && key !== "metadata")
+        .map(([key, child]) => [key, normalizeIdl(child)])
+    );
+  }
+  return value;
+};
+
+// Like `anchor build`'s target/types output, account names are camelCased so
+// they line up with `program.account.<name>`
+export const toTypeScriptIdl = (idl: unknown): unknown => {
+  const normalized = normalizeIdl(idl) as { accounts?: { name: string }[] };
+  return {
+    ...normalized,
+    ...(normalized.accounts && {
+      accounts: normalized.accounts.map((account) => ({
+        ...account,
+        name: account.name.charAt(0).toLowerCase() + account.name.slice(1),
+      })),
+    }),
+  };
+};
+
+const toTypeScriptLiteral = (idl: unknown): string => {
+  return JSON.stringify(idl, null, 2).replace(/"(\w+)":/g, "$1:");
+};
+
+export const renderIdlModule = (idl: unknown): string => {
+  const literal = toTypeScriptLiteral(toTypeScriptIdl(idl));
+  return [
+    "// This file is automatically generated by `npm run idl:sync`. Do not edit it directly.",
+    "// Source: anchor-program/programs/pay-to-reply/src/lib.rs",
+    "",
+    `export type PayToReply = ${literal};`,
+    "",
+    `export const IDL: PayToReply = ${literal};`,
+    "",
+  ].join("\n");
+};
+
+function main() {
+  const idlPath = path.resolve(process.argv[2] || DEFAULT_IDL_PATH);
+  if (!fs.existsSync(idlPath)) {
+    throw new Error(`IDL not found at ${idlPath}. Run \`anchor build\` in anchor-program first.`);
+  }
+
+  const idl = JSON.parse(fs.readFileSync(idlPath, "utf-8"));
+  fs.mkdirSync(path.dirname(OUTPUT_PATH), { recursive: true });
+  fs.writeFileSync(OUTPUT_PATH, renderIdlModule(idl));
+
+  console.log(`Wrote ${path.relative(ROOT, OUTPUT_PATH)} from ${path.relative(ROOT, idlPath)}`);
+}
+
+// Only run when invoked directly, not when imported by check-idl.ts
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  main();
+}
@@ -0,0 +1,103 @@
+import { ChangeEvent, useRef } from 'react';
+import { FileText, Paperclip, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import {
+  ATTACHMENT_CONTENT_TYPES,
+  formatFileSize,
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENTS,
+  validateAttachments,
+} from '@/utils/attachmentService';
+import { describeError } from '@/utils/errors';
+
+interface AttachmentPickerProps {
+  files: File[];
+  onChange: (files: File[]) => void;
+  disabled?: boolean;
+}
+
+// File types offered in the picker; code files are checked by extension when added
+const ACCEPT = [...ATTACHMENT_CONTENT_TYPES, '.md', '.ts', '.tsx', '.js', '.jsx', '.py', '.rs', '.go', '.sol'].join(',');
+
+// Choose files to send with a message. Files that break the limits are refused
+// straight away rather than when the message is sent.
+const AttachmentPicker = ({ files, onChange, disabled = false }: AttachmentPickerProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const handleSelect = (event: ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files || []);
+    // Let the same file be picked again after it's removed
+    event.target.value = '';
+    if (selected.length === 0) return;
+
+    const next = [...files, ...selected];
+    try {
+      validateAttachments(next);
+      onChange(next);
+    } catch (error) {
+      toast({
+        ...describeError(error, 'Attachment Problem'),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRemove = (index: number) => {
+    onChange(files.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => inputRef.current?.click()}
+          disabled={disabled || files.length >= MAX_ATTACHMENTS}
+        >
+          <Paperclip className="h-4 w-4 mr-1" /> Attach Files
+        </Button>
+        <p className="text-xs text-muted-foreground">
+          Up to {MAX_ATTACHMENTS} files, {formatFileSize(MAX_ATTACHMENT_BYTES)} each
+        </p>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={ACCEPT}
+          className="hidden"
+          onChange={handleSelect}
+        />
+      </div>
+      {files.length > 0 && (
+        <ul className="space-y-1">
+          {files.map((file, index) => (
+            <li key={`${file.name}-${index}`} className="flex items-center justify-between rounded-md border border-border/50 px-2 py-1 text-sm">
+              <span className="flex items-center min-w-0">
+                <FileText className="h-4 w-4 mr-2 shrink-0 text-muted-foreground" />
+                <span className="truncate">{file.name}</span>
+                <span className="ml-2 text-xs text-muted-foreground shrink-0">{formatFileSize(file.size)}</span>
+              </span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => handleRemove(index)}
+                disabled={disabled}
+                aria-label={`Remove ${file.name}`}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AttachmentPicker;
@@ -0,0 +1,180 @@
+import { FormEvent, useState } from 'react';
+import { Check, ChevronDown, Server } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from '@/components/ui/use-toast';
+import { useCluster } from '@/hooks/useCluster';
+import { resetActiveCluster, setActiveCluster } from '@/utils/activeCluster';
+import { CLUSTER_PRESETS, ClusterSettings } from '@/utils/clusterConfig';
+
+const ClusterSelector = () => {
+  const cluster = useCluster();
+
+  const [isCustomDialogOpen, setIsCustomDialogOpen] = useState(false);
+  const [customRpcUrl, setCustomRpcUrl] = useState('');
+  const [customFallbackRpcUrls, setCustomFallbackRpcUrls] = useState('');
+  const [customProgramId, setCustomProgramId] = useState('');
+
+  const switchCluster = (settings: ClusterSettings): boolean => {
+    try {
+      const selected = setActiveCluster(settings);
+      toast({
+        title: 'Cluster Switched',
+        description: `Now using ${selected.label} (${selected.rpcUrl})`,
+      });
+      return true;
+    } catch (error) {
+      console.error('Failed to switch cluster:', error);
+      toast({
+        title: 'Invalid Cluster Settings',
+        description: error instanceof Error ? error.message : 'Failed to switch cluster',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  const openCustomDialog = () => {
+    setCustomRpcUrl(cluster.name === 'custom' ? cluster.rpcUrl : '');
+    setCustomFallbackRpcUrls(cluster.name === 'custom' ? cluster.fallbackRpcUrls.join(', ') : '');
+    setCustomProgramId(cluster.programId);
+    setIsCustomDialogOpen(true);
+  };
+
+  const handleCustomSubmit = (e: FormEvent) => {
+    e.preventDefault();
+
+    const switched = switchCluster({
+      cluster: 'custom',
+      rpcUrl: customRpcUrl.trim(),
+      fallbackRpcUrls: customFallbackRpcUrls.split(',').map(url => url.trim()).filter(Boolean),
+      programId: customProgramId.trim() || undefined,
+    });
+
+    if (switched) {
+      setIsCustomDialogOpen(false);
+    }
+  };
+
+  const handleReset = () => {
+    const selected = resetActiveCluster();
+    toast({
+      title: 'Cluster Reset',
+      description: `Now using ${selected.label} (${selected.rpcUrl})`,
+    });
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="flex items-center space-x-1">
+            <Server className="h-4 w-4" />
+            <span className="hidden sm:inline text-sm">{cluster.label}</span>
+            <ChevronDown className="h-3 w-3 text-muted-foreground" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64 neo-glass">
+          <DropdownMenuLabel>
+            <div className="text-xs font-medium text-muted-foreground">RPC endpoint</div>
+            <div className="text-xs font-mono truncate">{cluster.rpcUrl}</div>
+          </DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {Object.values(CLUSTER_PRESETS).map((preset) => (
+            <DropdownMenuItem
+              key={preset.name}
+              onClick={() => switchCluster({ cluster: preset.name })}
+              className="cursor-pointer"
+            >
+              {cluster.name === preset.name ? (
+                <Check className="mr-2 h-4 w-4" />
+              ) : (
+                <span className="mr-2 w-4" />
+              )}
+              <span>{preset.label}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuItem onClick={openCustomDialog} className="cursor-pointer">
+            {cluster.name === 'custom' ? (
+              <Check className="mr-2 h-4 w-4" />
+            ) : (
+              <span className="mr-2 w-4" />
+            )}
+            <span>Custom RPC...</span>
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={handleReset} className="cursor-pointer text-muted-foreground">
+            Reset to default
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isCustomDialogOpen} onOpenChange={setIsCustomDialogOpen}>
+        <DialogContent className="sm:max-w-md neo-glass">
+          <form onSubmit={handleCustomSubmit}>
+            <DialogHeader>
+              <DialogTitle>Custom RPC</DialogTitle>
+              <DialogDescription>
+                Point the app at any Solana-compatible RPC endpoint
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="custom-rpc-url">RPC URL</Label>
+                <Input
+                  id="custom-rpc-url"
+                  placeholder="http://127.0.0.1:8899"
+                  value={customRpcUrl}
+                  onChange={(e) => setCustomRpcUrl(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="custom-fallback-rpc-urls">Fallback RPC URLs (comma separated)</Label>
+                <Input
+                  id="custom-fallback-rpc-urls"
+                  value={customFallbackRpcUrls}
+                  onChange={(e) => setCustomFallbackRpcUrls(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="custom-program-id">Program ID</Label>
+                <Input
+                  id="custom-program-id"
+                  className="font-mono text-xs"
+                  value={customProgramId}
+                  onChange={(e) => setCustomProgramId(e.target.value)}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsCustomDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">Connect</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default ClusterSelector;
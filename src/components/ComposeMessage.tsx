@@ -9,12 +9,29 @@ import { Slider } from '@/components/ui/slider';
 import { toast } from '@/components/ui/use-toast';
 import { formatAmount } from '@/utils/mockData';
 import { useWallet } from '@/contexts/WalletContext';
-import { createMessagePayment } from '@/utils/anchorClient';
+import { createMessagePayment, scheduleMessagePayment } from '@/utils/anchorClient';
+import { getExplorerTxUrl } from '@/utils/activeCluster';
+import { EXPIRY_OPTIONS, DEFAULT_EXPIRY_OPTION, getExpiryDate, getPaymentAmountRange } from '@/utils/messageService';
 import { supabase } from "@/integrations/supabase/client";
+import { describeError } from '@/utils/errors';
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { usePaymentCost } from '@/hooks/usePaymentCost';
+import PaymentCostBreakdown from '@/components/PaymentCostBreakdown';
+import PaymentCurrencySelect from '@/components/PaymentCurrencySelect';
+import RequireReplyToggle from '@/components/RequireReplyToggle';
+import DraftSavedHint from '@/components/DraftSavedHint';
+import AttachmentPicker from '@/components/AttachmentPicker';
+import RecipientEncryptionHint from '@/components/RecipientEncryptionHint';
+import ScheduleSendPicker from '@/components/ScheduleSendPicker';
+import { useMessageDraft } from '@/hooks/useMessageDraft';
+import { parseSendAtInput } from '@/utils/scheduledMessageService';
+import { fromBaseUnits, PaymentToken, SOL_CURRENCY } from '@/utils/tokens';
 
 interface ComposeMessageProps {
   onSuccess?: () => void;
   preselectedRecipient?: string;
+  // Recipient to start with when continuing a draft; unlike preselectedRecipient it can be changed
+  initialRecipient?: string;
   streamlined?: boolean;
 }
 
@@ -23,16 +40,54 @@ interface Profile {
   username: string;
   wallet_address: string;
   avatar_url?: string;
+  encryption_public_key?: string | null;
 }
 
-const ComposeMessage = ({ onSuccess, preselectedRecipient, streamlined }: ComposeMessageProps) => {
-  const [recipient, setRecipient] = useState<string>(preselectedRecipient || '');
+const ComposeMessage = ({ onSuccess, preselectedRecipient, initialRecipient, streamlined }: ComposeMessageProps) => {
+  const [recipient, setRecipient] = useState<string>(preselectedRecipient || initialRecipient || '');
   const [message, setMessage] = useState<string>('');
   const [amount, setAmount] = useState<number>(0.5);
+  const [expiry, setExpiry] = useState<string>(DEFAULT_EXPIRY_OPTION);
+  const [requiresReply, setRequiresReply] = useState<boolean>(false);
+  const [attachments, setAttachments] = useState<File[]>([]);
+  // datetime-local value when the message is scheduled instead of sent now
+  const [sendAtValue, setSendAtValue] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
   const [profiles, setProfiles] = useState<Profile[]>([]);
   const [isLoadingProfiles, setIsLoadingProfiles] = useState<boolean>(false);
   const { isConnected, getAnchorWallet, balance, refreshBalance } = useWallet();
+  const recipientProfile = profiles.find(p => p.username === recipient);
+  const recipientWalletAddress = recipientProfile?.wallet_address;
+  const [paymentToken, setPaymentToken] = useState<PaymentToken | null>(null);
+  const currency = paymentToken?.symbol || SOL_CURRENCY;
+  const amountRange = getPaymentAmountRange(currency);
+  const paymentCost = usePaymentCost(recipientWalletAddress, amount, expiry, paymentToken);
+  const { savedAt: draftSavedAt, clearDraft } = useMessageDraft(
+    recipientProfile,
+    { content: message, amount, currency, mint: paymentToken?.mint || null, expiry, requiresReply },
+    (draft, token) => {
+      setMessage(draft.content);
+      setPaymentToken(token);
+      // A draft paid in a token this cluster no longer accepts falls back to SOL
+      setAmount(token || !draft.mint ? draft.amount : getPaymentAmountRange(SOL_CURRENCY).max / 2);
+      setExpiry(draft.expiry || DEFAULT_EXPIRY_OPTION);
+      setRequiresReply(draft.requiresReply);
+    }
+  );
+
+  // Start each currency in the middle of its slider range
+  const handlePaymentTokenChange = (token: PaymentToken | null) => {
+    setPaymentToken(token);
+    setAmount(getPaymentAmountRange(token?.symbol || SOL_CURRENCY).max / 2);
+  };
+
+  // Scheduled messages are signed ahead of time and can't carry attachments
+  const handleSendAtChange = (value: string | null) => {
+    setSendAtValue(value);
+    if (value !== null) {
+      setAttachments([]);
+    }
+  };
 
   // Fetch profiles from the database
   useEffect(() => {
@@ -41,7 +96,7 @@ const ComposeMessage = ({ onSuccess, preselectedRecipient, streamlined }: Compos
       try {
         const { data, error } = await supabase
           .from('profiles')
-          .select('id, username, wallet_address, avatar_url')
+          .select('id, username, wallet_address, avatar_url, encryption_public_key')
           .order('username');
         
         if (error) {
@@ -90,21 +145,40 @@ const ComposeMessage = ({ onSuccess, preselectedRecipient, streamlined }: Compos
       return;
     }
     
+    const sendAt = sendAtValue !== null ? parseSendAtInput(sendAtValue) : null;
+    if (sendAtValue !== null && !sendAt) {
+      toast({
+        title: 'Invalid Send Time',
+        description: 'Pick a time at least a few minutes from now to schedule the message.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    
     // Refresh wallet balance before checking
     await refreshBalance();
     
-    // Check if the wallet has enough balance (with a small buffer for fees)
-    if (balance < amount + 0.01) {
+    // Check the wallet covers the amount plus escrow rent and fees; createMessagePayment
+    // re-checks against a fresh estimate if this one isn't ready yet
+    const { cost } = paymentCost;
+    if (cost && balance * LAMPORTS_PER_SOL < cost.totalLamports) {
       toast({
         title: 'Insufficient Balance',
-        description: `Your wallet balance (${balance.toFixed(2)} SOL) is too low for this transaction. You need at least ${(amount + 0.01).toFixed(2)} SOL.`,
+        description: `Your wallet balance (${formatAmount(balance)}) is too low for this transaction. You need ${formatAmount(cost.totalLamports / LAMPORTS_PER_SOL)} including escrow rent and fees.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    if (cost?.token && cost.token.balanceBaseUnits < cost.token.amountBaseUnits) {
+      toast({
+        title: 'Insufficient Balance',
+        description: `Your ${cost.token.symbol} balance (${formatAmount(fromBaseUnits(cost.token.balanceBaseUnits, cost.token.decimals), cost.token.symbol)}) is too low for this payment.`,
         variant: 'destructive',
       });
       return;
     }
     
     // Get the recipient's address from the profiles
-    const recipientProfile = profiles.find(p => p.username === recipient);
     if (!recipientProfile || !recipientProfile.wallet_address) {
       toast({
         title: 'Invalid Recipient',
@@ -125,23 +199,39 @@ const ComposeMessage = ({ onSuccess, preselectedRecipient, streamlined }: Compos
         throw new Error('Failed to get wallet');
       }
       
-      // Create the message payment with escrow (instead of direct transfer)
-      const tx = await createMessagePayment(wallet, recipientAddress, amount, message);
-      
-      toast({
-        title: 'Message Sent',
-        description: `Your message to @${recipient} has been sent with ${formatAmount(amount)}. It is pending approval.`,
-      });
+      if (sendAt) {
+        // Sign the payment now; it is sent at the scheduled time
+        await scheduleMessagePayment(wallet, recipientAddress, amount, message, sendAt, getExpiryDate(expiry, sendAt), undefined, paymentToken, requiresReply);
+        
+        toast({
+          title: 'Message Scheduled',
+          description: `Your message to @${recipient} with ${formatAmount(amount, currency)} will be sent ${sendAt.toLocaleString()}. Find it in the Scheduled tab of your inbox.`,
+        });
+      } else {
+        // Create the message payment with escrow (instead of direct transfer)
+        const tx = await createMessagePayment(wallet, recipientAddress, amount, message, getExpiryDate(expiry), undefined, paymentToken, requiresReply, attachments);
+        
+        toast({
+          title: 'Message Sent',
+          description: `Your message to @${recipient} has been sent with ${formatAmount(amount, currency)}. It is pending approval.`,
+        });
+        
+        console.log('Transaction signature:', tx);
+        console.log(getExplorerTxUrl(tx));
+      }
       
-      console.log('Transaction signature:', tx);
-      console.log("https://explorer.sonic.game/tx/" + tx);
+      await clearDraft();
       
       // Reset form
       if (!preselectedRecipient) {
         setRecipient('');
       }
       setMessage('');
-      setAmount(0.5);
+      setAmount(amountRange.max / 2);
+      setExpiry(DEFAULT_EXPIRY_OPTION);
+      setRequiresReply(false);
+      setAttachments([]);
+      setSendAtValue(null);
       
       // Call success callback
       if (onSuccess) {
@@ -150,34 +240,8 @@ const ComposeMessage = ({ onSuccess, preselectedRecipient, streamlined }: Compos
     } catch (error) {
       console.error('Error sending payment:', error);
       
-      // Improved error handling
-      let errorMessage = 'Failed to send payment. Please try again.';
-      let errorTitle = 'Transaction Failed';
-      
-      if (error instanceof Error) {
-        const errorText = error.message;
-        
-        if (errorText.includes('Insufficient funds')) {
-          errorTitle = 'Insufficient Funds';
-          errorMessage = 'You don\'t have enough SOL in your wallet. Please add more funds and try again.';
-        } else if (errorText.includes('User rejected')) {
-          errorTitle = 'Transaction Rejected';
-          errorMessage = 'Transaction was rejected by your wallet.';
-        } else if (errorText.includes('seeds constraint') || errorText.includes('ConstraintSeeds')) {
-          errorTitle = 'Technical Error';
-          errorMessage = 'There was a technical issue with the transaction. Please try again with a different message or amount.';
-        } else if (errorText.includes('network error')) {
-          errorTitle = 'Network Error';
-          errorMessage = 'Connection to the blockchain failed. Please check your internet connection and try again.';
-        } else {
-          // For other errors, use the original message but clean it up
-          errorMessage = errorText.replace('Error: ', '');
-        }
-      }
-      
       toast({
-        title: errorTitle,
-        description: errorMessage,
+        ...describeError(error),
         variant: 'destructive',
       });
     } finally {
@@ -197,35 +261,72 @@ const ComposeMessage = ({ onSuccess, preselectedRecipient, streamlined }: Compos
             value={message}
             onChange={(e) => setMessage(e.target.value)}
           />
-          <p className="text-xs text-muted-foreground text-right">
-            {message.length} characters
-          </p>
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <DraftSavedHint savedAt={draftSavedAt} />
+            <span>{message.length} characters</span>
+          </div>
+          {recipientProfile && (
+            <RecipientEncryptionHint username={recipientProfile.username} publicKey={recipientProfile.encryption_public_key} />
+          )}
         </div>
+
+        {sendAtValue === null && (
+          <AttachmentPicker files={attachments} onChange={setAttachments} disabled={isSubmitting} />
+        )}
         
+        <PaymentCurrencySelect value={paymentToken} onChange={handlePaymentTokenChange} />
+
         <div className="space-y-4">
           <div className="space-y-2">
-            <Label htmlFor="amount">Payment Amount ({formatAmount(amount)})</Label>
+            <Label htmlFor="amount">Payment Amount ({formatAmount(amount, currency)})</Label>
             <Slider
               id="amount"
               min={0}
-              max={1}
-              step={0.001}
+              max={amountRange.max}
+              step={amountRange.step}
               value={[amount]}
               onValueChange={(values) => setAmount(values[0])}
             />
           </div>
           <div className="flex justify-between text-sm text-muted-foreground">
-            <span>{formatAmount(0)}</span>
-            <span>{formatAmount(1)}</span>
+            <span>{formatAmount(0, currency)}</span>
+            <span>{formatAmount(amountRange.max, currency)}</span>
           </div>
         </div>
         
+        <div className="space-y-2">
+          <Label htmlFor="expiry">Refund If Unanswered After</Label>
+          <Select value={expiry} onValueChange={setExpiry}>
+            <SelectTrigger id="expiry" className="glass-input">
+              <SelectValue placeholder="Select a deadline" />
+            </SelectTrigger>
+            <SelectContent className="glass-panel">
+              {EXPIRY_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            If the recipient hasn't responded by then, you can reclaim your payment.
+          </p>
+        </div>
+
+        <RequireReplyToggle checked={requiresReply} onCheckedChange={setRequiresReply} />
+
+        <ScheduleSendPicker value={sendAtValue} onChange={handleSendAtChange} disabled={isSubmitting} />
+
+        <PaymentCostBreakdown estimate={paymentCost} />
+        
         <Button 
           type="submit" 
           className="w-full bg-primary hover:bg-primary/90 transition-all duration-300 shadow-button"
           disabled={isSubmitting}
         >
-          {isSubmitting ? 'Sending...' : 'Send Message with Payment'}
+          {isSubmitting
+            ? (sendAtValue !== null ? 'Scheduling...' : 'Sending...')
+            : (sendAtValue !== null ? 'Schedule Message with Payment' : 'Send Message with Payment')}
         </Button>
       </form>
     );
@@ -285,28 +386,63 @@ const ComposeMessage = ({ onSuccess, preselectedRecipient, streamlined }: Compos
               value={message}
               onChange={(e) => setMessage(e.target.value)}
             />
-            <p className="text-xs text-muted-foreground text-right">
-              {message.length} characters
-            </p>
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <DraftSavedHint savedAt={draftSavedAt} />
+              <span>{message.length} characters</span>
+            </div>
+            {recipientProfile && (
+              <RecipientEncryptionHint username={recipientProfile.username} publicKey={recipientProfile.encryption_public_key} />
+            )}
           </div>
 
+          {sendAtValue === null && (
+            <AttachmentPicker files={attachments} onChange={setAttachments} disabled={isSubmitting} />
+          )}
+
+          <PaymentCurrencySelect value={paymentToken} onChange={handlePaymentTokenChange} />
+
           <div className="space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="amount">Payment Amount ({formatAmount(amount)})</Label>
+              <Label htmlFor="amount">Payment Amount ({formatAmount(amount, currency)})</Label>
               <Slider
                 id="amount"
                 min={0}
-                max={1}
-                step={0.001}
+                max={amountRange.max}
+                step={amountRange.step}
                 value={[amount]}
                 onValueChange={(values) => setAmount(values[0])}
               />
             </div>
             <div className="flex justify-between text-sm text-muted-foreground">
-              <span>{formatAmount(0)}</span>
-              <span>{formatAmount(1)}</span>
+              <span>{formatAmount(0, currency)}</span>
+              <span>{formatAmount(amountRange.max, currency)}</span>
             </div>
           </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="expiry">Refund If Unanswered After</Label>
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger id="expiry" className="glass-input">
+                <SelectValue placeholder="Select a deadline" />
+              </SelectTrigger>
+              <SelectContent className="glass-panel">
+                {EXPIRY_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              If the recipient hasn't responded by then, you can reclaim your payment.
+            </p>
+          </div>
+
+          <RequireReplyToggle checked={requiresReply} onCheckedChange={setRequiresReply} />
+
+          <ScheduleSendPicker value={sendAtValue} onChange={handleSendAtChange} disabled={isSubmitting} />
+
+          <PaymentCostBreakdown estimate={paymentCost} />
         </CardContent>
 
         <CardFooter>
@@ -317,11 +453,11 @@ const ComposeMessage = ({ onSuccess, preselectedRecipient, streamlined }: Compos
           >
             {isSubmitting ? (
               <span className="flex items-center gap-2">
-                <span className="animate-spin">⏳</span> Sending...
+                <span className="animate-spin">⏳</span> {sendAtValue !== null ? 'Scheduling...' : 'Sending...'}
               </span>
             ) : (
               <span className="flex items-center gap-2">
-                <Send className="h-4 w-4" /> Send Message with Payment
+                <Send className="h-4 w-4" /> {sendAtValue !== null ? 'Schedule Message with Payment' : 'Send Message with Payment'}
               </span>
             )}
           </Button>
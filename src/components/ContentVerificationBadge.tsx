@@ -0,0 +1,55 @@
+import { Loader2, ShieldAlert, ShieldCheck, ShieldQuestion } from 'lucide-react';
+import type { ContentVerification } from '@/utils/contentCommitment';
+
+interface ContentVerificationBadgeProps {
+  verification: ContentVerification | null;
+  isVerifying: boolean;
+  className?: string;
+}
+
+// One-line result of checking a message's content against its on-chain hash
+const ContentVerificationBadge = ({ verification, isVerifying, className = '' }: ContentVerificationBadgeProps) => {
+  if (isVerifying) {
+    return (
+      <div className={`text-xs text-muted-foreground flex items-center ${className}`}>
+        <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+        Verifying content against chain...
+      </div>
+    );
+  }
+
+  switch (verification) {
+    case 'verified':
+      return (
+        <div className={`text-xs text-green-500 flex items-center ${className}`}>
+          <ShieldCheck className="h-3 w-3 mr-1" />
+          Content verified against chain
+        </div>
+      );
+    case 'mismatch':
+      return (
+        <div className={`text-xs text-red-500 flex items-center ${className}`}>
+          <ShieldAlert className="h-3 w-3 mr-1" />
+          This content doesn't match the hash committed on chain when the message was paid for
+        </div>
+      );
+    case 'uncommitted':
+      return (
+        <div className={`text-xs text-muted-foreground flex items-center ${className}`}>
+          <ShieldQuestion className="h-3 w-3 mr-1" />
+          Sent before content was committed on chain
+        </div>
+      );
+    case 'unavailable':
+      return (
+        <div className={`text-xs text-muted-foreground flex items-center ${className}`}>
+          <ShieldQuestion className="h-3 w-3 mr-1" />
+          Couldn't verify content against chain
+        </div>
+      );
+    default:
+      return null;
+  }
+};
+
+export default ContentVerificationBadge;
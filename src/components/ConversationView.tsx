@@ -0,0 +1,143 @@
+import { KeyboardEvent, useCallback, useEffect, useRef, useState } from 'react';
+import { Loader2, Send } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { useWallet } from '@/contexts/WalletContext';
+import { formatDate } from '@/utils/mockData';
+import type { MessageData } from '@/utils/messageService';
+import { fetchThread, MAX_REPLY_LENGTH, sendReply } from '@/utils/threadService';
+
+interface ConversationViewProps {
+  // The paid message that started the conversation
+  message: MessageData;
+  // Which side of the paid message the current user is on
+  direction: 'received' | 'sent';
+  // Put the cursor in the reply box straight away, e.g. after clicking Reply
+  autoFocus?: boolean;
+  className?: string;
+}
+
+// Replies under a paid message, oldest first, with a box for writing the next one
+const ConversationView = ({ message, direction, autoFocus = false, className = '' }: ConversationViewProps) => {
+  const [replies, setReplies] = useState<MessageData[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [draft, setDraft] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const listEndRef = useRef<HTMLDivElement>(null);
+  const { walletAddress, isConnected } = useWallet();
+  const { toast } = useToast();
+
+  const myProfileId = direction === 'received' ? message.recipient_id : message.sender_id;
+
+  const loadReplies = useCallback(async () => {
+    try {
+      const thread = await fetchThread(message.id);
+      setReplies(thread.filter(reply => reply.parent_message_id === message.id));
+    } catch (error) {
+      console.error('Error loading conversation:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [message.id]);
+
+  useEffect(() => {
+    loadReplies();
+  }, [loadReplies]);
+
+  useEffect(() => {
+    if (autoFocus) {
+      textareaRef.current?.focus();
+    }
+  }, [autoFocus]);
+
+  // Keep the newest reply in view
+  useEffect(() => {
+    listEndRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [replies.length]);
+
+  const handleSend = async () => {
+    if (!draft.trim() || isSending) return;
+
+    if (!isConnected || !walletAddress) {
+      toast({
+        title: 'Wallet Not Connected',
+        description: 'Please connect your wallet to reply.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSending(true);
+    try {
+      const reply = await sendReply(message, walletAddress, draft);
+      setReplies(current => [...current, reply]);
+      setDraft('');
+    } catch (error) {
+      console.error('Error sending reply:', error);
+      toast({
+        title: 'Reply Not Sent',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    // Cmd/Ctrl+Enter sends; plain Enter adds a new line
+    if (event.key === 'Enter' && (event.metaKey || event.ctrlKey)) {
+      event.preventDefault();
+      handleSend();
+    }
+  };
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      {isLoading ? (
+        <p className="text-xs text-muted-foreground flex items-center">
+          <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+          Loading conversation...
+        </p>
+      ) : replies.length > 0 && (
+        <div className="space-y-2 max-h-64 overflow-y-auto pr-1">
+          {replies.map(reply => {
+            const isMine = reply.sender_id === myProfileId;
+            return (
+              <div key={reply.id} className={`flex ${isMine ? 'justify-end' : 'justify-start'}`}>
+                <div className={`max-w-[85%] rounded-lg px-3 py-2 ${isMine ? 'bg-primary/10' : 'bg-muted'}`}>
+                  <p className="text-sm whitespace-pre-wrap break-words">{reply.content}</p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {isMine ? 'You' : `@${reply.senderUsername}`} · {formatDate(reply.created_at)}
+                    {reply.id === message.answer?.id && ' · Answer'}
+                  </p>
+                </div>
+              </div>
+            );
+          })}
+          <div ref={listEndRef} />
+        </div>
+      )}
+
+      <div className="flex items-end gap-2">
+        <Textarea
+          ref={textareaRef}
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={direction === 'received' ? 'Write a reply...' : 'Write a follow-up...'}
+          maxLength={MAX_REPLY_LENGTH}
+          className="min-h-[60px] resize-none"
+          disabled={isSending}
+        />
+        <Button size="icon" onClick={handleSend} disabled={isSending || !draft.trim()} aria-label="Send reply">
+          {isSending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ConversationView;
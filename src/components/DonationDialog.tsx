@@ -6,6 +6,10 @@ import { Label } from "@/components/ui/label";
 import { Heart, CheckCircle, XCircle, Loader2, Info } from "lucide-react";
 import { DEFAULT_DONATION_ADDRESS, processDonation, CHARITY_ORGANIZATIONS } from '@/utils/donationService';
 import { useWallet } from '@/contexts/WalletContext';
+import { getExplorerTxUrl } from '@/utils/activeCluster';
+import type { TransactionEvent } from '@/utils/transactionSender';
+import TransactionProgress from '@/components/TransactionProgress';
+import { describeError } from '@/utils/errors';
 import { toast } from '@/components/ui/use-toast';
 import {
   Select,
@@ -44,6 +48,7 @@ export const DonationDialog: React.FC<DonationDialogProps> = ({
   const [isProcessing, setIsProcessing] = useState(false);
   const [isDonationComplete, setIsDonationComplete] = useState(false);
   const [txSignature, setTxSignature] = useState<string | null>(null);
+  const [txEvent, setTxEvent] = useState<TransactionEvent | null>(null);
   
   // Update donation amount when the prop changes
   React.useEffect(() => {
@@ -59,6 +64,7 @@ export const DonationDialog: React.FC<DonationDialogProps> = ({
   
   const handleDonate = async () => {
     setIsProcessing(true);
+    setTxEvent(null);
     
     try {
       const wallet = getAnchorWallet();
@@ -76,6 +82,7 @@ export const DonationDialog: React.FC<DonationDialogProps> = ({
         amountSol: donationAmount,
         donationAddress: selectedCharity,
         messageId,
+        onTransactionEvent: setTxEvent,
         onSuccess: (sig) => {
           setTxSignature(sig);
           setIsDonationComplete(true);
@@ -92,8 +99,7 @@ export const DonationDialog: React.FC<DonationDialogProps> = ({
         },
         onError: (error) => {
           toast({
-            title: "Donation Failed",
-            description: `Error: ${error.message}`,
+            ...describeError(error, "Donation Failed"),
             variant: "destructive"
           });
         }
@@ -105,8 +111,7 @@ export const DonationDialog: React.FC<DonationDialogProps> = ({
     } catch (error) {
       console.error("Donation error:", error);
       toast({
-        title: "Donation Failed",
-        description: `Error: ${(error as Error).message}`,
+        ...describeError(error, "Donation Failed"),
         variant: "destructive"
       });
     } finally {
@@ -130,6 +135,7 @@ export const DonationDialog: React.FC<DonationDialogProps> = ({
       setTimeout(() => {
         setIsDonationComplete(false);
         setTxSignature(null);
+        setTxEvent(null);
       }, 300);
     }
   }, [open]);
@@ -228,6 +234,8 @@ export const DonationDialog: React.FC<DonationDialogProps> = ({
                 {selectedCharity}
               </div>
             </div>
+            
+            <TransactionProgress event={txEvent} />
           </div>
         ) : (
           <div className="py-6 flex flex-col items-center justify-center space-y-4">
@@ -239,7 +247,7 @@ export const DonationDialog: React.FC<DonationDialogProps> = ({
               </p>
               {txSignature && (
                 <a 
-                  href={`https://explorer.sonic.game/tx/${txSignature}`}
+                  href={getExplorerTxUrl(txSignature)}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="text-xs text-accent underline"
@@ -247,6 +255,8 @@ export const DonationDialog: React.FC<DonationDialogProps> = ({
                   View transaction
                 </a>
               )}
+              {/* Keeps updating after confirmation until the transaction is finalized */}
+              <TransactionProgress event={txEvent} className="justify-center" showExplorerLink={false} />
             </div>
           </div>
         )}
@@ -0,0 +1,20 @@
+import { Check } from 'lucide-react';
+
+interface DraftSavedHintProps {
+  // When the draft was last saved; null if there is nothing saved
+  savedAt: string | null;
+}
+
+// Quiet confirmation under the message box that the draft is being kept
+const DraftSavedHint = ({ savedAt }: DraftSavedHintProps) => {
+  if (!savedAt) return <span />;
+
+  return (
+    <span className="flex items-center" title={new Date(savedAt).toLocaleString()}>
+      <Check className="h-3 w-3 mr-1" />
+      Draft saved
+    </span>
+  );
+};
+
+export default DraftSavedHint;
@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { PenLine, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useWallet } from '@/contexts/WalletContext';
+import { deleteDraft, fetchDrafts, MessageDraft } from '@/utils/draftService';
+import { formatAmount, formatDate } from '@/utils/mockData';
+
+// Inbox tab listing messages that were started but never paid for and sent
+const DraftsList = () => {
+  const { walletAddress } = useWallet();
+  const navigate = useNavigate();
+  const [drafts, setDrafts] = useState<MessageDraft[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [discardingId, setDiscardingId] = useState<string | null>(null);
+
+  const loadDrafts = useCallback(async () => {
+    try {
+      setDrafts(await fetchDrafts(walletAddress));
+    } catch (error) {
+      console.error('Error loading drafts:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [walletAddress]);
+
+  useEffect(() => {
+    loadDrafts();
+  }, [loadDrafts]);
+
+  const handleContinue = (draft: MessageDraft) => {
+    navigate(`/compose?to=${encodeURIComponent(draft.recipientUsername)}`);
+  };
+
+  const handleDiscard = async (draft: MessageDraft) => {
+    setDiscardingId(draft.recipientId);
+    await deleteDraft(draft.recipientId, walletAddress);
+    setDiscardingId(null);
+    loadDrafts();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="glass-panel rounded-lg p-8 text-center">
+        <p className="text-muted-foreground animate-pulse">Loading drafts...</p>
+      </div>
+    );
+  }
+
+  if (drafts.length === 0) {
+    return (
+      <div className="glass-panel rounded-lg p-8 text-center">
+        <p className="text-muted-foreground">No drafts. Messages you start writing are saved here until you send them.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 gap-4">
+      {drafts.map(draft => (
+        <div key={draft.recipientId} className="glass-panel rounded-lg p-4 space-y-2 animate-scale-in">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium">
+              To @{draft.recipientUsername}
+              <span className="text-muted-foreground font-normal"> · {formatAmount(draft.amount, draft.currency)}</span>
+            </p>
+            <p className="text-xs text-muted-foreground">{formatDate(draft.updatedAt)}</p>
+          </div>
+          <p className="text-sm text-muted-foreground line-clamp-2 whitespace-pre-wrap">{draft.content}</p>
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleDiscard(draft)}
+              disabled={discardingId === draft.recipientId}
+            >
+              <Trash2 className="h-4 w-4 mr-1" /> Discard
+            </Button>
+            <Button size="sm" onClick={() => handleContinue(draft)}>
+              <PenLine className="h-4 w-4 mr-1" /> Continue
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default DraftsList;
@@ -0,0 +1,62 @@
+import { MouseEvent } from 'react';
+import { Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { useEncryption } from '@/hooks/useEncryption';
+import type { EncryptionState } from '@/utils/encryptionService';
+import { describeError } from '@/utils/errors';
+
+interface EncryptedMessageNoticeProps {
+  encryption: EncryptionState;
+  // Compact cards only show the label, without the unlock button
+  compact?: boolean;
+  className?: string;
+}
+
+// Marks end-to-end encrypted content. Locked content gets a placeholder and, while the
+// key is locked, a button to unlock it; lists refetch and decrypt once it is.
+const EncryptedMessageNotice = ({ encryption, compact = false, className = '' }: EncryptedMessageNoticeProps) => {
+  const { isUnlocked, isWorking, unlock } = useEncryption(false);
+  const { toast } = useToast();
+
+  if (encryption === 'decrypted') {
+    return (
+      <p className={`text-xs text-muted-foreground flex items-center ${className}`}>
+        <Lock className="h-3 w-3 mr-1" />
+        End-to-end encrypted
+      </p>
+    );
+  }
+
+  const handleUnlock = async (event: MouseEvent) => {
+    // Cards open their message when clicked
+    event.stopPropagation();
+    try {
+      await unlock();
+    } catch (error) {
+      console.error('Failed to unlock encryption:', error);
+      toast({
+        ...describeError(error, 'Encryption Problem'),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className={`flex items-center justify-between gap-2 text-sm text-muted-foreground ${className}`}>
+      <span className="flex items-center italic min-w-0">
+        <Lock className="h-3 w-3 mr-1 shrink-0" />
+        <span className="truncate">
+          {isUnlocked ? "Encrypted message you don't have a key for" : 'Encrypted message'}
+        </span>
+      </span>
+      {!compact && !isUnlocked && (
+        <Button variant="outline" size="sm" className="h-7 text-xs" onClick={handleUnlock} disabled={isWorking}>
+          {isWorking ? 'Waiting for wallet...' : 'Unlock'}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default EncryptedMessageNotice;
@@ -0,0 +1,77 @@
+import { Lock, LockOpen, ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { useEncryption } from '@/hooks/useEncryption';
+import { describeError } from '@/utils/errors';
+
+interface EncryptionStatusProps {
+  className?: string;
+}
+
+// Turn on end-to-end encryption for messages to the connected wallet, or unlock the
+// key for this session so encrypted messages can be read
+const EncryptionStatus = ({ className = '' }: EncryptionStatusProps) => {
+  const { isEnabled, isUnlocked, isWorking, unlock, enable } = useEncryption();
+  const { toast } = useToast();
+
+  // Still checking the profile
+  if (isEnabled === null) return null;
+
+  const run = async (action: () => Promise<void>, successTitle: string, successDescription: string) => {
+    try {
+      await action();
+      toast({ title: successTitle, description: successDescription });
+    } catch (error) {
+      console.error('Encryption setup failed:', error);
+      toast({
+        ...describeError(error, 'Encryption Problem'),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleEnable = () => run(
+    enable,
+    'Encryption Turned On',
+    'New messages to you will be end-to-end encrypted.'
+  );
+
+  const handleUnlock = () => run(
+    unlock,
+    'Messages Unlocked',
+    'Your encrypted messages can be read until you disconnect your wallet.'
+  );
+
+  return (
+    <div className={`flex items-center justify-between gap-3 rounded-md border border-border/50 px-3 py-2 text-sm ${className}`}>
+      {!isEnabled ? (
+        <>
+          <span className="flex items-center text-muted-foreground">
+            <LockOpen className="h-4 w-4 mr-2 shrink-0" />
+            Messages to you are not end-to-end encrypted.
+          </span>
+          <Button variant="outline" size="sm" onClick={handleEnable} disabled={isWorking}>
+            {isWorking ? 'Waiting for wallet...' : 'Turn On Encryption'}
+          </Button>
+        </>
+      ) : !isUnlocked ? (
+        <>
+          <span className="flex items-center text-muted-foreground">
+            <Lock className="h-4 w-4 mr-2 shrink-0" />
+            Sign with your wallet to read encrypted messages.
+          </span>
+          <Button variant="outline" size="sm" onClick={handleUnlock} disabled={isWorking}>
+            {isWorking ? 'Waiting for wallet...' : 'Unlock'}
+          </Button>
+        </>
+      ) : (
+        <span className="flex items-center text-muted-foreground">
+          <ShieldCheck className="h-4 w-4 mr-2 shrink-0 text-green-500" />
+          End-to-end encryption is on and your messages are unlocked.
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default EncryptionStatus;
@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { Button } from "@/components/ui/button";
-import { Check, X, Heart, Reply } from "lucide-react";
+import { Check, X, Heart, Reply, Split } from "lucide-react";
 import { MessageData } from "@/utils/messageService";
 import { useWallet } from "@/contexts/WalletContext";
 import DonationDialog from './DonationDialog';
@@ -10,6 +10,8 @@ interface MessageActionButtonsProps {
   message: MessageData;
   isRecipient: boolean;
   onApprove: () => Promise<void>;
+  // Opens the split picker for keeping part of the payment and refunding the rest
+  onPartialApprove?: () => void;
   onReject: () => Promise<void>;
   onReply?: () => void;
 }
@@ -18,6 +20,7 @@ const MessageActionButtons: React.FC<MessageActionButtonsProps> = ({
   message,
   isRecipient,
   onApprove,
+  onPartialApprove,
   onReject,
   onReply
 }) => {
@@ -64,6 +67,16 @@ const MessageActionButtons: React.FC<MessageActionButtonsProps> = ({
               <Check className="h-4 w-4 mr-1" />
               Approve
             </Button>
+            {onPartialApprove && (
+              <Button 
+                size="sm" 
+                variant="outline"
+                onClick={onPartialApprove}
+              >
+                <Split className="h-4 w-4 mr-1" />
+                Keep Part
+              </Button>
+            )}
             <Button 
               size="sm" 
               variant="outline" 
@@ -0,0 +1,97 @@
+import { useEffect, useState } from 'react';
+import { Download, FileText, Loader2 } from 'lucide-react';
+import {
+  formatFileSize,
+  getAttachmentUrl,
+  isImageAttachment,
+  MessageAttachment,
+} from '@/utils/attachmentService';
+
+interface MessageAttachmentsProps {
+  attachments: MessageAttachment[];
+  className?: string;
+}
+
+// Previews of a message's files: thumbnails for images, a download row for the rest.
+// Links are signed on demand, so they only work for the message's sender and recipient.
+const MessageAttachments = ({ attachments, className = '' }: MessageAttachmentsProps) => {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all(attachments.map(async attachment => {
+      try {
+        return [attachment.id, await getAttachmentUrl(attachment.storage_path)] as const;
+      } catch (error) {
+        console.error(`Error loading attachment ${attachment.file_name}:`, error);
+        return null;
+      }
+    })).then(results => {
+      if (cancelled) return;
+      setUrls(Object.fromEntries(results.filter(result => result !== null)));
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [attachments]);
+
+  if (attachments.length === 0) return null;
+
+  const images = attachments.filter(isImageAttachment);
+  const files = attachments.filter(attachment => !isImageAttachment(attachment));
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      {images.length > 0 && (
+        <div className="grid grid-cols-3 gap-2">
+          {images.map(image => (
+            urls[image.id] ? (
+              <a key={image.id} href={urls[image.id]} target="_blank" rel="noopener noreferrer" title={image.file_name}>
+                <img
+                  src={urls[image.id]}
+                  alt={image.file_name}
+                  className="h-24 w-full rounded-md object-cover border border-border/50"
+                />
+              </a>
+            ) : (
+              <div key={image.id} className="h-24 rounded-md bg-muted flex items-center justify-center">
+                {isLoading
+                  ? <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                  : <span className="text-xs text-muted-foreground px-2 truncate">{image.file_name}</span>}
+              </div>
+            )
+          ))}
+        </div>
+      )}
+      {files.map(file => (
+        <div key={file.id} className="flex items-center justify-between rounded-md border border-border/50 px-2 py-1 text-sm">
+          <span className="flex items-center min-w-0">
+            <FileText className="h-4 w-4 mr-2 shrink-0 text-muted-foreground" />
+            <span className="truncate">{file.file_name}</span>
+            <span className="ml-2 text-xs text-muted-foreground shrink-0">{formatFileSize(file.size_bytes)}</span>
+          </span>
+          {urls[file.id] ? (
+            <a
+              href={urls[file.id]}
+              target="_blank"
+              rel="noopener noreferrer"
+              download={file.file_name}
+              className="text-accent"
+              aria-label={`Download ${file.file_name}`}
+            >
+              <Download className="h-4 w-4" />
+            </a>
+          ) : isLoading && (
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default MessageAttachments;
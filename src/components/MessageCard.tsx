@@ -147,7 +147,7 @@ const MessageCard = ({ message, variant = 'full', onMessageUpdated }: MessageCar
         
         toast({
           title: 'Message Approved',
-          description: `You have approved the message and received ${formatAmount(message.amount)}.`,
+          description: `You have approved the message and received ${formatAmount(message.amount, message.currency)}.`,
         });
       } else if (confirmAction === 'reject') {
         // Reject the message payment
@@ -240,7 +240,7 @@ const MessageCard = ({ message, variant = 'full', onMessageUpdated }: MessageCar
               <p className="text-sm text-muted-foreground truncate">{message.content}</p>
               <div className="flex items-center justify-between mt-1">
                 <p className="text-xs text-muted-foreground">{formatDate(messageTimestamp)}</p>
-                <p className="text-xs font-medium">{formatAmount(messageAmount)}</p>
+                <p className="text-xs font-medium">{formatAmount(messageAmount, message.currency)}</p>
               </div>
             </div>
           </div>
@@ -274,7 +274,7 @@ const MessageCard = ({ message, variant = 'full', onMessageUpdated }: MessageCar
               <Clock className="h-3 w-3 mr-1" />
               {formatDate(messageTimestamp)}
             </p>
-            <p className="text-sm font-medium">{formatAmount(messageAmount)}</p>
+            <p className="text-sm font-medium">{formatAmount(messageAmount, message.currency)}</p>
           </div>
         </CardContent>
         <CardFooter className="pt-0">
@@ -336,7 +336,7 @@ const MessageCard = ({ message, variant = 'full', onMessageUpdated }: MessageCar
             <Badge variant="outline" className={`${statusColors}`}>
               {message.status}
             </Badge>
-            <p className="font-medium">{formatAmount(messageAmount)}</p>
+            <p className="font-medium">{formatAmount(messageAmount, message.currency)}</p>
           </div>
           <DialogFooter className="flex sm:justify-between gap-2">
             <Button variant="ghost" onClick={handleClose}>
@@ -375,8 +375,8 @@ const MessageCard = ({ message, variant = 'full', onMessageUpdated }: MessageCar
             </DialogTitle>
             <DialogDescription>
               {confirmAction === 'approve'
-                ? `Are you sure you want to approve this message? You will receive ${formatAmount(messageAmount)}.`
-                : `Are you sure you want to reject this message? The payment of ${formatAmount(messageAmount)} will be returned to the sender.`}
+                ? `Are you sure you want to approve this message? You will receive ${formatAmount(messageAmount, message.currency)}.`
+                : `Are you sure you want to reject this message? The payment of ${formatAmount(messageAmount, message.currency)} will be returned to the sender.`}
             </DialogDescription>
           </DialogHeader>
           <DialogFooter className="flex sm:justify-end gap-2">
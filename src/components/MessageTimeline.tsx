@@ -0,0 +1,94 @@
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { getExplorerTxUrl } from '@/utils/activeCluster';
+import { fetchMessageEvents, MessageEvent } from '@/utils/messageService';
+import { formatDate } from '@/utils/mockData';
+
+interface MessageTimelineProps {
+  // Database id of the message
+  messageId: string;
+  className?: string;
+}
+
+const getEventLabel = (event: MessageEvent): string => {
+  switch (event.to_status) {
+    case 'draft':
+      return event.from_status ? 'Payment failed, back to draft' : 'Saved as draft';
+    case 'submitting':
+      return 'Payment submitted';
+    case 'pending':
+      return 'Sent with payment in escrow';
+    case 'approved':
+      return 'Approved, payment released';
+    case 'rejected':
+      return 'Rejected, payment returned';
+    case 'expired':
+      return 'Expired';
+    case 'refunded':
+      return 'Refunded to sender';
+    case 'donated':
+      return 'Payment donated';
+    default:
+      return event.to_status;
+  }
+};
+
+// Every status change of a message, oldest first
+const MessageTimeline = ({ messageId, className = '' }: MessageTimelineProps) => {
+  const [events, setEvents] = useState<MessageEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchMessageEvents(messageId)
+      .then(history => {
+        if (!cancelled) setEvents(history);
+      })
+      .catch(error => console.error('Error loading message history:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [messageId]);
+
+  if (isLoading) {
+    return (
+      <p className={`text-xs text-muted-foreground flex items-center ${className}`}>
+        <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+        Loading history...
+      </p>
+    );
+  }
+
+  if (events.length === 0) return null;
+
+  return (
+    <ol className={`relative border-l border-border ml-1 space-y-3 ${className}`}>
+      {events.map(event => (
+        <li key={event.id} className="ml-4">
+          <span className="absolute -left-[5px] mt-1.5 h-2.5 w-2.5 rounded-full bg-primary" />
+          <p className="text-sm">{getEventLabel(event)}</p>
+          <p className="text-xs text-muted-foreground">
+            {event.actorUsername ? `@${event.actorUsername}` : 'Synced from chain'} · {formatDate(event.created_at)}
+            {event.transaction_signature && (
+              <a
+                href={getExplorerTxUrl(event.transaction_signature)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="ml-2 text-accent underline"
+              >
+                View
+              </a>
+            )}
+          </p>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default MessageTimeline;
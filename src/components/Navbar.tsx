@@ -12,6 +12,7 @@ import {
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { useAuth } from '@/hooks/useAuth';
 import WalletConnect from './WalletConnect';
+import ClusterSelector from './ClusterSelector';
 
 const Navbar = () => {
   const { theme, setTheme } = useTheme();
@@ -24,6 +25,7 @@ const Navbar = () => {
           <span className="font-bold text-xl web3-gradient-text">Squeaky Wheel</span>
         </Link>
         <div className="flex items-center space-x-4">
+          <ClusterSelector />
           <WalletConnect />
           <Button variant="ghost" size="sm" onClick={() => setTheme(theme === "light" ? "dark" : "light")}>
             {theme === 'light' ? <Moon className="h-4 w-4" /> : <Sun className="h-4 w-4" />}
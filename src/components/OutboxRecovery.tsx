@@ -0,0 +1,305 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, Loader2, RotateCw, Send, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { useWallet } from '@/contexts/WalletContext';
+import TransactionProgress from '@/components/TransactionProgress';
+import { retryOutboxPayment } from '@/utils/anchorClient';
+import { subscribeToEncryptionChanges } from '@/utils/encryptionService';
+import { describeError } from '@/utils/errors';
+import type { OnChainEscrow } from '@/utils/escrowReconciler';
+import { formatAmount, formatDate } from '@/utils/mockData';
+import {
+  discardOutboxMessage,
+  fetchOutbox,
+  fetchUnmatchedEscrows,
+  OutboxEntry,
+  restoreEscrowMessage,
+  resumeOutbox,
+} from '@/utils/outboxService';
+import type { TransactionEvent } from '@/utils/transactionSender';
+
+interface OutboxRecoveryProps {
+  // Called when an entry becomes a regular sent message
+  onRecovered?: () => void;
+}
+
+const shortenAddress = (address: string) => `${address.slice(0, 4)}...${address.slice(-4)}`;
+
+// Sent-view list of messages stuck between chain and database: unsent drafts,
+// sends still being confirmed, and paid escrows whose message was lost
+const OutboxRecovery = ({ onRecovered }: OutboxRecoveryProps) => {
+  const { walletAddress, isConnected, getAnchorWallet, refreshBalance } = useWallet();
+  const { toast } = useToast();
+
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [unmatchedEscrows, setUnmatchedEscrows] = useState<OnChainEscrow[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [txEvent, setTxEvent] = useState<TransactionEvent | null>(null);
+  const [restoringEscrow, setRestoringEscrow] = useState<OnChainEscrow | null>(null);
+  const [restoredContent, setRestoredContent] = useState('');
+
+  const loadOutbox = useCallback(async () => {
+    if (!isConnected || !walletAddress) return;
+
+    try {
+      const [outbox, unmatched] = await Promise.all([
+        fetchOutbox(walletAddress),
+        fetchUnmatchedEscrows(walletAddress).catch(error => {
+          console.error('Error looking for unmatched escrows:', error);
+          return [];
+        }),
+      ]);
+      setEntries(outbox);
+      setUnmatchedEscrows(unmatched);
+    } catch (error) {
+      console.error('Error loading outbox:', error);
+    }
+  }, [isConnected, walletAddress]);
+
+  useEffect(() => {
+    loadOutbox();
+  }, [loadOutbox]);
+
+  // Encrypted drafts can be read and retried once the key is unlocked
+  useEffect(() => {
+    return subscribeToEncryptionChanges(loadOutbox);
+  }, [loadOutbox]);
+
+  const handleRetry = async (entry: OutboxEntry) => {
+    const wallet = getAnchorWallet();
+    if (!wallet) {
+      toast({
+        title: 'Wallet Not Connected',
+        description: 'Please connect your wallet to send this message.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setBusyId(entry.messageId);
+    setTxEvent(null);
+
+    try {
+      await retryOutboxPayment(wallet, entry, setTxEvent);
+      toast({
+        title: 'Message Sent',
+        description: `Your message has been sent with ${formatAmount(entry.amount, entry.currency)}.`,
+      });
+      refreshBalance();
+      onRecovered?.();
+    } catch (error) {
+      console.error('Error retrying outbox message:', error);
+      toast({
+        ...describeError(error),
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyId(null);
+      loadOutbox();
+    }
+  };
+
+  const handleDiscard = async (entry: OutboxEntry) => {
+    setBusyId(entry.messageId);
+    const discarded = await discardOutboxMessage(entry.messageId);
+    if (!discarded) {
+      toast({
+        title: 'Error',
+        description: 'Failed to discard the draft. Please try again.',
+        variant: 'destructive',
+      });
+    }
+    setBusyId(null);
+    loadOutbox();
+  };
+
+  const handleCheckAgain = async (entry: OutboxEntry) => {
+    if (!walletAddress) return;
+
+    setBusyId(entry.messageId);
+    try {
+      const { completed } = await resumeOutbox(walletAddress);
+      if (completed > 0) {
+        onRecovered?.();
+      }
+    } catch (error) {
+      console.error('Error resuming outbox:', error);
+    } finally {
+      setBusyId(null);
+      loadOutbox();
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!restoringEscrow || !restoredContent.trim()) return;
+
+    setBusyId(restoringEscrow.messageId);
+    try {
+      const restored = await restoreEscrowMessage(restoringEscrow, restoredContent.trim());
+      if (!restored) {
+        throw new Error('Failed to save the message. Please try again.');
+      }
+      toast({
+        title: 'Message Restored',
+        description: 'The recipient can now see and respond to your message.',
+      });
+      setRestoringEscrow(null);
+      setRestoredContent('');
+      onRecovered?.();
+    } catch (error) {
+      console.error('Error restoring escrow message:', error);
+      toast({
+        ...describeError(error, 'Error'),
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyId(null);
+      loadOutbox();
+    }
+  };
+
+  if (entries.length === 0 && unmatchedEscrows.length === 0) {
+    return null;
+  }
+
+  return (
+    <>
+      <Card className="glass-card border-yellow-500/50">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base flex items-center">
+            <AlertTriangle className="h-4 w-4 mr-2 text-yellow-500" />
+            Outbox
+          </CardTitle>
+          <CardDescription>
+            Messages that haven't finished sending. Nothing here has been lost.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {entries.map(entry => (
+            <div key={entry.messageId} className="rounded-md border border-border/50 p-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-medium">
+                  To {entry.recipientUsername ? `@${entry.recipientUsername}` : shortenAddress(entry.recipientWalletAddress)}
+                  <span className="text-muted-foreground font-normal"> · {formatAmount(entry.amount, entry.currency)}</span>
+                </p>
+                <Badge variant="outline" className="text-xs">
+                  {entry.status === 'draft' ? 'Not sent' : 'Sending'}
+                </Badge>
+              </div>
+              <p className="text-sm text-muted-foreground line-clamp-2">{entry.content || 'Encrypted message. Unlock encryption to read or retry it.'}</p>
+              <div className="flex items-center justify-between">
+                <p className="text-xs text-muted-foreground">
+                  {formatDate(entry.createdAt)}
+                  {!entry.savedToDatabase && ' · saved in this browser only'}
+                </p>
+                <div className="flex space-x-2">
+                  {entry.status === 'draft' ? (
+                    <>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDiscard(entry)}
+                        disabled={busyId !== null}
+                      >
+                        <Trash2 className="h-3 w-3 mr-1" />
+                        Discard
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => handleRetry(entry)}
+                        disabled={busyId !== null}
+                      >
+                        <Send className="h-3 w-3 mr-1" />
+                        Retry
+                      </Button>
+                    </>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleCheckAgain(entry)}
+                      disabled={busyId !== null}
+                    >
+                      {busyId === entry.messageId ? (
+                        <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                      ) : (
+                        <RotateCw className="h-3 w-3 mr-1" />
+                      )}
+                      Check again
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {busyId === entry.messageId && <TransactionProgress event={txEvent} />}
+            </div>
+          ))}
+
+          {unmatchedEscrows.map(escrow => (
+            <div key={escrow.address} className="rounded-md border border-border/50 p-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-medium">
+                  To {shortenAddress(escrow.recipient)}
+                  <span className="text-muted-foreground font-normal"> · {formatAmount(escrow.amount, escrow.currency)}</span>
+                </p>
+                <Badge variant="outline" className="text-xs">Paid, message missing</Badge>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                This payment is in escrow but its message was never saved, so the recipient can't see it.
+              </p>
+              <div className="flex justify-end">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setRestoringEscrow(escrow)}
+                  disabled={busyId !== null}
+                >
+                  Rewrite message
+                </Button>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Dialog open={restoringEscrow !== null} onOpenChange={(open) => !open && setRestoringEscrow(null)}>
+        <DialogContent className="glass-panel sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Rewrite Message</DialogTitle>
+            <DialogDescription>
+              Your payment of {restoringEscrow ? formatAmount(restoringEscrow.amount, restoringEscrow.currency) : ''} is
+              already in escrow. Write the message again to deliver it; no new payment is needed. The recipient
+              will see that it differs from the content committed on chain when you paid, unless it is identical.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            className="glass-input min-h-32 resize-none"
+            value={restoredContent}
+            onChange={(e) => setRestoredContent(e.target.value)}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRestoringEscrow(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleRestore} disabled={!restoredContent.trim() || busyId !== null}>
+              Save Message
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default OutboxRecovery;
@@ -0,0 +1,70 @@
+import { Loader2 } from 'lucide-react';
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { formatAmount } from '@/utils/mockData';
+import { fromBaseUnits } from '@/utils/tokens';
+import type { PaymentCostEstimate } from '@/hooks/usePaymentCost';
+
+interface PaymentCostBreakdownProps {
+  estimate: PaymentCostEstimate;
+  className?: string;
+}
+
+const formatLamports = (lamports: number) => formatAmount(lamports / LAMPORTS_PER_SOL);
+
+// Itemised cost of a paid message, shown before the wallet is asked to sign
+const PaymentCostBreakdown = ({ estimate, className = '' }: PaymentCostBreakdownProps) => {
+  const { cost, isEstimating, error } = estimate;
+
+  if (!cost && !isEstimating && !error) return null;
+
+  // Token payments are listed in the token; rent and fees are still paid in SOL
+  const tokenAmount = cost?.token
+    ? formatAmount(fromBaseUnits(cost.token.amountBaseUnits, cost.token.decimals), cost.token.symbol)
+    : null;
+
+  return (
+    <div className={`rounded-md border border-border/50 p-3 text-sm space-y-1 ${className}`}>
+      <div className="flex items-center justify-between text-xs font-medium text-muted-foreground">
+        <span>Cost breakdown</span>
+        {isEstimating && <Loader2 className="h-3 w-3 animate-spin" />}
+      </div>
+      {error && !cost ? (
+        <p className="text-xs text-red-500">Could not estimate fees: {error}</p>
+      ) : cost && (
+        <>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Message payment</span>
+            <span>{tokenAmount || formatLamports(cost.amountLamports)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Escrow account rent (refunded)</span>
+            <span>{formatLamports(cost.rentLamports)}</span>
+          </div>
+          {cost.vaultRentLamports > 0 && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Token vault rent (refunded)</span>
+              <span>{formatLamports(cost.vaultRentLamports)}</span>
+            </div>
+          )}
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Network fee</span>
+            <span>{formatLamports(cost.networkFeeLamports)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Priority fee</span>
+            <span>{formatLamports(cost.priorityFeeLamports)}</span>
+          </div>
+          <div className="flex justify-between border-t border-border/50 pt-1 font-medium">
+            <span>Total</span>
+            <span>{tokenAmount ? `${tokenAmount} + ${formatLamports(cost.totalLamports)}` : formatLamports(cost.totalLamports)}</span>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Rent comes back to you when the message is approved, rejected or reclaimed.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PaymentCostBreakdown;
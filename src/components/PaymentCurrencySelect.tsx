@@ -0,0 +1,45 @@
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCluster } from '@/hooks/useCluster';
+import type { PaymentToken } from '@/utils/tokens';
+
+interface PaymentCurrencySelectProps {
+  value: PaymentToken | null;
+  onChange: (token: PaymentToken | null) => void;
+}
+
+// Value used for SOL in the select; token options use their mint address
+const SOL_OPTION = 'SOL';
+
+// Choose between SOL and the SPL tokens the active cluster accepts.
+// Renders nothing when the cluster has no payment tokens configured.
+const PaymentCurrencySelect = ({ value, onChange }: PaymentCurrencySelectProps) => {
+  const { paymentTokens } = useCluster();
+
+  if (paymentTokens.length === 0) return null;
+
+  const handleChange = (option: string) => {
+    onChange(paymentTokens.find(token => token.mint === option) || null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="currency">Pay With</Label>
+      <Select value={value?.mint || SOL_OPTION} onValueChange={handleChange}>
+        <SelectTrigger id="currency" className="glass-input">
+          <SelectValue placeholder="Select a currency" />
+        </SelectTrigger>
+        <SelectContent className="glass-panel">
+          <SelectItem value={SOL_OPTION}>SOL</SelectItem>
+          {paymentTokens.map(token => (
+            <SelectItem key={token.mint} value={token.mint}>
+              {token.symbol}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export default PaymentCurrencySelect;
@@ -1,7 +1,8 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { useWallet } from '@/contexts/WalletContext';
-import { supabase } from '@/integrations/supabase/client';
+import { claimWalletProfile } from '@/utils/profileService';
+import { AppError } from '@/utils/errors';
 import { Button } from '@/components/ui/button';
 import { toast } from '@/components/ui/use-toast';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
@@ -14,7 +15,7 @@ interface ProfileManagerProps {
 
 const ProfileManager = ({ onComplete, compact = false }: ProfileManagerProps) => {
   const { user, profile, signInWithTwitter } = useAuth();
-  const { walletAddress, isConnected, connectWallet, walletName } = useWallet();
+  const { walletAddress, isConnected, connectWallet, walletName, getAnchorWallet } = useWallet();
   const [isUpdating, setIsUpdating] = useState(false);
   const [hasAssociatedWallet, setHasAssociatedWallet] = useState(false);
 
@@ -45,26 +46,21 @@ const ProfileManager = ({ onComplete, compact = false }: ProfileManagerProps) =>
   }, [profile, hasAssociatedWallet, onComplete]);
 
   const handleSaveWalletConnection = async () => {
-    if (!user || !walletAddress) return;
+    const wallet = getAnchorWallet();
+    if (!user || !walletAddress || !wallet) return;
     
     setIsUpdating(true);
     try {
-      const { error } = await supabase
-        .from('profiles')
-        .update({ 
-          wallet_address: walletAddress,
-          wallet_name: walletName
-        })
-        .eq('id', user.id);
-      
-      if (error) {
-        throw error;
-      }
+      // The wallet signs to prove it's ours, then takes over any messages sent to or
+      // from it before it was linked
+      const claimedMessages = await claimWalletProfile(wallet, walletAddress, walletName);
       
       setHasAssociatedWallet(true);
       toast({
         title: "Wallet connected",
-        description: "Your wallet has been successfully connected to your profile",
+        description: claimedMessages > 0
+          ? `Your wallet has been connected and ${claimedMessages} earlier message${claimedMessages === 1 ? '' : 's'} moved to your profile`
+          : "Your wallet has been successfully connected to your profile",
       });
       
       if (onComplete) {
@@ -73,8 +69,8 @@ const ProfileManager = ({ onComplete, compact = false }: ProfileManagerProps) =>
     } catch (error) {
       console.error('Error updating profile:', error);
       toast({
-        title: "Connection failed",
-        description: "There was a problem connecting your wallet",
+        title: error instanceof AppError ? error.title : "Connection failed",
+        description: error instanceof AppError ? error.remediation : "There was a problem connecting your wallet",
         variant: "destructive"
       });
     } finally {
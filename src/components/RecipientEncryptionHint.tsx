@@ -0,0 +1,25 @@
+import { Lock, LockOpen } from 'lucide-react';
+
+interface RecipientEncryptionHintProps {
+  username: string;
+  // The recipient's published encryption key, if they have turned encryption on
+  publicKey?: string | null;
+}
+
+// Tells the sender whether the message text will be end-to-end encrypted. Only the
+// text is; attachments are protected by storage policies instead.
+const RecipientEncryptionHint = ({ username, publicKey }: RecipientEncryptionHintProps) => {
+  return publicKey ? (
+    <p className="flex items-center text-xs text-muted-foreground">
+      <Lock className="h-3 w-3 mr-1" />
+      The message text will be end-to-end encrypted for @{username}
+    </p>
+  ) : (
+    <p className="flex items-center text-xs text-muted-foreground">
+      <LockOpen className="h-3 w-3 mr-1" />
+      Not encrypted: @{username} hasn't turned on encryption
+    </p>
+  );
+};
+
+export default RecipientEncryptionHint;
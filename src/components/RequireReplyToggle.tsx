@@ -0,0 +1,24 @@
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+
+interface RequireReplyToggleProps {
+  checked: boolean;
+  onCheckedChange: (checked: boolean) => void;
+}
+
+// Let the sender make the recipient reply before they can approve the payment
+const RequireReplyToggle = ({ checked, onCheckedChange }: RequireReplyToggleProps) => {
+  return (
+    <div className="flex items-start justify-between gap-4">
+      <div className="space-y-1">
+        <Label htmlFor="require-reply">Require a Reply</Label>
+        <p className="text-xs text-muted-foreground">
+          The recipient can only take the payment after answering your message.
+        </p>
+      </div>
+      <Switch id="require-reply" checked={checked} onCheckedChange={onCheckedChange} />
+    </div>
+  );
+};
+
+export default RequireReplyToggle;
@@ -0,0 +1,53 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { MIN_SCHEDULE_DELAY_MS, toSendAtInputValue } from '@/utils/scheduledMessageService';
+
+// An hour ahead is a reasonable starting point when scheduling is turned on
+const DEFAULT_SCHEDULE_DELAY_MS = 60 * 60 * 1000;
+
+interface ScheduleSendPickerProps {
+  // datetime-local value, or null to send now
+  value: string | null;
+  onChange: (value: string | null) => void;
+  disabled?: boolean;
+}
+
+// Let the sender pick a time to send the message instead of sending it now
+const ScheduleSendPicker = ({ value, onChange, disabled }: ScheduleSendPickerProps) => {
+  const handleToggle = (checked: boolean) => {
+    onChange(checked ? toSendAtInputValue(new Date(Date.now() + DEFAULT_SCHEDULE_DELAY_MS)) : null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="schedule-send">Send Later</Label>
+          <p className="text-xs text-muted-foreground">
+            You sign the payment now and it is sent at the time you pick. A small deposit is held until then and can be recovered afterwards.
+          </p>
+        </div>
+        <Switch id="schedule-send" checked={value !== null} onCheckedChange={handleToggle} disabled={disabled} />
+      </div>
+      {value !== null && (
+        <>
+          <Input
+            id="send-at"
+            type="datetime-local"
+            className="glass-input"
+            value={value}
+            min={toSendAtInputValue(new Date(Date.now() + MIN_SCHEDULE_DELAY_MS))}
+            onChange={(e) => onChange(e.target.value)}
+            disabled={disabled}
+          />
+          <p className="text-xs text-muted-foreground">
+            The refund deadline is counted from this time. Attachments can't be added to scheduled messages.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ScheduleSendPicker;
@@ -0,0 +1,326 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Ban, Clock, Coins, Loader2, PenLine } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { useWallet } from '@/contexts/WalletContext';
+import TransactionProgress from '@/components/TransactionProgress';
+import { AnchorWallet, cancelScheduledMessage, recoverScheduledMessageDeposit, rescheduleMessagePayment } from '@/utils/anchorClient';
+import { subscribeToEncryptionChanges } from '@/utils/encryptionService';
+import { describeError } from '@/utils/errors';
+import { formatAmount } from '@/utils/mockData';
+import { getPaymentAmountRange } from '@/utils/messageService';
+import {
+  fetchOpenNonceAccounts,
+  fetchScheduledMessages,
+  MIN_SCHEDULE_DELAY_MS,
+  parseSendAtInput,
+  ScheduledMessage,
+  ScheduledMessageStatus,
+  toSendAtInputValue,
+} from '@/utils/scheduledMessageService';
+import type { TransactionEvent } from '@/utils/transactionSender';
+
+const STATUS_LABELS: Record<ScheduledMessageStatus, string> = {
+  scheduled: 'Scheduled',
+  sending: 'Sending',
+  sent: 'Sent',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+// Messages the runner can no longer send, whose nonce account deposit can be recovered
+const FINISHED_STATUSES: ScheduledMessageStatus[] = ['sent', 'failed', 'cancelled'];
+
+// Inbox tab listing messages scheduled to be sent later, with their deposits
+const ScheduledMessagesList = () => {
+  const { walletAddress, isConnected, getAnchorWallet, refreshBalance } = useWallet();
+  const { toast } = useToast();
+
+  const [messages, setMessages] = useState<ScheduledMessage[]>([]);
+  // Nonce accounts of finished messages that still hold a deposit
+  const [openNonceAccounts, setOpenNonceAccounts] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [txEvent, setTxEvent] = useState<TransactionEvent | null>(null);
+  const [editing, setEditing] = useState<ScheduledMessage | null>(null);
+  const [editContent, setEditContent] = useState('');
+  const [editAmount, setEditAmount] = useState('');
+  const [editSendAt, setEditSendAt] = useState('');
+
+  const loadScheduled = useCallback(async () => {
+    if (!isConnected || !walletAddress) return;
+
+    try {
+      const scheduled = await fetchScheduledMessages(walletAddress);
+      setMessages(scheduled);
+      const finished = scheduled.filter(message => FINISHED_STATUSES.includes(message.status));
+      setOpenNonceAccounts(await fetchOpenNonceAccounts(finished.map(message => message.nonceAccount)).catch(error => {
+        console.error('Error checking nonce accounts:', error);
+        return new Set<string>();
+      }));
+    } catch (error) {
+      console.error('Error loading scheduled messages:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [isConnected, walletAddress]);
+
+  useEffect(() => {
+    loadScheduled();
+  }, [loadScheduled]);
+
+  // Encrypted messages can be read and edited once the key is unlocked
+  useEffect(() => {
+    return subscribeToEncryptionChanges(loadScheduled);
+  }, [loadScheduled]);
+
+  // Run a wallet action on one message, then reload the list
+  const runAction = async (
+    message: ScheduledMessage,
+    action: (wallet: AnchorWallet) => Promise<unknown>,
+    successTitle: string,
+    successDescription: string
+  ) => {
+    const wallet = getAnchorWallet();
+    if (!wallet) {
+      toast({
+        title: 'Wallet Not Connected',
+        description: 'Please connect your wallet to manage scheduled messages.',
+        variant: 'destructive',
+      });
+      return false;
+    }
+
+    setBusyId(message.id);
+    setTxEvent(null);
+
+    try {
+      await action(wallet);
+      toast({ title: successTitle, description: successDescription });
+      refreshBalance();
+      return true;
+    } catch (error) {
+      console.error(`Error updating scheduled message ${message.messageId}:`, error);
+      toast({
+        ...describeError(error, 'Error'),
+        variant: 'destructive',
+      });
+      return false;
+    } finally {
+      setBusyId(null);
+      loadScheduled();
+    }
+  };
+
+  const handleCancel = (message: ScheduledMessage) => {
+    runAction(
+      message,
+      wallet => cancelScheduledMessage(wallet, message, setTxEvent),
+      'Message Cancelled',
+      'The message won\'t be sent and your deposit has been returned.'
+    );
+  };
+
+  const handleRecoverDeposit = (message: ScheduledMessage) => {
+    runAction(
+      message,
+      wallet => recoverScheduledMessageDeposit(wallet, message, setTxEvent),
+      'Deposit Recovered',
+      'The deposit held for this scheduled message has been returned to your wallet.'
+    );
+  };
+
+  const openEditor = (message: ScheduledMessage) => {
+    setEditing(message);
+    setEditContent(message.content);
+    setEditAmount(String(message.amount));
+    setEditSendAt(toSendAtInputValue(new Date(message.sendAt)));
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editing) return;
+
+    const sendAt = parseSendAtInput(editSendAt);
+    const amount = parseFloat(editAmount);
+    const { max } = getPaymentAmountRange(editing.currency);
+
+    if (!sendAt) {
+      toast({
+        title: 'Invalid Send Time',
+        description: 'Pick a time at least a few minutes from now.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    if (isNaN(amount) || amount <= 0 || amount > max) {
+      toast({
+        title: 'Invalid Amount',
+        description: `Enter an amount between 0 and ${formatAmount(max, editing.currency)}.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const saved = await runAction(
+      editing,
+      wallet => rescheduleMessagePayment(wallet, editing, { content: editContent.trim(), amount, sendAt }),
+      'Scheduled Message Updated',
+      `It will be sent ${sendAt.toLocaleString()}.`
+    );
+    if (saved) {
+      setEditing(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="glass-panel rounded-lg p-8 text-center">
+        <p className="text-muted-foreground animate-pulse">Loading scheduled messages...</p>
+      </div>
+    );
+  }
+
+  if (messages.length === 0) {
+    return (
+      <div className="glass-panel rounded-lg p-8 text-center">
+        <p className="text-muted-foreground">No scheduled messages. Turn on "Send Later" when composing a message to schedule it.</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="grid grid-cols-1 gap-4">
+        {messages.map(message => (
+          <div key={message.id} className="glass-panel rounded-lg p-4 space-y-2 animate-scale-in">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium">
+                To @{message.recipientUsername}
+                <span className="text-muted-foreground font-normal"> · {formatAmount(message.amount, message.currency)}</span>
+              </p>
+              <Badge variant={message.status === 'failed' ? 'destructive' : 'outline'} className="text-xs">
+                {STATUS_LABELS[message.status]}
+              </Badge>
+            </div>
+            <p className="text-sm text-muted-foreground line-clamp-2 whitespace-pre-wrap">
+              {message.encryption === 'locked' ? 'Encrypted message. Unlock encryption to read or edit it.' : message.content}
+            </p>
+            {message.status === 'failed' && message.error && (
+              <p className="text-xs text-destructive">{message.error}</p>
+            )}
+            <div className="flex items-center justify-between">
+              <p className="flex items-center text-xs text-muted-foreground">
+                <Clock className="h-3 w-3 mr-1" />
+                {message.status === 'scheduled' ? 'Send at' : 'Scheduled for'} {new Date(message.sendAt).toLocaleString()}
+              </p>
+              <div className="flex space-x-2">
+                {message.status === 'scheduled' && (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleCancel(message)}
+                      disabled={busyId !== null}
+                    >
+                      <Ban className="h-4 w-4 mr-1" /> Cancel
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => openEditor(message)}
+                      disabled={busyId !== null || message.encryption === 'locked'}
+                    >
+                      <PenLine className="h-4 w-4 mr-1" /> Edit
+                    </Button>
+                  </>
+                )}
+                {FINISHED_STATUSES.includes(message.status) && openNonceAccounts.has(message.nonceAccount) && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRecoverDeposit(message)}
+                    disabled={busyId !== null}
+                  >
+                    {busyId === message.id ? (
+                      <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                    ) : (
+                      <Coins className="h-4 w-4 mr-1" />
+                    )}
+                    Recover deposit
+                  </Button>
+                )}
+              </div>
+            </div>
+            {busyId === message.id && <TransactionProgress event={txEvent} />}
+          </div>
+        ))}
+      </div>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="glass-panel sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Edit Scheduled Message</DialogTitle>
+            <DialogDescription>
+              Your wallet signs the payment again with the changes. The refund window you chose is kept and counted from the new time.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="scheduled-content">Message</Label>
+              <Textarea
+                id="scheduled-content"
+                className="glass-input min-h-32 resize-none"
+                value={editContent}
+                onChange={(e) => setEditContent(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="scheduled-amount">Amount ({editing?.currency})</Label>
+              <Input
+                id="scheduled-amount"
+                type="number"
+                className="glass-input"
+                min={0}
+                step={editing ? getPaymentAmountRange(editing.currency).step : undefined}
+                value={editAmount}
+                onChange={(e) => setEditAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="scheduled-send-at">Send At</Label>
+              <Input
+                id="scheduled-send-at"
+                type="datetime-local"
+                className="glass-input"
+                min={toSendAtInputValue(new Date(Date.now() + MIN_SCHEDULE_DELAY_MS))}
+                value={editSendAt}
+                onChange={(e) => setEditSendAt(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveEdit} disabled={!editContent.trim() || busyId !== null}>
+              Save Changes
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default ScheduledMessagesList;
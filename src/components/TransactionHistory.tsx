@@ -12,7 +12,9 @@ import { Badge } from '@/components/ui/badge';
 import { formatAmount, formatDate, getStatusColor } from '@/utils/mockData';
 import { Transaction, User, users } from '@/utils/mockData';
 import { useWallet } from '@/contexts/WalletContext';
-import { Connection, PublicKey, LAMPORTS_PER_SOL, ConfirmedSignatureInfo } from '@solana/web3.js';
+import { PublicKey, LAMPORTS_PER_SOL, ConfirmedSignatureInfo } from '@solana/web3.js';
+import { getConnection } from '@/utils/activeCluster';
+import { useCluster } from '@/hooks/useCluster';
 
 interface TransactionHistoryProps {
   userId?: string;
@@ -35,6 +37,7 @@ const TransactionHistory = ({ userId = 'user-1', limit = 10 }: TransactionHistor
   const [filteredTransactions, setFilteredTransactions] = useState<Transaction[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const { walletAddress, isConnected } = useWallet();
+  const cluster = useCluster();
 
   useEffect(() => {
     // If wallet is not connected, fall back to mock data
@@ -62,8 +65,8 @@ const TransactionHistory = ({ userId = 'user-1', limit = 10 }: TransactionHistor
       try {
         setIsLoading(true);
         
-        // Connect to Solana (using Sonic DevNet)
-        const connection = new Connection("https://api.testnet.sonic.game", "confirmed");
+        // Connect to the active cluster
+        const connection = getConnection();
         
         // Get recent transactions for the wallet
         const signatures = await connection.getSignaturesForAddress(
@@ -149,7 +152,7 @@ const TransactionHistory = ({ userId = 'user-1', limit = 10 }: TransactionHistor
     };
     
     fetchTransactionHistory();
-  }, [walletAddress, isConnected, limit]);
+  }, [walletAddress, isConnected, limit, cluster]);
 
   const getTransactionIcon = (transaction: Transaction) => {
     const isSender = transaction.senderId === walletAddress || transaction.senderId === userId;
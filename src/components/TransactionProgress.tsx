@@ -0,0 +1,61 @@
+import { CheckCircle2, Loader2, ShieldCheck, XCircle } from 'lucide-react';
+import { getExplorerTxUrl } from '@/utils/activeCluster';
+import type { TransactionEvent } from '@/utils/transactionSender';
+
+interface TransactionProgressProps {
+  event: TransactionEvent | null;
+  className?: string;
+  showExplorerLink?: boolean;
+}
+
+const getStageLabel = (event: TransactionEvent): string => {
+  switch (event.stage) {
+    case 'simulating':
+      return 'Simulating transaction...';
+    case 'signing':
+      return event.attempt > 1
+        ? 'Transaction expired before confirming. Please approve it again in your wallet...'
+        : 'Waiting for wallet signature...';
+    case 'sent':
+      return 'Sent, waiting for confirmation...';
+    case 'confirmed':
+      return 'Confirmed';
+    case 'finalized':
+      return 'Finalized';
+    case 'failed':
+      return 'Transaction failed';
+  }
+};
+
+// One-line status for a transaction going through sendTransaction
+const TransactionProgress = ({ event, className = '', showExplorerLink = true }: TransactionProgressProps) => {
+  if (!event) return null;
+
+  const icon = event.stage === 'failed'
+    ? <XCircle className="h-3 w-3 mr-1 text-red-500" />
+    : event.stage === 'finalized'
+      ? <ShieldCheck className="h-3 w-3 mr-1 text-green-500" />
+      : event.stage === 'confirmed'
+        ? <CheckCircle2 className="h-3 w-3 mr-1 text-green-500" />
+        : <Loader2 className="h-3 w-3 mr-1 animate-spin" />;
+
+  return (
+    <div className={`text-xs text-muted-foreground flex items-center ${className}`}>
+      {icon}
+      <span>{getStageLabel(event)}</span>
+      {showExplorerLink && event.signature && (
+        <a
+          href={getExplorerTxUrl(event.signature)}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="ml-2 text-accent underline"
+          onClick={(e) => e.stopPropagation()}
+        >
+          View
+        </a>
+      )}
+    </div>
+  );
+};
+
+export default TransactionProgress;
@@ -1,5 +1,5 @@
-import { useState } from 'react';
-import { Check, Clock, EyeIcon, MessageSquare, X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Check, Clock, EyeIcon, MessageSquare, Paperclip, Reply, RotateCcw, Split, Timer, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   Dialog,
@@ -10,31 +10,82 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardFooter, CardHeader } from '@/components/ui/card';
-import { formatAmount, formatDate, getStatusColor } from '@/utils/mockData';
+import { Slider } from '@/components/ui/slider';
+import { formatAmount, formatDate, formatTimeRemaining, getStatusColor } from '@/utils/mockData';
 import { useToast } from '@/hooks/use-toast';
 import { useWallet } from '@/contexts/WalletContext';
-import { approveMessagePayment, rejectMessagePayment, checkMessageExists } from '@/utils/anchorClient';
-import { updateMessageStatus, MessageData } from '@/utils/messageService';
+import { approveMessagePayment, rejectMessagePayment, reclaimMessagePayment, checkMessageExists } from '@/utils/anchorClient';
+import { updateMessageStatus, isAwaitingAnswer, isMessageExpired, getPaymentAmountRange, getRecipientAmount, MessageAnswer, MessageData } from '@/utils/messageService';
+import { answerMessage, MAX_REPLY_LENGTH } from '@/utils/threadService';
 import { supabase } from '@/integrations/supabase/client';
+import type { TransactionEvent } from '@/utils/transactionSender';
+import TransactionProgress from '@/components/TransactionProgress';
+import ContentVerificationBadge from '@/components/ContentVerificationBadge';
+import ConversationView from '@/components/ConversationView';
+import MessageTimeline from '@/components/MessageTimeline';
+import MessageAttachments from '@/components/MessageAttachments';
+import EncryptedMessageNotice from '@/components/EncryptedMessageNotice';
+import { useContentVerification } from '@/hooks/useContentVerification';
+import { describeError } from '@/utils/errors';
 
 interface MessageCardProps {
   message: MessageData;
   variant?: 'compact' | 'full';
+  direction?: 'received' | 'sent';
   onRefresh?: () => void;
   onClick?: () => void;
 }
 
-const UpdatedMessageCard = ({ message, variant = 'full', onRefresh, onClick }: MessageCardProps) => {
+// Round a split amount to the slider step so it converts cleanly to lamports or base units
+const roundToStep = (amount: number, step: number) => {
+  const decimals = Math.max(0, -Math.floor(Math.log10(step)));
+  return Number((Math.round(amount / step) * step).toFixed(decimals));
+};
+
+const UpdatedMessageCard = ({ message, variant = 'full', direction = 'received', onRefresh, onClick }: MessageCardProps) => {
   const [isOpen, setIsOpen] = useState(false);
-  const [confirmAction, setConfirmAction] = useState<'approve' | 'reject' | null>(null);
+  // Opened with Reply rather than View, so the reply box gets focus
+  const [isReplying, setIsReplying] = useState(false);
+  const [confirmAction, setConfirmAction] = useState<'approve' | 'partial' | 'reject' | null>(null);
+  // Recipient's share when approving part of the payment
+  const [keepAmount, setKeepAmount] = useState(0);
+  // The recipient's answer to a message that requires one, and the one being written
+  const [answer, setAnswer] = useState<MessageAnswer | null>(message.answer ?? null);
+  const [answerDraft, setAnswerDraft] = useState('');
   const [isConfirmOpen, setIsConfirmOpen] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
-  const { isConnected, getAnchorWallet } = useWallet();
+  const [txEvent, setTxEvent] = useState<TransactionEvent | null>(null);
+  const [, setNow] = useState(Date.now());
+  const { isConnected, walletAddress, getAnchorWallet } = useWallet();
   const { toast } = useToast();
+  // Only check the on-chain content hash once the message is opened, and not while
+  // encrypted content is locked since there's nothing to hash
+  const isLocked = message.encryption === 'locked';
+  const { verification, isVerifying } = useContentVerification(message, isOpen && !isLocked);
+
+  useEffect(() => {
+    setAnswer(message.answer ?? null);
+  }, [message.answer]);
+
+  // Re-render every minute so the expiry countdown stays current
+  useEffect(() => {
+    if (message.status !== 'pending' || !message.expires_at) return;
+    
+    const interval = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, [message.status, message.expires_at]);
 
   const handleView = () => {
+    setIsReplying(false);
+    setIsOpen(true);
+  };
+
+  const handleReply = () => {
+    setIsReplying(true);
     setIsOpen(true);
   };
 
@@ -56,6 +107,22 @@ const UpdatedMessageCard = ({ message, variant = 'full', onRefresh, onClick }: M
     setIsConfirmOpen(true);
   };
 
+  const initiatePartialApprove = () => {
+    if (!isConnected) {
+      toast({
+        title: 'Wallet Not Connected',
+        description: 'Please connect your wallet to approve this message.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    
+    // Start from an even split
+    setKeepAmount(roundToStep(messageAmount / 2, amountStep));
+    setConfirmAction('partial');
+    setIsConfirmOpen(true);
+  };
+
   const initiateReject = () => {
     if (!isConnected) {
       toast({
@@ -73,6 +140,7 @@ const UpdatedMessageCard = ({ message, variant = 'full', onRefresh, onClick }: M
   const handleConfirm = async () => {
     setIsConfirmOpen(false);
     setIsProcessing(true);
+    setTxEvent(null);
 
     try {
       // Get the wallet adapter
@@ -120,12 +188,24 @@ const UpdatedMessageCard = ({ message, variant = 'full', onRefresh, onClick }: M
       
       let transactionSignature: string | undefined;
       
-      if (confirmAction === 'approve') {
+      if (confirmAction === 'approve' || confirmAction === 'partial') {
+        // A partial approval keeps the chosen share and refunds the rest
+        const recipientAmount = confirmAction === 'partial' ? keepAmount : undefined;
+        
+        // Reply-gated messages are answered before any funds move
+        if (needsAnswer) {
+          const reply = await answerMessage(message, walletAddress, answerDraft);
+          setAnswer({ id: reply.id, content: reply.content, created_at: reply.created_at });
+          setAnswerDraft('');
+        }
+        
         // Approve the message payment
         transactionSignature = await approveMessagePayment(
           wallet,
           senderWalletAddress,
-          messageId
+          messageId,
+          setTxEvent,
+          recipientAmount
         );
         
         if (!transactionSignature) {
@@ -138,7 +218,8 @@ const UpdatedMessageCard = ({ message, variant = 'full', onRefresh, onClick }: M
         const updateResult = await updateMessageStatus(
           messageId,
           'approved',
-          transactionSignature
+          transactionSignature,
+          recipientAmount
         );
         
         if (!updateResult) {
@@ -148,14 +229,17 @@ const UpdatedMessageCard = ({ message, variant = 'full', onRefresh, onClick }: M
         
         toast({
           title: 'Message Approved',
-          description: `You have approved the message and received ${formatAmount(message.amount)}.`,
+          description: recipientAmount !== undefined
+            ? `You have received ${formatAmount(recipientAmount, message.currency)} and refunded ${formatAmount(refundAmount, message.currency)} to the sender.`
+            : `You have approved the message and received ${formatAmount(message.amount, message.currency)}.`,
         });
       } else if (confirmAction === 'reject') {
         // Reject the message payment
         transactionSignature = await rejectMessagePayment(
           wallet,
           senderWalletAddress,
-          messageId
+          messageId,
+          setTxEvent
         );
         
         if (!transactionSignature) {
@@ -192,15 +276,8 @@ const UpdatedMessageCard = ({ message, variant = 'full', onRefresh, onClick }: M
     } catch (error) {
       console.error('Error processing message:', error);
       
-      let errorMessage = 'Failed to process the message. Please try again.';
-      
-      if (error instanceof Error) {
-        errorMessage = error.message;
-      }
-      
       toast({
-        title: 'Error',
-        description: errorMessage,
+        ...describeError(error, 'Error'),
         variant: 'destructive',
       });
     } finally {
@@ -212,8 +289,75 @@ const UpdatedMessageCard = ({ message, variant = 'full', onRefresh, onClick }: M
     setIsConfirmOpen(false);
   };
 
-  const statusColors = getStatusColor(message.status);
+  const handleReclaim = async () => {
+    if (!isConnected) {
+      toast({
+        title: 'Wallet Not Connected',
+        description: 'Please connect your wallet to reclaim this payment.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    
+    setIsProcessing(true);
+    setTxEvent(null);
+    
+    try {
+      const wallet = getAnchorWallet();
+      if (!wallet) {
+        throw new Error('Failed to get wallet');
+      }
+      
+      // recipient_id is the profile UUID; reclaimMessagePayment resolves it to a wallet address
+      const transactionSignature = await reclaimMessagePayment(
+        wallet,
+        message.recipient_id,
+        message.message_id,
+        setTxEvent
+      );
+      
+      if (!transactionSignature) {
+        throw new Error('Failed to reclaim message payment');
+      }
+      
+      console.log('Message payment reclaimed with transaction:', transactionSignature);
+      
+      toast({
+        title: 'Payment Reclaimed',
+        description: `${formatAmount(messageAmount, message.currency)} has been returned to your wallet.`,
+      });
+      
+      setIsOpen(false);
+      
+      if (onRefresh) {
+        onRefresh();
+      }
+    } catch (error) {
+      console.error('Error reclaiming message payment:', error);
+      
+      toast({
+        ...describeError(error, 'Error'),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const isExpired = isMessageExpired(message);
+  const displayStatus = isExpired ? 'expired' : message.status;
+  const statusColors = getStatusColor(displayStatus);
   const isPending = message.status === 'pending';
+  const isSent = direction === 'sent';
+  
+  // Recipients act on pending messages; senders can only reclaim once the deadline passes
+  const canRespond = isPending && !isSent;
+  const canReclaim = isPending && isSent && isExpired;
+  const showCountdown = isPending && !isExpired && !!message.expires_at;
+  // The sender asked for a reply, and the recipient hasn't given one yet
+  const needsAnswer = isAwaitingAnswer({ requires_reply: message.requires_reply, answer });
+  const recipientUsername = message.recipientUsername || 'unknown';
+  const attachmentCount = message.attachments?.length ?? 0;
   
   // Get display information
   const senderDisplayName = message.senderDisplayName || 'Unknown User';
@@ -222,6 +366,18 @@ const UpdatedMessageCard = ({ message, variant = 'full', onRefresh, onClick }: M
   const messageTimestamp = message.created_at || new Date().toISOString();
   const messageAmount = parseFloat(message.amount as any) || 0;
   
+  // A split needs at least one slider step on each side
+  const amountStep = getPaymentAmountRange(message.currency).step;
+  const canSplit = messageAmount >= amountStep * 2;
+  const refundAmount = roundToStep(messageAmount - keepAmount, amountStep);
+  
+  // Partially approved messages show the recipient's share of the payment
+  const isPartiallyApproved = message.status === 'approved'
+    && message.approved_amount !== null && message.approved_amount !== undefined;
+  const amountLabel = isPartiallyApproved
+    ? `${formatAmount(getRecipientAmount(message), message.currency)} of ${formatAmount(messageAmount, message.currency)}`
+    : formatAmount(messageAmount, message.currency);
+  
   if (variant === 'compact') {
     return (
       <Card className="glass-card hover:shadow-hover transition-all group" onClick={onClick}>
@@ -235,13 +391,17 @@ const UpdatedMessageCard = ({ message, variant = 'full', onRefresh, onClick }: M
               <div className="flex items-center justify-between">
                 <p className="font-medium truncate">@{senderUsername}</p>
                 <Badge variant="outline" className={`text-xs ${statusColors}`}>
-                  {message.status}
+                  {displayStatus}
                 </Badge>
               </div>
-              <p className="text-sm text-muted-foreground truncate">{message.content}</p>
+              {isLocked ? (
+                <EncryptedMessageNotice encryption="locked" compact />
+              ) : (
+                <p className="text-sm text-muted-foreground truncate">{message.content}</p>
+              )}
               <div className="flex items-center justify-between mt-1">
                 <p className="text-xs text-muted-foreground">{formatDate(messageTimestamp)}</p>
-                <p className="text-xs font-medium">{formatAmount(messageAmount)}</p>
+                <p className="text-xs font-medium">{amountLabel}</p>
               </div>
             </div>
           </div>
@@ -265,25 +425,61 @@ const UpdatedMessageCard = ({ message, variant = 'full', onRefresh, onClick }: M
             </div>
           </div>
           <Badge variant="outline" className={`text-xs ${statusColors}`}>
-            {message.status}
+            {displayStatus}
           </Badge>
         </CardHeader>
         <CardContent className="pt-2">
-          <p className="text-sm line-clamp-2">{message.content}</p>
+          {isLocked ? (
+            <EncryptedMessageNotice encryption="locked" />
+          ) : (
+            <p className="text-sm line-clamp-2">{message.content}</p>
+          )}
+          {attachmentCount > 0 && (
+            <p className="text-xs text-muted-foreground flex items-center mt-1">
+              <Paperclip className="h-3 w-3 mr-1" />
+              {attachmentCount} attachment{attachmentCount !== 1 ? 's' : ''}
+            </p>
+          )}
           <div className="flex items-center justify-between mt-2">
             <p className="text-xs text-muted-foreground flex items-center">
               <Clock className="h-3 w-3 mr-1" />
               {formatDate(messageTimestamp)}
             </p>
-            <p className="text-sm font-medium">{formatAmount(messageAmount)}</p>
+            <p className="text-sm font-medium">{amountLabel}</p>
           </div>
+          {showCountdown && (
+            <p className="text-xs text-muted-foreground flex items-center mt-1">
+              <Timer className="h-3 w-3 mr-1" />
+              {formatTimeRemaining(message.expires_at!)} {isSent ? 'until you can reclaim' : 'to respond'}
+            </p>
+          )}
+          {isPending && needsAnswer && (
+            <p className="text-xs text-muted-foreground flex items-center mt-1">
+              <MessageSquare className="h-3 w-3 mr-1" />
+              {isSent ? 'Needs a reply before it can be approved' : 'Reply to approve'}
+            </p>
+          )}
+          {answer && (
+            <p className="text-xs text-muted-foreground flex items-start mt-2">
+              <Reply className="h-3 w-3 mr-1 mt-0.5 shrink-0" />
+              <span className="line-clamp-2">
+                <span className="font-medium">{isSent ? `@${recipientUsername}` : 'You'} answered:</span> {answer.content}
+              </span>
+            </p>
+          )}
+          <TransactionProgress event={txEvent} className="mt-1" />
         </CardContent>
         <CardFooter className="pt-0">
           <div className="flex items-center justify-between w-full">
-            <Button variant="ghost" size="sm" className="text-muted-foreground" onClick={handleView}>
-              <EyeIcon className="h-4 w-4 mr-1" /> View
-            </Button>
-            {isPending && (
+            <div className="flex space-x-1">
+              <Button variant="ghost" size="sm" className="text-muted-foreground" onClick={handleView}>
+                <EyeIcon className="h-4 w-4 mr-1" /> View
+              </Button>
+              <Button variant="ghost" size="sm" className="text-muted-foreground" onClick={handleReply}>
+                <Reply className="h-4 w-4 mr-1" /> {isSent ? 'Follow Up' : 'Reply'}
+              </Button>
+            </div>
+            {canRespond && (
               <div className="flex space-x-2">
                 <Button
                   variant="outline"
@@ -294,17 +490,40 @@ const UpdatedMessageCard = ({ message, variant = 'full', onRefresh, onClick }: M
                 >
                   <X className="h-4 w-4 mr-1" /> Reject
                 </Button>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  className="text-green-500 hover:bg-green-500/10"
-                  onClick={initiateApprove}
-                  disabled={isProcessing}
-                >
-                  <Check className="h-4 w-4 mr-1" /> Approve
-                </Button>
+                {!isExpired && canSplit && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={initiatePartialApprove}
+                    disabled={isProcessing}
+                  >
+                    <Split className="h-4 w-4 mr-1" /> Keep Part
+                  </Button>
+                )}
+                {!isExpired && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-green-500 hover:bg-green-500/10"
+                    onClick={initiateApprove}
+                    disabled={isProcessing}
+                  >
+                    <Check className="h-4 w-4 mr-1" /> Approve
+                  </Button>
+                )}
               </div>
             )}
+            {canReclaim && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="text-accent hover:bg-accent/10"
+                onClick={handleReclaim}
+                disabled={isProcessing}
+              >
+                <RotateCcw className="h-4 w-4 mr-1" /> {isProcessing ? 'Reclaiming...' : 'Reclaim'}
+              </Button>
+            )}
           </div>
         </CardFooter>
       </Card>
@@ -331,19 +550,30 @@ const UpdatedMessageCard = ({ message, variant = 'full', onRefresh, onClick }: M
             </DialogDescription>
           </DialogHeader>
           <div className="border-y border-border py-4 my-4">
-            <p className="text-sm">{message.content}</p>
+            {message.encryption && <EncryptedMessageNotice encryption={message.encryption} className={isLocked ? '' : 'mb-2'} />}
+            {!isLocked && <p className="text-sm">{message.content}</p>}
+            {/* Signed download links are only fetched while the dialog is open */}
+            {isOpen && message.attachments && <MessageAttachments attachments={message.attachments} className="mt-3" />}
+            {!isLocked && <ContentVerificationBadge verification={verification} isVerifying={isVerifying} className="mt-3" />}
           </div>
+          {/* Replies and follow-ups, loaded only while the dialog is open */}
+          {isOpen && (
+            <ConversationView message={message} direction={direction} autoFocus={isReplying} className="mb-4" />
+          )}
           <div className="flex items-center justify-between text-sm">
             <Badge variant="outline" className={`${statusColors}`}>
-              {message.status}
+              {displayStatus}
             </Badge>
-            <p className="font-medium">{formatAmount(messageAmount)}</p>
+            <p className="font-medium">{amountLabel}</p>
           </div>
+          {/* Status history; reloads whenever the status changes */}
+          {isOpen && <MessageTimeline key={message.status} messageId={message.id} className="mt-2" />}
+          <TransactionProgress event={txEvent} />
           <DialogFooter className="flex sm:justify-between gap-2">
             <Button variant="ghost" onClick={handleClose}>
               Close
             </Button>
-            {isPending && (
+            {canRespond && (
               <div className="flex space-x-2">
                 <Button
                   variant="outline"
@@ -353,16 +583,36 @@ const UpdatedMessageCard = ({ message, variant = 'full', onRefresh, onClick }: M
                 >
                   <X className="h-4 w-4 mr-1" /> Reject
                 </Button>
-                <Button
-                  variant="default"
-                  className="bg-green-500 hover:bg-green-600"
-                  onClick={initiateApprove}
-                  disabled={isProcessing}
-                >
-                  <Check className="h-4 w-4 mr-1" /> Approve
-                </Button>
+                {!isExpired && canSplit && (
+                  <Button
+                    variant="outline"
+                    onClick={initiatePartialApprove}
+                    disabled={isProcessing}
+                  >
+                    <Split className="h-4 w-4 mr-1" /> Keep Part
+                  </Button>
+                )}
+                {!isExpired && (
+                  <Button
+                    variant="default"
+                    className="bg-green-500 hover:bg-green-600"
+                    onClick={initiateApprove}
+                    disabled={isProcessing}
+                  >
+                    <Check className="h-4 w-4 mr-1" /> Approve
+                  </Button>
+                )}
               </div>
             )}
+            {canReclaim && (
+              <Button
+                variant="outline"
+                onClick={handleReclaim}
+                disabled={isProcessing}
+              >
+                <RotateCcw className="h-4 w-4 mr-1" /> {isProcessing ? 'Reclaiming...' : 'Reclaim Payment'}
+              </Button>
+            )}
           </DialogFooter>
         </DialogContent>
       </Dialog>
@@ -372,24 +622,59 @@ const UpdatedMessageCard = ({ message, variant = 'full', onRefresh, onClick }: M
         <DialogContent className="glass-panel sm:max-w-md animate-scale-in">
           <DialogHeader>
             <DialogTitle>
-              {confirmAction === 'approve' ? 'Approve Message' : 'Reject Message'}
+              {confirmAction === 'approve' && 'Approve Message'}
+              {confirmAction === 'partial' && 'Keep Part of the Payment'}
+              {confirmAction === 'reject' && 'Reject Message'}
             </DialogTitle>
             <DialogDescription>
-              {confirmAction === 'approve'
-                ? `Are you sure you want to approve this message? You will receive ${formatAmount(messageAmount)}.`
-                : `Are you sure you want to reject this message? The payment of ${formatAmount(messageAmount)} will be returned to the sender.`}
+              {confirmAction === 'approve' && `Are you sure you want to approve this message? You will receive ${formatAmount(messageAmount, message.currency)}.`}
+              {confirmAction === 'partial' && `Choose how much of the ${formatAmount(messageAmount, message.currency)} payment to keep. The rest will be returned to the sender.`}
+              {confirmAction === 'reject' && `Are you sure you want to reject this message? The payment of ${formatAmount(messageAmount, message.currency)} will be returned to the sender.`}
             </DialogDescription>
           </DialogHeader>
+          {confirmAction !== 'reject' && needsAnswer && (
+            <div className="space-y-2">
+              <Label htmlFor={`answer-${message.id}`}>Your reply</Label>
+              <Textarea
+                id={`answer-${message.id}`}
+                value={answerDraft}
+                onChange={(event) => setAnswerDraft(event.target.value)}
+                placeholder="The sender asked for a reply before you take the payment..."
+                maxLength={MAX_REPLY_LENGTH}
+                className="min-h-[80px] resize-none"
+              />
+              <p className="text-xs text-muted-foreground">
+                Your reply is sent to @{senderUsername} before the payment is released.
+              </p>
+            </div>
+          )}
+          {confirmAction === 'partial' && (
+            <div className="space-y-3">
+              <Slider
+                min={amountStep}
+                max={roundToStep(messageAmount - amountStep, amountStep)}
+                step={amountStep}
+                value={[keepAmount]}
+                onValueChange={(values) => setKeepAmount(roundToStep(values[0], amountStep))}
+              />
+              <div className="flex justify-between text-sm">
+                <span>You keep <span className="font-medium">{formatAmount(keepAmount, message.currency)}</span></span>
+                <span className="text-muted-foreground">Refunded {formatAmount(refundAmount, message.currency)}</span>
+              </div>
+            </div>
+          )}
           <DialogFooter className="flex sm:justify-end gap-2">
             <Button variant="outline" onClick={handleCancelConfirm}>
               Cancel
             </Button>
             <Button
-              variant={confirmAction === 'approve' ? 'default' : 'destructive'}
+              variant={confirmAction === 'reject' ? 'destructive' : 'default'}
               onClick={handleConfirm}
-              disabled={isProcessing}
+              disabled={isProcessing || (confirmAction !== 'reject' && needsAnswer && !answerDraft.trim())}
             >
-              {isProcessing ? 'Processing...' : (confirmAction === 'approve' ? 'Approve' : 'Reject')}
+              {isProcessing
+                ? 'Processing...'
+                : confirmAction === 'reject' ? 'Reject' : needsAnswer ? 'Reply & Approve' : 'Approve'}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -1,7 +1,10 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { toast } from '@/components/ui/use-toast';
 import { BrowserWalletAdapter } from '@/utils/browserWalletAdapter';
-import { Connection, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import { LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import { getConnection, subscribeToClusterChanges } from '@/utils/activeCluster';
+import { resumeOutbox } from '@/utils/outboxService';
+import { lockEncryption } from '@/utils/encryptionService';
 
 // Define the types for wallet data
 export interface WalletInfo {
@@ -58,9 +61,6 @@ export const WalletProvider = ({ children }: { children: ReactNode }) => {
   const [walletIcon, setWalletIcon] = useState<string | null>(null);
   const [balance, setBalance] = useState<number>(0);
   
-  // Connection to Sonic DevNet
-  const connection = new Connection("https://api.testnet.sonic.game", "confirmed");
-
   useEffect(() => {
     const storedWalletData = localStorage.getItem('sonicWalletData');
     
@@ -85,7 +85,7 @@ export const WalletProvider = ({ children }: { children: ReactNode }) => {
     try {
       // Actually fetch balance from the blockchain
       const publicKey = new PublicKey(address);
-      const balanceInLamports = await connection.getBalance(publicKey);
+      const balanceInLamports = await getConnection().getBalance(publicKey);
       const balanceInSOL = balanceInLamports / LAMPORTS_PER_SOL;
       setBalance(balanceInSOL);
       console.log(`Fetched balance for ${address}: ${balanceInSOL} SOL`);
@@ -95,6 +95,38 @@ export const WalletProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  // Balances differ per cluster, so refetch when the cluster selector switches it
+  useEffect(() => {
+    if (!isConnected || !walletAddress) return;
+    return subscribeToClusterChanges(() => {
+      fetchBalance(walletAddress);
+    });
+  }, [isConnected, walletAddress]);
+
+  // Settle paid messages left mid-send by a closed tab or a failed save
+  useEffect(() => {
+    if (!isConnected || !walletAddress) return;
+    
+    resumeOutbox(walletAddress)
+      .then(({ completed, reverted }) => {
+        if (completed > 0) {
+          toast({
+            title: 'Messages Delivered',
+            description: `${completed} message${completed !== 1 ? 's' : ''} from an interrupted send ${completed !== 1 ? 'were' : 'was'} saved.`,
+          });
+        }
+        if (reverted > 0) {
+          toast({
+            title: 'Unsent Messages',
+            description: `${reverted} message${reverted !== 1 ? 's were' : ' was'} never paid for. Find ${reverted !== 1 ? 'them' : 'it'} in the outbox on your Sent tab.`,
+          });
+        }
+      })
+      .catch(error => {
+        console.error('Failed to resume outbox:', error);
+      });
+  }, [isConnected, walletAddress]);
+
   const refreshBalance = async () => {
     if (isConnected && walletAddress) {
       await fetchBalance(walletAddress);
@@ -267,6 +299,8 @@ export const WalletProvider = ({ children }: { children: ReactNode }) => {
     setWalletName(null);
     setWalletIcon(null);
     setBalance(0);
+    // Unlocked encryption keys belong to the wallet's owner
+    lockEncryption();
     
     localStorage.removeItem('sonicWalletData');
     
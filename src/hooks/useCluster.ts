@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { getActiveCluster, subscribeToClusterChanges } from '@/utils/activeCluster';
+import type { ClusterConfig } from '@/utils/clusterConfig';
+
+// Re-render when the active cluster changes
+export const useCluster = (): ClusterConfig => {
+  return useSyncExternalStore(subscribeToClusterChanges, getActiveCluster);
+};
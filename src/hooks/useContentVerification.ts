@@ -0,0 +1,67 @@
+import { useEffect, useState } from 'react';
+import { useCluster } from '@/hooks/useCluster';
+import { getConnection, getProgramId } from '@/utils/activeCluster';
+import { ContentVerification, verifyMessageContent } from '@/utils/contentCommitment';
+import type { MessageData } from '@/utils/messageService';
+
+// Results by cluster, message and content, so reopening a message doesn't refetch its history
+const verificationCache = new Map<string, ContentVerification>();
+
+export interface ContentVerificationState {
+  verification: ContentVerification | null;
+  isVerifying: boolean;
+}
+
+// Check a message's content against the hash committed on chain, once enabled
+// (e.g. when the message is opened) so lists don't fetch every message's history
+export const useContentVerification = (
+  message: Pick<MessageData, 'message_id' | 'content' | 'content_salt' | 'escrow_address' | 'transaction_signature'>,
+  enabled: boolean
+): ContentVerificationState => {
+  const cluster = useCluster();
+  const [verification, setVerification] = useState<ContentVerification | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const {
+    message_id: messageId,
+    content,
+    content_salt: contentSalt = null,
+    escrow_address: escrowAddress,
+    transaction_signature: signature,
+  } = message;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const cacheKey = `${cluster.rpcUrl}:${messageId}:${contentSalt}:${content}`;
+    const cached = verificationCache.get(cacheKey);
+    if (cached) {
+      setVerification(cached);
+      return;
+    }
+
+    let cancelled = false;
+    setIsVerifying(true);
+
+    verifyMessageContent(getConnection(), getProgramId(), content, escrowAddress, signature, contentSalt)
+      .then(result => {
+        // Lookup failures are worth retrying next time
+        if (result !== 'unavailable') {
+          verificationCache.set(cacheKey, result);
+        }
+        if (!cancelled) {
+          setVerification(result);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsVerifying(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, cluster, messageId, content, contentSalt, escrowAddress, signature]);
+
+  return { verification, isVerifying };
+};
@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+import { useWallet } from '@/contexts/WalletContext';
+import {
+  enableEncryption,
+  fetchEncryptionPublicKey,
+  getKeyringVersion,
+  isEncryptionUnlocked,
+  subscribeToEncryptionChanges,
+  unlockEncryption,
+} from '@/utils/encryptionService';
+
+export interface EncryptionControls {
+  // The connected wallet's owner has published an encryption key; null while checking
+  isEnabled: boolean | null;
+  // The key is unlocked in this session, so encrypted messages can be read
+  isUnlocked: boolean;
+  isWorking: boolean;
+  // Ask the wallet to sign and unlock the key
+  unlock: () => Promise<void>;
+  // Unlock the key and publish it, so new messages to this wallet are encrypted
+  enable: () => Promise<void>;
+}
+
+// Encryption state for the connected wallet. Pass checkPublished = false where only
+// unlocking matters, e.g. in every message card, to skip the profile lookup.
+export const useEncryption = (checkPublished = true): EncryptionControls => {
+  const { walletAddress, getAnchorWallet } = useWallet();
+  // Re-render when keys are unlocked or locked
+  useSyncExternalStore(subscribeToEncryptionChanges, getKeyringVersion);
+  const [isEnabled, setIsEnabled] = useState<boolean | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    if (!checkPublished || !walletAddress) {
+      setIsEnabled(null);
+      return;
+    }
+
+    let cancelled = false;
+    fetchEncryptionPublicKey(walletAddress)
+      .then(publicKey => {
+        if (!cancelled) setIsEnabled(!!publicKey);
+      })
+      .catch(error => {
+        console.error('Error checking encryption key:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [checkPublished, walletAddress]);
+
+  const withWallet = useCallback(async (action: typeof unlockEncryption) => {
+    const wallet = getAnchorWallet();
+    if (!wallet || !walletAddress) {
+      throw new Error('Connect your wallet first');
+    }
+
+    setIsWorking(true);
+    try {
+      return await action(wallet, walletAddress);
+    } finally {
+      setIsWorking(false);
+    }
+  }, [getAnchorWallet, walletAddress]);
+
+  const unlock = useCallback(async () => {
+    await withWallet(unlockEncryption);
+  }, [withWallet]);
+
+  const enable = useCallback(async () => {
+    await withWallet(enableEncryption);
+    setIsEnabled(true);
+  }, [withWallet]);
+
+  return {
+    isEnabled,
+    isUnlocked: !!walletAddress && isEncryptionUnlocked(walletAddress),
+    isWorking,
+    unlock,
+    enable,
+  };
+};
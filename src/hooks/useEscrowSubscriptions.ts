@@ -0,0 +1,161 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { useCluster } from '@/hooks/useCluster';
+import { useToast } from '@/hooks/use-toast';
+import { getConnection, getProgramId } from '@/utils/activeCluster';
+import { EscrowCreated, EscrowStatusChange, subscribeToEscrows, WatchedEscrow } from '@/utils/escrowSubscriptions';
+import { formatAmount } from '@/utils/mockData';
+import type { MessageData } from '@/utils/messageService';
+
+// The other party's client saves to the database after its transaction confirms, so
+// wait a moment before refetching rows the chain just told us about
+const REFRESH_DELAY_MS = 3000;
+
+interface EscrowSubscriptionOptions {
+  walletAddress: string | null;
+  receivedMessages: MessageData[];
+  sentMessages: MessageData[];
+  // Apply a confirmed status change to local message state
+  onStatusChange: (change: EscrowStatusChange) => void;
+  // Refetch messages: after new escrows, settlements and reconnects
+  onRefresh: () => void;
+}
+
+// Keep message lists live: settlements by the other party are pushed into the lists
+// (with a toast), new incoming messages are fetched as they land, and everything is
+// refetched when the browser comes back online or the tab becomes visible, since
+// websocket notifications sent while disconnected are lost.
+export const useEscrowSubscriptions = ({
+  walletAddress,
+  receivedMessages,
+  sentMessages,
+  onStatusChange,
+  onRefresh,
+}: EscrowSubscriptionOptions) => {
+  const cluster = useCluster();
+  const { toast } = useToast();
+
+  // Handlers and lists change every render; read them through refs so the
+  // subscriptions only change when the set of pending escrows does
+  const latest = useRef({ receivedMessages, sentMessages, onStatusChange, onRefresh, toast });
+  latest.current = { receivedMessages, sentMessages, onStatusChange, onRefresh, toast };
+
+  const refreshTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const scheduleRefresh = useCallback(() => {
+    if (refreshTimer.current) {
+      clearTimeout(refreshTimer.current);
+    }
+    refreshTimer.current = setTimeout(() => {
+      refreshTimer.current = null;
+      latest.current.onRefresh();
+    }, REFRESH_DELAY_MS);
+  }, []);
+
+  // Pending messages with a known escrow, as a stable key for the effect below
+  const watchedKey = useMemo(() => {
+    return [...receivedMessages, ...sentMessages]
+      .filter(message => message.status === 'pending' && message.escrow_address)
+      .map(message => `${message.message_id}:${message.escrow_address}`)
+      .sort()
+      .join(',');
+  }, [receivedMessages, sentMessages]);
+
+  useEffect(() => {
+    if (!walletAddress) return;
+
+    const escrows: WatchedEscrow[] = watchedKey
+      ? watchedKey.split(',').map(entry => {
+        const [messageId, escrowAddress] = entry.split(':');
+        return { messageId, escrowAddress };
+      })
+      : [];
+
+    const handleStatusChange = (change: EscrowStatusChange) => {
+      const { receivedMessages, sentMessages, onStatusChange, toast } = latest.current;
+      const sent = sentMessages.find(message => message.message_id === change.messageId);
+      const received = receivedMessages.find(message => message.message_id === change.messageId);
+
+      // Already applied, e.g. by the action that caused it
+      if ((sent || received)?.status === change.status) return;
+
+      onStatusChange(change);
+
+      // Only announce what the other party did: recipients approve and reject, senders reclaim
+      if (sent && (change.status === 'approved' || change.status === 'rejected')) {
+        toast({
+          title: change.status === 'approved' ? 'Message Approved' : 'Message Rejected',
+          description: change.status === 'approved'
+            ? `@${sent.recipientUsername || 'recipient'} approved your message.`
+            : `@${sent.recipientUsername || 'recipient'} rejected your message. ${formatAmount(sent.amount, sent.currency)} has been returned to you.`,
+        });
+      } else if (received && change.status === 'refunded') {
+        toast({
+          title: 'Payment Reclaimed',
+          description: `@${received.senderUsername || 'sender'} reclaimed an expired payment of ${formatAmount(received.amount, received.currency)}.`,
+        });
+      }
+
+      // Pick up details only the database has, such as a partial approval's split
+      scheduleRefresh();
+    };
+
+    const handleEscrowCreated = (created: EscrowCreated) => {
+      const { receivedMessages, toast } = latest.current;
+
+      if (created.recipientWalletAddress === walletAddress
+        && !receivedMessages.some(message => message.message_id === created.messageId)) {
+        toast({
+          title: 'New Message',
+          description: 'A new paid message just arrived in your inbox.',
+        });
+        scheduleRefresh();
+      } else if (created.senderWalletAddress === walletAddress) {
+        // Sent from another tab or device
+        scheduleRefresh();
+      }
+    };
+
+    const unsubscribe = subscribeToEscrows(
+      getConnection(),
+      getProgramId(),
+      escrows,
+      { onStatusChange: handleStatusChange, onEscrowCreated: handleEscrowCreated },
+      cluster.commitment
+    );
+
+    return unsubscribe;
+  }, [walletAddress, watchedKey, cluster, scheduleRefresh]);
+
+  // A settlement changes watchedKey and resubscribes, so a scheduled refresh must
+  // survive that and only be cancelled on unmount
+  useEffect(() => {
+    return () => {
+      if (refreshTimer.current) {
+        clearTimeout(refreshTimer.current);
+      }
+    };
+  }, []);
+
+  // Catch up on anything missed while offline or in a background tab
+  useEffect(() => {
+    if (!walletAddress) return;
+
+    const handleOnline = () => {
+      console.log('Back online, refreshing messages');
+      latest.current.onRefresh();
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        latest.current.onRefresh();
+      }
+    };
+
+    window.addEventListener('online', handleOnline);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [walletAddress]);
+};
@@ -0,0 +1,28 @@
+import { useEffect, useRef, useState } from 'react';
+
+// Start loading before the end of the list is actually on screen
+const ROOT_MARGIN = '200px';
+
+// Call onLoadMore while the element given to the returned ref is in view. The observer
+// is recreated whenever enabled turns back on, so a sentinel that is still visible
+// after a page loads asks for the next one straight away.
+export const useInfiniteScroll = (onLoadMore: () => void, enabled: boolean) => {
+  const [sentinel, setSentinel] = useState<HTMLElement | null>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+
+  useEffect(() => {
+    if (!sentinel || !enabled) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        onLoadMoreRef.current();
+      }
+    }, { rootMargin: ROOT_MARGIN });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [sentinel, enabled]);
+
+  return setSentinel;
+};
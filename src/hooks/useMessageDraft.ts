@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useWallet } from '@/contexts/WalletContext';
+import { useCluster } from '@/hooks/useCluster';
+import { deleteDraft, loadDraft, MessageDraft, saveDraft, saveLocalDraft } from '@/utils/draftService';
+import type { PaymentToken } from '@/utils/tokens';
+
+// Wait for typing to pause before saving the draft to the database
+const DRAFT_SYNC_DEBOUNCE_MS = 1000;
+
+export type DraftFields = Pick<MessageDraft, 'content' | 'amount' | 'currency' | 'mint' | 'expiry' | 'requiresReply'>;
+
+interface DraftRecipient {
+  id: string;
+  username: string;
+}
+
+// Keep the compose form's draft to a recipient saved while it is typed. When the
+// recipient is chosen and the message box is still empty, their saved draft is handed
+// to onRestore, with the payment token it was written for (null for SOL).
+export const useMessageDraft = (
+  recipient: DraftRecipient | null | undefined,
+  fields: DraftFields,
+  onRestore: (draft: MessageDraft, paymentToken: PaymentToken | null) => void
+) => {
+  const { walletAddress } = useWallet();
+  const { paymentTokens } = useCluster();
+  const [savedAt, setSavedAt] = useState<string | null>(null);
+  // Nothing is saved for a recipient until their draft has been looked up, so an
+  // empty form can't overwrite it
+  const [loadedFor, setLoadedFor] = useState<string | null>(null);
+  const lastSavedRef = useRef<string | null>(null);
+  const latestRef = useRef({ fields, onRestore, paymentTokens });
+  latestRef.current = { fields, onRestore, paymentTokens };
+
+  const recipientId = recipient?.id;
+  const recipientUsername = recipient?.username;
+  const serializedFields = JSON.stringify(fields);
+
+  useEffect(() => {
+    setLoadedFor(null);
+    setSavedAt(null);
+    if (!recipientId) return;
+
+    let cancelled = false;
+
+    loadDraft(recipientId, walletAddress)
+      .then(draft => {
+        if (cancelled) return;
+        const { fields: current, onRestore: restore, paymentTokens: tokens } = latestRef.current;
+        if (draft && !current.content.trim()) {
+          console.log(`Restoring draft to ${draft.recipientUsername || recipientId}`);
+          restore(draft, tokens.find(token => token.mint === draft.mint) || null);
+          setSavedAt(draft.updatedAt);
+          lastSavedRef.current = JSON.stringify({
+            content: draft.content,
+            amount: draft.amount,
+            currency: draft.currency,
+            mint: draft.mint,
+            expiry: draft.expiry,
+            requiresReply: draft.requiresReply,
+          });
+        } else {
+          lastSavedRef.current = JSON.stringify(current);
+        }
+        setLoadedFor(recipientId);
+      })
+      .catch(error => console.error('Error loading draft:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [recipientId, walletAddress]);
+
+  useEffect(() => {
+    if (!recipientId || !recipientUsername || loadedFor !== recipientId) return;
+    if (serializedFields === lastSavedRef.current) return;
+    lastSavedRef.current = serializedFields;
+
+    const current: DraftFields = JSON.parse(serializedFields);
+
+    // Clearing the message box discards the draft
+    if (!current.content.trim()) {
+      setSavedAt(null);
+      const timer = setTimeout(() => deleteDraft(recipientId, walletAddress), DRAFT_SYNC_DEBOUNCE_MS);
+      return () => clearTimeout(timer);
+    }
+
+    const draft: MessageDraft = {
+      ...current,
+      recipientId,
+      recipientUsername,
+      updatedAt: new Date().toISOString(),
+    };
+
+    // The local copy is written straight away so nothing is lost if the page goes away
+    saveLocalDraft(draft, walletAddress);
+    setSavedAt(draft.updatedAt);
+
+    const timer = setTimeout(() => saveDraft(draft, walletAddress), DRAFT_SYNC_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [serializedFields, recipientId, recipientUsername, loadedFor, walletAddress]);
+
+  // Drop the draft once its message has been paid for and sent
+  const clearDraft = useCallback(async () => {
+    if (!recipientId) return;
+    setSavedAt(null);
+    await deleteDraft(recipientId, walletAddress);
+  }, [recipientId, walletAddress]);
+
+  return { savedAt, clearDraft };
+};
@@ -0,0 +1,75 @@
+import { useEffect, useState } from 'react';
+import { useWallet } from '@/contexts/WalletContext';
+import { useCluster } from '@/hooks/useCluster';
+import { estimateMessagePaymentCost, MessagePaymentCost } from '@/utils/anchorClient';
+import { getExpiryDate } from '@/utils/messageService';
+import type { PaymentToken } from '@/utils/tokens';
+
+// Wait for the amount slider to settle before hitting the RPC
+const ESTIMATE_DEBOUNCE_MS = 400;
+
+export interface PaymentCostEstimate {
+  cost: MessagePaymentCost | null;
+  isEstimating: boolean;
+  error: string | null;
+}
+
+// Keep an up-to-date cost breakdown for a paid message from the connected wallet
+export const usePaymentCost = (
+  recipientAddress: string | null | undefined,
+  amount: number,
+  expiry: string,
+  paymentToken: PaymentToken | null = null
+): PaymentCostEstimate => {
+  const { walletAddress } = useWallet();
+  const cluster = useCluster();
+  const [cost, setCost] = useState<MessagePaymentCost | null>(null);
+  const [isEstimating, setIsEstimating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const paymentMint = paymentToken?.mint;
+  const paymentSymbol = paymentToken?.symbol;
+
+  useEffect(() => {
+    if (!walletAddress || !recipientAddress) {
+      setCost(null);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsEstimating(true);
+
+    const timer = setTimeout(async () => {
+      try {
+        const estimate = await estimateMessagePaymentCost(
+          walletAddress,
+          recipientAddress,
+          amount,
+          getExpiryDate(expiry),
+          paymentMint && paymentSymbol ? { symbol: paymentSymbol, mint: paymentMint } : null
+        );
+        if (!cancelled) {
+          setCost(estimate);
+          setError(null);
+        }
+      } catch (err) {
+        console.error('Failed to estimate message cost:', err);
+        if (!cancelled) {
+          setCost(null);
+          setError(err instanceof Error ? err.message : 'Failed to estimate fees');
+        }
+      } finally {
+        if (!cancelled) {
+          setIsEstimating(false);
+        }
+      }
+    }, ESTIMATE_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [walletAddress, recipientAddress, amount, expiry, paymentMint, paymentSymbol, cluster]);
+
+  return { cost, isEstimating, error };
+};
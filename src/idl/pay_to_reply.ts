@@ -0,0 +1,1172 @@
+// This file is automatically generated by `npm run idl:sync`. Do not edit it directly.
+// Source: anchor-program/programs/pay-to-reply/src/lib.rs
+
+export type PayToReply = {
+  version: "0.1.0",
+  name: "pay_to_reply",
+  instructions: [
+    {
+      name: "createMessagePayment",
+      accounts: [
+        {
+          name: "sender",
+          isMut: true,
+          isSigner: true
+        },
+        {
+          name: "recipient",
+          isMut: false,
+          isSigner: false
+        },
+        {
+          name: "messageEscrow",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "systemProgram",
+          isMut: false,
+          isSigner: false
+        }
+      ],
+      args: [
+        {
+          name: "amount",
+          type: "u64"
+        },
+        {
+          name: "messageId",
+          type: "string"
+        },
+        {
+          name: "expiresAt",
+          type: "i64"
+        },
+        {
+          name: "contentHash",
+          type: {
+            array: [
+              "u8",
+              32
+            ]
+          }
+        }
+      ]
+    },
+    {
+      name: "approveMessagePayment",
+      accounts: [
+        {
+          name: "sender",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "recipient",
+          isMut: true,
+          isSigner: true
+        },
+        {
+          name: "messageEscrow",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "systemProgram",
+          isMut: false,
+          isSigner: false
+        }
+      ],
+      args: []
+    },
+    {
+      name: "partiallyApproveMessagePayment",
+      accounts: [
+        {
+          name: "sender",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "recipient",
+          isMut: true,
+          isSigner: true
+        },
+        {
+          name: "messageEscrow",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "systemProgram",
+          isMut: false,
+          isSigner: false
+        }
+      ],
+      args: [
+        {
+          name: "recipientAmount",
+          type: "u64"
+        }
+      ]
+    },
+    {
+      name: "rejectMessagePayment",
+      accounts: [
+        {
+          name: "sender",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "recipient",
+          isMut: true,
+          isSigner: true
+        },
+        {
+          name: "messageEscrow",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "systemProgram",
+          isMut: false,
+          isSigner: false
+        }
+      ],
+      args: []
+    },
+    {
+      name: "reclaimExpiredPayment",
+      accounts: [
+        {
+          name: "sender",
+          isMut: true,
+          isSigner: true
+        },
+        {
+          name: "recipient",
+          isMut: false,
+          isSigner: false
+        },
+        {
+          name: "messageEscrow",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "systemProgram",
+          isMut: false,
+          isSigner: false
+        }
+      ],
+      args: []
+    },
+    {
+      name: "createTokenMessagePayment",
+      accounts: [
+        {
+          name: "sender",
+          isMut: true,
+          isSigner: true
+        },
+        {
+          name: "recipient",
+          isMut: false,
+          isSigner: false
+        },
+        {
+          name: "mint",
+          isMut: false,
+          isSigner: false
+        },
+        {
+          name: "senderTokenAccount",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "messageEscrow",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "escrowVault",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "tokenProgram",
+          isMut: false,
+          isSigner: false
+        },
+        {
+          name: "systemProgram",
+          isMut: false,
+          isSigner: false
+        }
+      ],
+      args: [
+        {
+          name: "amount",
+          type: "u64"
+        },
+        {
+          name: "messageId",
+          type: "string"
+        },
+        {
+          name: "expiresAt",
+          type: "i64"
+        },
+        {
+          name: "contentHash",
+          type: {
+            array: [
+              "u8",
+              32
+            ]
+          }
+        }
+      ]
+    },
+    {
+      name: "approveTokenMessagePayment",
+      accounts: [
+        {
+          name: "sender",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "recipient",
+          isMut: true,
+          isSigner: true
+        },
+        {
+          name: "messageEscrow",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "escrowVault",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "recipientTokenAccount",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "senderTokenAccount",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "tokenProgram",
+          isMut: false,
+          isSigner: false
+        }
+      ],
+      args: []
+    },
+    {
+      name: "partiallyApproveTokenMessagePayment",
+      accounts: [
+        {
+          name: "sender",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "recipient",
+          isMut: true,
+          isSigner: true
+        },
+        {
+          name: "messageEscrow",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "escrowVault",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "recipientTokenAccount",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "senderTokenAccount",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "tokenProgram",
+          isMut: false,
+          isSigner: false
+        }
+      ],
+      args: [
+        {
+          name: "recipientAmount",
+          type: "u64"
+        }
+      ]
+    },
+    {
+      name: "rejectTokenMessagePayment",
+      accounts: [
+        {
+          name: "sender",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "recipient",
+          isMut: true,
+          isSigner: true
+        },
+        {
+          name: "messageEscrow",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "escrowVault",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "recipientTokenAccount",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "senderTokenAccount",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "tokenProgram",
+          isMut: false,
+          isSigner: false
+        }
+      ],
+      args: []
+    },
+    {
+      name: "reclaimExpiredTokenPayment",
+      accounts: [
+        {
+          name: "sender",
+          isMut: true,
+          isSigner: true
+        },
+        {
+          name: "recipient",
+          isMut: false,
+          isSigner: false
+        },
+        {
+          name: "messageEscrow",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "escrowVault",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "senderTokenAccount",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "tokenProgram",
+          isMut: false,
+          isSigner: false
+        }
+      ],
+      args: []
+    },
+    {
+      name: "donateFunds",
+      accounts: [
+        {
+          name: "donor",
+          isMut: true,
+          isSigner: true
+        },
+        {
+          name: "donationAddress",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "systemProgram",
+          isMut: false,
+          isSigner: false
+        }
+      ],
+      args: [
+        {
+          name: "amount",
+          type: "u64"
+        }
+      ]
+    }
+  ],
+  accounts: [
+    {
+      name: "messageEscrow",
+      type: {
+        kind: "struct",
+        fields: [
+          {
+            name: "sender",
+            type: "publicKey"
+          },
+          {
+            name: "recipient",
+            type: "publicKey"
+          },
+          {
+            name: "amount",
+            type: "u64"
+          },
+          {
+            name: "messageId",
+            type: "string"
+          },
+          {
+            name: "status",
+            type: {
+              defined: "EscrowStatus"
+            }
+          },
+          {
+            name: "createdAt",
+            type: "i64"
+          },
+          {
+            name: "processedAt",
+            type: "i64"
+          },
+          {
+            name: "expiresAt",
+            type: "i64"
+          }
+        ]
+      }
+    },
+    {
+      name: "tokenMessageEscrow",
+      type: {
+        kind: "struct",
+        fields: [
+          {
+            name: "sender",
+            type: "publicKey"
+          },
+          {
+            name: "recipient",
+            type: "publicKey"
+          },
+          {
+            name: "mint",
+            type: "publicKey"
+          },
+          {
+            name: "amount",
+            type: "u64"
+          },
+          {
+            name: "messageId",
+            type: "string"
+          },
+          {
+            name: "status",
+            type: {
+              defined: "EscrowStatus"
+            }
+          },
+          {
+            name: "createdAt",
+            type: "i64"
+          },
+          {
+            name: "processedAt",
+            type: "i64"
+          },
+          {
+            name: "expiresAt",
+            type: "i64"
+          },
+          {
+            name: "bump",
+            type: "u8"
+          }
+        ]
+      }
+    }
+  ],
+  types: [
+    {
+      name: "EscrowStatus",
+      type: {
+        kind: "enum",
+        variants: [
+          {
+            name: "Pending"
+          },
+          {
+            name: "Approved"
+          },
+          {
+            name: "Rejected"
+          },
+          {
+            name: "Expired"
+          }
+        ]
+      }
+    }
+  ],
+  errors: [
+    {
+      code: 6000,
+      name: "InvalidEscrowStatus",
+      msg: "Invalid escrow status"
+    },
+    {
+      code: 6001,
+      name: "InvalidRecipient",
+      msg: "Invalid recipient"
+    },
+    {
+      code: 6002,
+      name: "InvalidSender",
+      msg: "Invalid sender"
+    },
+    {
+      code: 6003,
+      name: "InvalidMessageId",
+      msg: "Invalid message ID"
+    },
+    {
+      code: 6004,
+      name: "InvalidEscrowAddress",
+      msg: "Escrow account address does not match its seeds"
+    },
+    {
+      code: 6005,
+      name: "InvalidExpiry",
+      msg: "Expiry must be in the future"
+    },
+    {
+      code: 6006,
+      name: "EscrowExpired",
+      msg: "Escrow has expired"
+    },
+    {
+      code: 6007,
+      name: "EscrowNotExpired",
+      msg: "Escrow has not expired yet"
+    },
+    {
+      code: 6008,
+      name: "InvalidSplitAmount",
+      msg: "Split amount must be more than zero and less than the payment"
+    }
+  ]
+};
+
+export const IDL: PayToReply = {
+  version: "0.1.0",
+  name: "pay_to_reply",
+  instructions: [
+    {
+      name: "createMessagePayment",
+      accounts: [
+        {
+          name: "sender",
+          isMut: true,
+          isSigner: true
+        },
+        {
+          name: "recipient",
+          isMut: false,
+          isSigner: false
+        },
+        {
+          name: "messageEscrow",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "systemProgram",
+          isMut: false,
+          isSigner: false
+        }
+      ],
+      args: [
+        {
+          name: "amount",
+          type: "u64"
+        },
+        {
+          name: "messageId",
+          type: "string"
+        },
+        {
+          name: "expiresAt",
+          type: "i64"
+        },
+        {
+          name: "contentHash",
+          type: {
+            array: [
+              "u8",
+              32
+            ]
+          }
+        }
+      ]
+    },
+    {
+      name: "approveMessagePayment",
+      accounts: [
+        {
+          name: "sender",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "recipient",
+          isMut: true,
+          isSigner: true
+        },
+        {
+          name: "messageEscrow",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "systemProgram",
+          isMut: false,
+          isSigner: false
+        }
+      ],
+      args: []
+    },
+    {
+      name: "partiallyApproveMessagePayment",
+      accounts: [
+        {
+          name: "sender",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "recipient",
+          isMut: true,
+          isSigner: true
+        },
+        {
+          name: "messageEscrow",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "systemProgram",
+          isMut: false,
+          isSigner: false
+        }
+      ],
+      args: [
+        {
+          name: "recipientAmount",
+          type: "u64"
+        }
+      ]
+    },
+    {
+      name: "rejectMessagePayment",
+      accounts: [
+        {
+          name: "sender",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "recipient",
+          isMut: true,
+          isSigner: true
+        },
+        {
+          name: "messageEscrow",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "systemProgram",
+          isMut: false,
+          isSigner: false
+        }
+      ],
+      args: []
+    },
+    {
+      name: "reclaimExpiredPayment",
+      accounts: [
+        {
+          name: "sender",
+          isMut: true,
+          isSigner: true
+        },
+        {
+          name: "recipient",
+          isMut: false,
+          isSigner: false
+        },
+        {
+          name: "messageEscrow",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "systemProgram",
+          isMut: false,
+          isSigner: false
+        }
+      ],
+      args: []
+    },
+    {
+      name: "createTokenMessagePayment",
+      accounts: [
+        {
+          name: "sender",
+          isMut: true,
+          isSigner: true
+        },
+        {
+          name: "recipient",
+          isMut: false,
+          isSigner: false
+        },
+        {
+          name: "mint",
+          isMut: false,
+          isSigner: false
+        },
+        {
+          name: "senderTokenAccount",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "messageEscrow",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "escrowVault",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "tokenProgram",
+          isMut: false,
+          isSigner: false
+        },
+        {
+          name: "systemProgram",
+          isMut: false,
+          isSigner: false
+        }
+      ],
+      args: [
+        {
+          name: "amount",
+          type: "u64"
+        },
+        {
+          name: "messageId",
+          type: "string"
+        },
+        {
+          name: "expiresAt",
+          type: "i64"
+        },
+        {
+          name: "contentHash",
+          type: {
+            array: [
+              "u8",
+              32
+            ]
+          }
+        }
+      ]
+    },
+    {
+      name: "approveTokenMessagePayment",
+      accounts: [
+        {
+          name: "sender",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "recipient",
+          isMut: true,
+          isSigner: true
+        },
+        {
+          name: "messageEscrow",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "escrowVault",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "recipientTokenAccount",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "senderTokenAccount",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "tokenProgram",
+          isMut: false,
+          isSigner: false
+        }
+      ],
+      args: []
+    },
+    {
+      name: "partiallyApproveTokenMessagePayment",
+      accounts: [
+        {
+          name: "sender",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "recipient",
+          isMut: true,
+          isSigner: true
+        },
+        {
+          name: "messageEscrow",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "escrowVault",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "recipientTokenAccount",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "senderTokenAccount",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "tokenProgram",
+          isMut: false,
+          isSigner: false
+        }
+      ],
+      args: [
+        {
+          name: "recipientAmount",
+          type: "u64"
+        }
+      ]
+    },
+    {
+      name: "rejectTokenMessagePayment",
+      accounts: [
+        {
+          name: "sender",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "recipient",
+          isMut: true,
+          isSigner: true
+        },
+        {
+          name: "messageEscrow",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "escrowVault",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "recipientTokenAccount",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "senderTokenAccount",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "tokenProgram",
+          isMut: false,
+          isSigner: false
+        }
+      ],
+      args: []
+    },
+    {
+      name: "reclaimExpiredTokenPayment",
+      accounts: [
+        {
+          name: "sender",
+          isMut: true,
+          isSigner: true
+        },
+        {
+          name: "recipient",
+          isMut: false,
+          isSigner: false
+        },
+        {
+          name: "messageEscrow",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "escrowVault",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "senderTokenAccount",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "tokenProgram",
+          isMut: false,
+          isSigner: false
+        }
+      ],
+      args: []
+    },
+    {
+      name: "donateFunds",
+      accounts: [
+        {
+          name: "donor",
+          isMut: true,
+          isSigner: true
+        },
+        {
+          name: "donationAddress",
+          isMut: true,
+          isSigner: false
+        },
+        {
+          name: "systemProgram",
+          isMut: false,
+          isSigner: false
+        }
+      ],
+      args: [
+        {
+          name: "amount",
+          type: "u64"
+        }
+      ]
+    }
+  ],
+  accounts: [
+    {
+      name: "messageEscrow",
+      type: {
+        kind: "struct",
+        fields: [
+          {
+            name: "sender",
+            type: "publicKey"
+          },
+          {
+            name: "recipient",
+            type: "publicKey"
+          },
+          {
+            name: "amount",
+            type: "u64"
+          },
+          {
+            name: "messageId",
+            type: "string"
+          },
+          {
+            name: "status",
+            type: {
+              defined: "EscrowStatus"
+            }
+          },
+          {
+            name: "createdAt",
+            type: "i64"
+          },
+          {
+            name: "processedAt",
+            type: "i64"
+          },
+          {
+            name: "expiresAt",
+            type: "i64"
+          }
+        ]
+      }
+    },
+    {
+      name: "tokenMessageEscrow",
+      type: {
+        kind: "struct",
+        fields: [
+          {
+            name: "sender",
+            type: "publicKey"
+          },
+          {
+            name: "recipient",
+            type: "publicKey"
+          },
+          {
+            name: "mint",
+            type: "publicKey"
+          },
+          {
+            name: "amount",
+            type: "u64"
+          },
+          {
+            name: "messageId",
+            type: "string"
+          },
+          {
+            name: "status",
+            type: {
+              defined: "EscrowStatus"
+            }
+          },
+          {
+            name: "createdAt",
+            type: "i64"
+          },
+          {
+            name: "processedAt",
+            type: "i64"
+          },
+          {
+            name: "expiresAt",
+            type: "i64"
+          },
+          {
+            name: "bump",
+            type: "u8"
+          }
+        ]
+      }
+    }
+  ],
+  types: [
+    {
+      name: "EscrowStatus",
+      type: {
+        kind: "enum",
+        variants: [
+          {
+            name: "Pending"
+          },
+          {
+            name: "Approved"
+          },
+          {
+            name: "Rejected"
+          },
+          {
+            name: "Expired"
+          }
+        ]
+      }
+    }
+  ],
+  errors: [
+    {
+      code: 6000,
+      name: "InvalidEscrowStatus",
+      msg: "Invalid escrow status"
+    },
+    {
+      code: 6001,
+      name: "InvalidRecipient",
+      msg: "Invalid recipient"
+    },
+    {
+      code: 6002,
+      name: "InvalidSender",
+      msg: "Invalid sender"
+    },
+    {
+      code: 6003,
+      name: "InvalidMessageId",
+      msg: "Invalid message ID"
+    },
+    {
+      code: 6004,
+      name: "InvalidEscrowAddress",
+      msg: "Escrow account address does not match its seeds"
+    },
+    {
+      code: 6005,
+      name: "InvalidExpiry",
+      msg: "Expiry must be in the future"
+    },
+    {
+      code: 6006,
+      name: "EscrowExpired",
+      msg: "Escrow has expired"
+    },
+    {
+      code: 6007,
+      name: "EscrowNotExpired",
+      msg: "Escrow has not expired yet"
+    },
+    {
+      code: 6008,
+      name: "InvalidSplitAmount",
+      msg: "Split amount must be more than zero and less than the payment"
+    }
+  ]
+};
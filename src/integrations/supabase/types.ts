@@ -9,14 +9,175 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      message_attachments: {
+        Row: {
+          content_type: string
+          created_at: string
+          file_name: string
+          id: string
+          message_id: string
+          size_bytes: number
+          storage_path: string
+          uploader_id: string
+        }
+        Insert: {
+          content_type: string
+          created_at?: string
+          file_name: string
+          id?: string
+          message_id: string
+          size_bytes: number
+          storage_path: string
+          uploader_id: string
+        }
+        Update: {
+          content_type?: string
+          created_at?: string
+          file_name?: string
+          id?: string
+          message_id?: string
+          size_bytes?: number
+          storage_path?: string
+          uploader_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_attachments_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_attachments_uploader_id_fkey"
+            columns: ["uploader_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_drafts: {
+        Row: {
+          amount: number
+          content: string
+          created_at: string
+          currency: string
+          expiry: string | null
+          id: string
+          mint: string | null
+          recipient_id: string
+          requires_reply: boolean
+          sender_id: string
+          updated_at: string
+        }
+        Insert: {
+          amount?: number
+          content: string
+          created_at?: string
+          currency?: string
+          expiry?: string | null
+          id?: string
+          mint?: string | null
+          recipient_id: string
+          requires_reply?: boolean
+          sender_id: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          content?: string
+          created_at?: string
+          currency?: string
+          expiry?: string | null
+          id?: string
+          mint?: string | null
+          recipient_id?: string
+          requires_reply?: boolean
+          sender_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_drafts_recipient_id_fkey"
+            columns: ["recipient_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_drafts_sender_id_fkey"
+            columns: ["sender_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_events: {
+        Row: {
+          actor_id: string | null
+          created_at: string
+          from_status: string | null
+          id: string
+          message_id: string
+          to_status: string
+          transaction_signature: string | null
+        }
+        Insert: {
+          actor_id?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          message_id: string
+          to_status: string
+          transaction_signature?: string | null
+        }
+        Update: {
+          actor_id?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          message_id?: string
+          to_status?: string
+          transaction_signature?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_events_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_events_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       messages: {
         Row: {
           amount: number
+          answer_message_id: string | null
+          approved_amount: number | null
           content: string
+          content_salt: string | null
           created_at: string
+          currency: string
+          donation_signature: string | null
+          encrypted_content: Json | null
+          escrow_address: string | null
+          expires_at: string | null
           id: string
           message_id: string
+          mint: string | null
+          parent_message_id: string | null
           recipient_id: string
+          requires_reply: boolean
           sender_id: string
           status: string
           transaction_signature: string | null
@@ -24,11 +185,22 @@ export type Database = {
         }
         Insert: {
           amount: number
+          answer_message_id?: string | null
+          approved_amount?: number | null
           content: string
+          content_salt?: string | null
           created_at?: string
+          currency?: string
+          donation_signature?: string | null
+          encrypted_content?: Json | null
+          escrow_address?: string | null
+          expires_at?: string | null
           id?: string
           message_id: string
+          mint?: string | null
+          parent_message_id?: string | null
           recipient_id: string
+          requires_reply?: boolean
           sender_id: string
           status?: string
           transaction_signature?: string | null
@@ -36,11 +208,22 @@ export type Database = {
         }
         Update: {
           amount?: number
+          answer_message_id?: string | null
+          approved_amount?: number | null
           content?: string
+          content_salt?: string | null
           created_at?: string
+          currency?: string
+          donation_signature?: string | null
+          encrypted_content?: Json | null
+          escrow_address?: string | null
+          expires_at?: string | null
           id?: string
           message_id?: string
+          mint?: string | null
+          parent_message_id?: string | null
           recipient_id?: string
+          requires_reply?: boolean
           sender_id?: string
           status?: string
           transaction_signature?: string | null
@@ -54,6 +237,20 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "messages_answer_message_id_fkey"
+            columns: ["answer_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_parent_message_id_fkey"
+            columns: ["parent_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "fk_sender_profile"
             columns: ["sender_id"]
@@ -67,6 +264,7 @@ export type Database = {
         Row: {
           avatar_url: string | null
           created_at: string | null
+          encryption_public_key: string | null
           id: string
           twitter_id: string | null
           twitter_username: string | null
@@ -78,6 +276,7 @@ export type Database = {
         Insert: {
           avatar_url?: string | null
           created_at?: string | null
+          encryption_public_key?: string | null
           id: string
           twitter_id?: string | null
           twitter_username?: string | null
@@ -89,6 +288,7 @@ export type Database = {
         Update: {
           avatar_url?: string | null
           created_at?: string | null
+          encryption_public_key?: string | null
           id?: string
           twitter_id?: string | null
           twitter_username?: string | null
@@ -99,6 +299,117 @@ export type Database = {
         }
         Relationships: []
       }
+      scheduled_messages: {
+        Row: {
+          amount: number
+          content: string
+          content_salt: string | null
+          created_at: string
+          currency: string
+          encrypted_content: Json | null
+          error: string | null
+          escrow_address: string
+          expires_at: string | null
+          id: string
+          message_id: string
+          mint: string | null
+          nonce_account: string
+          recipient_id: string
+          requires_reply: boolean
+          send_at: string
+          sender_id: string
+          signed_transaction: string
+          status: string
+          transaction_signature: string | null
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          content: string
+          content_salt?: string | null
+          created_at?: string
+          currency?: string
+          encrypted_content?: Json | null
+          error?: string | null
+          escrow_address: string
+          expires_at?: string | null
+          id?: string
+          message_id: string
+          mint?: string | null
+          nonce_account: string
+          recipient_id: string
+          requires_reply?: boolean
+          send_at: string
+          sender_id: string
+          signed_transaction: string
+          status?: string
+          transaction_signature?: string | null
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          content?: string
+          content_salt?: string | null
+          created_at?: string
+          currency?: string
+          encrypted_content?: Json | null
+          error?: string | null
+          escrow_address?: string
+          expires_at?: string | null
+          id?: string
+          message_id?: string
+          mint?: string | null
+          nonce_account?: string
+          recipient_id?: string
+          requires_reply?: boolean
+          send_at?: string
+          sender_id?: string
+          signed_transaction?: string
+          status?: string
+          transaction_signature?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scheduled_messages_recipient_id_fkey"
+            columns: ["recipient_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scheduled_messages_sender_id_fkey"
+            columns: ["sender_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      wallet_claim_challenges: {
+        Row: {
+          created_at: string
+          expires_at: string
+          message: string
+          user_id: string
+          wallet_address: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          message: string
+          user_id: string
+          wallet_address: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          message?: string
+          user_id?: string
+          wallet_address?: string
+        }
+        Relationships: []
+      }
       wrappers_fdw_stats: {
         Row: {
           bytes_in: number | null
@@ -200,6 +511,20 @@ export type Database = {
         }
         Returns: undefined
       }
+      cancel_scheduled_message: {
+        Args: {
+          p_id: string
+        }
+        Returns: boolean
+      }
+      claim_wallet_profile: {
+        Args: {
+          p_wallet_address: string
+          p_signature: string
+          p_wallet_name?: string
+        }
+        Returns: number
+      }
       click_house_fdw_handler: {
         Args: Record<PropertyKey, never>
         Returns: unknown
@@ -280,6 +605,12 @@ export type Database = {
         }
         Returns: undefined
       }
+      issue_wallet_claim_challenge: {
+        Args: {
+          p_wallet_address: string
+        }
+        Returns: string
+      }
       logflare_fdw_handler: {
         Args: Record<PropertyKey, never>
         Returns: unknown
@@ -320,6 +651,13 @@ export type Database = {
         }
         Returns: undefined
       }
+      publish_encryption_key: {
+        Args: {
+          p_wallet_address: string
+          p_public_key: string
+        }
+        Returns: undefined
+      }
       redis_fdw_handler: {
         Args: Record<PropertyKey, never>
         Returns: unknown
@@ -340,6 +678,19 @@ export type Database = {
         }
         Returns: undefined
       }
+      reschedule_scheduled_message: {
+        Args: {
+          p_id: string
+          p_content: string
+          p_content_salt: string | null
+          p_encrypted_content: Json | null
+          p_amount: number
+          p_send_at: string
+          p_expires_at: string | null
+          p_signed_transaction: string
+        }
+        Returns: boolean
+      }
       s3_fdw_handler: {
         Args: Record<PropertyKey, never>
         Returns: unknown
@@ -360,6 +711,16 @@ export type Database = {
         }
         Returns: undefined
       }
+      search_message_counterparts: {
+        Args: {
+          p_profile_id: string
+          p_received: boolean
+          p_pattern: string
+        }
+        Returns: {
+          id: string
+        }[]
+      }
       stripe_fdw_handler: {
         Args: Record<PropertyKey, never>
         Returns: unknown
@@ -1,10 +1,12 @@
 
 import ComposeMessage from '@/components/ComposeMessage';
 import Layout from '@/components/Layout';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 
 const Compose = () => {
   const navigate = useNavigate();
+  // Set when continuing a draft from the inbox
+  const [searchParams] = useSearchParams();
   
   const handleSuccess = () => {
     // Navigate to dashboard after successful message send
@@ -23,7 +25,7 @@ const Compose = () => {
           </p>
         </div>
         
-        <ComposeMessage onSuccess={handleSuccess} />
+        <ComposeMessage onSuccess={handleSuccess} initialRecipient={searchParams.get('to') || undefined} />
       </div>
     </Layout>
   );
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { Link } from 'react-router-dom';
 import { BarChart, Clock, MessageSquare, Repeat, Wallet, Zap, Shield, ChevronRight } from 'lucide-react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -8,11 +8,14 @@ import { Separator } from '@/components/ui/separator';
 import Layout from '@/components/Layout';
 import MessageCard from '@/components/UpdatedMessageCard';
 import TransactionHistory from '@/components/TransactionHistory';
-import { formatAmount } from '@/utils/mockData';
+import { formatAmounts, sumByCurrency } from '@/utils/mockData';
 import { useWallet } from '@/contexts/WalletContext';
 import { useAuth } from '@/hooks/useAuth';
 import { AtSign } from 'lucide-react';
 import { fetchMessages, getMessageStats, MessageData } from '@/utils/messageService';
+import { applyEscrowStatusChange } from '@/utils/escrowSubscriptions';
+import { useEscrowSubscriptions } from '@/hooks/useEscrowSubscriptions';
+import { subscribeToEncryptionChanges } from '@/utils/encryptionService';
 import { useToast } from "@/hooks/use-toast";
 import DashboardDonationCard from '@/components/DashboardDonationCard';
 
@@ -33,10 +36,15 @@ const Dashboard = () => {
     pendingSent: 0,
     approvedSent: 0,
     totalSent: 0,
-    totalEarnings: 0
+    totalEarnings: 0,
+    earningsByCurrency: {} as Record<string, number>
   });
   
-  const [pendingTransactions, setPendingTransactions] = useState(0);
+  // Derived so live status changes update it too
+  const pendingTransactions = useMemo(
+    () => sumByCurrency(receivedMessages.filter(msg => msg.status === 'pending')),
+    [receivedMessages]
+  );
   
   const truncateAddress = (address: string) => {
     if (!address) return '';
@@ -45,42 +53,55 @@ const Dashboard = () => {
       address;
   };
   
-  useEffect(() => {
-    const loadMessagesAndStats = async () => {
-      if (isConnected && walletAddress) {
+  // Live updates refetch quietly, without the loading state
+  const loadMessagesAndStats = useCallback(async (showLoading = true) => {
+    if (isConnected && walletAddress) {
+      if (showLoading) {
         setIsLoading(true);
-        try {
-          const [received, sent, stats] = await Promise.all([
-            fetchMessages(walletAddress, 'received'),
-            fetchMessages(walletAddress, 'sent'),
-            getMessageStats(walletAddress)
-          ]);
-          
-          setReceivedMessages(received);
-          setSentMessages(sent);
-          setMessageStats(stats);
-          
-          const pendingAmount = received
-            .filter(msg => msg.status === 'pending')
-            .reduce((sum, msg) => sum + parseFloat(msg.amount as any), 0);
-            
-          setPendingTransactions(pendingAmount);
-        } catch (error) {
-          console.error('Error loading messages:', error);
-          toast({
-            title: "Error loading messages",
-            description: "There was a problem loading your messages. Please try again.",
-            variant: "destructive"
-          });
-        } finally {
-          setIsLoading(false);
-        }
       }
-    };
-    
-    loadMessagesAndStats();
+      try {
+        const [received, sent, stats] = await Promise.all([
+          fetchMessages(walletAddress, 'received'),
+          fetchMessages(walletAddress, 'sent'),
+          getMessageStats(walletAddress)
+        ]);
+        
+        setReceivedMessages(received);
+        setSentMessages(sent);
+        setMessageStats(stats);
+      } catch (error) {
+        console.error('Error loading messages:', error);
+        toast({
+          title: "Error loading messages",
+          description: "There was a problem loading your messages. Please try again.",
+          variant: "destructive"
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    }
   }, [isConnected, walletAddress, toast]);
   
+  useEffect(() => {
+    loadMessagesAndStats();
+  }, [loadMessagesAndStats]);
+  
+  // Refetch to decrypt once the encryption key is unlocked
+  useEffect(() => {
+    return subscribeToEncryptionChanges(() => loadMessagesAndStats(false));
+  }, [loadMessagesAndStats]);
+  
+  useEscrowSubscriptions({
+    walletAddress,
+    receivedMessages,
+    sentMessages,
+    onStatusChange: (change) => {
+      setReceivedMessages(prev => applyEscrowStatusChange(prev, change));
+      setSentMessages(prev => applyEscrowStatusChange(prev, change));
+    },
+    onRefresh: () => loadMessagesAndStats(false),
+  });
+  
   return (
     <Layout>
       <div className="flex flex-col space-y-8 animate-fade-in">
@@ -100,7 +121,7 @@ const Dashboard = () => {
               </div>
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold web3-gradient-text">{formatAmount(messageStats.totalEarnings)}</div>
+              <div className="text-2xl font-bold web3-gradient-text">{formatAmounts(messageStats.earningsByCurrency)}</div>
               <p className="text-xs text-muted-foreground">
                 From {messageStats.approvedReceived} approved messages
               </p>
@@ -226,7 +247,7 @@ const Dashboard = () => {
                 ) : (
                   <div className="space-y-4">
                     {sentMessages.slice(0, 3).map((message) => (
-                      <MessageCard key={message.id} message={message} variant="compact" />
+                      <MessageCard key={message.id} message={message} variant="compact" direction="sent" />
                     ))}
                     {sentMessages.length > 3 && (
                       <div className="text-center mt-4">
@@ -307,7 +328,7 @@ const Dashboard = () => {
                       <Shield className="h-4 w-4 text-accent mr-2" />
                       Pending
                     </p>
-                    <p className="text-sm font-medium">{pendingTransactions.toFixed(4)} <span className="text-accent">SOL</span></p>
+                    <p className="text-sm font-medium">{formatAmounts(pendingTransactions)}</p>
                   </div>
                 </div>
               </CardContent>
@@ -1,7 +1,16 @@
-import { useState, useEffect, useCallback } from 'react';
-import { Filter, Search, RefreshCw } from 'lucide-react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Filter, Search, RefreshCw, Link2, Check, X, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
 import {
   Select,
   SelectContent,
@@ -14,7 +23,22 @@ import Layout from '@/components/Layout';
 import MessageCard from '@/components/UpdatedMessageCard';
 import { useWallet } from '@/contexts/WalletContext';
 import { useToast } from '@/hooks/use-toast';
-import { fetchMessages, MessageData } from '@/utils/messageService';
+import { canSettleInBatch, fetchMessagePage, MESSAGE_PAGE_SIZE, MessageData, MessageSort, MessageStatus } from '@/utils/messageService';
+import { reconcileMessageEscrows, EscrowMismatch } from '@/utils/escrowReconciler';
+import { applyEscrowStatusChange } from '@/utils/escrowSubscriptions';
+import { useEscrowSubscriptions } from '@/hooks/useEscrowSubscriptions';
+import { useInfiniteScroll } from '@/hooks/useInfiniteScroll';
+import { getActiveCluster, getConnection, getProgramId } from '@/utils/activeCluster';
+import { batchProcessMessagePayments, BatchAction, BatchMessageResult } from '@/utils/anchorClient';
+import type { BatchProgress } from '@/utils/transactionSender';
+import { describeError } from '@/utils/errors';
+import OutboxRecovery from '@/components/OutboxRecovery';
+import DraftsList from '@/components/DraftsList';
+import ScheduledMessagesList from '@/components/ScheduledMessagesList';
+import EncryptionStatus from '@/components/EncryptionStatus';
+import { subscribeToEncryptionChanges } from '@/utils/encryptionService';
+import { formatAmounts, sumByCurrency } from '@/utils/mockData';
+import { supabase } from '@/integrations/supabase/client';
 import { AlertTriangle } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import {
@@ -29,6 +53,9 @@ const statusOptions = [
   { value: 'pending', label: 'Pending' },
   { value: 'approved', label: 'Approved' },
   { value: 'rejected', label: 'Rejected' },
+  { value: 'expired', label: 'Expired' },
+  { value: 'refunded', label: 'Refunded' },
+  { value: 'donated', label: 'Donated' },
 ];
 
 const sortOptions = [
@@ -38,89 +65,246 @@ const sortOptions = [
   { value: 'lowest', label: 'Lowest Amount' },
 ];
 
+// Tabs with their own lists instead of messages
+const LIST_TABS = ['drafts', 'scheduled'];
+
+// Wait for typing to pause before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
 const Inbox = () => {
-  const { walletAddress, isConnected } = useWallet();
+  const { walletAddress, isConnected, getAnchorWallet, refreshBalance } = useWallet();
   const { toast } = useToast();
   
-  const [receivedMessages, setReceivedMessages] = useState<MessageData[]>([]);
-  const [sentMessages, setSentMessages] = useState<MessageData[]>([]);
+  // Messages loaded so far for the current tab, filter, sort and search
+  const [messages, setMessages] = useState<MessageData[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   
+  // The Drafts and Scheduled tabs keep the last message tab loaded underneath them
+  const [activeTab, setActiveTab] = useState('received');
   const [tab, setTab] = useState('received');
   const [statusFilter, setStatusFilter] = useState('all');
   const [sortBy, setSortBy] = useState('newest');
   const [searchQuery, setSearchQuery] = useState('');
-  const [filteredMessages, setFilteredMessages] = useState<MessageData[]>([]);
+  const [debouncedSearch, setDebouncedSearch] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [hasError, setHasError] = useState(false);
   const [errorDetails, setErrorDetails] = useState<string | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [syncIssues, setSyncIssues] = useState<EscrowMismatch[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [batchAction, setBatchAction] = useState<BatchAction | null>(null);
+  const [isBatchProcessing, setIsBatchProcessing] = useState(false);
+  const [batchProgress, setBatchProgress] = useState<BatchProgress | null>(null);
+  const [batchFailures, setBatchFailures] = useState<BatchMessageResult[]>([]);
+  
+  // Responses to an earlier tab, filter or search are dropped when they arrive late
+  const requestIdRef = useRef(0);
+  const loadedCountRef = useRef(0);
+  loadedCountRef.current = messages.length;
   
-  const loadMessages = useCallback(async () => {
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+  
+  const pageQuery = useMemo(() => ({
+    type: tab as 'received' | 'sent',
+    status: statusFilter as MessageStatus | 'all',
+    sort: sortBy as MessageSort,
+    search: debouncedSearch,
+  }), [tab, statusFilter, sortBy, debouncedSearch]);
+  
+  // Load the first page. Live updates refetch quietly, without the loading state,
+  // and keep as many messages as are already loaded so the list doesn't shrink.
+  const loadMessages = useCallback(async (showLoading = true) => {
     if (!isConnected || !walletAddress) return;
     
-    setIsLoading(true);
+    const requestId = ++requestIdRef.current;
+    
+    if (showLoading) {
+      setIsLoading(true);
+    }
     setHasError(false);
     setErrorDetails(null);
     
     try {
       console.log('Loading messages for wallet:', walletAddress);
       
-      const [received, sent] = await Promise.all([
-        fetchMessages(walletAddress, 'received'),
-        fetchMessages(walletAddress, 'sent')
-      ]);
+      const page = await fetchMessagePage(walletAddress, {
+        ...pageQuery,
+        limit: showLoading ? MESSAGE_PAGE_SIZE : Math.max(loadedCountRef.current, MESSAGE_PAGE_SIZE),
+      });
+      
+      if (requestId !== requestIdRef.current) return;
       
-      console.log(`Loaded ${received.length} received messages and ${sent.length} sent messages`);
+      console.log(`Loaded ${page.messages.length} ${pageQuery.type} messages`);
       
-      setReceivedMessages(received);
-      setSentMessages(sent);
+      setMessages(page.messages);
+      setNextCursor(page.nextCursor);
     } catch (error) {
+      if (requestId !== requestIdRef.current) return;
       console.error('Error loading messages:', error);
       setHasError(true);
       setErrorDetails(error instanceof Error ? error.message : 'Unknown error');
     } finally {
-      setIsLoading(false);
-      setIsRefreshing(false);
+      if (requestId === requestIdRef.current) {
+        setIsLoading(false);
+        setIsRefreshing(false);
+      }
     }
-  }, [walletAddress, isConnected]);
+  }, [walletAddress, isConnected, pageQuery]);
   
   useEffect(() => {
     loadMessages();
   }, [loadMessages]);
   
+  // Refetch to decrypt once the encryption key is unlocked
   useEffect(() => {
-    let messages = tab === 'received' ? receivedMessages : sentMessages;
+    return subscribeToEncryptionChanges(() => loadMessages(false));
+  }, [loadMessages]);
+  
+  const loadMoreMessages = async () => {
+    if (!walletAddress || !nextCursor || isLoadingMore) return;
     
-    if (statusFilter !== 'all') {
-      messages = messages.filter(msg => msg.status === statusFilter);
-    }
+    const requestId = requestIdRef.current;
+    setIsLoadingMore(true);
     
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      messages = messages.filter(
-        msg => 
-          (msg.content?.toLowerCase().includes(query)) || 
-          (msg.senderUsername?.toLowerCase().includes(query))
-      );
+    try {
+      const page = await fetchMessagePage(walletAddress, { ...pageQuery, cursor: nextCursor });
+      if (requestId !== requestIdRef.current) return;
+      
+      // A message can shift pages if it changed since the last page was loaded
+      setMessages(prev => {
+        const loadedIds = new Set(prev.map(msg => msg.id));
+        return [...prev, ...page.messages.filter(msg => !loadedIds.has(msg.id))];
+      });
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading more messages:', error);
+      toast({
+        title: 'Error loading messages',
+        description: error instanceof Error ? error.message : 'Could not load more messages.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoadingMore(false);
     }
-    
-    messages = [...messages].sort((a, b) => {
-      switch (sortBy) {
-        case 'newest':
-          return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
-        case 'oldest':
-          return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
-        case 'highest':
-          return parseFloat(b.amount as any) - parseFloat(a.amount as any);
-        case 'lowest':
-          return parseFloat(a.amount as any) - parseFloat(b.amount as any);
-        default:
-          return 0;
+  };
+  
+  const loadMoreRef = useInfiniteScroll(loadMoreMessages, !!nextCursor && !isLoading && !isLoadingMore);
+
+  useEscrowSubscriptions({
+    walletAddress,
+    receivedMessages: tab === 'received' ? messages : [],
+    sentMessages: tab === 'sent' ? messages : [],
+    onStatusChange: (change) => {
+      setMessages(prev => applyEscrowStatusChange(prev, change));
+    },
+    onRefresh: () => loadMessages(false),
+  });
+  
+  // Only pending received messages that don't need an answer first can be settled in a batch
+  const selectableMessages = tab === 'received'
+    ? messages.filter(canSettleInBatch)
+    : [];
+  const selectedMessages = selectableMessages.filter(msg => selectedIds.has(msg.id));
+  const selectedAmount = sumByCurrency(selectedMessages);
+  const allSelected = selectableMessages.length > 0 && selectedMessages.length === selectableMessages.length;
+  
+  // Drop selections that are no longer visible or can no longer be settled in a batch
+  useEffect(() => {
+    setSelectedIds(prev => {
+      const visible = new Set(messages.filter(canSettleInBatch).map(msg => msg.id));
+      const next = new Set([...prev].filter(id => visible.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [messages]);
+  
+  const toggleSelected = (messageId: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(messageId);
+      } else {
+        next.delete(messageId);
       }
+      return next;
     });
+  };
+  
+  const toggleSelectAll = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(selectableMessages.map(msg => msg.id)) : new Set());
+  };
+  
+  const getBatchProgressLabel = (progress: BatchProgress): string => {
+    switch (progress.stage) {
+      case 'simulating':
+        return `Checking ${selectedMessages.length} messages...`;
+      case 'signing':
+        return `Approve ${progress.transactionCount} transaction${progress.transactionCount !== 1 ? 's' : ''} in your wallet...`;
+      case 'sending':
+        return `Confirming transactions (${progress.confirmedCount}/${progress.transactionCount})...`;
+      case 'done':
+        return 'Updating messages...';
+    }
+  };
+  
+  const handleBatchConfirm = async () => {
+    const action = batchAction;
+    setBatchAction(null);
+    if (!action || selectedMessages.length === 0) return;
+    
+    const wallet = getAnchorWallet();
+    if (!wallet) {
+      toast({
+        title: 'Wallet Not Connected',
+        description: `Please connect your wallet to ${action} messages.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    
+    setIsBatchProcessing(true);
+    setBatchFailures([]);
     
-    setFilteredMessages(messages);
-  }, [tab, statusFilter, sortBy, searchQuery, receivedMessages, sentMessages]);
+    try {
+      const results = await batchProcessMessagePayments(
+        wallet,
+        action,
+        selectedMessages.map(msg => ({ messageId: msg.message_id, senderId: msg.sender_id })),
+        setBatchProgress
+      );
+      
+      const failures = results.filter(result => result.error);
+      const succeeded = results.length - failures.length;
+      setBatchFailures(failures);
+      
+      toast({
+        title: action === 'approve' ? 'Messages Approved' : 'Messages Rejected',
+        description: failures.length === 0
+          ? `${succeeded} message${succeeded !== 1 ? 's' : ''} ${action === 'approve' ? 'approved' : 'rejected'}.`
+          : `${succeeded} of ${results.length} messages ${action === 'approve' ? 'approved' : 'rejected'}. ${failures.length} failed.`,
+        variant: succeeded === 0 ? 'destructive' : 'default',
+      });
+      
+      setSelectedIds(new Set());
+      if (succeeded > 0) {
+        refreshBalance();
+      }
+      loadMessages();
+    } catch (error) {
+      console.error(`Error processing batch ${action}:`, error);
+      toast({
+        ...describeError(error, 'Error'),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsBatchProcessing(false);
+      setBatchProgress(null);
+    }
+  };
   
   const handleRefresh = () => {
     if (isRefreshing || isLoading) return;
@@ -138,6 +322,65 @@ const Inbox = () => {
     loadMessages();
   };
 
+  const handleTabChange = (value: string) => {
+    setActiveTab(value);
+    if (!LIST_TABS.includes(value)) {
+      setTab(value);
+    }
+  };
+  
+  const clearFilters = () => {
+    setStatusFilter('all');
+    setSearchQuery('');
+  };
+
+  // Scrolling this into view loads the next page
+  const loadMoreIndicator = nextCursor && (
+    <div ref={loadMoreRef} className="flex justify-center py-4">
+      {isLoadingMore && <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />}
+    </div>
+  );
+
+  const handleSyncWithChain = async () => {
+    if (!walletAddress || isSyncing) return;
+    
+    setIsSyncing(true);
+    
+    try {
+      const report = await reconcileMessageEscrows({
+        connection: getConnection(),
+        programId: getProgramId(),
+        supabase,
+        walletAddress,
+        repair: true,
+        paymentTokens: getActiveCluster().paymentTokens,
+      });
+      
+      const unrepaired = report.mismatches.filter(mismatch => !mismatch.repaired);
+      setSyncIssues(unrepaired);
+      
+      toast({
+        title: 'Sync Complete',
+        description: report.mismatches.length === 0
+          ? `All ${report.rowsScanned} messages match their on-chain escrows.`
+          : `Updated ${report.repairedCount} message${report.repairedCount !== 1 ? 's' : ''} from chain. ${unrepaired.length} issue${unrepaired.length !== 1 ? 's' : ''} need attention.`,
+      });
+      
+      if (report.repairedCount > 0) {
+        loadMessages();
+      }
+    } catch (error) {
+      console.error('Error syncing with chain:', error);
+      toast({
+        title: 'Sync Failed',
+        description: error instanceof Error ? error.message : 'Could not compare messages with on-chain escrows.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
   return (
     <Layout>
       <div className="container px-4 py-6 mx-auto">
@@ -175,12 +418,58 @@ const Inbox = () => {
             </Alert>
           )}
         
-          <Tabs defaultValue="received" className="space-y-4" onValueChange={setTab}>
+          {syncIssues.length > 0 && (
+            <Alert variant="warning" className="animate-fade-in border-yellow-500 bg-yellow-500/10">
+              <AlertTriangle className="h-4 w-4 text-yellow-500" />
+              <AlertTitle>Messages Out of Sync With Chain</AlertTitle>
+              <AlertDescription>
+                <ul className="mt-2 space-y-1 text-sm">
+                  {syncIssues.map(issue => (
+                    <li key={`${issue.kind}-${issue.messageId}`}>
+                      <span className="font-mono">{issue.messageId}</span>: {issue.detail}
+                    </li>
+                  ))}
+                </ul>
+                <div className="mt-2">
+                  <Button variant="outline" size="sm" onClick={() => setSyncIssues([])}>
+                    Dismiss
+                  </Button>
+                </div>
+              </AlertDescription>
+            </Alert>
+          )}
+        
+          {batchFailures.length > 0 && (
+            <Alert variant="warning" className="animate-fade-in border-yellow-500 bg-yellow-500/10">
+              <AlertTriangle className="h-4 w-4 text-yellow-500" />
+              <AlertTitle>Some Messages Could Not Be Processed</AlertTitle>
+              <AlertDescription>
+                <ul className="mt-2 space-y-1 text-sm">
+                  {batchFailures.map(failure => (
+                    <li key={failure.messageId}>
+                      <span className="font-mono">{failure.messageId}</span>: {failure.error}
+                    </li>
+                  ))}
+                </ul>
+                <div className="mt-2">
+                  <Button variant="outline" size="sm" onClick={() => setBatchFailures([])}>
+                    Dismiss
+                  </Button>
+                </div>
+              </AlertDescription>
+            </Alert>
+          )}
+        
+          <EncryptionStatus />
+        
+          <Tabs value={activeTab} className="space-y-4" onValueChange={handleTabChange}>
             <div className="flex flex-col sm:flex-row justify-between gap-4">
               <div className="flex items-center gap-2">
                 <TabsList className="bg-muted/50 h-10">
                   <TabsTrigger value="received" className="px-4">Received</TabsTrigger>
                   <TabsTrigger value="sent" className="px-4">Sent</TabsTrigger>
+                  <TabsTrigger value="drafts" className="px-4">Drafts</TabsTrigger>
+                  <TabsTrigger value="scheduled" className="px-4">Scheduled</TabsTrigger>
                 </TabsList>
                 
                 <TooltipProvider>
@@ -200,107 +489,221 @@ const Inbox = () => {
                       <p>Refresh Messages</p>
                     </TooltipContent>
                   </Tooltip>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button 
+                        variant="outline" 
+                        size="icon" 
+                        onClick={handleSyncWithChain} 
+                        disabled={isSyncing || isLoading || !isConnected}
+                        className="h-10 w-10"
+                      >
+                        <Link2 className={`h-4 w-4 ${isSyncing ? 'animate-pulse' : ''}`} />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p>Sync with chain</p>
+                    </TooltipContent>
+                  </Tooltip>
                 </TooltipProvider>
               </div>
               
-              <div className="flex flex-col sm:flex-row gap-2">
-                <div className="relative w-full sm:w-64">
-                  <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
-                  <Input
-                    placeholder="Search messages..."
-                    className="glass-input pl-8"
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                  />
-                </div>
+              {!LIST_TABS.includes(activeTab) && (
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <div className="relative w-full sm:w-64">
+                    <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      placeholder="Search messages..."
+                      className="glass-input pl-8"
+                      value={searchQuery}
+                      onChange={(e) => setSearchQuery(e.target.value)}
+                    />
+                  </div>
                 
-                <Select value={statusFilter} onValueChange={setStatusFilter}>
-                  <SelectTrigger className="glass-input w-full sm:w-40">
-                    <Filter className="mr-2 h-4 w-4" />
-                    <SelectValue placeholder="Filter" />
-                  </SelectTrigger>
-                  <SelectContent className="glass-panel">
-                    {statusOptions.map(option => (
-                      <SelectItem key={option.value} value={option.value}>
-                        {option.label}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
+                  <Select value={statusFilter} onValueChange={setStatusFilter}>
+                    <SelectTrigger className="glass-input w-full sm:w-40">
+                      <Filter className="mr-2 h-4 w-4" />
+                      <SelectValue placeholder="Filter" />
+                    </SelectTrigger>
+                    <SelectContent className="glass-panel">
+                      {statusOptions.map(option => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 
-                <Select value={sortBy} onValueChange={setSortBy}>
-                  <SelectTrigger className="glass-input w-full sm:w-40">
-                    <SelectValue placeholder="Sort by" />
-                  </SelectTrigger>
-                  <SelectContent className="glass-panel">
-                    {sortOptions.map(option => (
-                      <SelectItem key={option.value} value={option.value}>
-                        {option.label}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
+                  <Select value={sortBy} onValueChange={setSortBy}>
+                    <SelectTrigger className="glass-input w-full sm:w-40">
+                      <SelectValue placeholder="Sort by" />
+                    </SelectTrigger>
+                    <SelectContent className="glass-panel">
+                      {sortOptions.map(option => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
             </div>
             
             <TabsContent value="received" className="space-y-4 m-0 pt-2 animate-fade-in">
+              {!isLoading && selectableMessages.length > 0 && (
+                <div className="glass-panel rounded-lg px-4 py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                  <div className="flex items-center gap-3">
+                    <Checkbox
+                      id="select-all-pending"
+                      checked={allSelected}
+                      onCheckedChange={(checked) => toggleSelectAll(checked === true)}
+                      disabled={isBatchProcessing}
+                    />
+                    <label htmlFor="select-all-pending" className="text-sm cursor-pointer">
+                      {selectedMessages.length > 0
+                        ? `${selectedMessages.length} selected (${formatAmounts(selectedAmount)})`
+                        : `Select all pending (${selectableMessages.length})`}
+                    </label>
+                    {batchProgress && (
+                      <span className="text-xs text-muted-foreground flex items-center">
+                        <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                        {getBatchProgressLabel(batchProgress)}
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-red-500 hover:bg-red-500/10"
+                      onClick={() => setBatchAction('reject')}
+                      disabled={selectedMessages.length === 0 || isBatchProcessing}
+                    >
+                      <X className="h-4 w-4 mr-1" /> Reject selected
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-green-500 hover:bg-green-500/10"
+                      onClick={() => setBatchAction('approve')}
+                      disabled={selectedMessages.length === 0 || isBatchProcessing}
+                    >
+                      <Check className="h-4 w-4 mr-1" /> Approve selected
+                    </Button>
+                  </div>
+                </div>
+              )}
+              
               {isLoading ? (
                 <div className="glass-panel rounded-lg p-8 text-center">
                   <p className="text-muted-foreground animate-pulse">Loading messages...</p>
                 </div>
-              ) : filteredMessages.length === 0 ? (
+              ) : messages.length === 0 ? (
                 <div className="glass-panel rounded-lg p-8 text-center">
                   <p className="text-muted-foreground">No messages found.</p>
-                  {statusFilter !== 'all' && (
-                    <Button variant="ghost" onClick={() => setStatusFilter('all')} className="mt-4">
+                  {(statusFilter !== 'all' || searchQuery) && (
+                    <Button variant="ghost" onClick={clearFilters} className="mt-4">
                       Clear Filters
                     </Button>
                   )}
                 </div>
               ) : (
                 <div className="grid grid-cols-1 gap-4">
-                  {filteredMessages.map((message, index) => (
-                    <div key={message.id} className="animate-scale-in" style={{animationDelay: `${index * 50}ms`}}>
-                      <MessageCard 
-                        message={message} 
-                        onRefresh={refreshMessages}
-                      />
+                  {messages.map((message, index) => (
+                    <div key={message.id} className="animate-scale-in flex items-start gap-3" style={{animationDelay: `${(index % MESSAGE_PAGE_SIZE) * 50}ms`}}>
+                      {selectableMessages.length > 0 && (
+                        <Checkbox
+                          className="mt-5"
+                          checked={selectedIds.has(message.id)}
+                          onCheckedChange={(checked) => toggleSelected(message.id, checked === true)}
+                          disabled={!canSettleInBatch(message) || isBatchProcessing}
+                          aria-label="Select message"
+                        />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <MessageCard 
+                          message={message} 
+                          onRefresh={refreshMessages}
+                        />
+                      </div>
                     </div>
                   ))}
+                  {loadMoreIndicator}
                 </div>
               )}
             </TabsContent>
             
             <TabsContent value="sent" className="space-y-4 m-0 pt-2 animate-fade-in">
+              <OutboxRecovery onRecovered={() => loadMessages()} />
+              
               {isLoading ? (
                 <div className="glass-panel rounded-lg p-8 text-center">
                   <p className="text-muted-foreground animate-pulse">Loading messages...</p>
                 </div>
-              ) : filteredMessages.length === 0 ? (
+              ) : messages.length === 0 ? (
                 <div className="glass-panel rounded-lg p-8 text-center">
                   <p className="text-muted-foreground">No sent messages found.</p>
-                  {statusFilter !== 'all' && (
-                    <Button variant="ghost" onClick={() => setStatusFilter('all')} className="mt-4">
+                  {(statusFilter !== 'all' || searchQuery) && (
+                    <Button variant="ghost" onClick={clearFilters} className="mt-4">
                       Clear Filters
                     </Button>
                   )}
                 </div>
               ) : (
                 <div className="grid grid-cols-1 gap-4">
-                  {filteredMessages.map((message, index) => (
-                    <div key={message.id} className="animate-scale-in" style={{animationDelay: `${index * 50}ms`}}>
+                  {messages.map((message, index) => (
+                    <div key={message.id} className="animate-scale-in" style={{animationDelay: `${(index % MESSAGE_PAGE_SIZE) * 50}ms`}}>
                       <MessageCard 
                         message={message}
+                        direction="sent"
                         onRefresh={refreshMessages}
                       />
                     </div>
                   ))}
+                  {loadMoreIndicator}
                 </div>
               )}
             </TabsContent>
+            
+            <TabsContent value="drafts" className="space-y-4 m-0 pt-2 animate-fade-in">
+              <DraftsList />
+            </TabsContent>
+
+            <TabsContent value="scheduled" className="space-y-4 m-0 pt-2 animate-fade-in">
+              <ScheduledMessagesList />
+            </TabsContent>
           </Tabs>
         </div>
       </div>
+      
+      {/* Batch Confirmation Dialog */}
+      <Dialog open={batchAction !== null} onOpenChange={(open) => !open && setBatchAction(null)}>
+        <DialogContent className="glass-panel sm:max-w-md animate-scale-in">
+          <DialogHeader>
+            <DialogTitle>
+              {batchAction === 'approve' ? 'Approve Selected Messages' : 'Reject Selected Messages'}
+            </DialogTitle>
+            <DialogDescription>
+              {batchAction === 'approve'
+                ? `Approve ${selectedMessages.length} message${selectedMessages.length !== 1 ? 's' : ''} and receive ${formatAmounts(selectedAmount)}?`
+                : `Reject ${selectedMessages.length} message${selectedMessages.length !== 1 ? 's' : ''} and return ${formatAmounts(selectedAmount)} to the senders?`}
+              {' '}Your wallet will ask you to sign all transactions at once.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="flex sm:justify-end gap-2">
+            <Button variant="outline" onClick={() => setBatchAction(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={batchAction === 'approve' ? 'default' : 'destructive'}
+              onClick={handleBatchConfirm}
+            >
+              {batchAction === 'approve' ? 'Approve All' : 'Reject All'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </Layout>
   );
 };
@@ -16,6 +16,20 @@ import { Slider } from '@/components/ui/slider';
 import { formatAmount } from '@/utils/mockData';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { createMessagePayment } from '@/utils/anchorClient';
+import { getExplorerTxUrl } from '@/utils/activeCluster';
+import { EXPIRY_OPTIONS, DEFAULT_EXPIRY_OPTION, getExpiryDate, getPaymentAmountRange } from '@/utils/messageService';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { usePaymentCost } from '@/hooks/usePaymentCost';
+import { describeError } from '@/utils/errors';
+import PaymentCostBreakdown from '@/components/PaymentCostBreakdown';
+import PaymentCurrencySelect from '@/components/PaymentCurrencySelect';
+import RequireReplyToggle from '@/components/RequireReplyToggle';
+import DraftSavedHint from '@/components/DraftSavedHint';
+import AttachmentPicker from '@/components/AttachmentPicker';
+import RecipientEncryptionHint from '@/components/RecipientEncryptionHint';
+import { useMessageDraft } from '@/hooks/useMessageDraft';
+import { fromBaseUnits, PaymentToken, SOL_CURRENCY } from '@/utils/tokens';
 
 const Share = () => {
   const { username } = useParams<{ username: string }>();
@@ -27,16 +41,44 @@ const Share = () => {
     isSupportedWalletInstalled,
     walletName,
     walletIcon,
-    getAnchorWallet
+    getAnchorWallet,
+    balance,
+    refreshBalance
   } = useWallet();
   const [recipient, setRecipient] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [message, setMessage] = useState('');
   const [amount, setAmount] = useState(0.5);
+  const [expiry, setExpiry] = useState(DEFAULT_EXPIRY_OPTION);
+  const [requiresReply, setRequiresReply] = useState(false);
+  const [attachments, setAttachments] = useState<File[]>([]);
   const [isSending, setIsSending] = useState(false);
   const [isWalletDialogOpen, setIsWalletDialogOpen] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
   const navigate = useNavigate();
+  const [paymentToken, setPaymentToken] = useState<PaymentToken | null>(null);
+  const currency = paymentToken?.symbol || SOL_CURRENCY;
+  const amountRange = getPaymentAmountRange(currency);
+  const paymentCost = usePaymentCost(recipient?.wallet_address, amount, expiry, paymentToken);
+  const isSelfMessage = profile?.twitter_username === username;
+  const { savedAt: draftSavedAt, clearDraft } = useMessageDraft(
+    recipient && !isSelfMessage ? { id: recipient.id, username: recipient.username } : null,
+    { content: message, amount, currency, mint: paymentToken?.mint || null, expiry, requiresReply },
+    (draft, token) => {
+      setMessage(draft.content);
+      setPaymentToken(token);
+      // A draft paid in a token this cluster no longer accepts falls back to SOL
+      setAmount(token || !draft.mint ? draft.amount : getPaymentAmountRange(SOL_CURRENCY).max / 2);
+      setExpiry(draft.expiry || DEFAULT_EXPIRY_OPTION);
+      setRequiresReply(draft.requiresReply);
+    }
+  );
+
+  // Start each currency in the middle of its slider range
+  const handlePaymentTokenChange = (token: PaymentToken | null) => {
+    setPaymentToken(token);
+    setAmount(getPaymentAmountRange(token?.symbol || SOL_CURRENCY).max / 2);
+  };
 
   const SUPPORTED_WALLETS = [
     {
@@ -93,8 +135,6 @@ const Share = () => {
     fetchUserProfile();
   }, [username]);
   
-  const isSelfMessage = profile?.twitter_username === username;
-  
   const handleSendMessage = async () => {
     if (!message) {
       toast({
@@ -113,6 +153,28 @@ const Share = () => {
       });
       return;
     }
+
+    // Refresh wallet balance before checking
+    await refreshBalance();
+
+    // Check the wallet covers the amount plus escrow rent and fees
+    const { cost } = paymentCost;
+    if (cost && balance * LAMPORTS_PER_SOL < cost.totalLamports) {
+      toast({
+        title: 'Insufficient Balance',
+        description: `Your wallet balance (${formatAmount(balance)}) is too low for this transaction. You need ${formatAmount(cost.totalLamports / LAMPORTS_PER_SOL)} including escrow rent and fees.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    if (cost?.token && cost.token.balanceBaseUnits < cost.token.amountBaseUnits) {
+      toast({
+        title: 'Insufficient Balance',
+        description: `Your ${cost.token.symbol} balance (${formatAmount(fromBaseUnits(cost.token.balanceBaseUnits, cost.token.decimals), cost.token.symbol)}) is too low for this payment.`,
+        variant: 'destructive',
+      });
+      return;
+    }
     
     setIsSending(true);
     
@@ -128,28 +190,32 @@ const Share = () => {
       }
       
       // Create message payment - this function already saves the message to Supabase
-      const tx = await createMessagePayment(wallet, recipientAddress, amount, message);
+      const tx = await createMessagePayment(wallet, recipientAddress, amount, message, getExpiryDate(expiry), undefined, paymentToken, requiresReply, attachments);
       
       // No need to save the message again - it's already saved by createMessagePayment
       // The message_id is generated inside createMessagePayment to ensure consistency
       
       toast({
         title: 'Message Sent',
-        description: `Your message to @${recipient.twitter_username} has been sent with ${formatAmount(amount)}.`,
+        description: `Your message to @${recipient.twitter_username} has been sent with ${formatAmount(amount, currency)}.`,
       });
       
       console.log('Transaction signature:', tx);
-      console.log("https://explorer.sonic.game/tx/" + tx);
+      console.log(getExplorerTxUrl(tx));
+
+      await clearDraft();
 
       setIsSending(false);
       setMessage('');
-      setAmount(0.5);
+      setAmount(amountRange.max / 2);
+      setExpiry(DEFAULT_EXPIRY_OPTION);
+      setRequiresReply(false);
+      setAttachments([]);
       setShowSuccess(true);
     } catch (error) {
       console.error('Error sending payment:', error);
       toast({
-        title: 'Transaction Failed',
-        description: `Failed to send payment. Please try again. ${error instanceof Error ? error.message : ''}`,
+        ...describeError(error),
         variant: 'destructive',
       });
       setIsSending(false);
@@ -369,29 +435,58 @@ const Share = () => {
                           value={message}
                           onChange={(e) => setMessage(e.target.value)}
                         />
-                        <p className="text-xs text-muted-foreground text-right">
-                          {message.length} characters
-                        </p>
+                        <div className="flex justify-between text-xs text-muted-foreground">
+                          <DraftSavedHint savedAt={draftSavedAt} />
+                          <span>{message.length} characters</span>
+                        </div>
+                        <RecipientEncryptionHint username={recipient.twitter_username} publicKey={recipient.encryption_public_key} />
                       </div>
                       
+                      <AttachmentPicker files={attachments} onChange={setAttachments} disabled={isSending} />
+                      
+                      <PaymentCurrencySelect value={paymentToken} onChange={handlePaymentTokenChange} />
+
                       <div className="space-y-4">
                         <div className="space-y-2">
-                          <Label htmlFor="amount">Payment Amount ({formatAmount(amount)})</Label>
+                          <Label htmlFor="amount">Payment Amount ({formatAmount(amount, currency)})</Label>
                           <Slider
                             id="amount"
                             min={0}
-                            max={1}
-                            step={0.001}
+                            max={amountRange.max}
+                            step={amountRange.step}
                             value={[amount]}
                             onValueChange={(values) => setAmount(values[0])}
                           />
                         </div>
                         <div className="flex justify-between text-sm text-muted-foreground">
-                          <span>{formatAmount(0)}</span>
-                          <span>{formatAmount(1)}</span>
+                          <span>{formatAmount(0, currency)}</span>
+                          <span>{formatAmount(amountRange.max, currency)}</span>
                         </div>
                       </div>
                       
+                      <div className="space-y-2">
+                        <Label htmlFor="expiry">Refund If Unanswered After</Label>
+                        <Select value={expiry} onValueChange={setExpiry}>
+                          <SelectTrigger id="expiry" className="glass-input">
+                            <SelectValue placeholder="Select a deadline" />
+                          </SelectTrigger>
+                          <SelectContent className="glass-panel">
+                            {EXPIRY_OPTIONS.map(option => (
+                              <SelectItem key={option.value} value={option.value}>
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <p className="text-xs text-muted-foreground">
+                          If the recipient hasn't responded by then, you can reclaim your payment.
+                        </p>
+                      </div>
+
+                      <RequireReplyToggle checked={requiresReply} onCheckedChange={setRequiresReply} />
+
+                      <PaymentCostBreakdown estimate={paymentCost} />
+                      
                       <Button 
                         onClick={handleSendMessage} 
                         className="w-full bg-primary hover:bg-primary/90 transition-all duration-300 shadow-button mt-4"
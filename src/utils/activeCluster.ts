@@ -0,0 +1,126 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import {
+  ClusterConfig,
+  ClusterSettings,
+  createConnection,
+  DEFAULT_CLUSTER,
+  getExplorerTxUrl as getClusterExplorerTxUrl,
+  readClusterSettingsFromEnv,
+  resolveClusterConfig,
+} from '@/utils/clusterConfig';
+
+// The cluster the web app talks to. It defaults to the VITE_* env settings and
+// can be switched at runtime from the cluster selector, which persists the
+// choice to localStorage.
+
+const STORAGE_KEY = 'squeakyWheelCluster';
+
+type ClusterListener = (cluster: ClusterConfig) => void;
+
+const listeners = new Set<ClusterListener>();
+
+const envSettings = (): ClusterSettings => {
+  return readClusterSettingsFromEnv(import.meta.env, 'VITE_');
+};
+
+// Mints only exist on one cluster, so env payment tokens apply only to the env's cluster
+const withEnvPaymentTokens = (settings: ClusterSettings): ClusterSettings => {
+  const env = envSettings();
+  if (settings.paymentTokens || (settings.cluster || DEFAULT_CLUSTER) !== (env.cluster || DEFAULT_CLUSTER)) {
+    return settings;
+  }
+  return { ...settings, paymentTokens: env.paymentTokens };
+};
+
+const loadStoredSettings = (): ClusterSettings | null => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return null;
+
+  try {
+    return JSON.parse(stored) as ClusterSettings;
+  } catch (error) {
+    console.error('Failed to parse stored cluster settings:', error);
+    localStorage.removeItem(STORAGE_KEY);
+    return null;
+  }
+};
+
+const loadInitialCluster = (): ClusterConfig => {
+  const stored = loadStoredSettings();
+  if (stored) {
+    try {
+      return resolveClusterConfig(withEnvPaymentTokens(stored));
+    } catch (error) {
+      console.error('Stored cluster settings are invalid, falling back to env settings:', error);
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  }
+  return resolveClusterConfig(envSettings());
+};
+
+let activeCluster = loadInitialCluster();
+let activeConnection: Connection | null = null;
+
+console.log(`Using cluster ${activeCluster.label} (${activeCluster.rpcUrl}), program ${activeCluster.programId}`);
+
+const applyCluster = (cluster: ClusterConfig) => {
+  activeCluster = cluster;
+  activeConnection = null;
+  console.log(`Switched to cluster ${cluster.label} (${cluster.rpcUrl}), program ${cluster.programId}`);
+  listeners.forEach(listener => listener(cluster));
+};
+
+// Get the cluster the app is currently pointed at
+export const getActiveCluster = (): ClusterConfig => {
+  return activeCluster;
+};
+
+/**
+ * Point the app at another cluster and remember the choice
+ * @param settings Cluster name plus optional RPC URL / program ID overrides
+ * @returns The resolved cluster config
+ * @throws If the settings do not resolve to a valid cluster
+ */
+export const setActiveCluster = (settings: ClusterSettings): ClusterConfig => {
+  const cluster = resolveClusterConfig(withEnvPaymentTokens(settings));
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  applyCluster(cluster);
+  return cluster;
+};
+
+// Forget the runtime selection and go back to the env settings
+export const resetActiveCluster = (): ClusterConfig => {
+  localStorage.removeItem(STORAGE_KEY);
+  const cluster = resolveClusterConfig(envSettings());
+  applyCluster(cluster);
+  return cluster;
+};
+
+/**
+ * Listen for cluster switches
+ * @returns A function that removes the listener
+ */
+export const subscribeToClusterChanges = (listener: ClusterListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Get a (cached) connection to the active cluster
+export const getConnection = (): Connection => {
+  if (!activeConnection) {
+    activeConnection = createConnection(activeCluster);
+  }
+  return activeConnection;
+};
+
+// Get the pay_to_reply program ID on the active cluster
+export const getProgramId = (): PublicKey => {
+  return new PublicKey(activeCluster.programId);
+};
+
+// Get the explorer link for a transaction on the active cluster
+export const getExplorerTxUrl = (signature: string): string => {
+  return getClusterExplorerTxUrl(activeCluster, signature);
+};
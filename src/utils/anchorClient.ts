@@ -1,9 +1,31 @@
 import * as anchor from "@coral-xyz/anchor";
-import { Program, AnchorProvider, Idl } from "@coral-xyz/anchor";
-import { PublicKey, SystemProgram, Transaction, VersionedTransaction, LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { Program, AnchorProvider, BorshAccountsCoder } from "@coral-xyz/anchor";
+import { PublicKey, SystemProgram, Transaction, TransactionInstruction, VersionedTransaction, LAMPORTS_PER_SOL } from "@solana/web3.js";
 import { BN } from "bn.js";
-import { saveMessage, updateMessageStatus } from './messageService';
+import { fetchMessagesAwaitingAnswer, prepareMessageContent, updateMessageStatus } from './messageService';
 import { supabase } from "@/integrations/supabase/client";
+// Typed IDL generated from the Rust program by `npm run idl:sync`
+import { IDL, PayToReply } from "@/idl/pay_to_reply";
+import { getActiveCluster, getConnection, getProgramId } from "@/utils/activeCluster";
+import { contentHashToBytes, generateContentSalt, hashMessageContent } from "@/utils/contentCommitment";
+import { AnswerRequiredError, AttachmentError, DatabaseSaveError, describeError, EncryptionError, InsufficientFundsError, InsufficientTokenFundsError, isUnsentFailure, SchedulingError, toAppError } from "@/utils/errors";
+import { completeOutboxMessage, discardOutboxMessage, OutboxEntry, recordOutboxMessage, revertOutboxMessage } from "@/utils/outboxService";
+import { linkAttachments, removeUploadedAttachments, uploadAttachments } from "@/utils/attachmentService";
+import { closeNonceAccount, createNonceAccount, getNonceAccountRent, signDurableTransaction } from "@/utils/durableNonce";
+import { findProfileIdByWallet, provisionWalletProfile } from "@/utils/profileService";
+import { EDITABLE_SCHEDULED_STATUS, insertScheduledMessage, markScheduledMessageCancelled, saveScheduledMessageEdit, ScheduledMessage } from "@/utils/scheduledMessageService";
+import { BatchProgress, estimateTransactionFees, sendInstructionBatch, sendTransaction, TransactionEventListener } from "@/utils/transactionSender";
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  getAssociatedTokenAddress,
+  getMintDecimals,
+  getTokenBalance,
+  PaymentToken,
+  SOL_CURRENCY,
+  TOKEN_ACCOUNT_SPACE,
+  TOKEN_PROGRAM_ID,
+  toBaseUnits,
+} from "@/utils/tokens";
 
 // AnchorWallet interface definition updated to match Anchor's Wallet type
 export interface AnchorWallet {
@@ -12,164 +34,6 @@ export interface AnchorWallet {
   signAllTransactions: <T extends Transaction | VersionedTransaction>(txs: T[]) => Promise<T[]>;
 }
 
-// Get the IDL from the project directory 
-const IDL: Idl = {
-  version: "0.1.0",
-  name: "pay_to_reply",
-  instructions: [
-    {
-      name: "createMessagePayment",
-      accounts: [
-        {
-          name: "sender",
-          isMut: true,
-          isSigner: true
-        },
-        {
-          name: "recipient",
-          isMut: false,
-          isSigner: false
-        },
-        {
-          name: "messageEscrow",
-          isMut: true,
-          isSigner: false
-        },
-        {
-          name: "systemProgram",
-          isMut: false,
-          isSigner: false
-        }
-      ],
-      args: [
-        {
-          name: "amount",
-          type: "u64"
-        },
-        {
-          name: "messageId",
-          type: "string"
-        }
-      ]
-    },
-    {
-      name: "approveMessagePayment",
-      accounts: [
-        {
-          name: "sender",
-          isMut: false,
-          isSigner: false
-        },
-        {
-          name: "recipient",
-          isMut: true,
-          isSigner: true
-        },
-        {
-          name: "messageEscrow",
-          isMut: true,
-          isSigner: false
-        },
-        {
-          name: "systemProgram",
-          isMut: false,
-          isSigner: false
-        }
-      ],
-      args: []
-    },
-    {
-      name: "rejectMessagePayment",
-      accounts: [
-        {
-          name: "sender",
-          isMut: true,
-          isSigner: false
-        },
-        {
-          name: "recipient",
-          isMut: false,
-          isSigner: true
-        },
-        {
-          name: "messageEscrow",
-          isMut: true,
-          isSigner: false
-        },
-        {
-          name: "systemProgram",
-          isMut: false,
-          isSigner: false
-        }
-      ],
-      args: []
-    }
-  ],
-  accounts: [
-    {
-      name: "MessageEscrow",
-      type: {
-        kind: "struct",
-        fields: [
-          {
-            name: "sender",
-            type: "publicKey"
-          },
-          {
-            name: "recipient",
-            type: "publicKey"
-          },
-          {
-            name: "amount",
-            type: "u64"
-          },
-          {
-            name: "messageId",
-            type: "string"
-          },
-          {
-            name: "status",
-            type: {
-              defined: "EscrowStatus"
-            }
-          },
-          {
-            name: "createdAt",
-            type: "i64"
-          },
-          {
-            name: "processedAt",
-            type: "i64"
-          }
-        ]
-      }
-    }
-  ],
-  types: [
-    {
-      name: "EscrowStatus",
-      type: {
-        kind: "enum",
-        variants: [
-          {
-            name: "Pending"
-          },
-          {
-            name: "Approved"
-          },
-          {
-            name: "Rejected"
-          }
-        ]
-      }
-    }
-  ],
-  errors: []
-};
-
-// Constants
-const PROGRAM_ID = new PublicKey("GPS2swU3p4XGWisAh3n4QWQuMvrQdfnz2eSwME2dp66A");
-
 // Types
 export interface MessageEscrow {
   sender: PublicKey;
@@ -179,72 +43,117 @@ export interface MessageEscrow {
   status: EscrowStatus;
   createdAt: anchor.BN;
   processedAt: anchor.BN;
+  expiresAt: anchor.BN;
+  // Set when the escrow holds an SPL token instead of SOL
+  mint?: PublicKey;
 }
 
 export enum EscrowStatus {
   Pending = "Pending",
   Approved = "Approved",
   Rejected = "Rejected",
+  Expired = "Expired",
 }
 
 // Helper function to get the provider
 const getProvider = (wallet: AnchorWallet): anchor.AnchorProvider => {
-  // Use Sonic DevNet instead of Solana Devnet to match the connection in WalletContext
-  const connection = new anchor.web3.Connection(
-    "https://api.testnet.sonic.game", "confirmed"
-  );
+  const connection = getConnection();
+  const { commitment } = getActiveCluster();
   const provider = new anchor.AnchorProvider(
     connection,
     wallet,
-    anchor.AnchorProvider.defaultOptions()
+    { ...anchor.AnchorProvider.defaultOptions(), commitment, preflightCommitment: commitment }
   );
   return provider;
 };
 
 // Helper function to get the program
-export const getProgram = async (wallet: AnchorWallet): Promise<anchor.Program<typeof IDL>> => {
+export const getProgram = async (wallet: AnchorWallet): Promise<anchor.Program<PayToReply>> => {
   const provider = getProvider(wallet);
-  const program = new anchor.Program(IDL, PROGRAM_ID, provider);
+  const program = new anchor.Program(IDL, getProgramId(), provider);
   return program;
 };
 
+// Send program instructions through the transaction pipeline using the active cluster's settings
+const sendProgramInstructions = (
+  wallet: AnchorWallet,
+  instructions: TransactionInstruction[],
+  onTransactionEvent?: TransactionEventListener
+): Promise<string> => {
+  const { commitment, priorityFee } = getActiveCluster();
+  return sendTransaction(getConnection(), wallet, instructions, {
+    onEvent: onTransactionEvent,
+    commitment,
+    priorityFee,
+  });
+};
+
+// Message IDs created before escrow seeds included sender and recipient were
+// 'm' + 3 base36 characters, and their PDAs were seeded on the ID alone
+export const LEGACY_MESSAGE_ID_LENGTH = 4;
+
+// A PDA seed is limited to 32 bytes, so the full message ID must fit in one seed
+export const MESSAGE_ID_LENGTH = 32;
+
+// Check whether a message ID uses the legacy 4-character escrow layout
+export const isLegacyMessageId = (messageId: string): boolean => {
+  return messageId.length === LEGACY_MESSAGE_ID_LENGTH;
+};
+
+// Generate a collision-proof message ID: 'm' + 31 random hex characters (124 bits)
+export const generateMessageId = (): string => {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return `m${hex.slice(0, MESSAGE_ID_LENGTH - 1)}`;
+};
+
 // Derive PDA for message escrow
 export const deriveMessageEscrowPDA = async (
     sender: PublicKey,
     recipient: PublicKey,
     messageId: string,
-    program: Program<typeof IDL>
+    program: Program<PayToReply>
 ): Promise<[PublicKey, number]> => {
     if (!messageId) {
         console.error('Message ID is undefined or empty');
         throw new Error('Invalid message ID: Cannot derive PDA without a message ID');
     }
     
-    if (messageId.length < 4) {
+    if (messageId.length < LEGACY_MESSAGE_ID_LENGTH) {
         console.error('Message ID is too short:', messageId);
         throw new Error('Invalid message ID: Message ID must be at least 4 characters long');
     }
     
+    if (messageId.length > MESSAGE_ID_LENGTH) {
+        console.error('Message ID is too long:', messageId);
+        throw new Error(`Invalid message ID: Message ID must be at most ${MESSAGE_ID_LENGTH} characters long`);
+    }
+    
+    const isLegacy = isLegacyMessageId(messageId);
+    
     console.log('Deriving PDA with:');
     console.log('- Sender:', sender.toBase58());
     console.log('- Recipient:', recipient.toBase58());
     console.log('- Message ID:', messageId);
-    console.log('- Using first 4 characters for seed:', messageId.slice(0, 4));
+    console.log('- Seed layout:', isLegacy ? 'legacy (msg + 4-char ID)' : 'msg + sender + recipient + ID');
     console.log('- Program ID:', program.programId.toBase58());
     
     try {
-        // The Anchor program uses only two seeds:
-        // 1. The string "msg" as a prefix
-        // 2. The first 4 bytes of the message ID
-        const seeds = [
-            Buffer.from("msg"),
-            Buffer.from(messageId.slice(0, 4))
-        ];
-        
-        console.log('PDA seeds:', {
-            seed1: "msg",
-            seed2: messageId.slice(0, 4)
-        });
+        // Legacy escrows use two seeds: "msg" and the 4-character message ID.
+        // Current escrows use "msg", the sender, the recipient and the full message ID,
+        // so IDs only need to be unique per sender/recipient pair.
+        const seeds = isLegacy
+            ? [
+                Buffer.from("msg"),
+                Buffer.from(messageId)
+            ]
+            : [
+                Buffer.from("msg"),
+                sender.toBuffer(),
+                recipient.toBuffer(),
+                Buffer.from(messageId)
+            ];
         
         const [pda, bump] = await PublicKey.findProgramAddress(
             seeds,
@@ -261,37 +170,321 @@ export const deriveMessageEscrowPDA = async (
     }
 };
 
-// Helper function to check if wallet has sufficient balance
+// Bytes allocated for a MessageEscrow account; must match MessageEscrow::space() in lib.rs
+// (discriminator + sender + recipient + amount + message_id string + status + created_at + processed_at + expires_at)
+export const MESSAGE_ESCROW_SPACE = 8 + 32 + 32 + 8 + (4 + 50) + 1 + 8 + 8 + 8;
+
+// Bytes allocated for a TokenMessageEscrow account; must match TokenMessageEscrow::space() in lib.rs
+// (as above, plus mint and bump, with the message ID capped at its seed length rather than 50)
+export const TOKEN_MESSAGE_ESCROW_SPACE = 8 + 32 + 32 + 32 + 8 + (4 + MESSAGE_ID_LENGTH) + 1 + 8 + 8 + 8 + 1;
+
+// The token side of a payment in an SPL token
+export interface TokenPaymentCost {
+  symbol: string;
+  mint: string;
+  decimals: number;
+  // Payment and current wallet balance, in the mint's base units
+  amountBaseUnits: bigint;
+  balanceBaseUnits: bigint;
+}
+
+// Everything a sender pays to create a message escrow, in lamports
+export interface MessagePaymentCost {
+  // 'SOL' or the payment token's symbol
+  currency: string;
+  // SOL payment; 0 when paying in a token
+  amountLamports: number;
+  // Rent-exempt minimum for the escrow account, paid by the sender on creation
+  // and refunded when the escrow is closed on settlement
+  rentLamports: number;
+  // Rent for the token account that holds a token payment, refunded the same way; 0 for SOL
+  vaultRentLamports: number;
+  networkFeeLamports: number;
+  priorityFeeLamports: number;
+  // SOL the sender needs: payment, rent and fees
+  totalLamports: number;
+  token: TokenPaymentCost | null;
+}
+
+const solToLamports = (amount: number): number => Math.round(amount * LAMPORTS_PER_SOL);
+
+// What a new escrow is paid with: lamports, or base units of a mint
+type EscrowPayment =
+  | { lamports: number }
+  | { mint: PublicKey; baseUnits: bigint };
+
+// Hashes are fixed length, so estimates can commit a placeholder instead of real content
+const PLACEHOLDER_CONTENT_HASH = '0'.repeat(64);
+
+// Build the instructions that create a new escrow: create_message_payment for SOL,
+// or the escrow's token vault plus create_token_message_payment for a token.
+// Both commit the SHA-256 of the message content (see contentCommitment.ts).
+const buildCreateMessageInstructions = async (
+  program: anchor.Program<PayToReply>,
+  sender: PublicKey,
+  recipient: PublicKey,
+  payment: EscrowPayment,
+  messageId: string,
+  expiresAtSeconds: number,
+  contentHash: string
+): Promise<TransactionInstruction[]> => {
+  const [escrowPDA, bump] = await deriveMessageEscrowPDA(sender, recipient, messageId, program);
+
+  console.log('Sender public key:', sender.toBase58());
+  console.log('Recipient public key:', recipient.toBase58());
+  console.log('Message ID (used as seed):', messageId);
+  console.log('Escrow PDA:', escrowPDA.toBase58());
+  console.log('PDA bump:', bump);
+  console.log('Content hash:', contentHash);
+
+  if ('lamports' in payment) {
+    const instruction = await program.methods
+      .createMessagePayment(
+        new BN(payment.lamports),
+        messageId,
+        new BN(expiresAtSeconds),
+        contentHashToBytes(contentHash)
+      )
+      .accounts({
+        sender,
+        recipient,
+        messageEscrow: escrowPDA,
+        systemProgram: SystemProgram.programId,
+      })
+      .instruction();
+    return [instruction];
+  }
+
+  const { mint, baseUnits } = payment;
+  console.log('Payment mint:', mint.toBase58());
+
+  const instruction = await program.methods
+    .createTokenMessagePayment(
+      new BN(baseUnits.toString()),
+      messageId,
+      new BN(expiresAtSeconds),
+      contentHashToBytes(contentHash)
+    )
+    .accounts({
+      sender,
+      recipient,
+      mint,
+      senderTokenAccount: getAssociatedTokenAddress(mint, sender),
+      messageEscrow: escrowPDA,
+      escrowVault: getAssociatedTokenAddress(mint, escrowPDA),
+      tokenProgram: TOKEN_PROGRAM_ID,
+      systemProgram: SystemProgram.programId,
+    })
+    .instruction();
+
+  // The vault is the escrow PDA's associated token account, created just before the escrow
+  return [createAssociatedTokenAccountIdempotentInstruction(sender, escrowPDA, mint), instruction];
+};
+
+/**
+ * Work out the full cost of sending a paid message before asking for a signature
+ * @param senderAddress The sender's wallet address
+ * @param recipientAddress The recipient's wallet address
+ * @param amount The payment amount, in SOL or in the payment token
+ * @param expiresAt Optional refund deadline, included so the simulated instruction matches the real one
+ * @param paymentToken The SPL token to pay in; SOL when omitted
+ * @returns Amount, escrow rent, network fee and priority fee, plus their total, in lamports,
+ * and for token payments the token amount and the sender's token balance
+ */
+export const estimateMessagePaymentCost = async (
+  senderAddress: string,
+  recipientAddress: string,
+  amount: number,
+  expiresAt?: Date | null,
+  paymentToken?: PaymentToken | null
+): Promise<MessagePaymentCost> => {
+  const connection = getConnection();
+  const { commitment, priorityFee } = getActiveCluster();
+  // Nothing is signed here, so a connection-only provider is enough to build the instruction
+  const program = new anchor.Program(IDL, getProgramId(), { connection });
+  const sender = new PublicKey(senderAddress);
+
+  const expiresAtSeconds = expiresAt ? Math.floor(expiresAt.getTime() / 1000) : 0;
+
+  let payment: EscrowPayment;
+  let token: TokenPaymentCost | null = null;
+
+  if (paymentToken) {
+    const mint = new PublicKey(paymentToken.mint);
+    const decimals = await getMintDecimals(connection, mint);
+    const amountBaseUnits = toBaseUnits(amount, decimals);
+    token = {
+      symbol: paymentToken.symbol,
+      mint: paymentToken.mint,
+      decimals,
+      amountBaseUnits,
+      balanceBaseUnits: await getTokenBalance(connection, sender, mint),
+    };
+    payment = { mint, baseUnits: amountBaseUnits };
+  } else {
+    payment = { lamports: solToLamports(amount) };
+  }
+
+  // Message IDs are fixed length, so a throwaway one gives the same transaction size
+  const instructions = await buildCreateMessageInstructions(
+    program,
+    sender,
+    new PublicKey(recipientAddress),
+    payment,
+    generateMessageId(),
+    expiresAtSeconds,
+    PLACEHOLDER_CONTENT_HASH
+  );
+
+  const [rentLamports, vaultRentLamports, fees] = await Promise.all([
+    connection.getMinimumBalanceForRentExemption(token ? TOKEN_MESSAGE_ESCROW_SPACE : MESSAGE_ESCROW_SPACE, commitment),
+    token ? connection.getMinimumBalanceForRentExemption(TOKEN_ACCOUNT_SPACE, commitment) : Promise.resolve(0),
+    estimateTransactionFees(connection, sender, instructions, { commitment, priorityFee }),
+  ]);
+
+  const amountLamports = 'lamports' in payment ? payment.lamports : 0;
+
+  const cost: MessagePaymentCost = {
+    currency: token ? token.symbol : SOL_CURRENCY,
+    amountLamports,
+    rentLamports,
+    vaultRentLamports,
+    networkFeeLamports: fees.networkFeeLamports,
+    priorityFeeLamports: fees.priorityFeeLamports,
+    totalLamports: amountLamports + rentLamports + vaultRentLamports + fees.networkFeeLamports + fees.priorityFeeLamports,
+    token,
+  };
+
+  console.log('Estimated message payment cost (lamports):', cost);
+  return cost;
+};
+
+// Helper function to check if wallet can cover an exact cost
 const checkSufficientBalance = async (
   wallet: AnchorWallet,
-  requiredAmount: number
+  cost: MessagePaymentCost
 ): Promise<boolean> => {
+  const walletBalance = await getConnection().getBalance(wallet.publicKey);
+
+  console.log(`Wallet address: ${wallet.publicKey.toString()}`);
+  console.log(`Wallet balance: ${walletBalance / LAMPORTS_PER_SOL} SOL`);
+  console.log(`Total required (amount, rent and fees): ${cost.totalLamports / LAMPORTS_PER_SOL} SOL`);
+  console.log(`Has sufficient balance: ${walletBalance >= cost.totalLamports}`);
+
+  return walletBalance >= cost.totalLamports;
+};
+
+// Pay an escrow for a message already recorded in the outbox, then mark it sent.
+// Failures that never reached the chain return the message to draft; anything
+// else is left 'submitting' for resumeOutbox to settle from chain state.
+const submitOutboxPayment = async (
+  wallet: AnchorWallet,
+  entry: {
+    messageId: string;
+    recipientAddress: string;
+    amount: number;
+    content: string;
+    // Salt of the content hash committed with the payment
+    contentSalt: string | null;
+    expiresAt: Date | null;
+    paymentToken: PaymentToken | null;
+    requiresReply: boolean;
+    // Files to upload with a new message; retried drafts already have theirs
+    attachments?: File[];
+  },
+  onTransactionEvent?: TransactionEventListener,
+): Promise<string> => {
+  const { messageId, recipientAddress, amount, content, contentSalt, expiresAt, paymentToken, requiresReply, attachments = [] } = entry;
+
+  // The program stores the deadline as unix seconds, with 0 meaning "never expires"
+  const expiresAtSeconds = expiresAt ? Math.floor(expiresAt.getTime() / 1000) : 0;
+  console.log('Escrow expires at:', expiresAt ? expiresAt.toISOString() : 'never');
+
+  // Check the wallet covers the exact amount, escrow rent and fees before proceeding
+  const cost = await estimateMessagePaymentCost(wallet.publicKey.toBase58(), recipientAddress, amount, expiresAt, paymentToken);
+  const hasSufficientBalance = await checkSufficientBalance(wallet, cost);
+  if (!hasSufficientBalance) {
+    throw new InsufficientFundsError(cost.totalLamports);
+  }
+  if (cost.token && cost.token.balanceBaseUnits < cost.token.amountBaseUnits) {
+    throw new InsufficientTokenFundsError(cost.token.symbol, amount);
+  }
+
+  // Convert recipient string to PublicKey for validation
+  const recipientPublicKey = new PublicKey(recipientAddress);
+
+  // Connect to the program
+  const program = await getProgram(wallet);
+
+  const [escrowPDA] = await deriveMessageEscrowPDA(wallet.publicKey, recipientPublicKey, messageId, program);
+
+  const uploaded = await uploadAttachments(attachments);
+
+  // Persist the content before anything is signed so it can't be lost
+  const recorded = await recordOutboxMessage({
+    messageId,
+    senderWalletAddress: wallet.publicKey.toBase58(),
+    recipientWalletAddress: recipientAddress,
+    content,
+    contentSalt,
+    amount,
+    expiresAt: expiresAt ? expiresAt.toISOString() : null,
+    escrowAddress: escrowPDA.toBase58(),
+    currency: cost.currency,
+    mint: cost.token?.mint ?? null,
+    requiresReply,
+  });
+  if (!recorded) {
+    console.warn('Could not write the outbox row; continuing with the local copy only');
+  }
+
+  // Attachments need the row, so a message with files isn't paid for until they're linked
+  if (uploaded.length > 0) {
+    try {
+      if (!recorded) {
+        throw new AttachmentError('The message could not be saved, so its attachments could not be added', 'Nothing was charged. Try again in a moment.');
+      }
+      await linkAttachments(messageId, uploaded);
+    } catch (error) {
+      await revertOutboxMessage(messageId);
+      await discardOutboxMessage(messageId);
+      await removeUploadedAttachments(uploaded);
+      throw error;
+    }
+  }
+
+  const instructions = await buildCreateMessageInstructions(
+    program,
+    wallet.publicKey,
+    recipientPublicKey,
+    cost.token
+      ? { mint: new PublicKey(cost.token.mint), baseUnits: cost.token.amountBaseUnits }
+      : { lamports: cost.amountLamports },
+    messageId,
+    expiresAtSeconds,
+    await hashMessageContent(content, contentSalt)
+  );
+
+  let tx: string;
   try {
-    const provider = getProvider(wallet);
-    const connection = provider.connection;
-    const walletBalance = await connection.getBalance(wallet.publicKey);
-    
-    // Convert SOL amount to lamports for comparison
-    const requiredLamports = requiredAmount * LAMPORTS_PER_SOL;
-    
-    // Add estimated fee and rent for the transaction (0.01 SOL as buffer)
-    const estimatedFee = 0.01 * LAMPORTS_PER_SOL;
-    const totalRequired = requiredLamports + estimatedFee;
-    
-    console.log(`Wallet address: ${wallet.publicKey.toString()}`);
-    console.log(`Connection endpoint: ${connection.rpcEndpoint}`);
-    console.log(`Wallet balance: ${walletBalance / LAMPORTS_PER_SOL} SOL`);
-    console.log(`Required amount: ${requiredAmount} SOL`);
-    console.log(`Required amount in lamports: ${requiredLamports}`);
-    console.log(`Estimated fee: ${estimatedFee / LAMPORTS_PER_SOL} SOL`);
-    console.log(`Total required (including fees): ${totalRequired / LAMPORTS_PER_SOL} SOL`);
-    console.log(`Has sufficient balance: ${walletBalance >= totalRequired}`);
-    
-    return walletBalance >= totalRequired;
+    tx = await sendProgramInstructions(wallet, instructions, onTransactionEvent);
   } catch (error) {
-    console.error('Error checking wallet balance:', error);
-    return false;
+    if (isUnsentFailure(error)) {
+      await revertOutboxMessage(messageId);
+    }
+    throw error;
+  }
+
+  console.log('Transaction successful:', tx);
+
+  const saved = await completeOutboxMessage(messageId, tx);
+  if (!saved) {
+    console.error('Failed to save message to database');
+    throw new DatabaseSaveError(tx, messageId, 'Your payment went through and the message is kept in your outbox. It will be saved automatically the next time you open the app.');
   }
+
+  console.log('Message saved to database with ID:', messageId);
+  return tx;
 };
 
 // Function to create a message payment
@@ -300,119 +493,442 @@ export const createMessagePayment = async (
   recipientAddress: string,
   amount: number,
   messageContent: string,
+  expiresAt?: Date | null,
+  onTransactionEvent?: TransactionEventListener,
+  paymentToken?: PaymentToken | null,
+  // Make the recipient reply before they can approve the payment
+  requiresReply = false,
+  // Files to send with the message, checked against the attachment limits
+  attachments: File[] = [],
 ): Promise<string | undefined> => {
   try {
-    console.log(`Creating message payment of ${amount} SOL to ${recipientAddress} for message: ${messageContent.slice(0, 30)}...`);
-
-    // Check if wallet has sufficient balance before proceeding
-    const hasSufficientBalance = await checkSufficientBalance(wallet, amount);
-    if (!hasSufficientBalance) {
-      throw new Error('Insufficient funds. Please add more SOL to your wallet to complete this transaction.');
-    }
-
-    // Convert recipient string to PublicKey for validation
-    const recipientPublicKey = new PublicKey(recipientAddress);
+    console.log(`Creating message payment of ${amount} ${paymentToken?.symbol || SOL_CURRENCY} to ${recipientAddress} for message: ${messageContent.slice(0, 30)}...`);
     
-    // Generate a simple message ID that will be used for the PDA seed
-    // Using a simple 4-character ID for consistency with the program's expectations
-    // Format: 'm' + 3 characters from timestamp in base36
-    const messageId = `m${Date.now().toString(36).slice(-3)}`;
+    // Generate a random message ID that will be used as the final PDA seed
+    const messageId = generateMessageId();
     console.log('Generated Message ID:', messageId);
     
-    // Connect to the program
-    const program = await getProgram(wallet);
-    
-    // Convert SOL amount to lamports
-    const lamports = amount * LAMPORTS_PER_SOL;
-    
-    // Derive the PDA for the escrow account
-    const [escrowPDA, bump] = await deriveMessageEscrowPDA(
-      wallet.publicKey, 
-      recipientPublicKey,
+    return await submitOutboxPayment(wallet, {
       messageId,
-      program
-    );
-    
-    console.log('Sender public key:', wallet.publicKey.toBase58());
-    console.log('Recipient public key:', recipientPublicKey.toBase58());
-    console.log('Message ID (used as seed):', messageId);
-    console.log('Escrow PDA:', escrowPDA.toBase58());
-    console.log('PDA bump:', bump);
-    
-    // Submit the transaction
-    const tx = await program.methods
-      .createMessagePayment(
-        new BN(lamports),
-        messageId
-      )
-      .accounts({
-        sender: wallet.publicKey,
-        recipient: recipientPublicKey,
-        messageEscrow: escrowPDA,
-        systemProgram: SystemProgram.programId,
-      })
-      .rpc();
-    
-    console.log('Transaction successful:', tx);
-    
-    // Save message in Supabase - IMPORTANT: Use the same messageId that was used in the blockchain transaction
-    const saveResult = await saveMessage(
-      wallet.publicKey.toBase58(),
       recipientAddress,
-      messageId, // Use the exact same messageId that was used in the blockchain
-      messageContent,
       amount,
-      tx
-    );
+      content: messageContent,
+      contentSalt: generateContentSalt(),
+      expiresAt: expiresAt ?? null,
+      paymentToken: paymentToken ?? null,
+      requiresReply,
+      attachments,
+    }, onTransactionEvent);
+  } catch (error) {
+    console.error('Error in createMessagePayment:', error);
+    // Program, wallet, network and funding failures become typed errors the UI can explain
+    throw toAppError(error);
+  }
+};
+
+// Function to resend a draft left in the outbox by a failed or interrupted send
+export const retryOutboxPayment = async (
+  wallet: AnchorWallet,
+  entry: OutboxEntry,
+  onTransactionEvent?: TransactionEventListener,
+): Promise<string> => {
+  try {
+    console.log(`Retrying outbox message ${entry.messageId}`);
     
-    if (!saveResult) {
-      console.error('Failed to save message to database');
-      throw new Error('Transaction was successful, but failed to save message details. Please check your messages later.');
+    if (entry.status !== 'draft') {
+      throw new Error('Only unsent drafts can be retried');
+    }
+
+    // Retrying would commit the hash of an empty body
+    if (!entry.content) {
+      throw new EncryptionError('This message is encrypted and your key is locked', 'Unlock encrypted messages, then retry.');
     }
     
-    console.log('Message saved to database with ID:', messageId);
+    // Keep the refund window the sender originally chose, counted from now
+    let expiresAt: Date | null = null;
+    if (entry.expiresAt) {
+      const window = new Date(entry.expiresAt).getTime() - new Date(entry.createdAt).getTime();
+      expiresAt = new Date(Date.now() + Math.max(window, 0));
+    }
     
-    return tx;
+    return await submitOutboxPayment(wallet, {
+      messageId: entry.messageId,
+      recipientAddress: entry.recipientWalletAddress,
+      amount: entry.amount,
+      content: entry.content,
+      // The stored content was salted when the draft was written
+      contentSalt: entry.contentSalt,
+      expiresAt,
+      // Pay in the same currency as the original attempt
+      paymentToken: entry.mint ? { symbol: entry.currency, mint: entry.mint } : null,
+      requiresReply: entry.requiresReply,
+    }, onTransactionEvent);
   } catch (error) {
-    console.error('Error in createMessagePayment:', error);
-    
-    // Improve error handling for specific error cases
-    if (error instanceof Error) {
-      const errorMessage = error.message;
-      
-      if (errorMessage.includes('insufficient funds') || 
-          errorMessage.includes('attempt to debit an account') ||
-          errorMessage.includes('Insufficient funds')) {
-        console.error('Wallet balance check failed. Please check console logs for details.');
-        throw new Error('Insufficient funds. Please add more SOL to your wallet to complete this transaction.');
-      } else if (errorMessage.includes('User rejected')) {
-        throw new Error('Transaction was rejected by the wallet.');
-      } else if (errorMessage.includes('network error')) {
-        throw new Error('Network error. Please check your connection to the Sonic DevNet.');
-      } else if (errorMessage.includes('seeds constraint was violated')) {
-        console.error('Seeds constraint violation. This could be due to an issue with the PDA derivation.');
-        throw new Error('Transaction failed due to a technical issue with the escrow account. Please try again with a different message or amount.');
-      } else if (errorMessage.includes('ConstraintSeeds')) {
-        console.error('Seeds constraint error from Anchor program.');
-        throw new Error('Transaction failed due to a technical issue with the escrow account. Please try again.');
-      } else {
-        // For any other errors, pass through the original message
-        throw new Error(`Transaction failed: ${errorMessage}`);
+    console.error('Error in retryOutboxPayment:', error);
+    throw toAppError(error);
+  }
+};
+
+// Check the wallet covers a scheduled message's payment, rent and fees, plus a new
+// nonce account's deposit and the fee for creating it when one is needed
+const checkScheduledPaymentCost = async (
+  wallet: AnchorWallet,
+  recipientAddress: string,
+  amount: number,
+  expiresAt: Date | null,
+  paymentToken: PaymentToken | null,
+  createsNonceAccount: boolean
+): Promise<MessagePaymentCost> => {
+  const estimate = await estimateMessagePaymentCost(wallet.publicKey.toBase58(), recipientAddress, amount, expiresAt, paymentToken);
+  const nonceLamports = createsNonceAccount
+    ? await getNonceAccountRent(getConnection(), getActiveCluster().commitment) + estimate.networkFeeLamports + estimate.priorityFeeLamports
+    : 0;
+  const cost = { ...estimate, totalLamports: estimate.totalLamports + nonceLamports };
+
+  if (!await checkSufficientBalance(wallet, cost)) {
+    throw new InsufficientFundsError(cost.totalLamports);
+  }
+  if (cost.token && cost.token.balanceBaseUnits < cost.token.amountBaseUnits) {
+    throw new InsufficientTokenFundsError(cost.token.symbol, amount);
+  }
+  return cost;
+};
+
+// Sign the escrow payment for a scheduled message against its nonce account
+const signScheduledPayment = async (
+  wallet: AnchorWallet,
+  nonceAccount: string,
+  recipientAddress: string,
+  cost: MessagePaymentCost,
+  messageId: string,
+  expiresAt: Date | null,
+  content: string,
+  contentSalt: string
+): Promise<string> => {
+  const program = await getProgram(wallet);
+  const { commitment, priorityFee } = getActiveCluster();
+
+  const instructions = await buildCreateMessageInstructions(
+    program,
+    wallet.publicKey,
+    new PublicKey(recipientAddress),
+    cost.token
+      ? { mint: new PublicKey(cost.token.mint), baseUnits: cost.token.amountBaseUnits }
+      : { lamports: cost.amountLamports },
+    messageId,
+    expiresAt ? Math.floor(expiresAt.getTime() / 1000) : 0,
+    await hashMessageContent(content, contentSalt)
+  );
+
+  const { signedTransaction } = await signDurableTransaction(getConnection(), wallet, nonceAccount, instructions, commitment, priorityFee);
+  return signedTransaction;
+};
+
+/**
+ * Schedule a paid message to be sent later. The sender pays a refundable deposit into a
+ * new nonce account and signs the escrow payment against it; the runner script sends it
+ * at the scheduled time. Needs the signed-in account linked to the wallet.
+ * @param sendAt When to send the message; must be in the future
+ * @param expiresAt Optional refund deadline, counted from sendAt by the caller
+ * @returns The scheduled message's ID
+ */
+export const scheduleMessagePayment = async (
+  wallet: AnchorWallet,
+  recipientAddress: string,
+  amount: number,
+  messageContent: string,
+  sendAt: Date,
+  expiresAt?: Date | null,
+  onTransactionEvent?: TransactionEventListener,
+  paymentToken?: PaymentToken | null,
+  requiresReply = false,
+): Promise<string> => {
+  try {
+    console.log(`Scheduling message payment of ${amount} ${paymentToken?.symbol || SOL_CURRENCY} to ${recipientAddress} for ${sendAt.toISOString()}`);
+
+    if (sendAt.getTime() <= Date.now()) {
+      throw new SchedulingError('The scheduled time has already passed', 'Pick a time in the future, or send the message now.');
+    }
+
+    const connection = getConnection();
+    const { commitment, priorityFee } = getActiveCluster();
+    const senderAddress = wallet.publicKey.toBase58();
+
+    // Scheduled messages belong to the signed-in account, not just the wallet
+    const senderId = await findProfileIdByWallet(senderAddress);
+    if (!senderId) {
+      throw new SchedulingError('Scheduling needs an account linked to this wallet', 'Sign in and link this wallet, or send the message now.');
+    }
+    const recipientId = await provisionWalletProfile(recipientAddress);
+    if (!recipientId) {
+      throw new SchedulingError('The recipient could not be found', 'Check the recipient and try again.');
+    }
+
+    const cost = await checkScheduledPaymentCost(wallet, recipientAddress, amount, expiresAt ?? null, paymentToken ?? null, true);
+
+    const messageId = generateMessageId();
+    const program = await getProgram(wallet);
+    const [escrowPDA] = await deriveMessageEscrowPDA(wallet.publicKey, new PublicKey(recipientAddress), messageId, program);
+    const contentSalt = generateContentSalt();
+    const stored = await prepareMessageContent(senderId, recipientId, messageContent, contentSalt);
+
+    const nonceAccount = await createNonceAccount(connection, wallet, { onEvent: onTransactionEvent, commitment, priorityFee });
+
+    try {
+      const signedTransaction = await signScheduledPayment(wallet, nonceAccount, recipientAddress, cost, messageId, expiresAt ?? null, messageContent, contentSalt);
+
+      const saved = await insertScheduledMessage({
+        message_id: messageId,
+        sender_id: senderId,
+        recipient_id: recipientId,
+        ...stored,
+        amount,
+        currency: cost.currency,
+        mint: cost.token?.mint ?? null,
+        requires_reply: requiresReply,
+        expires_at: expiresAt ? expiresAt.toISOString() : null,
+        escrow_address: escrowPDA.toBase58(),
+        send_at: sendAt.toISOString(),
+        nonce_account: nonceAccount,
+        signed_transaction: signedTransaction,
+      });
+      if (!saved) {
+        throw new SchedulingError('The scheduled message could not be saved', 'Your deposit is being returned. Try again in a moment.');
       }
+    } catch (error) {
+      // Nothing will be sent with the nonce account, so return the deposit
+      try {
+        await closeNonceAccount(connection, wallet, nonceAccount, { commitment, priorityFee });
+      } catch (closeError) {
+        console.error(`Failed to close unused nonce account ${nonceAccount}:`, closeError);
+      }
+      throw error;
     }
-    
-    throw error;
+
+    console.log('Scheduled message saved with ID:', messageId);
+    return messageId;
+  } catch (error) {
+    console.error('Error in scheduleMessagePayment:', error);
+    throw toAppError(error);
+  }
+};
+
+/**
+ * Change the text, amount or time of a scheduled message and sign its payment again.
+ * The new transaction uses the same nonce and escrow as the old one, so at most one of
+ * them can ever land.
+ * @param changes The new content, amount and send time; the refund window is kept
+ */
+export const rescheduleMessagePayment = async (
+  wallet: AnchorWallet,
+  scheduled: ScheduledMessage,
+  changes: { content: string; amount: number; sendAt: Date },
+): Promise<void> => {
+  try {
+    console.log(`Rescheduling message ${scheduled.messageId} for ${changes.sendAt.toISOString()}`);
+
+    if (scheduled.status !== EDITABLE_SCHEDULED_STATUS) {
+      throw new SchedulingError('This message is no longer scheduled and can\'t be changed');
+    }
+    if (changes.sendAt.getTime() <= Date.now()) {
+      throw new SchedulingError('The scheduled time has already passed', 'Pick a time in the future.');
+    }
+    // Signing would commit the hash of an empty body
+    if (!changes.content) {
+      throw new EncryptionError('This message is encrypted and your key is locked', 'Unlock encrypted messages, then edit it.');
+    }
+
+    const senderId = await findProfileIdByWallet(wallet.publicKey.toBase58());
+    if (!senderId) {
+      throw new SchedulingError('Scheduling needs an account linked to this wallet', 'Sign in and link this wallet, then try again.');
+    }
+
+    // Keep the refund window the sender chose, counted from the new send time
+    let expiresAt: Date | null = null;
+    if (scheduled.expiresAt) {
+      const window = new Date(scheduled.expiresAt).getTime() - new Date(scheduled.sendAt).getTime();
+      expiresAt = new Date(changes.sendAt.getTime() + Math.max(window, 0));
+    }
+
+    const paymentToken = scheduled.mint ? { symbol: scheduled.currency, mint: scheduled.mint } : null;
+    const cost = await checkScheduledPaymentCost(wallet, scheduled.recipientWalletAddress, changes.amount, expiresAt, paymentToken, false);
+
+    const contentSalt = generateContentSalt();
+    const signedTransaction = await signScheduledPayment(
+      wallet,
+      scheduled.nonceAccount,
+      scheduled.recipientWalletAddress,
+      cost,
+      scheduled.messageId,
+      expiresAt,
+      changes.content,
+      contentSalt
+    );
+    const stored = await prepareMessageContent(senderId, scheduled.recipientId, changes.content, contentSalt);
+
+    const updated = await saveScheduledMessageEdit(scheduled.id, {
+      ...stored,
+      amount: changes.amount,
+      send_at: changes.sendAt.toISOString(),
+      expires_at: expiresAt ? expiresAt.toISOString() : null,
+      signed_transaction: signedTransaction,
+    });
+    if (!updated) {
+      throw new SchedulingError('This message is already being sent and can no longer be changed');
+    }
+  } catch (error) {
+    console.error('Error in rescheduleMessagePayment:', error);
+    throw toAppError(error);
+  }
+};
+
+/**
+ * Cancel a scheduled message and close its nonce account, returning the deposit. If
+ * closing fails the message stays cancelled and the deposit can be recovered later.
+ * @returns The signature of the transaction that closed the nonce account
+ */
+export const cancelScheduledMessage = async (
+  wallet: AnchorWallet,
+  scheduled: ScheduledMessage,
+  onTransactionEvent?: TransactionEventListener,
+): Promise<string> => {
+  try {
+    console.log(`Cancelling scheduled message ${scheduled.messageId}`);
+
+    const cancelled = await markScheduledMessageCancelled(scheduled.id);
+    if (!cancelled) {
+      throw new SchedulingError('This message is already being sent and can no longer be cancelled');
+    }
+
+    return await recoverScheduledMessageDeposit(wallet, scheduled, onTransactionEvent);
+  } catch (error) {
+    console.error('Error in cancelScheduledMessage:', error);
+    throw toAppError(error);
+  }
+};
+
+/**
+ * Close the nonce account of a scheduled message that was sent, failed or cancelled,
+ * returning its deposit to the sender
+ * @returns The transaction signature
+ */
+export const recoverScheduledMessageDeposit = async (
+  wallet: AnchorWallet,
+  scheduled: ScheduledMessage,
+  onTransactionEvent?: TransactionEventListener,
+): Promise<string> => {
+  try {
+    const { commitment, priorityFee } = getActiveCluster();
+    return await closeNonceAccount(getConnection(), wallet, scheduled.nonceAccount, {
+      onEvent: onTransactionEvent,
+      commitment,
+      priorityFee,
+    });
+  } catch (error) {
+    console.error('Error in recoverScheduledMessageDeposit:', error);
+    throw toAppError(error);
+  }
+};
+
+// Token escrows share seeds with SOL escrows, so tell them apart by account discriminator
+const TOKEN_MESSAGE_ESCROW_DISCRIMINATOR = BorshAccountsCoder.accountDiscriminator('tokenMessageEscrow');
+
+// Read the mint of a token escrow, or null if the escrow holds SOL (or doesn't exist)
+const getTokenEscrowMint = async (
+  program: anchor.Program<PayToReply>,
+  escrowPDA: PublicKey
+): Promise<PublicKey | null> => {
+  const accountInfo = await program.provider.connection.getAccountInfo(escrowPDA);
+  if (!accountInfo || !accountInfo.data.subarray(0, 8).equals(TOKEN_MESSAGE_ESCROW_DISCRIMINATOR)) {
+    return null;
+  }
+  const escrow = program.coder.accounts.decode('tokenMessageEscrow', accountInfo.data);
+  return escrow.mint as PublicKey;
+};
+
+// Build the approve or reject instructions for an escrow. Token escrows pay out to
+// associated token accounts, which the recipient creates if they are missing.
+// An approval with a recipientAmount (in display units) only pays the recipient that
+// share and refunds the rest to the sender.
+const buildSettleInstructions = async (
+  program: anchor.Program<PayToReply>,
+  action: BatchAction,
+  sender: PublicKey,
+  recipient: PublicKey,
+  escrowPDA: PublicKey,
+  recipientAmount?: number
+): Promise<TransactionInstruction[]> => {
+  const mint = await getTokenEscrowMint(program, escrowPDA);
+  const isPartial = action === 'approve' && recipientAmount !== undefined;
+
+  if (!mint) {
+    // The IDL marks sender and recipient writable, so no manual account metadata is needed
+    const accounts = {
+      sender,
+      recipient,
+      messageEscrow: escrowPDA,
+      systemProgram: SystemProgram.programId,
+    };
+    let instruction: TransactionInstruction;
+    if (isPartial) {
+      instruction = await program.methods
+        .partiallyApproveMessagePayment(new BN(solToLamports(recipientAmount)))
+        .accounts(accounts)
+        .instruction();
+    } else {
+      instruction = action === 'approve'
+        ? await program.methods.approveMessagePayment().accounts(accounts).instruction()
+        : await program.methods.rejectMessagePayment().accounts(accounts).instruction();
+    }
+    return [instruction];
+  }
+
+  console.log(`Escrow ${escrowPDA.toBase58()} holds tokens of mint ${mint.toBase58()}`);
+
+  const accounts = {
+    sender,
+    recipient,
+    messageEscrow: escrowPDA,
+    escrowVault: getAssociatedTokenAddress(mint, escrowPDA),
+    recipientTokenAccount: getAssociatedTokenAddress(mint, recipient),
+    senderTokenAccount: getAssociatedTokenAddress(mint, sender),
+    tokenProgram: TOKEN_PROGRAM_ID,
+  };
+  let instruction: TransactionInstruction;
+  if (isPartial) {
+    const decimals = await getMintDecimals(program.provider.connection, mint);
+    instruction = await program.methods
+      .partiallyApproveTokenMessagePayment(new BN(toBaseUnits(recipientAmount, decimals).toString()))
+      .accounts(accounts)
+      .instruction();
+  } else {
+    instruction = action === 'approve'
+      ? await program.methods.approveTokenMessagePayment().accounts(accounts).instruction()
+      : await program.methods.rejectTokenMessagePayment().accounts(accounts).instruction();
   }
+
+  // Both token accounts are checked by the program, whichever one is paid
+  return [
+    createAssociatedTokenAccountIdempotentInstruction(recipient, recipient, mint),
+    createAssociatedTokenAccountIdempotentInstruction(recipient, sender, mint),
+    instruction,
+  ];
 };
 
-// Function to approve a message payment
+// Function to approve a message payment. With a recipientAmount only that share of
+// the payment is approved and the rest is refunded to the sender.
 export const approveMessagePayment = async (
   wallet: AnchorWallet,
   senderAddress: string,
   messageId: string,
+  onTransactionEvent?: TransactionEventListener,
+  recipientAmount?: number,
 ): Promise<string | undefined> => {
   try {
     console.log(`Approving message payment, message ID: ${messageId}`);
+    if (recipientAmount !== undefined) {
+      console.log(`Partial approval, recipient keeps: ${recipientAmount}`);
+    }
     console.log(`Sender address provided: ${senderAddress}`);
     console.log(`Recipient wallet address: ${wallet.publicKey.toBase58()}`);
     
@@ -432,6 +948,11 @@ export const approveMessagePayment = async (
       throw new Error('Invalid message ID format. The message ID should start with "m" followed by at least 3 characters.');
     }
     
+    // The sender paid for an answer, so it has to be linked before the payment is released
+    if ((await fetchMessagesAwaitingAnswer([messageId])).has(messageId)) {
+      throw new AnswerRequiredError(messageId);
+    }
+    
     // Connect to the program
     const program = await getProgram(wallet);
     
@@ -494,80 +1015,41 @@ export const approveMessagePayment = async (
     console.log('Escrow PDA derived successfully:', escrowPDA.toBase58());
     console.log('PDA bump:', bump);
     
-    // Get the Anchor provider and connection
-    const provider = getProvider(wallet);
-    const connection = provider.connection;
-    
-    // Create a transaction instruction with proper account metadata
-    const ix = await program.methods
-      .approveMessagePayment()
-      .accounts({
-        sender: senderPublicKey,
-        recipient: wallet.publicKey,
-        messageEscrow: escrowPDA,
-        systemProgram: SystemProgram.programId,
-      })
-      .instruction();
-    
-    // Create transaction and add the instruction
-    const tx = new Transaction();
-    tx.add(ix);
-    
-    // Explicitly mark the sender account as writable in the transaction
-    // Find the sender account in the instruction accounts
-    const senderAccountMeta = tx.instructions[0].keys.find(
-      (key) => key.pubkey.equals(senderPublicKey)
-    );
-    
-    if (senderAccountMeta) {
-      console.log('Found sender account in transaction, marking as writable');
-      senderAccountMeta.isWritable = true;
-    } else {
-      console.error('Could not find sender account in transaction keys');
-    }
-    
-    // Submit the transaction
-    console.log('Submitting approveMessagePayment transaction...');
-    const txid = await provider.sendAndConfirm(tx);
+    console.log('Submitting approve transaction...');
+    const instructions = await buildSettleInstructions(program, 'approve', senderPublicKey, wallet.publicKey, escrowPDA, recipientAmount);
+    const txid = await sendProgramInstructions(wallet, instructions, onTransactionEvent);
     
     console.log('Approval transaction successful:', txid);
     
-    // Update message status in Supabase
-    await updateMessageStatus(messageId, 'approved', txid);
+    // Update message status in Supabase, recording the recipient's share of a partial approval
+    await updateMessageStatus(messageId, 'approved', txid, recipientAmount);
     
     return txid;
   } catch (error) {
     console.error('Error in approveMessagePayment:', error);
-    
-    // Improve error handling
-    if (error instanceof Error) {
-      const errorMessage = error.message;
-      console.error('Error details:', errorMessage);
-      
-      if (errorMessage.includes('ConstraintMut') || errorMessage.includes('mut constraint was violated')) {
-        console.error('Mut constraint error from Anchor program. This usually means an account that needs to be writable was not marked as such.');
-        throw new Error('Transaction failed: A technical issue occurred with account permissions. Please try again.');
-      } else if (errorMessage.includes('ConstraintSeeds')) {
-        console.error('Seeds constraint error from Anchor program.');
-        throw new Error('Transaction failed due to a technical issue with the escrow account. Please try again.');
-      } else if (errorMessage.includes('Non-base58 character')) {
-        throw new Error('Transaction failed: Invalid wallet address format');
-      } else if (errorMessage.includes('Cannot read properties of undefined')) {
-        throw new Error('Transaction failed: Missing data in the transaction. This may be due to an invalid message ID or sender address.');
-      } else {
-        throw new Error(`Transaction failed: ${errorMessage}`);
-      }
-    } else {
-      throw new Error('Transaction failed: Unknown error');
-    }
+    // Program, wallet, network and funding failures become typed errors the UI can explain
+    throw toAppError(error);
   }
 };
 
+// Approve part of a message payment: the recipient keeps recipientAmount and the
+// rest goes back to the sender
+export const partiallyApproveMessagePayment = (
+  wallet: AnchorWallet,
+  senderAddress: string,
+  messageId: string,
+  recipientAmount: number,
+  onTransactionEvent?: TransactionEventListener,
+): Promise<string | undefined> => {
+  return approveMessagePayment(wallet, senderAddress, messageId, onTransactionEvent, recipientAmount);
+};
+
 // Function to reject a message payment
 export const rejectMessagePayment = async (
   wallet: AnchorWallet,
   senderAddress: string,
   messageId: string,
+  onTransactionEvent?: TransactionEventListener,
 ): Promise<string | undefined> => {
   try {
     console.log(`Rejecting message payment, message ID: ${messageId}`);
@@ -652,41 +1134,9 @@ export const rejectMessagePayment = async (
     console.log('Escrow PDA derived successfully:', escrowPDA.toBase58());
     console.log('PDA bump:', bump);
     
-    // Get the Anchor provider and connection
-    const provider = getProvider(wallet);
-    const connection = provider.connection;
-    
-    // Create a transaction instruction with proper account metadata
-    const ix = await program.methods
-      .rejectMessagePayment()
-      .accounts({
-        sender: senderPublicKey,
-        recipient: wallet.publicKey,
-        messageEscrow: escrowPDA,
-        systemProgram: SystemProgram.programId,
-      })
-      .instruction();
-    
-    // Create transaction and add the instruction
-    const tx = new Transaction();
-    tx.add(ix);
-    
-    // Explicitly mark the sender account as writable in the transaction
-    // Find the sender account in the instruction accounts
-    const senderAccountMeta = tx.instructions[0].keys.find(
-      (key) => key.pubkey.equals(senderPublicKey)
-    );
-    
-    if (senderAccountMeta) {
-      console.log('Found sender account in transaction, marking as writable');
-      senderAccountMeta.isWritable = true;
-    } else {
-      console.error('Could not find sender account in transaction keys');
-    }
-    
-    // Submit the transaction
-    console.log('Submitting rejectMessagePayment transaction...');
-    const txid = await provider.sendAndConfirm(tx);
+    console.log('Submitting reject transaction...');
+    const instructions = await buildSettleInstructions(program, 'reject', senderPublicKey, wallet.publicKey, escrowPDA);
+    const txid = await sendProgramInstructions(wallet, instructions, onTransactionEvent);
     
     console.log('Rejection transaction successful:', txid);
     
@@ -696,40 +1146,241 @@ export const rejectMessagePayment = async (
     return txid;
   } catch (error) {
     console.error('Error in rejectMessagePayment:', error);
+    // Program, wallet, network and funding failures become typed errors the UI can explain
+    throw toAppError(error);
+  }
+};
+
+export type BatchAction = 'approve' | 'reject';
+
+// A received message to settle in a batch
+export interface BatchMessageTarget {
+  messageId: string;
+  // Profile UUID of the sender
+  senderId: string;
+}
+
+export interface BatchMessageResult {
+  messageId: string;
+  signature?: string;
+  error?: string;
+}
+
+/**
+ * Approve or reject many received messages with one wallet prompt
+ * @param wallet The recipient's wallet
+ * @param action Whether to approve or reject every target
+ * @param targets The messages to settle
+ * @param onProgress Progress of simulation, signing and sending
+ * @returns One result per target; a result with both a signature and an error was
+ * settled on chain but its messages row could not be updated
+ */
+export const batchProcessMessagePayments = async (
+  wallet: AnchorWallet,
+  action: BatchAction,
+  targets: BatchMessageTarget[],
+  onProgress?: (progress: BatchProgress) => void,
+): Promise<BatchMessageResult[]> => {
+  console.log(`Batch ${action} of ${targets.length} messages`);
+  
+  const results: BatchMessageResult[] = targets.map(target => ({ messageId: target.messageId }));
+  
+  // Resolve all sender wallet addresses in one query
+  const senderIds = [...new Set(targets.map(target => target.senderId))];
+  const { data: senderProfiles, error: senderError } = await supabase
+    .from('profiles')
+    .select('id, wallet_address')
+    .in('id', senderIds);
+  
+  if (senderError) {
+    console.error('Error fetching sender profiles:', senderError);
+    throw new Error(`Failed to find sender wallet addresses: ${senderError.message}`);
+  }
+  
+  const senderWallets = new Map((senderProfiles || []).map(profile => [profile.id, profile.wallet_address]));
+  // Messages awaiting an answer are approved one at a time, with the answer
+  const awaitingAnswer = action === 'approve'
+    ? await fetchMessagesAwaitingAnswer(targets.map(target => target.messageId))
+    : new Set<string>();
+  const program = await getProgram(wallet);
+  
+  // Build the instructions for each message; ones that can't be built fail individually
+  const instructions: TransactionInstruction[][] = [];
+  const instructionTargets: number[] = [];
+  
+  for (let i = 0; i < targets.length; i++) {
+    const { messageId, senderId } = targets[i];
+    try {
+      if (awaitingAnswer.has(messageId)) {
+        throw new AnswerRequiredError(messageId);
+      }
+      
+      const senderWallet = senderWallets.get(senderId);
+      if (!senderWallet) {
+        throw new Error('Sender wallet address not found in database');
+      }
+      
+      const senderPublicKey = new PublicKey(senderWallet);
+      const [escrowPDA] = await deriveMessageEscrowPDA(senderPublicKey, wallet.publicKey, messageId, program);
+      
+      instructions.push(await buildSettleInstructions(program, action, senderPublicKey, wallet.publicKey, escrowPDA));
+      instructionTargets.push(i);
+    } catch (error) {
+      console.error(`Failed to build ${action} instruction for message ${messageId}:`, error);
+      results[i].error = error instanceof Error ? error.message : 'Failed to build transaction';
+    }
+  }
+  
+  const { commitment, priorityFee } = getActiveCluster();
+  const sendResults = await sendInstructionBatch(getConnection(), wallet, instructions, {
+    onProgress,
+    commitment,
+    priorityFee,
+  });
+  
+  const status = action === 'approve' ? 'approved' : 'rejected';
+  
+  for (let k = 0; k < sendResults.length; k++) {
+    const result = results[instructionTargets[k]];
+    const { signature, error } = sendResults[k];
+    
+    if (error || !signature) {
+      result.error = error ? describeError(error).description : 'Transaction failed';
+      continue;
+    }
+    
+    result.signature = signature;
+    const updated = await updateMessageStatus(result.messageId, status, signature);
+    if (!updated) {
+      result.error = describeError(new DatabaseSaveError(signature, result.messageId)).description;
+    }
+  }
+  
+  const succeeded = results.filter(result => result.signature && !result.error).length;
+  console.log(`Batch ${action} finished: ${succeeded}/${targets.length} succeeded`);
+  
+  return results;
+};
+
+// Function for the sender to reclaim a payment once its escrow has expired
+export const reclaimMessagePayment = async (
+  wallet: AnchorWallet,
+  recipientAddress: string,
+  messageId: string,
+  onTransactionEvent?: TransactionEventListener,
+): Promise<string | undefined> => {
+  try {
+    console.log(`Reclaiming expired message payment, message ID: ${messageId}`);
+    console.log(`Recipient address provided: ${recipientAddress}`);
+    console.log(`Sender wallet address: ${wallet.publicKey.toBase58()}`);
+    
+    if (!recipientAddress) {
+      console.error('Recipient address is undefined or null');
+      throw new Error('Invalid recipient address: The recipient address is missing');
+    }
+    
+    if (!messageId) {
+      console.error('Message ID is undefined or null');
+      throw new Error('Invalid message ID: The message ID is missing');
+    }
+    
+    // Connect to the program
+    const program = await getProgram(wallet);
     
-    // Improve error handling
-    if (error instanceof Error) {
-      const errorMessage = error.message;
-      console.error('Error details:', errorMessage);
+    // Check if recipientAddress is a UUID (database ID) or a wallet address
+    let recipientPublicKey;
+    
+    try {
+      recipientPublicKey = new PublicKey(recipientAddress);
+    } catch (error) {
+      console.log('Recipient address is not a valid public key, assuming it\'s a database ID:', recipientAddress);
+      
+      // Fetch the recipient's wallet address from the database
+      const { data: recipientProfile, error: recipientError } = await supabase
+        .from('profiles')
+        .select('wallet_address')
+        .eq('id', recipientAddress)
+        .single();
       
-      if (errorMessage.includes('ConstraintMut') || errorMessage.includes('mut constraint was violated')) {
-        console.error('Mut constraint error from Anchor program. This usually means an account that needs to be writable was not marked as such.');
-        throw new Error('Transaction failed: A technical issue occurred with account permissions. Please try again.');
-      } else if (errorMessage.includes('ConstraintSeeds')) {
-        console.error('Seeds constraint error from Anchor program.');
-        throw new Error('Transaction failed due to a technical issue with the escrow account. Please try again.');
-      } else if (errorMessage.includes('Non-base58 character')) {
-        throw new Error('Transaction failed: Invalid wallet address format');
-      } else if (errorMessage.includes('Cannot read properties of undefined')) {
-        throw new Error('Transaction failed: Missing data in the transaction. This may be due to an invalid message ID or sender address.');
-      } else {
-        throw new Error(`Transaction failed: ${errorMessage}`);
+      if (recipientError || !recipientProfile || !recipientProfile.wallet_address) {
+        console.error('Error fetching recipient profile:', recipientError || 'No profile or wallet address found');
+        throw new Error('Recipient wallet address not found in database');
       }
+      
+      recipientPublicKey = new PublicKey(recipientProfile.wallet_address);
+    }
+    
+    const [escrowPDA] = await deriveMessageEscrowPDA(
+      wallet.publicKey,
+      recipientPublicKey,
+      messageId,
+      program
+    );
+    
+    console.log('Escrow PDA derived successfully:', escrowPDA.toBase58());
+    
+    const instructions: TransactionInstruction[] = [];
+    const mint = await getTokenEscrowMint(program, escrowPDA);
+    
+    if (mint) {
+      console.log('Submitting reclaimExpiredTokenPayment transaction...');
+      instructions.push(
+        createAssociatedTokenAccountIdempotentInstruction(wallet.publicKey, wallet.publicKey, mint),
+        await program.methods
+          .reclaimExpiredTokenPayment()
+          .accounts({
+            sender: wallet.publicKey,
+            recipient: recipientPublicKey,
+            messageEscrow: escrowPDA,
+            escrowVault: getAssociatedTokenAddress(mint, escrowPDA),
+            senderTokenAccount: getAssociatedTokenAddress(mint, wallet.publicKey),
+            tokenProgram: TOKEN_PROGRAM_ID,
+          })
+          .instruction()
+      );
     } else {
-      throw new Error('Transaction failed: Unknown error');
+      console.log('Submitting reclaimExpiredPayment transaction...');
+      instructions.push(
+        await program.methods
+          .reclaimExpiredPayment()
+          .accounts({
+            sender: wallet.publicKey,
+            recipient: recipientPublicKey,
+            messageEscrow: escrowPDA,
+            systemProgram: SystemProgram.programId,
+          })
+          .instruction()
+      );
     }
+    const txid = await sendProgramInstructions(wallet, instructions, onTransactionEvent);
+    
+    console.log('Reclaim transaction successful:', txid);
+    
+    // Update message status in Supabase
+    await updateMessageStatus(messageId, 'refunded', txid);
+    
+    return txid;
+  } catch (error) {
+    console.error('Error in reclaimMessagePayment:', error);
+    // Program, wallet, network and funding failures become typed errors the UI can explain
+    throw toAppError(error);
   }
 };
 
 // Add sendPayment as an alias for createMessagePayment for backward compatibility
 export const sendPayment = createMessagePayment;
 
-// Check if a message escrow account exists on the blockchain
+// Where a message's escrow account is in its lifecycle. Escrows are closed when they
+// are settled, so a missing account only means "never existed" if it has no history.
+// 'unknown' means the lookup itself failed.
+export type MessageEscrowState = 'open' | 'closed' | 'not_found' | 'unknown';
+
+// Check whether a message escrow account exists on the blockchain, or existed and was closed
 export const checkMessageExists = async (
   wallet: AnchorWallet,
   senderAddress: string,
   messageId: string
-): Promise<boolean> => {
+): Promise<MessageEscrowState> => {
   try {
     console.log(`Checking if message exists, message ID: ${messageId}`);
     console.log(`Sender address provided: ${senderAddress}`);
@@ -737,14 +1388,14 @@ export const checkMessageExists = async (
     
     if (!senderAddress || !messageId) {
       console.error('Missing required parameters:', { senderAddress, messageId });
-      return false;
+      return 'not_found';
     }
     
     // Validate message ID format
     if (!messageId.startsWith('m') || messageId.length < 4) {
       console.error('Invalid message ID format:', messageId);
       console.error('Message ID should start with "m" followed by at least 3 characters');
-      return false;
+      return 'not_found';
     }
     
     // Connect to the program
@@ -769,7 +1420,7 @@ export const checkMessageExists = async (
       
       if (senderError || !senderProfile || !senderProfile.wallet_address) {
         console.error('Error fetching sender profile:', senderError || 'No profile or wallet address found');
-        return false;
+        return 'unknown';
       }
       
       console.log('Found sender wallet address:', senderProfile.wallet_address);
@@ -778,7 +1429,6 @@ export const checkMessageExists = async (
     
     // Derive the PDA for the escrow account
     console.log('Deriving PDA with message ID:', messageId);
-    console.log('Using first 4 characters for seed:', messageId.slice(0, 4));
     
     const [escrowPDA, bump] = await deriveMessageEscrowPDA(
       senderPublicKey,
@@ -795,12 +1445,67 @@ export const checkMessageExists = async (
     const connection = provider.connection;
     const accountInfo = await connection.getAccountInfo(escrowPDA);
     
-    const exists = accountInfo !== null;
-    console.log(`Message escrow account ${exists ? 'exists' : 'does not exist'} on-chain`);
+    if (accountInfo !== null) {
+      console.log('Message escrow account exists on-chain');
+      return 'open';
+    }
+    
+    // A settled escrow is closed, but the transactions that created and closed it remain
+    const signatures = await connection.getSignaturesForAddress(escrowPDA, { limit: 1 });
+    const state = signatures.length > 0 ? 'closed' : 'not_found';
+    console.log(`Message escrow account ${state === 'closed' ? 'was settled and closed' : 'never existed'} on-chain`);
     
-    return exists;
+    return state;
   } catch (error) {
     console.error('Error checking if message exists:', error);
-    return false;
+    return 'unknown';
+  }
+};
+
+// Read a message escrow account from the blockchain (legacy or current seed layout)
+export const fetchMessageEscrow = async (
+  wallet: AnchorWallet,
+  senderAddress: string,
+  recipientAddress: string,
+  messageId: string
+): Promise<MessageEscrow | null> => {
+  try {
+    const program = await getProgram(wallet);
+    
+    const [escrowPDA] = await deriveMessageEscrowPDA(
+      new PublicKey(senderAddress),
+      new PublicKey(recipientAddress),
+      messageId,
+      program
+    );
+    
+    const mint = await getTokenEscrowMint(program, escrowPDA);
+    const escrow = mint
+      ? await program.account.tokenMessageEscrow.fetchNullable(escrowPDA)
+      : await program.account.messageEscrow.fetchNullable(escrowPDA);
+    if (!escrow) {
+      // Settled escrows are closed, so this is also what a finished message looks like
+      console.log(`No escrow account found at ${escrowPDA.toBase58()} for message ${messageId}`);
+      return null;
+    }
+    
+    // Anchor decodes enums as { pending: {} }, so map back to EscrowStatus
+    const statusKey = Object.keys(escrow.status as object)[0] || '';
+    const status = (statusKey.charAt(0).toUpperCase() + statusKey.slice(1)) as EscrowStatus;
+    
+    return {
+      sender: escrow.sender as PublicKey,
+      recipient: escrow.recipient as PublicKey,
+      amount: escrow.amount as anchor.BN,
+      messageId: escrow.messageId as string,
+      status,
+      createdAt: escrow.createdAt as anchor.BN,
+      processedAt: escrow.processedAt as anchor.BN,
+      expiresAt: escrow.expiresAt as anchor.BN,
+      ...(mint && { mint }),
+    };
+  } catch (error) {
+    console.error('Error fetching message escrow:', error);
+    return null;
   }
 };
@@ -0,0 +1,200 @@
+import { supabase } from '@/integrations/supabase/client';
+import { AttachmentError } from '@/utils/errors';
+
+// Files sent along with a paid message. They are uploaded to the private
+// message-attachments bucket before the payment is signed, into a folder named after
+// the sender's user id, then linked to the message's outbox row in message_attachments.
+// Storage and table policies only let the sender and recipient list or download them,
+// so downloads go through short-lived signed URLs.
+
+export const ATTACHMENTS_BUCKET = 'message-attachments';
+
+// Limits; the bucket enforces the same size and types
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS = 5;
+export const ATTACHMENT_CONTENT_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'text/plain',
+  'text/markdown',
+  'text/csv',
+  'application/json',
+];
+
+// Code and text files that browsers report with no type, or a misleading one
+// (.ts comes through as video/mp2t), are stored as plain text
+const TEXT_FILE_EXTENSIONS = [
+  'txt', 'md', 'csv', 'json', 'js', 'jsx', 'ts', 'tsx', 'py', 'rs', 'go', 'sol',
+  'java', 'c', 'cpp', 'h', 'rb', 'sh', 'sql', 'yml', 'yaml', 'toml', 'html', 'css',
+];
+
+// How long a download link stays valid
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+export interface MessageAttachment {
+  id: string;
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+  // Object name in ATTACHMENTS_BUCKET
+  storage_path: string;
+}
+
+// A file that has been uploaded but not linked to a message yet
+export type UploadedAttachment = Omit<MessageAttachment, 'id'>;
+
+/**
+ * The content type a file is stored with
+ * @returns The type, or null if the file can't be attached
+ */
+export const getAttachmentContentType = (file: File): string | null => {
+  if (ATTACHMENT_CONTENT_TYPES.includes(file.type)) {
+    return file.type;
+  }
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  return TEXT_FILE_EXTENSIONS.includes(extension) ? 'text/plain' : null;
+};
+
+/**
+ * Check files against the attachment limits
+ * @throws AttachmentError naming the first file that breaks them
+ */
+export const validateAttachments = (files: File[]): void => {
+  if (files.length > MAX_ATTACHMENTS) {
+    throw new AttachmentError(`A message can have at most ${MAX_ATTACHMENTS} attachments`, 'Remove some files and try again.');
+  }
+
+  for (const file of files) {
+    if (file.size === 0) {
+      throw new AttachmentError(`${file.name} is empty`);
+    }
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      throw new AttachmentError(`${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)}`);
+    }
+    if (!getAttachmentContentType(file)) {
+      throw new AttachmentError(`${file.name} isn't a supported file type`, 'Attach images, PDFs, slide decks, or text and code files.');
+    }
+  }
+};
+
+export const isImageAttachment = (attachment: Pick<MessageAttachment, 'content_type'>): boolean => {
+  return attachment.content_type.startsWith('image/');
+};
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1).replace(/\.0$/, '')} MB`;
+};
+
+/**
+ * Delete uploaded files that never made it onto a message
+ */
+export const removeUploadedAttachments = async (attachments: UploadedAttachment[]): Promise<void> => {
+  if (attachments.length === 0) return;
+
+  const { error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .remove(attachments.map(attachment => attachment.storage_path));
+
+  if (error) {
+    console.error('Failed to remove unused attachments:', error);
+  }
+};
+
+/**
+ * Upload files for a message that is about to be sent
+ * @returns The stored files, to pass to linkAttachments
+ * @throws AttachmentError if a file breaks the limits, the user isn't signed in, or an upload fails
+ */
+export const uploadAttachments = async (files: File[]): Promise<UploadedAttachment[]> => {
+  if (files.length === 0) return [];
+
+  validateAttachments(files);
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new AttachmentError('Sign in to send attachments', 'Sign in, or remove the attachments to send the message without them.');
+  }
+
+  const uploaded: UploadedAttachment[] = [];
+
+  for (const file of files) {
+    const contentType = getAttachmentContentType(file)!;
+    const safeName = file.name.replace(/[^\w.-]+/g, '_');
+    const storagePath = `${user.id}/${crypto.randomUUID()}/${safeName}`;
+
+    console.log(`Uploading attachment ${file.name} (${formatFileSize(file.size)}) to ${storagePath}`);
+
+    const { error } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .upload(storagePath, file, { contentType, upsert: false });
+
+    if (error) {
+      await removeUploadedAttachments(uploaded);
+      throw new AttachmentError(`Failed to upload ${file.name}: ${error.message}`, 'Nothing was charged. Try again in a moment.');
+    }
+
+    uploaded.push({
+      file_name: file.name,
+      content_type: contentType,
+      size_bytes: file.size,
+      storage_path: storagePath,
+    });
+  }
+
+  return uploaded;
+};
+
+/**
+ * Link uploaded files to a saved message
+ * @param messageId The message's message_id (its escrow seed)
+ * @throws AttachmentError if the message can't be found or the links can't be saved
+ */
+export const linkAttachments = async (messageId: string, attachments: UploadedAttachment[]): Promise<void> => {
+  if (attachments.length === 0) return;
+
+  const { data: { user } } = await supabase.auth.getUser();
+
+  const { data: message, error: messageError } = await supabase
+    .from('messages')
+    .select('id')
+    .eq('message_id', messageId)
+    .maybeSingle();
+
+  if (messageError || !message || !user) {
+    throw new AttachmentError(
+      `Failed to attach files to message ${messageId}: ${messageError?.message ?? (user ? 'message not found' : 'not signed in')}`,
+      'Nothing was charged. Try again in a moment.'
+    );
+  }
+
+  const { error } = await supabase
+    .from('message_attachments')
+    .insert(attachments.map(attachment => ({ ...attachment, message_id: message.id, uploader_id: user.id })));
+
+  if (error) {
+    throw new AttachmentError(`Failed to attach files to message ${messageId}: ${error.message}`, 'Nothing was charged. Try again in a moment.');
+  }
+
+  console.log(`Linked ${attachments.length} attachment(s) to message ${messageId}`);
+};
+
+/**
+ * A temporary download link for an attachment
+ * @throws If the current user can't access the file
+ */
+export const getAttachmentUrl = async (storagePath: string): Promise<string> => {
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .createSignedUrl(storagePath, SIGNED_URL_TTL_SECONDS);
+
+  if (error || !data) {
+    throw new Error(`Failed to get attachment link: ${error?.message ?? 'no URL returned'}`);
+  }
+  return data.signedUrl;
+};
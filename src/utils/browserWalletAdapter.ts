@@ -1,4 +1,5 @@
 import { PublicKey } from "@solana/web3.js";
+import { isWalletRejection, WalletRejectedError } from "@/utils/errors";
 
 export class BrowserWalletAdapter {
   private walletType: string;
@@ -53,6 +54,9 @@ export class BrowserWalletAdapter {
       }
     } catch (error) {
       console.error('Error signing transaction:', error);
+      if (isWalletRejection(error)) {
+        throw new WalletRejectedError();
+      }
       throw new Error('Failed to sign transaction with wallet');
     }
   }
@@ -73,7 +77,43 @@ export class BrowserWalletAdapter {
       }
     } catch (error) {
       console.error('Error signing transactions:', error);
+      if (isWalletRejection(error)) {
+        throw new WalletRejectedError();
+      }
       throw new Error('Failed to sign transactions with wallet');
     }
   }
+
+  // Sign arbitrary bytes, e.g. to derive encryption keys. Phantom and OKX return
+  // { signature }, the others the signature itself.
+  async signMessage(message: Uint8Array): Promise<Uint8Array> {
+    try {
+      let result: Uint8Array | { signature: Uint8Array };
+
+      switch (this.walletType) {
+        case 'phantom':
+          result = await this.walletAdapter.signMessage(message, 'utf8');
+          break;
+        case 'solflare':
+          result = await this.walletAdapter.signMessage(message, 'utf8');
+          break;
+        case 'backpack':
+          result = await this.walletAdapter.signMessage(message);
+          break;
+        case 'okx':
+          result = await this.walletAdapter.signMessage(message, 'utf8');
+          break;
+        default:
+          throw new Error(`Unsupported wallet type: ${this.walletType}`);
+      }
+
+      return result instanceof Uint8Array ? result : new Uint8Array(result.signature);
+    } catch (error) {
+      console.error('Error signing message:', error);
+      if (isWalletRejection(error)) {
+        throw new WalletRejectedError();
+      }
+      throw new Error('Failed to sign message with wallet');
+    }
+  }
 } 
\ No newline at end of file
@@ -0,0 +1,251 @@
+import { Commitment, Connection, FetchFn, PublicKey } from '@solana/web3.js';
+import { PaymentToken, SOL_CURRENCY } from '@/utils/tokens';
+
+// Cluster presets and connection helpers shared by the web app and the node scripts.
+// Nothing in here touches browser globals; the app's runtime selection lives in activeCluster.ts.
+
+export type ClusterName = 'localnet' | 'sonic-testnet' | 'custom';
+
+// Compute-unit price in micro-lamports, or 'auto' to follow recent fees for the accounts involved
+export type PriorityFeeSetting = 'auto' | number;
+
+export interface ClusterConfig {
+  name: ClusterName;
+  label: string;
+  rpcUrl: string;
+  // Tried in order when the primary endpoint is unreachable or rate limited
+  fallbackRpcUrls: string[];
+  programId: string;
+  commitment: Commitment;
+  priorityFee: PriorityFeeSetting;
+  // Block explorer base URL; null means use the Solana explorer pointed at rpcUrl
+  explorerUrl: string | null;
+  // SPL tokens accepted for message payments besides SOL, e.g. USDC
+  paymentTokens: PaymentToken[];
+}
+
+// Settings that can come from env vars or the cluster selector, applied on top of a preset
+export interface ClusterSettings {
+  cluster?: ClusterName;
+  rpcUrl?: string;
+  fallbackRpcUrls?: string[];
+  programId?: string;
+  commitment?: Commitment;
+  priorityFee?: PriorityFeeSetting;
+  paymentTokens?: PaymentToken[];
+}
+
+export const DEFAULT_PROGRAM_ID = 'GPS2swU3p4XGWisAh3n4QWQuMvrQdfnz2eSwME2dp66A';
+
+export const DEFAULT_CLUSTER: ClusterName = 'sonic-testnet';
+
+export const CLUSTER_PRESETS: Record<Exclude<ClusterName, 'custom'>, ClusterConfig> = {
+  localnet: {
+    name: 'localnet',
+    label: 'Localnet',
+    rpcUrl: 'http://127.0.0.1:8899',
+    fallbackRpcUrls: [],
+    programId: DEFAULT_PROGRAM_ID,
+    commitment: 'confirmed',
+    priorityFee: 0,
+    explorerUrl: null,
+    paymentTokens: [],
+  },
+  'sonic-testnet': {
+    name: 'sonic-testnet',
+    label: 'Sonic Testnet',
+    rpcUrl: 'https://api.testnet.sonic.game',
+    fallbackRpcUrls: [],
+    programId: DEFAULT_PROGRAM_ID,
+    commitment: 'confirmed',
+    priorityFee: 'auto',
+    explorerUrl: 'https://explorer.sonic.game',
+    paymentTokens: [],
+  },
+};
+
+const CLUSTER_NAMES: ClusterName[] = ['localnet', 'sonic-testnet', 'custom'];
+const COMMITMENTS: Commitment[] = ['processed', 'confirmed', 'finalized'];
+
+// Responses worth retrying against another endpoint
+const RETRYABLE_STATUS_CODES = [429, 502, 503, 504];
+
+const parsePriorityFee = (value?: string): PriorityFeeSetting | undefined => {
+  if (!value) return undefined;
+  if (value === 'auto') return 'auto';
+
+  const microLamports = Number(value);
+  if (!Number.isInteger(microLamports) || microLamports < 0) {
+    throw new Error(`Invalid priority fee "${value}". Expected "auto" or a non-negative integer of micro-lamports`);
+  }
+  return microLamports;
+};
+
+const parseList = (value?: string): string[] | undefined => {
+  if (!value) return undefined;
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+};
+
+// Parse "USDC=<mint>,BONK=<mint>" into payment tokens
+const parsePaymentTokens = (value?: string): PaymentToken[] | undefined => {
+  return parseList(value)?.map(item => {
+    const [symbol, mint] = item.split('=').map(part => part.trim());
+    if (!symbol || !mint) {
+      throw new Error(`Invalid payment token "${item}". Expected SYMBOL=<mint address>`);
+    }
+    return { symbol, mint };
+  });
+};
+
+/**
+ * Read cluster settings from environment variables
+ * @param env The environment, e.g. import.meta.env or process.env
+ * @param prefix Variable prefix, 'VITE_' in the browser build and '' in scripts
+ * @returns Settings from SOLANA_CLUSTER, SOLANA_RPC_URL, SOLANA_FALLBACK_RPC_URLS,
+ * PROGRAM_ID, SOLANA_COMMITMENT, SOLANA_PRIORITY_FEE and SOLANA_PAYMENT_TOKENS (each with the prefix)
+ */
+export const readClusterSettingsFromEnv = (
+  env: Record<string, string | undefined>,
+  prefix = ''
+): ClusterSettings => {
+  const cluster = env[`${prefix}SOLANA_CLUSTER`];
+  const commitment = env[`${prefix}SOLANA_COMMITMENT`];
+
+  if (cluster && !CLUSTER_NAMES.includes(cluster as ClusterName)) {
+    throw new Error(`Unknown cluster "${cluster}". Expected one of: ${CLUSTER_NAMES.join(', ')}`);
+  }
+
+  if (commitment && !COMMITMENTS.includes(commitment as Commitment)) {
+    throw new Error(`Unknown commitment "${commitment}". Expected one of: ${COMMITMENTS.join(', ')}`);
+  }
+
+  return {
+    cluster: cluster as ClusterName | undefined,
+    rpcUrl: env[`${prefix}SOLANA_RPC_URL`] || undefined,
+    fallbackRpcUrls: parseList(env[`${prefix}SOLANA_FALLBACK_RPC_URLS`]),
+    programId: env[`${prefix}PROGRAM_ID`] || undefined,
+    commitment: commitment as Commitment | undefined,
+    priorityFee: parsePriorityFee(env[`${prefix}SOLANA_PRIORITY_FEE`]),
+    paymentTokens: parsePaymentTokens(env[`${prefix}SOLANA_PAYMENT_TOKENS`]),
+  };
+};
+
+/**
+ * Build a full cluster config from a preset and any overrides
+ * @param settings Cluster name plus optional overrides; a custom cluster needs an rpcUrl
+ * @returns The resolved cluster config
+ */
+export const resolveClusterConfig = (settings: ClusterSettings = {}): ClusterConfig => {
+  const name = settings.cluster || DEFAULT_CLUSTER;
+
+  let base: ClusterConfig;
+  if (name === 'custom') {
+    if (!settings.rpcUrl) {
+      throw new Error('A custom cluster requires an RPC URL');
+    }
+    base = {
+      name: 'custom',
+      label: 'Custom RPC',
+      rpcUrl: settings.rpcUrl,
+      fallbackRpcUrls: [],
+      programId: DEFAULT_PROGRAM_ID,
+      commitment: 'confirmed',
+      priorityFee: 'auto',
+      explorerUrl: null,
+      paymentTokens: [],
+    };
+  } else {
+    base = CLUSTER_PRESETS[name];
+  }
+
+  const config: ClusterConfig = {
+    ...base,
+    rpcUrl: settings.rpcUrl || base.rpcUrl,
+    fallbackRpcUrls: settings.fallbackRpcUrls || base.fallbackRpcUrls,
+    programId: settings.programId || base.programId,
+    commitment: settings.commitment || base.commitment,
+    priorityFee: settings.priorityFee ?? base.priorityFee,
+    paymentTokens: settings.paymentTokens || base.paymentTokens,
+  };
+
+  // Fail here rather than on the first RPC call or PDA derivation
+  for (const url of [config.rpcUrl, ...config.fallbackRpcUrls]) {
+    try {
+      new URL(url);
+    } catch {
+      throw new Error(`Invalid RPC URL: ${url}`);
+    }
+  }
+
+  try {
+    new PublicKey(config.programId);
+  } catch {
+    throw new Error(`Invalid program ID: ${config.programId}`);
+  }
+
+  for (const token of config.paymentTokens) {
+    if (token.symbol.toUpperCase() === SOL_CURRENCY) {
+      throw new Error(`Payment token symbol ${token.symbol} is reserved for native SOL`);
+    }
+    try {
+      new PublicKey(token.mint);
+    } catch {
+      throw new Error(`Invalid mint for payment token ${token.symbol}: ${token.mint}`);
+    }
+  }
+
+  return config;
+};
+
+// A fetch that moves on to the fallback endpoints when the primary one fails
+const createFallbackFetch = (fallbackRpcUrls: string[]): FetchFn => {
+  return async (input, init) => {
+    const urls = [input, ...fallbackRpcUrls];
+    let lastError: unknown;
+
+    for (let i = 0; i < urls.length; i++) {
+      const url = urls[i];
+      const isLast = i === urls.length - 1;
+
+      try {
+        const response = await fetch(url, init);
+        if (isLast || !RETRYABLE_STATUS_CODES.includes(response.status)) {
+          return response;
+        }
+        console.warn(`RPC endpoint ${String(url)} returned ${response.status}, trying next endpoint`);
+      } catch (error) {
+        lastError = error;
+        if (!isLast) {
+          console.warn(`RPC endpoint ${String(url)} failed, trying next endpoint:`, error);
+        }
+      }
+    }
+
+    throw lastError;
+  };
+};
+
+/**
+ * Create a connection to a cluster, falling back to its other RPC endpoints on failure
+ * @param config The cluster to connect to
+ * @returns A connection using the cluster's commitment
+ */
+export const createConnection = (config: ClusterConfig): Connection => {
+  return new Connection(config.rpcUrl, {
+    commitment: config.commitment,
+    fetch: config.fallbackRpcUrls.length > 0 ? createFallbackFetch(config.fallbackRpcUrls) : undefined,
+  });
+};
+
+/**
+ * Get the block explorer link for a transaction on a cluster
+ * @param config The cluster the transaction was sent to
+ * @param signature The transaction signature
+ * @returns The explorer URL
+ */
+export const getExplorerTxUrl = (config: ClusterConfig, signature: string): string => {
+  if (config.explorerUrl) {
+    return `${config.explorerUrl}/tx/${signature}`;
+  }
+  return `https://explorer.solana.com/tx/${signature}?cluster=custom&customUrl=${encodeURIComponent(config.rpcUrl)}`;
+};
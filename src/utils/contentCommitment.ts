@@ -0,0 +1,134 @@
+import { BorshInstructionCoder } from '@coral-xyz/anchor';
+import { Connection, PublicKey, VersionedTransactionResponse } from '@solana/web3.js';
+import { IDL } from '@/idl/pay_to_reply';
+import { findEscrowCreationSignature } from '@/utils/escrowReconciler';
+
+// Message bodies live only in Supabase, so the instruction that creates an escrow
+// also takes the SHA-256 of the content. Escrows are closed once settled, but the
+// creating transaction stays in the escrow address's history, so either party can
+// later check the stored content against it.
+//
+// The hash is public, so a bare hash of a short message could be confirmed by
+// guessing. Messages are committed with a random salt in front of the content: inside
+// the encrypted payload for encrypted messages, and in messages.content_salt for
+// plaintext ones. Messages sent before salting committed the bare SHA-256.
+
+// 'verified': the content hashes to the committed value
+// 'mismatch': the content has changed since it was paid for
+// 'uncommitted': the message was sent before content commitments existed
+// 'unavailable': the creating transaction couldn't be found or fetched
+export type ContentVerification = 'verified' | 'mismatch' | 'uncommitted' | 'unavailable';
+
+// Instructions that create an escrow and carry a contentHash argument
+const CREATE_INSTRUCTIONS = ['createMessagePayment', 'createTokenMessagePayment'];
+
+const instructionCoder = new BorshInstructionCoder(IDL);
+
+// Decode pay_to_reply instruction data, or null if it doesn't match the current IDL
+const decodeInstruction = (data: Uint8Array) => {
+  try {
+    return instructionCoder.decode(Buffer.from(data));
+  } catch {
+    return null;
+  }
+};
+
+const toHex = (bytes: ArrayLike<number>): string => {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Bytes of random salt committed with each message's content
+const CONTENT_SALT_LENGTH = 16;
+
+/**
+ * Generate the salt for a new message's content commitment
+ * @returns The salt as base64
+ */
+export const generateContentSalt = (): string => {
+  return Buffer.from(crypto.getRandomValues(new Uint8Array(CONTENT_SALT_LENGTH))).toString('base64');
+};
+
+/**
+ * SHA-256 of a message body, after its salt if it has one, as lowercase hex
+ * @param contentSalt The message's salt as base64, or null for messages sent before salting
+ */
+export const hashMessageContent = async (content: string, contentSalt: string | null = null): Promise<string> => {
+  const salt = contentSalt ? Buffer.from(contentSalt, 'base64') : Buffer.alloc(0);
+  const digest = await crypto.subtle.digest('SHA-256', Buffer.concat([salt, Buffer.from(content, 'utf8')]));
+  return toHex(new Uint8Array(digest));
+};
+
+/**
+ * Convert a hash from hashMessageContent to the byte array the program takes
+ */
+export const contentHashToBytes = (contentHash: string): number[] => {
+  return Array.from(Buffer.from(contentHash, 'hex'));
+};
+
+/**
+ * Read the committed content hash from an escrow's creating transaction
+ * @param transaction The transaction that created the escrow
+ * @param programId The pay_to_reply program on this cluster
+ * @returns The hash as hex, or null if the escrow was created without one
+ */
+export const getCommittedContentHash = (transaction: VersionedTransactionResponse, programId: PublicKey): string | null => {
+  const { message } = transaction.transaction;
+  const accountKeys = message.staticAccountKeys;
+
+  for (const instruction of message.compiledInstructions) {
+    if (!accountKeys[instruction.programIdIndex]?.equals(programId)) continue;
+
+    // Escrows created before commitments existed don't decode against the current IDL
+    const decoded = decodeInstruction(instruction.data);
+    if (!decoded || !CREATE_INSTRUCTIONS.includes(decoded.name)) continue;
+
+    const contentHash = (decoded.data as { contentHash?: number[] }).contentHash;
+    return contentHash ? toHex(contentHash) : null;
+  }
+
+  return null;
+};
+
+/**
+ * Check a message's stored content against the hash committed when it was paid for
+ * @param connection Cluster connection
+ * @param programId The pay_to_reply program on this cluster
+ * @param content The message body as stored in the database
+ * @param escrowAddress The message's escrow PDA, used to find the creating transaction
+ * @param fallbackSignature Used when there is no escrow address, e.g. the row's transaction signature
+ * @param contentSalt The salt committed with the content, or null if it was committed bare
+ */
+export const verifyMessageContent = async (
+  connection: Connection,
+  programId: PublicKey,
+  content: string,
+  escrowAddress?: string | null,
+  fallbackSignature?: string | null,
+  contentSalt: string | null = null
+): Promise<ContentVerification> => {
+  try {
+    // The row's signature is overwritten on approve/reject, so prefer the escrow's history
+    const signature = escrowAddress
+      ? await findEscrowCreationSignature(connection, new PublicKey(escrowAddress))
+      : fallbackSignature;
+
+    if (!signature) {
+      return 'unavailable';
+    }
+
+    const transaction = await connection.getTransaction(signature, { maxSupportedTransactionVersion: 0 });
+    if (!transaction) {
+      return 'unavailable';
+    }
+
+    const committedHash = getCommittedContentHash(transaction, programId);
+    if (!committedHash) {
+      return 'uncommitted';
+    }
+
+    return committedHash === await hashMessageContent(content, contentSalt) ? 'verified' : 'mismatch';
+  } catch (error) {
+    console.error('Error verifying message content:', error);
+    return 'unavailable';
+  }
+};
@@ -1,15 +1,14 @@
-import { Connection, PublicKey, Transaction, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { PublicKey, Transaction, LAMPORTS_PER_SOL } from '@solana/web3.js';
 import { BrowserWalletAdapter } from '@/utils/browserWalletAdapter';
 import { updateMessageStatus } from '@/utils/messageService';
 import { toast } from '@/components/ui/use-toast';
 import * as anchor from '@coral-xyz/anchor';
-import { Program, Idl } from '@coral-xyz/anchor';
+import { Program } from '@coral-xyz/anchor';
 
-// Import the IDL as a plain object
-import rawIdl from '@/assets/pay_to_reply.json';
-
-// Cast the imported JSON to the correct Idl type
-const payToReplyIdl = rawIdl as Idl;
+import { IDL } from '@/idl/pay_to_reply';
+import { getActiveCluster, getConnection, getExplorerTxUrl, getProgramId } from '@/utils/activeCluster';
+import { toAppError } from '@/utils/errors';
+import { sendTransaction, TransactionEventListener } from '@/utils/transactionSender';
 
 // Default donation address - for example, a nonprofit or charitable organization
 export const DEFAULT_DONATION_ADDRESS = "Cf3sRJG3VwPSvrRhJgxMYrYqkNnTKaSTZpNRwwREuYRJ";
@@ -65,6 +64,8 @@ export interface DonationOptions {
   messageId?: string;
   onSuccess?: (signature: string) => void;
   onError?: (error: Error) => void;
+  // Progress of the donation transaction (signing, sent, confirmed, ...)
+  onTransactionEvent?: TransactionEventListener;
 }
 
 /**
@@ -79,7 +80,8 @@ export const processDonation = async (
     donationAddress = DEFAULT_DONATION_ADDRESS,
     messageId,
     onSuccess,
-    onError
+    onError,
+    onTransactionEvent
   } = options;
 
   try {
@@ -89,41 +91,48 @@ export const processDonation = async (
       throw new Error("Wallet not connected");
     }
     
-    const connection = new Connection("https://api.testnet.sonic.game", "confirmed");
+    const connection = getConnection();
     const amountLamports = amountSol * LAMPORTS_PER_SOL;
     
     // Convert donation address to PublicKey
     const donationPubkey = new PublicKey(donationAddress);
     
     // Get program ID
-    const programId = new PublicKey("GPS2swU3p4XGWisAh3n4QWQuMvrQdfnz2eSwME2dp66A");
+    const programId = getProgramId();
     
+    const { commitment, priorityFee } = getActiveCluster();
     const anchorProvider = new anchor.AnchorProvider(
       connection,
       wallet,
-      { commitment: "confirmed" }
+      { commitment }
     );
     
-    // Create program instance using the imported IDL cast to the correct type
-    const program = new Program(payToReplyIdl, programId, anchorProvider);
+    // Create program instance using the generated IDL
+    const program = new Program(IDL, programId, anchorProvider);
     
     // Send the donation transaction
-    const signature = await program.methods
+    const instruction = await program.methods
       .donateFunds(new anchor.BN(amountLamports))
       .accounts({
         donor: wallet.publicKey,
         donationAddress: donationPubkey,
         systemProgram: anchor.web3.SystemProgram.programId,
       })
-      .rpc();
+      .instruction();
+    const signature = await sendTransaction(connection, wallet, [instruction], {
+      onEvent: onTransactionEvent,
+      commitment,
+      priorityFee,
+    });
     
     console.log("Donation transaction signature:", signature);
-    console.log(`https://explorer.sonic.game/tx/${signature}`);
+    console.log(getExplorerTxUrl(signature));
     
-    // If messageId is provided, update message status to include donation info
+    // A donation made from an approved message's payment moves it to 'donated'; the
+    // donation signature goes in its event log, leaving the approval's on the row
     if (messageId) {
       try {
-        await updateMessageStatus(messageId, "approved", signature);
+        await updateMessageStatus(messageId, "donated", signature);
       } catch (error) {
         console.error("Error updating message status with donation info:", error);
       }
@@ -140,7 +149,7 @@ export const processDonation = async (
     
     // Call error callback if provided
     if (onError) {
-      onError(error as Error);
+      onError(toAppError(error));
     }
     
     return null;
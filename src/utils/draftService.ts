@@ -0,0 +1,217 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Compose drafts: a message being written to someone, saved while it is typed so it
+// survives navigation, wallet-connect redirects and failed payments. Every browser
+// keeps a copy in localStorage, which works before a wallet is connected. When the
+// sender is signed in the draft is also saved to message_drafts under their account,
+// so it follows them to other devices. There is one draft per sender and recipient.
+
+const LOCAL_DRAFTS_KEY = 'squeakyWheelDrafts';
+
+export interface MessageDraft {
+  recipientId: string;
+  recipientUsername: string;
+  content: string;
+  amount: number;
+  // 'SOL' or the payment token's symbol
+  currency: string;
+  // Token mint; null for SOL
+  mint: string | null;
+  // A value from EXPIRY_OPTIONS
+  expiry: string;
+  requiresReply: boolean;
+  updatedAt: string;
+}
+
+interface LocalDraft extends MessageDraft {
+  // null for drafts written before a wallet was connected
+  senderWalletAddress: string | null;
+}
+
+const readLocalDrafts = (): LocalDraft[] => {
+  try {
+    const stored = localStorage.getItem(LOCAL_DRAFTS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Failed to read local drafts:', error);
+    return [];
+  }
+};
+
+const writeLocalDrafts = (drafts: LocalDraft[]) => {
+  try {
+    localStorage.setItem(LOCAL_DRAFTS_KEY, JSON.stringify(drafts));
+  } catch (error) {
+    console.error('Failed to write local drafts:', error);
+  }
+};
+
+// Drafts written without a wallet belong to whichever wallet connects next
+const isOwnDraft = (draft: LocalDraft, senderWalletAddress: string | null) => {
+  return !draft.senderWalletAddress || draft.senderWalletAddress === senderWalletAddress;
+};
+
+// Database drafts belong to the signed-in account, whichever wallet is connected
+const getSignedInUserId = async (): Promise<string | null> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  return user?.id ?? null;
+};
+
+const toMessageDraft = ({ senderWalletAddress: _sender, ...draft }: LocalDraft): MessageDraft => draft;
+
+const DRAFT_COLUMNS = 'content, amount, currency, mint, expiry, requires_reply, updated_at, recipient_id, recipient:profiles!message_drafts_recipient_id_fkey(username)';
+
+/**
+ * Save a draft in this browser only. Cheap enough to call on every keystroke.
+ * @param senderWalletAddress The connected wallet, if any
+ */
+export const saveLocalDraft = (draft: MessageDraft, senderWalletAddress: string | null) => {
+  writeLocalDrafts([
+    ...readLocalDrafts().filter(d => d.recipientId !== draft.recipientId || !isOwnDraft(d, senderWalletAddress)),
+    { ...draft, senderWalletAddress },
+  ]);
+};
+
+/**
+ * Save a draft locally and, when the sender is signed in, to the database
+ * @param senderWalletAddress The connected wallet, if any
+ * @returns Whether the draft was saved to the database
+ */
+export const saveDraft = async (draft: MessageDraft, senderWalletAddress: string | null): Promise<boolean> => {
+  saveLocalDraft(draft, senderWalletAddress);
+
+  try {
+    const senderId = await getSignedInUserId();
+    if (!senderId) return false;
+
+    const values = {
+      content: draft.content,
+      amount: draft.amount,
+      currency: draft.currency,
+      mint: draft.mint,
+      expiry: draft.expiry,
+      requires_reply: draft.requiresReply,
+      updated_at: draft.updatedAt,
+    };
+
+    const updateDraft = () => supabase
+      .from('message_drafts')
+      .update(values)
+      .eq('sender_id', senderId)
+      .eq('recipient_id', draft.recipientId)
+      .select('id');
+
+    const { data: updated, error: updateError } = await updateDraft();
+    if (updateError) {
+      console.error('Error updating draft:', updateError);
+      return false;
+    }
+    if (updated && updated.length > 0) return true;
+
+    const { error: insertError } = await supabase
+      .from('message_drafts')
+      .insert({ ...values, sender_id: senderId, recipient_id: draft.recipientId });
+
+    // Another tab saved the same draft first
+    if (insertError?.code === '23505') {
+      const { error: retryError } = await updateDraft();
+      return !retryError;
+    }
+    if (insertError) {
+      console.error('Error inserting draft:', insertError);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('Error saving draft:', error);
+    return false;
+  }
+};
+
+/**
+ * Fetch a sender's drafts from this browser and, when they are signed in, the
+ * database, newest first
+ * @param senderWalletAddress The connected wallet, if any
+ * @returns One draft per recipient, whichever copy was saved last
+ */
+export const fetchDrafts = async (senderWalletAddress: string | null): Promise<MessageDraft[]> => {
+  const drafts = new Map<string, MessageDraft>();
+
+  const keepNewest = (draft: MessageDraft) => {
+    const existing = drafts.get(draft.recipientId);
+    if (!existing || existing.updatedAt < draft.updatedAt) {
+      drafts.set(draft.recipientId, draft);
+    }
+  };
+
+  readLocalDrafts()
+    .filter(draft => isOwnDraft(draft, senderWalletAddress))
+    .forEach(draft => keepNewest(toMessageDraft(draft)));
+
+  try {
+    const senderId = await getSignedInUserId();
+    if (senderId) {
+      const { data, error } = await supabase
+        .from('message_drafts')
+        .select(DRAFT_COLUMNS)
+        .eq('sender_id', senderId);
+
+      if (error) {
+        console.error('Error fetching drafts:', error);
+      }
+
+      for (const row of data || []) {
+        keepNewest({
+          recipientId: row.recipient_id,
+          recipientUsername: row.recipient?.username || '',
+          content: row.content,
+          amount: Number(row.amount),
+          currency: row.currency,
+          mint: row.mint,
+          expiry: row.expiry || '',
+          requiresReply: row.requires_reply,
+          updatedAt: row.updated_at,
+        });
+      }
+    }
+  } catch (error) {
+    console.error('Error fetching drafts:', error);
+  }
+
+  return [...drafts.values()].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+/**
+ * Fetch the draft to a recipient, if there is one
+ * @param senderWalletAddress The connected wallet, if any
+ */
+export const loadDraft = async (recipientId: string, senderWalletAddress: string | null): Promise<MessageDraft | null> => {
+  const drafts = await fetchDrafts(senderWalletAddress);
+  return drafts.find(draft => draft.recipientId === recipientId) || null;
+};
+
+/**
+ * Delete the draft to a recipient from this browser and, when the sender is signed
+ * in, the database, e.g. once the paid message has been sent
+ * @param senderWalletAddress The connected wallet, if any
+ */
+export const deleteDraft = async (recipientId: string, senderWalletAddress: string | null): Promise<void> => {
+  writeLocalDrafts(readLocalDrafts().filter(d => d.recipientId !== recipientId || !isOwnDraft(d, senderWalletAddress)));
+
+  try {
+    const senderId = await getSignedInUserId();
+    if (!senderId) return;
+
+    const { error } = await supabase
+      .from('message_drafts')
+      .delete()
+      .eq('sender_id', senderId)
+      .eq('recipient_id', recipientId);
+
+    if (error) {
+      console.error('Error deleting draft:', error);
+    }
+  } catch (error) {
+    console.error('Error deleting draft:', error);
+  }
+};
@@ -0,0 +1,228 @@
+import { utils } from '@coral-xyz/anchor';
+import {
+  Commitment,
+  Connection,
+  Keypair,
+  NONCE_ACCOUNT_LENGTH,
+  NonceAccount,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import type { PriorityFeeSetting } from '@/utils/clusterConfig';
+import { errorFromTransaction } from '@/utils/errors';
+import { prepareComputeBudget, sendTransaction, SendTransactionOptions, TransactionSigner } from '@/utils/transactionSender';
+
+// Durable nonces let a transaction be signed now and sent later. Instead of a recent
+// blockhash, which expires after about a minute, the transaction carries the value
+// stored in a nonce account and starts with an instruction that advances it. It stays
+// valid until it lands or the nonce is advanced some other way, e.g. by closing the
+// account. Scheduled messages (scheduledMessageService.ts) are signed like this.
+//
+// Nothing here imports the browser Supabase client, so the runner script can use it.
+
+const REBROADCAST_INTERVAL_MS = 2000;
+
+// How long one submission waits for confirmation before leaving it to the next run
+const SUBMIT_TIMEOUT_MS = 60 * 1000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Lamports a nonce account holds to be rent exempt, refunded when it is closed
+export const getNonceAccountRent = (connection: Connection, commitment?: Commitment): Promise<number> => {
+  return connection.getMinimumBalanceForRentExemption(NONCE_ACCOUNT_LENGTH, commitment);
+};
+
+/**
+ * Create a nonce account owned by the wallet, which pays its rent
+ * @returns The nonce account's address
+ */
+export const createNonceAccount = async (
+  connection: Connection,
+  wallet: TransactionSigner,
+  options: SendTransactionOptions = {}
+): Promise<string> => {
+  const nonceKeypair = Keypair.generate();
+  const lamports = await getNonceAccountRent(connection, options.commitment);
+
+  const { instructions } = SystemProgram.createNonceAccount({
+    fromPubkey: wallet.publicKey,
+    noncePubkey: nonceKeypair.publicKey,
+    authorizedPubkey: wallet.publicKey,
+    lamports,
+  });
+
+  // The new account signs its own creation
+  await sendTransaction(connection, wallet, instructions, { ...options, signers: [nonceKeypair] });
+
+  console.log('Created nonce account:', nonceKeypair.publicKey.toBase58());
+  return nonceKeypair.publicKey.toBase58();
+};
+
+/**
+ * Read the current value of a nonce account
+ * @returns The nonce, or null if the account doesn't exist (e.g. it was closed)
+ */
+export const fetchNonce = async (
+  connection: Connection,
+  nonceAccount: string,
+  commitment?: Commitment
+): Promise<string | null> => {
+  const account = await connection.getAccountInfo(new PublicKey(nonceAccount), commitment);
+  if (!account) {
+    return null;
+  }
+  return NonceAccount.fromAccountData(account.data).nonce;
+};
+
+export interface DurableTransaction {
+  // Base64 of the fully signed transaction
+  signedTransaction: string;
+  signature: string;
+}
+
+/**
+ * Sign instructions against a nonce account instead of a blockhash. The instructions
+ * are simulated now to size the compute budget, but nothing is sent.
+ * @throws If the nonce account doesn't exist, or the instructions fail to simulate
+ */
+export const signDurableTransaction = async (
+  connection: Connection,
+  wallet: TransactionSigner,
+  nonceAccount: string,
+  instructions: TransactionInstruction[],
+  commitment: Commitment,
+  priorityFee: PriorityFeeSetting
+): Promise<DurableTransaction> => {
+  const nonce = await fetchNonce(connection, nonceAccount, commitment);
+  if (!nonce) {
+    throw new Error(`Nonce account ${nonceAccount} was not found`);
+  }
+
+  const budgetInstructions = await prepareComputeBudget(connection, wallet.publicKey, instructions, commitment, priorityFee);
+
+  // The advance instruction is put first, as durable transactions require
+  const transaction = new Transaction({
+    feePayer: wallet.publicKey,
+    nonceInfo: {
+      nonce,
+      nonceInstruction: SystemProgram.nonceAdvance({
+        noncePubkey: new PublicKey(nonceAccount),
+        authorizedPubkey: wallet.publicKey,
+      }),
+    },
+  }).add(...budgetInstructions, ...instructions);
+
+  const signed = await wallet.signTransaction(transaction);
+  const signedTransaction = signed.serialize().toString('base64');
+
+  return { signedTransaction, signature: getDurableTransactionSignature(signedTransaction) };
+};
+
+/**
+ * Get the signature a signed transaction will land under: the fee payer's
+ */
+export const getDurableTransactionSignature = (signedTransaction: string): string => {
+  const { signature } = Transaction.from(Buffer.from(signedTransaction, 'base64'));
+  if (!signature) {
+    throw new Error('The transaction is not signed');
+  }
+  return utils.bytes.bs58.encode(signature);
+};
+
+/**
+ * Get the nonce value a signed transaction was signed against. It can only land while
+ * the nonce account still holds this value.
+ */
+export const getDurableTransactionNonce = (signedTransaction: string): string => {
+  const { recentBlockhash } = Transaction.from(Buffer.from(signedTransaction, 'base64'));
+  if (!recentBlockhash) {
+    throw new Error('The transaction has no nonce');
+  }
+  return recentBlockhash;
+};
+
+/**
+ * Close a nonce account, returning its rent to the wallet. Any transaction signed
+ * against it can no longer land.
+ * @returns The transaction signature
+ */
+export const closeNonceAccount = async (
+  connection: Connection,
+  wallet: TransactionSigner,
+  nonceAccount: string,
+  options: SendTransactionOptions = {}
+): Promise<string> => {
+  const noncePubkey = new PublicKey(nonceAccount);
+  const lamports = await connection.getBalance(noncePubkey, options.commitment);
+
+  const instruction = SystemProgram.nonceWithdraw({
+    noncePubkey,
+    authorizedPubkey: wallet.publicKey,
+    toPubkey: wallet.publicKey,
+    lamports,
+  });
+
+  const signature = await sendTransaction(connection, wallet, [instruction], options);
+  console.log(`Closed nonce account ${nonceAccount}, recovered ${lamports} lamports`);
+  return signature;
+};
+
+/**
+ * Send a transaction signed by signDurableTransaction and rebroadcast it until it
+ * confirms. It is simulated first, so a failure such as an underfunded wallet is
+ * reported without paying a fee.
+ * @returns 'confirmed', or 'pending' if it hasn't confirmed yet and is still valid
+ * @throws If the simulation fails or the transaction landed but failed
+ */
+export const submitDurableTransaction = async (
+  connection: Connection,
+  signedTransaction: string,
+  timeoutMs = SUBMIT_TIMEOUT_MS
+): Promise<'confirmed' | 'pending'> => {
+  const rawTransaction = Buffer.from(signedTransaction, 'base64');
+  const signature = getDurableTransactionSignature(signedTransaction);
+
+  const { value: simulation } = await connection.simulateTransaction(VersionedTransaction.deserialize(rawTransaction), {
+    sigVerify: false,
+  });
+  if (simulation.err) {
+    console.error('Simulation failed:', simulation.err, simulation.logs);
+    throw errorFromTransaction(simulation.err, simulation.logs || []);
+  }
+
+  const deadline = Date.now() + timeoutMs;
+
+  while (true) {
+    try {
+      await connection.sendRawTransaction(rawTransaction, { skipPreflight: true, maxRetries: 0 });
+    } catch (error) {
+      // Rebroadcasts are best-effort; the status check below decides the outcome
+      console.warn(`Broadcast of ${signature} failed:`, error);
+    }
+
+    await sleep(REBROADCAST_INTERVAL_MS);
+
+    const { value: [status] } = await connection.getSignatureStatuses([signature]);
+
+    if (status?.err) {
+      const landed = await connection.getTransaction(signature, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0,
+      });
+      throw errorFromTransaction(status.err, landed?.meta?.logMessages || []);
+    }
+
+    if (status?.confirmationStatus === 'confirmed' || status?.confirmationStatus === 'finalized') {
+      console.log('Durable transaction confirmed:', signature);
+      return 'confirmed';
+    }
+
+    if (Date.now() > deadline) {
+      console.warn(`Durable transaction ${signature} not confirmed within ${timeoutMs / 1000}s`);
+      return 'pending';
+    }
+  }
+};
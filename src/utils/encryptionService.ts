@@ -0,0 +1,305 @@
+import { ed25519, x25519 } from '@noble/curves/ed25519';
+import { PublicKey } from '@solana/web3.js';
+import { supabase } from '@/integrations/supabase/client';
+import { EncryptionError, isWalletRejection } from '@/utils/errors';
+
+// Optional end-to-end encryption of message content. A user turns it on by signing a
+// fixed message with their wallet: the SHA-256 of that signature is an X25519 secret
+// key, and its public key is published on their profile. Wallet signatures are
+// deterministic, so signing again on another device yields the same key and nothing
+// secret is ever stored; unlocked keys only live in memory until the wallet
+// disconnects or the page reloads.
+//
+// A message to a recipient with a published key is encrypted with AES-GCM once per
+// reader (the recipient, and the sender if they have a key too) under a key agreed
+// between a one-off ephemeral key and the reader's public key. The database only
+// sees the ciphertext. The salt of the message's on-chain content commitment (see
+// contentCommitment.ts) is encrypted along with the content, so the commitment can't
+// be used to guess it.
+
+// What the wallet signs to derive the key. Changing it changes every user's key.
+const KEY_DERIVATION_MESSAGE = [
+  'Squeaky Wheel message encryption',
+  '',
+  'Sign this to create or unlock the key that encrypts your messages.',
+  'It is free and does not send a transaction.',
+  '',
+  'Version: 1',
+].join('\n');
+
+// Version 1 encrypted the bare content; version 2 encrypts it with its commitment salt
+const ENVELOPE_VERSION = 2;
+const UNSALTED_ENVELOPE_VERSION = 1;
+
+// Postgres insufficient_privilege, returned when the wallet isn't linked to the caller
+const INSUFFICIENT_PRIVILEGE = '42501';
+
+// Anything that can sign bytes with the wallet's key, e.g. BrowserWalletAdapter
+export interface MessageSigner {
+  signMessage(message: Uint8Array): Promise<Uint8Array>;
+}
+
+// One reader's copy of the content; all fields are base64
+export type EncryptedCopy = {
+  // The reader's X25519 public key, to find their copy
+  public_key: string;
+  nonce: string;
+  ciphertext: string;
+};
+
+// Stored in messages.encrypted_content
+export type EncryptedContent = {
+  version: number;
+  // Public half of the one-off key the copies were encrypted with
+  ephemeral_public_key: string;
+  copies: EncryptedCopy[];
+};
+
+// What an envelope decrypts to
+export type DecryptedContent = {
+  content: string;
+  // The content commitment's salt as base64; null for version 1 envelopes
+  salt: string | null;
+};
+
+// 'decrypted': the content was encrypted and has been decrypted for this reader
+// 'locked': no unlocked key can read it, so the content is empty
+export type EncryptionState = 'decrypted' | 'locked';
+
+interface EncryptionKeyPair {
+  publicKey: string;
+  secretKey: Uint8Array;
+}
+
+type EncryptionListener = () => void;
+
+// Unlocked keys by wallet address
+const keyring = new Map<string, EncryptionKeyPair>();
+const listeners = new Set<EncryptionListener>();
+// Bumped whenever the keyring changes, as a snapshot for useSyncExternalStore
+let keyringVersion = 0;
+
+const toBase64 = (bytes: Uint8Array): string => Buffer.from(bytes).toString('base64');
+const fromBase64 = (value: string): Uint8Array => new Uint8Array(Buffer.from(value, 'base64'));
+
+const sha256 = async (...parts: Uint8Array[]): Promise<Uint8Array> => {
+  const data = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    data.set(part, offset);
+    offset += part.length;
+  }
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+};
+
+// AES key for one copy, bound to both public keys so a copy can't be moved to another reader
+const deriveCopyKey = async (sharedSecret: Uint8Array, ephemeralPublicKey: Uint8Array, readerPublicKey: Uint8Array) => {
+  const keyBytes = await sha256(sharedSecret, ephemeralPublicKey, readerPublicKey);
+  return crypto.subtle.importKey('raw', keyBytes, 'AES-GCM', false, ['encrypt', 'decrypt']);
+};
+
+const notifyListeners = () => {
+  keyringVersion++;
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * Derive an encryption key pair from the wallet's signature of KEY_DERIVATION_MESSAGE
+ * @param signature The wallet's signature
+ * @returns The key pair, with the public key as base64
+ */
+export const deriveEncryptionKeyPair = async (signature: Uint8Array): Promise<EncryptionKeyPair> => {
+  const secretKey = await sha256(signature);
+  return { publicKey: toBase64(x25519.getPublicKey(secretKey)), secretKey };
+};
+
+/**
+ * Unlock a wallet's encryption key for this session by asking the wallet to sign
+ * @param wallet Signs the key derivation message
+ * @param walletAddress The wallet's address, to check the signature against
+ * @returns The wallet's encryption public key
+ * @throws WalletRejectedError if the user declines, EncryptionError if the signature is invalid
+ */
+export const unlockEncryption = async (wallet: MessageSigner, walletAddress: string): Promise<string> => {
+  const unlocked = keyring.get(walletAddress);
+  if (unlocked) {
+    return unlocked.publicKey;
+  }
+
+  const message = new TextEncoder().encode(KEY_DERIVATION_MESSAGE);
+  let signature: Uint8Array;
+  try {
+    signature = await wallet.signMessage(message);
+  } catch (error) {
+    if (isWalletRejection(error)) throw error;
+    throw new EncryptionError('Your wallet could not sign the encryption key request', 'Use a wallet that supports message signing.');
+  }
+
+  // A key derived from someone else's signature would be useless, so make sure it's this wallet's
+  if (!ed25519.verify(signature, message, new PublicKey(walletAddress).toBytes())) {
+    throw new EncryptionError('The wallet returned an invalid signature');
+  }
+
+  const keyPair = await deriveEncryptionKeyPair(signature);
+  keyring.set(walletAddress, keyPair);
+  console.log(`Unlocked encryption key for ${walletAddress}`);
+  notifyListeners();
+  return keyPair.publicKey;
+};
+
+/**
+ * Whether a wallet's encryption key is unlocked in this session
+ */
+export const isEncryptionUnlocked = (walletAddress: string): boolean => {
+  return keyring.has(walletAddress);
+};
+
+// Forget every unlocked key, e.g. when the wallet disconnects
+export const lockEncryption = (): void => {
+  if (keyring.size === 0) return;
+  keyring.clear();
+  notifyListeners();
+};
+
+/**
+ * Look up the encryption key a wallet's owner has published
+ * @returns The public key as base64, or null if they haven't turned encryption on
+ * @throws If the lookup fails
+ */
+export const fetchEncryptionPublicKey = async (walletAddress: string): Promise<string | null> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('encryption_public_key')
+    .eq('wallet_address', walletAddress)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up encryption key: ${error.message}`);
+  }
+
+  return data?.encryption_public_key ?? null;
+};
+
+/**
+ * Turn encryption on: unlock the wallet's key and publish it on the signed-in user's
+ * profile, so messages sent to them from now on are encrypted
+ * @param wallet Signs the key derivation message
+ * @param walletAddress The wallet, which must be linked to the signed-in account
+ * @returns The published public key
+ * @throws EncryptionError if the wallet isn't linked to the account
+ */
+export const enableEncryption = async (wallet: MessageSigner, walletAddress: string): Promise<string> => {
+  const publicKey = await unlockEncryption(wallet, walletAddress);
+
+  if (await fetchEncryptionPublicKey(walletAddress) === publicKey) {
+    return publicKey;
+  }
+
+  const { error } = await supabase.rpc('publish_encryption_key', {
+    p_wallet_address: walletAddress,
+    p_public_key: publicKey,
+  });
+
+  if (error?.code === INSUFFICIENT_PRIVILEGE) {
+    throw new EncryptionError(error.message, 'Sign in and link this wallet to your account first.');
+  }
+
+  if (error) {
+    throw new Error(`Failed to publish encryption key: ${error.message}`);
+  }
+
+  console.log(`Published encryption key for ${walletAddress}`);
+  return publicKey;
+};
+
+/**
+ * Encrypt message content so only the holders of the given keys can read it
+ * @param content The plaintext
+ * @param publicKeys The readers' encryption public keys, as base64
+ * @param salt The content commitment's salt, kept only inside the ciphertext
+ * @returns The envelope to store in messages.encrypted_content
+ */
+export const encryptContent = async (content: string, publicKeys: string[], salt: string | null = null): Promise<EncryptedContent> => {
+  const ephemeralSecretKey = x25519.utils.randomPrivateKey();
+  const ephemeralPublicKey = x25519.getPublicKey(ephemeralSecretKey);
+  const plaintext = new TextEncoder().encode(JSON.stringify({ content, salt } satisfies DecryptedContent));
+
+  const copies = await Promise.all([...new Set(publicKeys)].map(async publicKey => {
+    const readerPublicKey = fromBase64(publicKey);
+    const key = await deriveCopyKey(x25519.getSharedSecret(ephemeralSecretKey, readerPublicKey), ephemeralPublicKey, readerPublicKey);
+    const nonce = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv: nonce }, key, plaintext);
+    return { public_key: publicKey, nonce: toBase64(nonce), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+  }));
+
+  return { version: ENVELOPE_VERSION, ephemeral_public_key: toBase64(ephemeralPublicKey), copies };
+};
+
+/**
+ * Decrypt message content with whichever unlocked key has a copy
+ * @returns The plaintext and its commitment salt, or null if no unlocked key can read it
+ */
+export const decryptContent = async (encrypted: EncryptedContent): Promise<DecryptedContent | null> => {
+  if (encrypted.version !== ENVELOPE_VERSION && encrypted.version !== UNSALTED_ENVELOPE_VERSION) {
+    console.error(`Unsupported encrypted content version ${encrypted.version}`);
+    return null;
+  }
+
+  for (const keyPair of keyring.values()) {
+    const copy = encrypted.copies.find(candidate => candidate.public_key === keyPair.publicKey);
+    if (!copy) continue;
+
+    try {
+      const ephemeralPublicKey = fromBase64(encrypted.ephemeral_public_key);
+      const sharedSecret = x25519.getSharedSecret(keyPair.secretKey, ephemeralPublicKey);
+      const key = await deriveCopyKey(sharedSecret, ephemeralPublicKey, fromBase64(keyPair.publicKey));
+      const plaintext = new TextDecoder().decode(
+        await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(copy.nonce) }, key, fromBase64(copy.ciphertext))
+      );
+      return encrypted.version === UNSALTED_ENVELOPE_VERSION
+        ? { content: plaintext, salt: null }
+        : JSON.parse(plaintext) as DecryptedContent;
+    } catch (error) {
+      console.error('Failed to decrypt message content:', error);
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Fill in the content and commitment salt of encrypted messages the unlocked keys can
+ * read. The rest are marked locked and keep their empty content.
+ */
+export const decryptMessages = async <T extends {
+  content: string;
+  content_salt?: string | null;
+  encrypted_content?: EncryptedContent | null;
+  encryption?: EncryptionState;
+}>(messages: T[]): Promise<T[]> => {
+  return Promise.all(messages.map(async message => {
+    if (!message.encrypted_content) {
+      return message;
+    }
+    const decrypted = await decryptContent(message.encrypted_content);
+    return decrypted === null
+      ? { ...message, content: '', encryption: 'locked' as const }
+      : { ...message, content: decrypted.content, content_salt: decrypted.salt, encryption: 'decrypted' as const };
+  }));
+};
+
+/**
+ * Listen for keys being unlocked or locked, e.g. to refetch messages
+ * @returns A function that removes the listener
+ */
+export const subscribeToEncryptionChanges = (listener: EncryptionListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Changes whenever a key is unlocked or locked
+export const getKeyringVersion = (): number => {
+  return keyringVersion;
+};
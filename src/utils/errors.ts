@@ -0,0 +1,366 @@
+import { AnchorError } from '@coral-xyz/anchor';
+import { LAMPORTS_PER_SOL, TransactionError } from '@solana/web3.js';
+
+// Typed failures for program, wallet, network and database errors, so the UI can
+// tell the user what went wrong and what to do next instead of echoing raw messages.
+
+// Base class for errors the UI knows how to explain
+export class AppError extends Error {
+  // Short heading for a toast or alert
+  readonly title: string;
+  // What the user can do about it
+  readonly remediation: string;
+
+  constructor(message: string, title: string, remediation: string) {
+    super(message);
+    this.name = 'AppError';
+    this.title = title;
+    this.remediation = remediation;
+  }
+}
+
+// A pay_to_reply instruction failed one of the program's checks
+export class ProgramError extends AppError {
+  // Anchor error number, e.g. 6000
+  readonly code: number;
+  // Anchor error name, e.g. 'InvalidEscrowStatus'
+  readonly errorName: string;
+
+  constructor(
+    code: number,
+    errorName: string,
+    message: string,
+    title = 'Transaction Rejected',
+    remediation = 'Refresh the page and try again.'
+  ) {
+    super(message, title, remediation);
+    this.name = 'ProgramError';
+    this.code = code;
+    this.errorName = errorName;
+  }
+}
+
+export class EscrowStatusError extends ProgramError {
+  constructor() {
+    super(6000, 'InvalidEscrowStatus', 'This message has already been processed', 'Already Processed', 'Refresh to see its current status.');
+    this.name = 'EscrowStatusError';
+  }
+}
+
+export class InvalidRecipientError extends ProgramError {
+  constructor() {
+    super(6001, 'InvalidRecipient', 'The connected wallet is not the recipient of this message', 'Wrong Wallet', 'Switch to the wallet this message was sent to.');
+    this.name = 'InvalidRecipientError';
+  }
+}
+
+export class InvalidSenderError extends ProgramError {
+  constructor() {
+    super(6002, 'InvalidSender', 'The sender on record does not match the escrow', 'Sender Mismatch', 'Use "Sync with chain" in the Inbox to repair the message, then try again.');
+    this.name = 'InvalidSenderError';
+  }
+}
+
+export class EscrowExpiredError extends ProgramError {
+  constructor() {
+    super(6006, 'EscrowExpired', 'This message has expired and can no longer be approved', 'Message Expired', 'The sender can now reclaim the payment.');
+    this.name = 'EscrowExpiredError';
+  }
+}
+
+export class EscrowNotExpiredError extends ProgramError {
+  constructor() {
+    super(6007, 'EscrowNotExpired', 'This message has not expired yet', 'Not Expired Yet', 'You can reclaim the payment once the refund deadline has passed.');
+    this.name = 'EscrowNotExpiredError';
+  }
+}
+
+export class InvalidSplitAmountError extends ProgramError {
+  constructor() {
+    super(6008, 'InvalidSplitAmount', 'The amount you keep must be more than zero and less than the payment', 'Invalid Split', 'Choose a smaller share, or approve or reject the whole payment.');
+    this.name = 'InvalidSplitAmountError';
+  }
+}
+
+export class WalletRejectedError extends AppError {
+  constructor() {
+    super('The transaction was rejected in the wallet', 'Transaction Rejected', 'Approve the request in your wallet to continue.');
+    this.name = 'WalletRejectedError';
+  }
+}
+
+export class NetworkError extends AppError {
+  constructor(detail: string) {
+    super(`Could not reach the Solana RPC: ${detail}`, 'Network Error', 'Check your connection, or pick another RPC endpoint from the cluster selector, then try again.');
+    this.name = 'NetworkError';
+  }
+}
+
+export class InsufficientFundsError extends AppError {
+  // Exact lamports needed, when known
+  readonly requiredLamports?: number;
+
+  constructor(requiredLamports?: number) {
+    super(
+      requiredLamports !== undefined
+        ? `Insufficient funds. This transaction needs ${requiredLamports / LAMPORTS_PER_SOL} SOL including escrow rent and fees`
+        : 'Insufficient funds for this transaction',
+      'Insufficient Funds',
+      'Add more SOL to your wallet and try again.'
+    );
+    this.name = 'InsufficientFundsError';
+    this.requiredLamports = requiredLamports;
+  }
+}
+
+// The wallet holds too little of the SPL token a message is paid in
+export class InsufficientTokenFundsError extends AppError {
+  readonly currency: string;
+
+  constructor(currency: string, requiredAmount: number) {
+    super(`Insufficient ${currency}. This message needs ${requiredAmount} ${currency}`, 'Insufficient Funds', `Add more ${currency} to your wallet, or pay in another currency.`);
+    this.name = 'InsufficientTokenFundsError';
+    this.currency = currency;
+  }
+}
+
+// The transaction landed but its database row could not be written
+export class DatabaseSaveError extends AppError {
+  readonly signature: string;
+  readonly messageId?: string;
+
+  constructor(
+    signature: string,
+    messageId?: string,
+    remediation = 'Your payment went through. Use "Sync with chain" in the Inbox to restore the message.'
+  ) {
+    super('The transaction succeeded, but saving the message details failed', 'Saved On-Chain Only', remediation);
+    this.name = 'DatabaseSaveError';
+    this.signature = signature;
+    this.messageId = messageId;
+  }
+}
+
+// Another signed-in account has already linked this wallet to its profile
+export class WalletAlreadyLinkedError extends AppError {
+  readonly walletAddress: string;
+
+  constructor(walletAddress: string) {
+    super(`Wallet ${walletAddress} is already linked to another account`, 'Wallet Already Linked', 'Connect a different wallet, or sign in with the account that linked this one.');
+    this.name = 'WalletAlreadyLinkedError';
+    this.walletAddress = walletAddress;
+  }
+}
+
+// The wallet's signature didn't prove the signed-in user holds the wallet they're linking
+export class WalletOwnershipError extends AppError {
+  readonly walletAddress: string;
+
+  constructor(walletAddress: string, message = `Couldn't verify that you own wallet ${walletAddress}`) {
+    super(message, 'Wallet Not Verified', 'Sign the request with the wallet you are linking and try again.');
+    this.name = 'WalletOwnershipError';
+    this.walletAddress = walletAddress;
+  }
+}
+
+// A file broke the attachment limits, or couldn't be uploaded or linked to its message
+export class AttachmentError extends AppError {
+  constructor(message: string, remediation = 'Remove the file or choose a different one.') {
+    super(message, 'Attachment Problem', remediation);
+    this.name = 'AttachmentError';
+  }
+}
+
+// Encryption keys couldn't be derived, published or used
+export class EncryptionError extends AppError {
+  constructor(message: string, remediation = 'Reconnect your wallet and try again.') {
+    super(message, 'Encryption Problem', remediation);
+    this.name = 'EncryptionError';
+  }
+}
+
+// The sender required an answer, and approving would pay out before it was given
+export class AnswerRequiredError extends AppError {
+  readonly messageId: string;
+
+  constructor(messageId: string) {
+    super(`Message ${messageId} needs your answer before it can be approved`, 'Answer Required', 'Answer the message, then approve it.');
+    this.name = 'AnswerRequiredError';
+    this.messageId = messageId;
+  }
+}
+
+export class SchedulingError extends AppError {
+  constructor(message: string, remediation = 'Refresh your scheduled messages and try again.') {
+    super(message, 'Scheduling Problem', remediation);
+    this.name = 'SchedulingError';
+  }
+}
+
+export class TransactionSimulationError extends AppError {
+  logs: string[];
+  transactionError: TransactionError | string;
+
+  constructor(error: TransactionError | string, logs: string[]) {
+    super(
+      `Transaction simulation failed: ${typeof error === 'string' ? error : JSON.stringify(error)}${logs.length ? `\n${logs.join('\n')}` : ''}`,
+      'Transaction Failed',
+      'The transaction would fail if sent. Refresh and try again.'
+    );
+    this.name = 'TransactionSimulationError';
+    this.logs = logs;
+    this.transactionError = error;
+  }
+}
+
+export class TransactionExpiredError extends AppError {
+  constructor(attempts: number) {
+    super(
+      `Transaction was not confirmed before its blockhash expired (${attempts} attempt${attempts === 1 ? '' : 's'})`,
+      'Transaction Expired',
+      'The network is congested. Try again, or switch to another RPC endpoint.'
+    );
+    this.name = 'TransactionExpiredError';
+  }
+}
+
+// pay_to_reply error codes with a dedicated class; other codes become a plain ProgramError
+const PROGRAM_ERRORS: Record<number, () => ProgramError> = {
+  6000: () => new EscrowStatusError(),
+  6001: () => new InvalidRecipientError(),
+  6002: () => new InvalidSenderError(),
+  6006: () => new EscrowExpiredError(),
+  6007: () => new EscrowNotExpiredError(),
+  6008: () => new InvalidSplitAmountError(),
+};
+
+// Anchor's AccountNotInitialized: the escrow was never created or has been closed
+const ACCOUNT_NOT_INITIALIZED = 3012;
+
+const WALLET_REJECTION_CODE = 4001;
+const WALLET_REJECTION_PATTERN = /user rejected|rejected the request|request rejected|user denied|user canceled|user cancelled/i;
+const NETWORK_ERROR_PATTERN = /failed to fetch|fetch failed|network ?error|networkerror|econnrefused|econnreset|etimedout|429 too many requests|503 service unavailable|502 bad gateway/i;
+const INSUFFICIENT_FUNDS_PATTERN = /insufficient funds|insufficient lamports|attempt to debit an account but found no record of a prior credit/i;
+
+const programErrorFromCode = (code: number, errorName: string, message: string): ProgramError => {
+  const create = PROGRAM_ERRORS[code];
+  if (create) {
+    return create();
+  }
+  if (code === ACCOUNT_NOT_INITIALIZED) {
+    return new ProgramError(code, errorName, 'The escrow for this message no longer exists on chain', 'Escrow Not Found', 'It has probably been settled already. Refresh to see its current status.');
+  }
+  return new ProgramError(code, errorName, message);
+};
+
+// Custom program error number from a transaction error like {InstructionError: [0, {Custom: 6000}]}
+const getCustomErrorCode = (error: TransactionError | string): number | undefined => {
+  if (typeof error !== 'object' || error === null || !('InstructionError' in error)) {
+    return undefined;
+  }
+  const [, instructionError] = (error as { InstructionError: [number, unknown] }).InstructionError;
+  if (typeof instructionError === 'object' && instructionError !== null && 'Custom' in instructionError) {
+    return (instructionError as { Custom: number }).Custom;
+  }
+  return undefined;
+};
+
+/**
+ * Whether an error from a wallet means the user declined the request
+ */
+export const isWalletRejection = (error: unknown): boolean => {
+  if (error instanceof WalletRejectedError) return true;
+  if (typeof error !== 'object' || error === null) return false;
+
+  const { code, message } = error as { code?: unknown; message?: unknown };
+  return code === WALLET_REJECTION_CODE || (typeof message === 'string' && WALLET_REJECTION_PATTERN.test(message));
+};
+
+/**
+ * Map any thrown value onto the typed errors above where it can be classified
+ * @param error Whatever was caught
+ * @returns An AppError subclass, or the original error (wrapped if it wasn't an Error)
+ */
+export const toAppError = (error: unknown): Error => {
+  if (error instanceof AppError) {
+    return error;
+  }
+
+  if (error instanceof AnchorError) {
+    const { errorCode, errorMessage } = error.error;
+    return programErrorFromCode(errorCode.number, errorCode.code, errorMessage);
+  }
+
+  if (isWalletRejection(error)) {
+    return new WalletRejectedError();
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (INSUFFICIENT_FUNDS_PATTERN.test(message)) {
+    return new InsufficientFundsError();
+  }
+
+  if (NETWORK_ERROR_PATTERN.test(message)) {
+    return new NetworkError(message);
+  }
+
+  return error instanceof Error ? error : new Error(message);
+};
+
+/**
+ * Classify a failed simulation or transaction using its error and logs
+ * @returns A ProgramError or InsufficientFundsError when recognised, otherwise a TransactionSimulationError
+ */
+export const errorFromTransaction = (error: TransactionError | string, logs: string[]): Error => {
+  // Prefer Anchor's decoded error (e.g. "Error Code: EscrowExpired") when the logs carry one
+  const anchorError = AnchorError.parse(logs);
+  if (anchorError) {
+    return toAppError(anchorError);
+  }
+
+  if (error === 'InsufficientFundsForRent' || error === 'InsufficientFundsForFee' || error === 'AccountNotFound'
+    || logs.some(log => INSUFFICIENT_FUNDS_PATTERN.test(log))) {
+    return new InsufficientFundsError();
+  }
+
+  const customCode = getCustomErrorCode(error);
+  if (customCode !== undefined && customCode >= 6000) {
+    return programErrorFromCode(customCode, `Custom${customCode}`, `Program error ${customCode}`);
+  }
+
+  return new TransactionSimulationError(error, logs);
+};
+
+/**
+ * Whether a failed send definitely never reached the chain, so its outbox entry can go back to draft
+ */
+export const isUnsentFailure = (error: unknown): boolean => {
+  return error instanceof WalletRejectedError
+    || error instanceof ProgramError
+    || error instanceof InsufficientFundsError
+    || error instanceof InsufficientTokenFundsError
+    || error instanceof TransactionSimulationError
+    || error instanceof TransactionExpiredError;
+};
+
+/**
+ * Title and description for a toast about a failed action
+ * @param error Whatever was caught
+ * @param fallbackTitle Heading to use for errors that couldn't be classified
+ */
+export const describeError = (error: unknown, fallbackTitle = 'Transaction Failed'): { title: string; description: string } => {
+  const appError = toAppError(error);
+
+  if (appError instanceof AppError) {
+    return {
+      title: appError.title,
+      description: `${appError.message}. ${appError.remediation}`,
+    };
+  }
+
+  return {
+    title: fallbackTitle,
+    description: appError.message,
+  };
+};
@@ -0,0 +1,494 @@
+import { BorshAccountsCoder, utils } from '@coral-xyz/anchor';
+import { Connection, GetProgramAccountsFilter, PublicKey } from '@solana/web3.js';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/integrations/supabase/types';
+import type { MessageStatus, OutboxStatus, ReplyStatus } from '@/utils/messageService';
+import { IDL } from '@/idl/pay_to_reply';
+import { getMintDecimals, PaymentToken, SOL_CURRENCY } from '@/utils/tokens';
+
+const accountsCoder = new BorshAccountsCoder(IDL);
+
+// Outbox rows are resolved by resumeOutbox, and replies are never paid for, so neither
+// is reported as a missing escrow. Kept here rather than imported so the CLI doesn't
+// pull in the browser Supabase client.
+const UNPAID_STATUSES: (OutboxStatus | ReplyStatus)[] = ['draft', 'submitting', 'reply'];
+
+// Byte offsets of the fixed-position fields, the same in MessageEscrow and TokenMessageEscrow accounts
+const SENDER_OFFSET = 8;
+const RECIPIENT_OFFSET = 8 + 32;
+
+// Account types holding a message payment, SOL and SPL token
+const ESCROW_ACCOUNTS = ['messageEscrow', 'tokenMessageEscrow'] as const;
+
+// Lamports per SOL, as a power of ten
+const SOL_DECIMALS = 9;
+
+// Legacy escrows were seeded on "msg" and a 4-character message ID (see deriveMessageEscrowPDA)
+const LEGACY_MESSAGE_ID_LENGTH = 4;
+
+// Settled escrows are closed, so the instruction that closed one is the only record of
+// how it was settled. Anchor logs each instruction's name as "Instruction: <Name>".
+const SETTLING_INSTRUCTIONS: Record<string, MessageStatus> = {
+  ApproveMessagePayment: 'approved',
+  ApproveTokenMessagePayment: 'approved',
+  PartiallyApproveMessagePayment: 'approved',
+  PartiallyApproveTokenMessagePayment: 'approved',
+  RejectMessagePayment: 'rejected',
+  RejectTokenMessagePayment: 'rejected',
+  ReclaimExpiredPayment: 'refunded',
+  ReclaimExpiredTokenPayment: 'refunded',
+};
+const INSTRUCTION_LOG_PATTERN = /^Program log: Instruction: (\w+)$/;
+
+// How many recent transactions to search for the one that closed an escrow
+const CLOSED_ESCROW_HISTORY_LIMIT = 10;
+
+// A MessageEscrow or TokenMessageEscrow account decoded from chain
+export interface OnChainEscrow {
+  address: string;
+  sender: string;
+  recipient: string;
+  // Lamports, or base units of the mint
+  amountBaseUnits: number;
+  // In SOL or whole tokens, as stored in messages.amount
+  amount: number;
+  // 'SOL', the configured symbol for the mint, or the mint address if it isn't configured
+  currency: string;
+  // Null for SOL escrows
+  mint: string | null;
+  // 9 for SOL, otherwise the mint's decimals
+  decimals: number;
+  messageId: string;
+  status: MessageStatus;
+  // Unix seconds; 0 means the escrow never expires
+  expiresAt: number;
+}
+
+export type EscrowMismatchKind =
+  | 'orphan_escrow'     // escrow on chain, no messages row
+  | 'missing_escrow'    // pending messages row, escrow never existed on chain
+  | 'status_mismatch'   // both exist but statuses differ
+  | 'amount_mismatch'   // both exist but amounts differ
+  | 'party_mismatch';   // both exist but sender/recipient differ
+
+export interface EscrowMismatch {
+  kind: EscrowMismatchKind;
+  messageId: string;
+  escrowAddress?: string;
+  chainStatus?: MessageStatus;
+  dbStatus?: MessageStatus;
+  detail: string;
+  repaired: boolean;
+}
+
+export interface ReconciliationReport {
+  escrowsScanned: number;
+  rowsScanned: number;
+  mismatches: EscrowMismatch[];
+  repairedCount: number;
+}
+
+export interface ReconcileOptions {
+  connection: Connection;
+  programId: PublicKey;
+  supabase: SupabaseClient<Database>;
+  // Only reconcile escrows and rows where this wallet is the sender or recipient
+  walletAddress?: string;
+  // Write fixable mismatches back to the messages table instead of only reporting them
+  repair?: boolean;
+  // Names for token mints in reports
+  paymentTokens?: PaymentToken[];
+}
+
+interface MessageRow {
+  id: string;
+  message_id: string;
+  amount: number;
+  currency: string;
+  mint: string | null;
+  status: string;
+  escrow_address: string | null;
+  sender: { wallet_address: string | null } | null;
+  recipient: { wallet_address: string | null } | null;
+}
+
+// Anchor decodes enums as { pending: {} }; the keys match MessageStatus values
+const decodeStatus = (status: object): MessageStatus => {
+  return Object.keys(status)[0] as MessageStatus;
+};
+
+/**
+ * Enumerate MessageEscrow and TokenMessageEscrow accounts owned by the program
+ * @param connection Cluster connection
+ * @param programId The pay_to_reply program ID
+ * @param walletAddress Optional wallet to restrict results to (as sender or recipient)
+ * @param paymentTokens Optional symbols for token mints
+ * @returns Decoded escrow accounts
+ */
+export const fetchOnChainEscrows = async (
+  connection: Connection,
+  programId: PublicKey,
+  walletAddress?: string,
+  paymentTokens: PaymentToken[] = []
+): Promise<OnChainEscrow[]> => {
+  const escrows = new Map<string, OnChainEscrow>();
+
+  for (const accountName of ESCROW_ACCOUNTS) {
+    const discriminatorFilter: GetProgramAccountsFilter = {
+      memcmp: {
+        offset: 0,
+        bytes: utils.bytes.bs58.encode(BorshAccountsCoder.accountDiscriminator(accountName)),
+      },
+    };
+
+    // getProgramAccounts filters are ANDed, so sender and recipient need separate queries
+    const filterSets: GetProgramAccountsFilter[][] = walletAddress
+      ? [
+          [discriminatorFilter, { memcmp: { offset: SENDER_OFFSET, bytes: walletAddress } }],
+          [discriminatorFilter, { memcmp: { offset: RECIPIENT_OFFSET, bytes: walletAddress } }],
+        ]
+      : [[discriminatorFilter]];
+
+    for (const filters of filterSets) {
+      const accounts = await connection.getProgramAccounts(programId, { filters });
+
+      for (const { pubkey, account } of accounts) {
+        try {
+          const decoded = accountsCoder.decode(accountName, account.data);
+          const mint: string | null = accountName === 'tokenMessageEscrow' ? decoded.mint.toBase58() : null;
+          const decimals = mint ? await getMintDecimals(connection, new PublicKey(mint)) : SOL_DECIMALS;
+          const amountBaseUnits = Number(decoded.amount.toString());
+
+          escrows.set(pubkey.toBase58(), {
+            address: pubkey.toBase58(),
+            sender: decoded.sender.toBase58(),
+            recipient: decoded.recipient.toBase58(),
+            amountBaseUnits,
+            amount: amountBaseUnits / 10 ** decimals,
+            currency: mint
+              ? paymentTokens.find(token => token.mint === mint)?.symbol || mint
+              : SOL_CURRENCY,
+            mint,
+            decimals,
+            messageId: decoded.messageId,
+            status: decodeStatus(decoded.status),
+            expiresAt: decoded.expiresAt.toNumber(),
+          });
+        } catch (error) {
+          console.error(`Failed to decode escrow account ${pubkey.toBase58()}:`, error);
+        }
+      }
+    }
+  }
+
+  return [...escrows.values()];
+};
+
+/**
+ * The status a transaction settled an escrow with, from its program logs
+ * @returns null if the transaction didn't approve, reject or reclaim an escrow
+ */
+export const getSettledStatusFromLogs = (logs: string[]): MessageStatus | null => {
+  for (const log of logs) {
+    const instruction = log.match(INSTRUCTION_LOG_PATTERN)?.[1];
+    if (instruction && SETTLING_INSTRUCTIONS[instruction]) {
+      return SETTLING_INSTRUCTIONS[instruction];
+    }
+  }
+  return null;
+};
+
+/**
+ * Find the transaction that created an escrow: the oldest successful one touching its address.
+ * Works for closed escrows too, since their history outlives the account.
+ * @returns The signature, or null if the address has no successful transactions
+ */
+export const findEscrowCreationSignature = async (
+  connection: Connection,
+  escrowAddress: PublicKey
+): Promise<string | null> => {
+  const signatures = await connection.getSignaturesForAddress(escrowAddress, { limit: 20 });
+  const successful = signatures.filter(signature => !signature.err);
+  return successful.length > 0 ? successful[successful.length - 1].signature : null;
+};
+
+/**
+ * Work out how a closed escrow was settled from its transaction history
+ * @param connection Cluster connection
+ * @param escrowAddress The escrow PDA
+ * @returns The status it was settled with, or null if no settling transaction was found
+ */
+export const findClosedEscrowStatus = async (
+  connection: Connection,
+  escrowAddress: PublicKey
+): Promise<MessageStatus | null> => {
+  // Newest first, so the closing transaction comes before the one that created the escrow
+  const signatures = await connection.getSignaturesForAddress(escrowAddress, { limit: CLOSED_ESCROW_HISTORY_LIMIT });
+
+  for (const { signature, err } of signatures) {
+    if (err) continue;
+
+    const transaction = await connection.getTransaction(signature, { maxSupportedTransactionVersion: 0 });
+    const status = getSettledStatusFromLogs(transaction?.meta?.logMessages || []);
+    if (status) {
+      return status;
+    }
+  }
+
+  return null;
+};
+
+// The escrow address recorded for a row, or derived from its parties and message ID
+const getRowEscrowAddress = (programId: PublicKey, row: MessageRow): PublicKey | null => {
+  if (row.escrow_address) {
+    return new PublicKey(row.escrow_address);
+  }
+
+  const sender = row.sender?.wallet_address;
+  const recipient = row.recipient?.wallet_address;
+  if (!sender || !recipient) {
+    return null;
+  }
+
+  const seeds = row.message_id.length === LEGACY_MESSAGE_ID_LENGTH
+    ? [Buffer.from('msg'), Buffer.from(row.message_id)]
+    : [Buffer.from('msg'), new PublicKey(sender).toBuffer(), new PublicKey(recipient).toBuffer(), Buffer.from(row.message_id)];
+  return PublicKey.findProgramAddressSync(seeds, programId)[0];
+};
+
+// Write a status found on chain back to a row that is still marked pending. The
+// database logs it with no actor, since no transaction came with it. Message IDs
+// aren't unique across sender/recipient pairs, so the row is matched by its ID and escrow.
+const repairPendingStatus = async (
+  supabase: SupabaseClient<Database>,
+  row: MessageRow,
+  escrowAddress: string,
+  status: MessageStatus
+): Promise<boolean> => {
+  let query = supabase
+    .from('messages')
+    .update({ status, updated_at: new Date().toISOString() })
+    .eq('id', row.id)
+    .eq('status', 'pending');
+
+  // Rows without a recorded escrow had theirs derived from their parties and message ID
+  if (row.escrow_address) {
+    query = query.eq('escrow_address', escrowAddress);
+  }
+
+  const { data: repaired, error } = await query.select('id');
+
+  if (error) {
+    console.error(`Failed to repair status for message ${row.message_id}:`, error);
+    return false;
+  }
+  return !!repaired && repaired.length > 0;
+};
+
+/**
+ * Fetch messages rows, with party wallet addresses, to compare against chain
+ */
+const fetchMessageRows = async (
+  supabase: SupabaseClient<Database>,
+  walletAddress?: string
+): Promise<MessageRow[]> => {
+  let query = supabase
+    .from('messages')
+    .select(`
+      id,
+      message_id,
+      amount,
+      currency,
+      mint,
+      status,
+      escrow_address,
+      sender:profiles!fk_sender_profile(wallet_address),
+      recipient:profiles!fk_recipient_profile(wallet_address)
+    `)
+    .not('status', 'in', `(${UNPAID_STATUSES.join(',')})`);
+
+  if (walletAddress) {
+    const { data: profiles, error: profileError } = await supabase
+      .from('profiles')
+      .select('id')
+      .eq('wallet_address', walletAddress);
+
+    if (profileError) {
+      throw new Error(`Failed to fetch profiles: ${profileError.message}`);
+    }
+
+    if (!profiles || profiles.length === 0) {
+      return [];
+    }
+
+    const conditions = profiles
+      .map(profile => `sender_id.eq.${profile.id},recipient_id.eq.${profile.id}`)
+      .join(',');
+    query = query.or(conditions);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch messages: ${error.message}`);
+  }
+
+  return (data || []) as unknown as MessageRow[];
+};
+
+/**
+ * Compare on-chain MessageEscrow accounts with the messages table.
+ *
+ * Escrows are closed when they are settled, so a settled row with no escrow is
+ * expected. A pending row with no escrow is checked against the escrow's history.
+ * The only mismatch repaired automatically is a row still marked pending whose
+ * escrow has already been settled on chain; everything else is reported.
+ */
+export const reconcileMessageEscrows = async ({
+  connection,
+  programId,
+  supabase,
+  walletAddress,
+  repair = false,
+  paymentTokens = [],
+}: ReconcileOptions): Promise<ReconciliationReport> => {
+  console.log(`Reconciling message escrows${walletAddress ? ` for wallet ${walletAddress}` : ''} (repair: ${repair})`);
+
+  const [escrows, rows] = await Promise.all([
+    fetchOnChainEscrows(connection, programId, walletAddress, paymentTokens),
+    fetchMessageRows(supabase, walletAddress),
+  ]);
+
+  console.log(`Found ${escrows.length} escrow accounts and ${rows.length} message rows`);
+
+  // Message IDs repeat across sender/recipient pairs and legacy escrows, so rows are
+  // matched to escrows by address
+  const rowEscrowAddresses = new Map(rows.map(row => [row, getRowEscrowAddress(programId, row)?.toBase58() ?? null]));
+  const rowsByEscrowAddress = new Map<string, MessageRow>();
+  for (const [row, address] of rowEscrowAddresses) {
+    if (address) {
+      rowsByEscrowAddress.set(address, row);
+    }
+  }
+  const seenEscrowAddresses = new Set<string>();
+  const mismatches: EscrowMismatch[] = [];
+
+  for (const escrow of escrows) {
+    seenEscrowAddresses.add(escrow.address);
+    const row = rowsByEscrowAddress.get(escrow.address);
+
+    if (!row) {
+      mismatches.push({
+        kind: 'orphan_escrow',
+        messageId: escrow.messageId,
+        escrowAddress: escrow.address,
+        chainStatus: escrow.status,
+        detail: `Escrow of ${escrow.amount} ${escrow.currency} from ${escrow.sender} to ${escrow.recipient} has no message in the database`,
+        repaired: false,
+      });
+      continue;
+    }
+
+    const rowSender = row.sender?.wallet_address;
+    const rowRecipient = row.recipient?.wallet_address;
+    if (rowSender !== escrow.sender || rowRecipient !== escrow.recipient) {
+      mismatches.push({
+        kind: 'party_mismatch',
+        messageId: escrow.messageId,
+        escrowAddress: escrow.address,
+        detail: `Chain has ${escrow.sender} → ${escrow.recipient}, database has ${rowSender || 'unknown'} → ${rowRecipient || 'unknown'}`,
+        repaired: false,
+      });
+      continue;
+    }
+
+    if ((row.mint || null) !== escrow.mint) {
+      mismatches.push({
+        kind: 'amount_mismatch',
+        messageId: escrow.messageId,
+        escrowAddress: escrow.address,
+        detail: `Chain holds ${escrow.currency}, database records ${row.currency || SOL_CURRENCY}${row.mint ? ` (${row.mint})` : ''}`,
+        repaired: false,
+      });
+    } else if (Math.round(Number(row.amount) * 10 ** escrow.decimals) !== escrow.amountBaseUnits) {
+      mismatches.push({
+        kind: 'amount_mismatch',
+        messageId: escrow.messageId,
+        escrowAddress: escrow.address,
+        detail: `Chain holds ${escrow.amount} ${escrow.currency}, database records ${Number(row.amount)}`,
+        repaired: false,
+      });
+    }
+
+    const dbStatus = row.status as MessageStatus;
+    if (dbStatus !== escrow.status) {
+      const mismatch: EscrowMismatch = {
+        kind: 'status_mismatch',
+        messageId: escrow.messageId,
+        escrowAddress: escrow.address,
+        chainStatus: escrow.status,
+        dbStatus,
+        detail: `Chain status is ${escrow.status}, database status is ${dbStatus}`,
+        repaired: false,
+      };
+
+      // Chain is the source of truth once an escrow is settled
+      if (repair && dbStatus === 'pending') {
+        mismatch.repaired = await repairPendingStatus(supabase, row, escrow.address, escrow.status);
+      }
+
+      mismatches.push(mismatch);
+    }
+  }
+
+  for (const row of rows) {
+    const dbStatus = row.status as MessageStatus;
+
+    const escrowAddress = rowEscrowAddresses.get(row) ?? null;
+
+    // Settled escrows are closed, so only pending rows need an open escrow
+    if ((escrowAddress && seenEscrowAddresses.has(escrowAddress)) || dbStatus !== 'pending') {
+      continue;
+    }
+
+    const closedStatus = escrowAddress ? await findClosedEscrowStatus(connection, new PublicKey(escrowAddress)) : null;
+
+    if (!escrowAddress || !closedStatus) {
+      mismatches.push({
+        kind: 'missing_escrow',
+        messageId: row.message_id,
+        escrowAddress: escrowAddress ?? undefined,
+        dbStatus,
+        detail: 'Message is pending in the database but its escrow was never found on chain',
+        repaired: false,
+      });
+      continue;
+    }
+
+    const mismatch: EscrowMismatch = {
+      kind: 'status_mismatch',
+      messageId: row.message_id,
+      escrowAddress,
+      chainStatus: closedStatus,
+      dbStatus,
+      detail: `Escrow was settled as ${closedStatus} and closed on chain, database status is ${dbStatus}`,
+      repaired: false,
+    };
+
+    if (repair) {
+      mismatch.repaired = await repairPendingStatus(supabase, row, escrowAddress, closedStatus);
+    }
+
+    mismatches.push(mismatch);
+  }
+
+  const repairedCount = mismatches.filter(mismatch => mismatch.repaired).length;
+  console.log(`Reconciliation complete: ${mismatches.length} mismatches, ${repairedCount} repaired`);
+
+  return {
+    escrowsScanned: escrows.length,
+    rowsScanned: rows.length,
+    mismatches,
+    repairedCount,
+  };
+};
@@ -0,0 +1,125 @@
+import { Commitment, Connection, Logs, PublicKey } from '@solana/web3.js';
+import { getSettledStatusFromLogs } from '@/utils/escrowReconciler';
+import type { MessageData, MessageStatus } from '@/utils/messageService';
+
+// Live escrow updates over the RPC websocket. Each pending escrow gets a logs
+// subscription filtered to its address, so approvals, rejections and reclaims
+// arrive as they confirm; the escrow is closed at that point, so its logs are the
+// only place the outcome shows up. One more subscription on the program ID picks
+// up newly created escrows.
+
+// An escrow was settled on chain
+export interface EscrowStatusChange {
+  messageId: string;
+  escrowAddress: string;
+  status: MessageStatus;
+  signature: string;
+}
+
+// An escrow was created on chain
+export interface EscrowCreated {
+  messageId: string;
+  senderWalletAddress: string;
+  recipientWalletAddress: string;
+  signature: string;
+}
+
+// An escrow to watch until it settles
+export interface WatchedEscrow {
+  messageId: string;
+  escrowAddress: string;
+}
+
+export interface EscrowSubscriptionHandlers {
+  onStatusChange: (change: EscrowStatusChange) => void;
+  onEscrowCreated?: (created: EscrowCreated) => void;
+}
+
+// Logged by create_message_payment and create_token_message_payment, e.g.
+// "Message payment escrow created: 1000 lamports from <sender> to <recipient> for message <id>"
+const ESCROW_CREATED_PATTERN = /escrow created: .* from (\w+) to (\w+) for message (\w+)$/;
+
+/**
+ * Parse an escrow creation from a transaction's program logs
+ */
+const getEscrowCreatedFromLogs = ({ logs, signature }: Logs): EscrowCreated | null => {
+  for (const log of logs) {
+    const match = log.match(ESCROW_CREATED_PATTERN);
+    if (match) {
+      return {
+        senderWalletAddress: match[1],
+        recipientWalletAddress: match[2],
+        messageId: match[3],
+        signature,
+      };
+    }
+  }
+  return null;
+};
+
+/**
+ * Subscribe to status changes of escrows, and optionally to new escrows
+ * @param connection Cluster connection; its websocket reconnects and resubscribes by itself
+ * @param programId The pay_to_reply program on this cluster
+ * @param escrows Pending escrows to watch
+ * @param handlers Called as transactions confirm
+ * @param commitment Commitment to be notified at
+ * @returns Unsubscribes everything
+ */
+export const subscribeToEscrows = (
+  connection: Connection,
+  programId: PublicKey,
+  escrows: WatchedEscrow[],
+  handlers: EscrowSubscriptionHandlers,
+  commitment?: Commitment
+): (() => void) => {
+  const subscriptionIds: number[] = [];
+
+  for (const { messageId, escrowAddress } of escrows) {
+    const id = connection.onLogs(new PublicKey(escrowAddress), ({ err, logs, signature }) => {
+      if (err) return;
+
+      const status = getSettledStatusFromLogs(logs);
+      if (status) {
+        console.log(`Escrow ${escrowAddress} for message ${messageId} was ${status} in ${signature}`);
+        handlers.onStatusChange({ messageId, escrowAddress, status, signature });
+      }
+    }, commitment);
+    subscriptionIds.push(id);
+  }
+
+  if (handlers.onEscrowCreated) {
+    const { onEscrowCreated } = handlers;
+    const id = connection.onLogs(programId, (logs) => {
+      if (logs.err) return;
+
+      const created = getEscrowCreatedFromLogs(logs);
+      if (created) {
+        onEscrowCreated(created);
+      }
+    }, commitment);
+    subscriptionIds.push(id);
+  }
+
+  console.log(`Subscribed to ${escrows.length} escrows${handlers.onEscrowCreated ? ' and new escrows' : ''}`);
+
+  return () => {
+    for (const id of subscriptionIds) {
+      connection.removeOnLogsListener(id).catch(error => {
+        console.warn('Failed to remove escrow logs listener:', error);
+      });
+    }
+  };
+};
+
+/**
+ * Apply a status change to a message list, returning the same list if no message matched
+ */
+export const applyEscrowStatusChange = (messages: MessageData[], change: EscrowStatusChange): MessageData[] => {
+  if (!messages.some(message => message.message_id === change.messageId)) {
+    return messages;
+  }
+  return messages.map(message =>
+    message.message_id === change.messageId ? { ...message, status: change.status } : message
+  );
+};
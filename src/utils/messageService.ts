@@ -1,23 +1,277 @@
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { SOL_CURRENCY } from "@/utils/tokens";
+import { findProfileIdByWallet, provisionWalletProfile } from "@/utils/profileService";
+import type { MessageAttachment } from "@/utils/attachmentService";
+import { decryptMessages, encryptContent, EncryptedContent, EncryptionState } from "@/utils/encryptionService";
 
-export type MessageStatus = 'pending' | 'approved' | 'rejected';
+// 'expired' is a pending message past its deadline that the sender hasn't reclaimed yet;
+// 'refunded' means they have. 'donated' is an approved payment the recipient gave away.
+export type MessageStatus = 'pending' | 'approved' | 'rejected' | 'expired' | 'refunded' | 'donated';
+
+// Rows written before their escrow transaction confirmed; see outboxService.ts
+export type OutboxStatus = 'draft' | 'submitting';
+export const OUTBOX_STATUSES: OutboxStatus[] = ['draft', 'submitting'];
+
+// Unpaid replies and follow-ups in a conversation; see threadService.ts
+export type ReplyStatus = 'reply';
+export const REPLY_STATUS: ReplyStatus = 'reply';
+
+// PostgREST list for keeping outbox rows and replies out of inbox queries and stats
+export const NON_INBOX_STATUS_FILTER = `(${[...OUTBOX_STATUSES, REPLY_STATUS].join(',')})`;
+
+// Allowed status changes for a paid message, from the outbox through settlement.
+// Mirrored by message_status_transition_allowed in the database; settled statuses are final.
+export const MESSAGE_TRANSITIONS: Record<MessageStatus | OutboxStatus, (MessageStatus | OutboxStatus)[]> = {
+  draft: ['submitting'],
+  submitting: ['pending', 'draft'],
+  pending: ['approved', 'rejected', 'expired', 'refunded'],
+  // The recipient can still reject until the sender reclaims
+  expired: ['refunded', 'rejected'],
+  approved: ['donated'],
+  rejected: [],
+  refunded: [],
+  donated: [],
+};
+
+/**
+ * Whether a message can move from one status to another. Staying put is allowed, so
+ * repeating an update is harmless.
+ */
+export const canTransition = (from: string, to: MessageStatus | OutboxStatus): boolean => {
+  return from === to || (MESSAGE_TRANSITIONS[from as MessageStatus | OutboxStatus] ?? []).includes(to);
+};
+
+// Statuses that count as the recipient having been paid
+const PAID_OUT_STATUSES: string[] = ['approved', 'donated'];
+
+// Deadlines a sender can choose; after it passes they can reclaim the payment
+export const EXPIRY_OPTIONS = [
+  { value: '1', label: '1 day' },
+  { value: '3', label: '3 days' },
+  { value: '7', label: '7 days' },
+  { value: '30', label: '30 days' },
+  { value: 'never', label: 'Never' },
+];
+
+export const DEFAULT_EXPIRY_OPTION = '7';
+
+// Payment amount slider range: up to 1 SOL, or up to 100 of a token such as USDC
+export const getPaymentAmountRange = (currency: string): { max: number; step: number } => {
+  return currency === SOL_CURRENCY ? { max: 1, step: 0.001 } : { max: 100, step: 0.01 };
+};
+
+/**
+ * Convert an expiry option value to a deadline
+ * @param option A value from EXPIRY_OPTIONS
+ * @param from When the refund window starts; now unless the message is scheduled
+ * @returns The deadline, or null if the escrow never expires
+ */
+export const getExpiryDate = (option: string, from: Date = new Date()): Date | null => {
+  const days = parseInt(option, 10);
+  if (isNaN(days)) {
+    return null;
+  }
+  return new Date(from.getTime() + days * 24 * 60 * 60 * 1000);
+};
+
+/**
+ * Whether a pending message has passed its deadline
+ */
+export const isMessageExpired = (message: Pick<MessageData, 'status' | 'expires_at'>): boolean => {
+  if (message.status === 'expired') {
+    return true;
+  }
+  // A settled message's deadline no longer matters
+  if (message.status !== 'pending') {
+    return false;
+  }
+  return !!message.expires_at && new Date(message.expires_at).getTime() <= Date.now();
+};
+
+/**
+ * Whether a message requires an answer the recipient hasn't given yet, which has to
+ * come before it can be approved
+ */
+export const isAwaitingAnswer = (message: Pick<MessageData, 'requires_reply' | 'answer'>): boolean => {
+  return !!message.requires_reply && !message.answer;
+};
+
+/**
+ * Find which of these messages require an answer that hasn't been linked yet
+ * @param messageIds On-chain message IDs
+ * @returns The IDs that can't be approved until they are answered
+ * @throws If the messages can't be fetched
+ */
+export const fetchMessagesAwaitingAnswer = async (messageIds: string[]): Promise<Set<string>> => {
+  if (messageIds.length === 0) {
+    return new Set();
+  }
+
+  const { data, error } = await supabase
+    .from('messages')
+    .select('message_id, requires_reply, answer_message_id')
+    .in('message_id', messageIds);
+
+  if (error) {
+    throw new Error(`Failed to check for answers: ${error.message}`);
+  }
+
+  return new Set((data || [])
+    .filter(row => row.requires_reply && !row.answer_message_id)
+    .map(row => row.message_id));
+};
+
+/**
+ * Whether a received message can be approved or rejected in a batch from the inbox.
+ * Messages awaiting an answer are approved one at a time, with the answer.
+ */
+export const canSettleInBatch = (message: Pick<MessageData, 'status' | 'requires_reply' | 'answer'>): boolean => {
+  return message.status === 'pending' && !isAwaitingAnswer(message);
+};
+
+export interface MessageAnswer {
+  id: string;
+  content: string;
+  created_at: string;
+}
 
 export interface MessageData {
   id: string;
   sender_id: string;
   recipient_id: string;
   amount: number;
+  // 'SOL' or the symbol of the SPL token the message was paid in
+  currency: string;
+  // Token mint address; null for SOL
+  mint?: string | null;
+  // Recipient's share of a partially approved payment; null when approved in full
+  approved_amount?: number | null;
   created_at: string;
   message_id: string;
+  // Empty while an encrypted message is locked
   content: string;
-  status: MessageStatus;
+  // Set for end-to-end encrypted messages, with the ciphertext kept for decrypting later
+  encryption?: EncryptionState;
+  encrypted_content?: EncryptedContent | null;
+  // Salt of the content hash committed on chain; read from the ciphertext once an
+  // encrypted message is decrypted, and null for messages committed without one
+  content_salt?: string | null;
+  // Replies only ever have REPLY_STATUS
+  status: MessageStatus | ReplyStatus;
+  // For a reply, the id of the paid message that started the conversation
+  parent_message_id?: string | null;
+  // The sender asked for a reply before the payment can be approved
+  requires_reply?: boolean;
+  // The recipient's reply that answered a message requiring one
+  answer?: MessageAnswer | null;
+  // Files sent with the message; only its sender and recipient can see them
+  attachments?: MessageAttachment[];
   transaction_signature?: string;
+  expires_at?: string | null;
+  // Escrow PDA; its history holds the transaction that committed the content hash
+  escrow_address?: string | null;
   senderUsername?: string;
   senderDisplayName?: string;
   senderAvatarUrl?: string;
   recipientUsername?: string;
 }
 
+/**
+ * The amount a recipient received for an approved message: their share of a
+ * partial approval, otherwise the full payment
+ */
+export const getRecipientAmount = (message: Pick<MessageData, 'amount' | 'approved_amount'>): number => {
+  // Numeric columns can come back from PostgREST as strings
+  if (message.approved_amount === null || message.approved_amount === undefined) {
+    return Number(message.amount) || 0;
+  }
+  return Number(message.approved_amount) || 0;
+};
+
+// Columns for inbox and conversation queries, with both parties' profiles embedded
+export const MESSAGE_COLUMNS = `
+  id, 
+  sender_id, 
+  recipient_id, 
+  amount, 
+  approved_amount,
+  currency,
+  mint,
+  created_at, 
+  message_id, 
+  content, 
+  content_salt,
+  encrypted_content,
+  status, 
+  transaction_signature,
+  expires_at,
+  escrow_address,
+  parent_message_id,
+  requires_reply,
+  answer:messages!answer_message_id(id, content, created_at),
+  attachments:message_attachments!message_attachments_message_id_fkey(id, file_name, content_type, size_bytes, storage_path),
+  sender:profiles!fk_sender_profile(id, username, avatar_url),
+  recipient:profiles!fk_recipient_profile(id, username, avatar_url)
+`;
+
+export interface MessageRow {
+  id: string;
+  sender_id: string;
+  recipient_id: string;
+  amount: number | string;
+  approved_amount: number | null;
+  currency: string | null;
+  mint: string | null;
+  created_at: string;
+  message_id: string;
+  content: string;
+  content_salt: string | null;
+  encrypted_content: Json | null;
+  status: string;
+  transaction_signature: string | null;
+  expires_at: string | null;
+  escrow_address: string | null;
+  parent_message_id: string | null;
+  requires_reply: boolean | null;
+  answer: MessageAnswer | null;
+  attachments: MessageAttachment[] | null;
+  sender: { username: string | null; avatar_url: string | null } | null;
+  recipient: { username: string | null } | null;
+}
+
+// Map a row selected with MESSAGE_COLUMNS to the shape the UI uses
+export const formatMessage = (msg: MessageRow): MessageData => {
+  return {
+    id: msg.id,
+    sender_id: msg.sender_id,
+    recipient_id: msg.recipient_id,
+    amount: typeof msg.amount === 'string' ? parseFloat(msg.amount) : msg.amount,
+    currency: msg.currency || SOL_CURRENCY,
+    mint: msg.mint,
+    approved_amount: msg.approved_amount,
+    created_at: msg.created_at,
+    message_id: msg.message_id,
+    content: msg.content,
+    content_salt: msg.content_salt,
+    // Locked until decryptMessages reads it
+    encryption: msg.encrypted_content ? 'locked' : undefined,
+    encrypted_content: msg.encrypted_content as EncryptedContent | null,
+    status: msg.status as MessageStatus | ReplyStatus,
+    transaction_signature: msg.transaction_signature,
+    expires_at: msg.expires_at,
+    escrow_address: msg.escrow_address,
+    parent_message_id: msg.parent_message_id,
+    requires_reply: !!msg.requires_reply,
+    answer: msg.answer,
+    attachments: msg.attachments || [],
+    senderUsername: msg.sender?.username || 'Unknown User',
+    senderDisplayName: msg.sender?.username || 'Unknown User',
+    senderAvatarUrl: msg.sender?.avatar_url || '',
+    recipientUsername: msg.recipient?.username || 'Unknown User',
+  };
+};
+
 /**
  * Fetch messages for a user based on wallet address
  * @param walletAddress The user's wallet address
@@ -36,72 +290,30 @@ export const fetchMessages = async (
   try {
     console.log(`Fetching ${type} messages for wallet: ${walletAddress}`);
     
-    // Get the profile associated with this wallet address
-    const { data: profileData, error: profileError } = await supabase
-      .from('profiles')
-      .select('id, username, avatar_url')
-      .eq('wallet_address', walletAddress);
-    
-    if (profileError) {
-      console.error('Error fetching profile:', profileError);
-      return [];
-    }
-    
-    if (!profileData || profileData.length === 0) {
+    // Reads never create profiles; a wallet without one has no messages yet
+    const profileId = await findProfileIdByWallet(walletAddress);
+    if (!profileId) {
       console.log('No profile found for wallet address:', walletAddress);
-      console.log('Creating a new profile...');
-      
-      // Generate a UUID for the new profile
-      const newProfileId = crypto.randomUUID();
-      
-      const { data: newProfile, error: createError } = await supabase
-        .from('profiles')
-        .insert({
-          id: newProfileId,
-          wallet_address: walletAddress,
-          username: `user_${walletAddress.substring(0, 8)}`
-        })
-        .select();
-      
-      if (createError) {
-        console.error('Error creating profile:', createError);
-        return [];
-      }
-      
-      console.log('Created new profile:', newProfile);
-      return []; // Return empty array as there are no messages yet for a new profile
+      return [];
     }
     
-    // Use the first profile found (should normally be only one)
-    const profile = profileData[0];
-    console.log('Found profile:', profile);
-    
     // Build the query based on the type
     let query = supabase
       .from('messages')
-      .select(`
-        id, 
-        sender_id, 
-        recipient_id, 
-        amount, 
-        created_at, 
-        message_id, 
-        content, 
-        status, 
-        transaction_signature,
-        sender:profiles!fk_sender_profile(id, username, avatar_url),
-        recipient:profiles!fk_recipient_profile(id, username, avatar_url)
-      `);
+      .select(MESSAGE_COLUMNS);
     
     if (type === 'received') {
-      query = query.eq('recipient_id', profile.id);
+      query = query.eq('recipient_id', profileId);
     } else if (type === 'sent') {
-      query = query.eq('sender_id', profile.id);
+      query = query.eq('sender_id', profileId);
     } else {
       // For 'all', fetch both sent and received
-      query = query.or(`sender_id.eq.${profile.id},recipient_id.eq.${profile.id}`);
+      query = query.or(`sender_id.eq.${profileId},recipient_id.eq.${profileId}`);
     }
     
+    // Messages still in the outbox haven't been paid for yet, and replies belong to a thread
+    query = query.not('status', 'in', NON_INBOX_STATUS_FILTER);
+    
     // Add sorting by created_at (newest first)
     query = query.order('created_at', { ascending: false });
     
@@ -114,24 +326,8 @@ export const fetchMessages = async (
     
     console.log(`Found ${messages?.length || 0} messages:`, messages);
     
-    // Format the messages
-    const formattedMessages: MessageData[] = messages?.map(msg => {
-      return {
-        id: msg.id,
-        sender_id: msg.sender_id,
-        recipient_id: msg.recipient_id,
-        amount: typeof msg.amount === 'string' ? parseFloat(msg.amount) : msg.amount,
-        created_at: msg.created_at,
-        message_id: msg.message_id,
-        content: msg.content,
-        status: msg.status as MessageStatus,
-        transaction_signature: msg.transaction_signature,
-        senderUsername: msg.sender?.username || 'Unknown User',
-        senderDisplayName: msg.sender?.username || 'Unknown User',
-        senderAvatarUrl: msg.sender?.avatar_url || '',
-        recipientUsername: msg.recipient?.username || 'Unknown User',
-      };
-    }) || [];
+    // Format the messages, decrypting any the user has unlocked keys for
+    const formattedMessages: MessageData[] = await decryptMessages(messages?.map(formatMessage) || []);
     
     console.log('Formatted messages:', formattedMessages);
     return formattedMessages;
@@ -141,6 +337,173 @@ export const fetchMessages = async (
   }
 };
 
+export type MessageSort = 'newest' | 'oldest' | 'highest' | 'lowest';
+
+export const MESSAGE_PAGE_SIZE = 20;
+
+const SORT_COLUMNS: Record<MessageSort, { column: 'created_at' | 'amount'; ascending: boolean }> = {
+  newest: { column: 'created_at', ascending: false },
+  oldest: { column: 'created_at', ascending: true },
+  highest: { column: 'amount', ascending: false },
+  lowest: { column: 'amount', ascending: true },
+};
+
+export interface MessagePageQuery {
+  type: 'received' | 'sent';
+  // 'expired' also matches pending messages past their deadline, and 'pending' excludes them
+  status?: MessageStatus | 'all';
+  sort?: MessageSort;
+  // Matched against the content and the other party's username
+  search?: string;
+  // nextCursor of the previous page
+  cursor?: string | null;
+  limit?: number;
+}
+
+export interface MessagePage {
+  messages: MessageData[];
+  // null on the last page
+  nextCursor: string | null;
+}
+
+// Position after the last row of a page: its sort value, with the ID breaking ties
+interface MessageCursor {
+  value: string | number;
+  id: string;
+}
+
+const encodeCursor = (cursor: MessageCursor): string => {
+  return btoa(JSON.stringify(cursor));
+};
+
+const decodeCursor = (cursor: string): MessageCursor => {
+  try {
+    return JSON.parse(atob(cursor)) as MessageCursor;
+  } catch {
+    throw new Error('Invalid message cursor');
+  }
+};
+
+// Quote a value for a PostgREST or() filter, where commas, dots and colons are syntax
+const quoteFilterValue = (value: string | number): string => {
+  return `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+};
+
+// Escape LIKE wildcards so a search matches them literally
+const escapeLikePattern = (value: string): string => {
+  return value.replace(/[\\%_]/g, char => `\\${char}`);
+};
+
+/**
+ * Fetch one page of a user's sent or received messages, filtered, searched and
+ * sorted in the database
+ * @param walletAddress The user's wallet address
+ * @param query Which messages, in what order, and where to continue from
+ * @returns The page, and a cursor for the next one
+ */
+export const fetchMessagePage = async (
+  walletAddress: string | null,
+  {
+    type,
+    status = 'all',
+    sort = 'newest',
+    search = '',
+    cursor = null,
+    limit = MESSAGE_PAGE_SIZE,
+  }: MessagePageQuery
+): Promise<MessagePage> => {
+  if (!walletAddress) {
+    return { messages: [], nextCursor: null };
+  }
+
+  console.log(`Fetching ${type} messages for wallet ${walletAddress}:`, { status, sort, search, cursor, limit });
+
+  // No profile yet means no messages yet
+  const profileId = await findProfileIdByWallet(walletAddress);
+  if (!profileId) {
+    return { messages: [], nextCursor: null };
+  }
+
+  const counterpartColumn = type === 'received' ? 'sender_id' : 'recipient_id';
+  const { column: sortColumn, ascending } = SORT_COLUMNS[sort];
+  const now = quoteFilterValue(new Date().toISOString());
+
+  // Conditions that each need an or(); they are combined into a single and() below
+  const orGroups: string[] = [];
+
+  let query = supabase
+    .from('messages')
+    .select(MESSAGE_COLUMNS)
+    .eq(type === 'received' ? 'recipient_id' : 'sender_id', profileId)
+    .not('status', 'in', NON_INBOX_STATUS_FILTER);
+
+  // Pending messages past their deadline count as expired until reclaimed
+  if (status === 'expired') {
+    orGroups.push(`or(status.eq.expired,and(status.eq.pending,expires_at.lte.${now}))`);
+  } else if (status === 'pending') {
+    query = query.eq('status', 'pending');
+    orGroups.push(`or(expires_at.is.null,expires_at.gt.${now})`);
+  } else if (status !== 'all') {
+    query = query.eq('status', status);
+  }
+
+  const searchText = search.trim();
+  if (searchText) {
+    const pattern = `%${escapeLikePattern(searchText)}%`;
+
+    // Only the people this profile has messages with, however common the name
+    const { data: matchingProfiles, error: searchError } = await supabase.rpc('search_message_counterparts', {
+      p_profile_id: profileId,
+      p_received: type === 'received',
+      p_pattern: pattern,
+    });
+
+    if (searchError) {
+      throw new Error(`Failed to search profiles: ${searchError.message}`);
+    }
+
+    // Encrypted messages have no stored content to match, only the username
+    const conditions = [`content.ilike.${quoteFilterValue(pattern)}`];
+    if (matchingProfiles && matchingProfiles.length > 0) {
+      conditions.push(`${counterpartColumn}.in.(${matchingProfiles.map(profile => profile.id).join(',')})`);
+    }
+    orGroups.push(`or(${conditions.join(',')})`);
+  }
+
+  // Keyset pagination: rows strictly after the cursor in (sort column, id) order
+  if (cursor) {
+    const { value, id } = decodeCursor(cursor);
+    const operator = ascending ? 'gt' : 'lt';
+    orGroups.push(
+      `or(${sortColumn}.${operator}.${quoteFilterValue(value)},and(${sortColumn}.eq.${quoteFilterValue(value)},id.${operator}.${quoteFilterValue(id)}))`
+    );
+  }
+
+  if (orGroups.length > 0) {
+    query = query.or(`and(${orGroups.join(',')})`);
+  }
+
+  // One extra row tells us whether there is another page
+  const { data: rows, error } = await query
+    .order(sortColumn, { ascending })
+    .order('id', { ascending })
+    .limit(limit + 1);
+
+  if (error) {
+    throw new Error(`Failed to fetch messages: ${error.message}`);
+  }
+
+  const pageRows = (rows || []).slice(0, limit);
+  const lastRow = pageRows[pageRows.length - 1];
+  const nextCursor = rows && rows.length > limit && lastRow
+    ? encodeCursor({ value: lastRow[sortColumn], id: lastRow.id })
+    : null;
+
+  console.log(`Fetched ${pageRows.length} ${type} messages${nextCursor ? ', more available' : ''}`);
+
+  return { messages: await decryptMessages(pageRows.map(formatMessage)), nextCursor };
+};
+
 /**
  * Get message statistics for a user
  */
@@ -153,7 +516,8 @@ export const getMessageStats = async (walletAddress: string | null) => {
       pendingSent: 0,
       approvedSent: 0,
       totalSent: 0,
-      totalEarnings: 0
+      totalEarnings: 0,
+      earningsByCurrency: {}
     };
   }
 
@@ -176,7 +540,8 @@ export const getMessageStats = async (walletAddress: string | null) => {
         pendingSent: 0,
         approvedSent: 0,
         totalSent: 0,
-        totalEarnings: 0
+        totalEarnings: 0,
+        earningsByCurrency: {}
       };
     }
 
@@ -186,8 +551,9 @@ export const getMessageStats = async (walletAddress: string | null) => {
     // Fetch received messages
     const { data: receivedMessages, error: receivedError } = await supabase
       .from('messages')
-      .select('status, amount')
-      .eq('recipient_id', userId);
+      .select('status, amount, approved_amount, currency')
+      .eq('recipient_id', userId)
+      .not('status', 'in', NON_INBOX_STATUS_FILTER);
 
     if (receivedError) {
       console.error('Error fetching received messages:', receivedError);
@@ -198,7 +564,8 @@ export const getMessageStats = async (walletAddress: string | null) => {
         pendingSent: 0,
         approvedSent: 0,
         totalSent: 0,
-        totalEarnings: 0
+        totalEarnings: 0,
+        earningsByCurrency: {}
       };
     }
 
@@ -206,7 +573,8 @@ export const getMessageStats = async (walletAddress: string | null) => {
     const { data: sentMessages, error: sentError } = await supabase
       .from('messages')
       .select('status, amount')
-      .eq('sender_id', userId);
+      .eq('sender_id', userId)
+      .not('status', 'in', NON_INBOX_STATUS_FILTER);
 
     if (sentError) {
       console.error('Error fetching sent messages:', sentError);
@@ -217,7 +585,8 @@ export const getMessageStats = async (walletAddress: string | null) => {
         pendingSent: 0,
         approvedSent: 0,
         totalSent: 0,
-        totalEarnings: 0
+        totalEarnings: 0,
+        earningsByCurrency: {}
       };
     }
 
@@ -225,16 +594,24 @@ export const getMessageStats = async (walletAddress: string | null) => {
 
     // Calculate stats
     const pendingReceived = receivedMessages.filter(msg => msg.status === 'pending').length;
-    const approvedReceived = receivedMessages.filter(msg => msg.status === 'approved').length;
+    const approvedReceived = receivedMessages.filter(msg => PAID_OUT_STATUSES.includes(msg.status)).length;
     const totalReceived = receivedMessages.length;
     
     const pendingSent = sentMessages.filter(msg => msg.status === 'pending').length;
-    const approvedSent = sentMessages.filter(msg => msg.status === 'approved').length;
+    const approvedSent = sentMessages.filter(msg => PAID_OUT_STATUSES.includes(msg.status)).length;
     const totalSent = sentMessages.length;
     
-    const totalEarnings = receivedMessages
-      .filter(msg => msg.status === 'approved')
-      .reduce((sum, msg) => sum + (parseFloat(msg.amount as any) || 0), 0);
+    // Amounts in different currencies can't be added up, so earnings are kept per currency.
+    // Partially approved messages only count the recipient's share, and donated payments
+    // were still earned.
+    const earningsByCurrency: Record<string, number> = {};
+    receivedMessages
+      .filter(msg => PAID_OUT_STATUSES.includes(msg.status))
+      .forEach(msg => {
+        const currency = msg.currency || SOL_CURRENCY;
+        earningsByCurrency[currency] = (earningsByCurrency[currency] || 0) + getRecipientAmount(msg);
+      });
+    const totalEarnings = earningsByCurrency[SOL_CURRENCY] || 0;
 
     return {
       pendingReceived,
@@ -243,7 +620,8 @@ export const getMessageStats = async (walletAddress: string | null) => {
       pendingSent,
       approvedSent,
       totalSent,
-      totalEarnings
+      totalEarnings,
+      earningsByCurrency
     };
   } catch (error) {
     console.error('Error calculating message stats:', error);
@@ -254,11 +632,51 @@ export const getMessageStats = async (walletAddress: string | null) => {
       pendingSent: 0,
       approvedSent: 0,
       totalSent: 0,
-      totalEarnings: 0
+      totalEarnings: 0,
+      earningsByCurrency: {}
     };
   }
 };
 
+/**
+ * Work out how a message's content is stored: encrypted if the recipient has turned
+ * encryption on, with a copy for the sender if they have too, otherwise as plaintext
+ * @param senderId Profile id of the sender
+ * @param recipientId Profile id of the recipient
+ * @param contentSalt Salt of the content's on-chain commitment; encrypted with the
+ * content when it is encrypted, so it is never stored in the clear next to ciphertext
+ * @throws If the encryption keys can't be looked up
+ */
+export const prepareMessageContent = async (
+  senderId: string,
+  recipientId: string,
+  content: string,
+  contentSalt: string | null = null
+): Promise<{ content: string; content_salt: string | null; encrypted_content: EncryptedContent | null }> => {
+  const { data: keyProfiles, error: keyError } = await supabase
+    .from('profiles')
+    .select('id, encryption_public_key')
+    .in('id', [senderId, recipientId]);
+
+  if (keyError) {
+    throw new Error(`Failed to look up encryption keys: ${keyError.message}`);
+  }
+
+  const recipientKey = keyProfiles?.find(profile => profile.id === recipientId)?.encryption_public_key;
+  const senderKey = keyProfiles?.find(profile => profile.id === senderId)?.encryption_public_key;
+  const encryptedContent = recipientKey
+    ? await encryptContent(content, senderKey ? [recipientKey, senderKey] : [recipientKey], contentSalt)
+    : null;
+
+  if (encryptedContent) {
+    console.log(`Encrypted message content for ${encryptedContent.copies.length} reader(s)`);
+  }
+
+  return encryptedContent
+    ? { content: '', content_salt: null, encrypted_content: encryptedContent }
+    : { content, content_salt: contentSalt, encrypted_content: null };
+};
+
 /**
  * Save a message to the database
  */
@@ -268,7 +686,15 @@ export const saveMessage = async (
   messageId: string,
   content: string,
   amount: number,
-  transactionSignature?: string
+  transactionSignature?: string,
+  expiresAt?: string | null,
+  status: MessageStatus | OutboxStatus = 'pending',
+  escrowAddress?: string | null,
+  currency: string = SOL_CURRENCY,
+  mint?: string | null,
+  requiresReply: boolean = false,
+  // Salt of the content hash committed on chain, if any
+  contentSalt: string | null = null
 ): Promise<boolean> => {
   try {
     console.log('Saving message to database:', {
@@ -277,7 +703,12 @@ export const saveMessage = async (
       messageId,
       content: content.substring(0, 20) + '...',
       amount,
-      transactionSignature
+      transactionSignature,
+      expiresAt,
+      status,
+      escrowAddress,
+      currency,
+      mint
     });
 
     // Validate message ID format - should start with 'm' followed by alphanumeric characters
@@ -314,77 +745,20 @@ export const saveMessage = async (
       }
     }
 
-    // Find sender profile
-    const { data: senderProfile, error: senderProfileError } = await supabase
-      .from('profiles')
-      .select('id, username')
-      .eq('wallet_address', senderWalletAddress);
-    
-    let senderId: string;
-    
-    if (!senderProfile || senderProfile.length === 0) {
-      console.log('Sender profile not found, creating a new one for', senderWalletAddress);
-      // Generate a UUID for the new profile
-      const newSenderId = crypto.randomUUID();
-      
-      const { data: newSenderProfile, error: newSenderError } = await supabase
-        .from('profiles')
-        .insert({
-          id: newSenderId,
-          wallet_address: senderWalletAddress,
-          username: `user_${senderWalletAddress.substring(0, 8)}`
-        })
-        .select();
-      
-      if (newSenderError || !newSenderProfile || newSenderProfile.length === 0) {
-        console.error('Failed to create sender profile:', newSenderError);
-        return false;
-      }
-      
-      senderId = newSenderProfile[0].id;
-      console.log('Created new sender profile with ID:', senderId);
-    } else {
-      senderId = senderProfile[0].id;
-      console.log('Found existing sender profile:', senderProfile[0]);
-    }
+    // Both parties need a profile for the message to point at; wallets without an
+    // account get a placeholder that is claimed when the wallet is linked later
+    const senderId = await provisionWalletProfile(senderWalletAddress);
+    const recipientId = await provisionWalletProfile(recipientWalletAddress);
 
-    // Find recipient profile
-    const { data: recipientProfile, error: recipientProfileError } = await supabase
-      .from('profiles')
-      .select('id, username')
-      .eq('wallet_address', recipientWalletAddress);
-    
-    let recipientId: string;
-    
-    if (!recipientProfile || recipientProfile.length === 0) {
-      console.log('Recipient profile not found, creating a new one for', recipientWalletAddress);
-      
-      // Generate a UUID for the new profile
-      const newRecipientId = crypto.randomUUID();
-      
-      const { data: newRecipientProfile, error: newRecipientError } = await supabase
-        .from('profiles')
-        .insert({
-          id: newRecipientId,
-          wallet_address: recipientWalletAddress,
-          username: `user_${recipientWalletAddress.substring(0, 8)}`
-        })
-        .select();
-      
-      if (newRecipientError || !newRecipientProfile || newRecipientProfile.length === 0) {
-        console.error('Failed to create recipient profile:', newRecipientError);
-        return false;
-      }
-      
-      recipientId = newRecipientProfile[0].id;
-      console.log('Created new recipient profile with ID:', recipientId);
-    } else {
-      recipientId = recipientProfile[0].id;
-      console.log('Found existing recipient profile:', recipientProfile[0]);
+    if (!senderId || !recipientId) {
+      console.error('Failed to provision profiles for', senderWalletAddress, recipientWalletAddress);
+      return false;
     }
 
     console.log('Saving message with sender_id:', senderId, 'recipient_id:', recipientId);
 
+    const stored = await prepareMessageContent(senderId, recipientId, content, contentSalt);
+
     // Save the message
     const { data, error } = await supabase
       .from('messages')
@@ -393,14 +767,21 @@ export const saveMessage = async (
           sender_id: senderId,
           recipient_id: recipientId,
           message_id: messageId,
-          content,
+          ...stored,
           amount,
-          status: 'pending' as MessageStatus,
-          transaction_signature: transactionSignature
+          status,
+          transaction_signature: transactionSignature,
+          expires_at: expiresAt ?? null,
+          escrow_address: escrowAddress ?? null,
+          currency,
+          mint: mint ?? null,
+          requires_reply: requiresReply
         }
-      ]);
+      ])
+      .select('id')
+      .single();
 
-    if (error) {
+    if (error || !data) {
       console.error('Error saving message:', error);
       return false;
     }
@@ -426,13 +807,57 @@ export const saveMessage = async (
   }
 };
 
+// One status change in a message's history, for its timeline
+export interface MessageEvent {
+  id: string;
+  // null for the event that created the message
+  from_status: string | null;
+  to_status: string;
+  // The transaction behind the change, e.g. the approval or the donation
+  transaction_signature: string | null;
+  created_at: string;
+  // Who made the change; null when it was synced from chain state
+  actorUsername: string | null;
+}
+
+/**
+ * Fetch a message's status history, oldest first
+ * @param messageRowId Database id of the message
+ * @throws If the events can't be fetched
+ */
+export const fetchMessageEvents = async (messageRowId: string): Promise<MessageEvent[]> => {
+  const { data, error } = await supabase
+    .from('message_events')
+    .select('id, from_status, to_status, transaction_signature, created_at, actor:profiles!message_events_actor_id_fkey(username)')
+    .eq('message_id', messageRowId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch message history: ${error.message}`);
+  }
+
+  return data.map(event => ({
+    id: event.id,
+    from_status: event.from_status,
+    to_status: event.to_status,
+    transaction_signature: event.transaction_signature,
+    created_at: event.created_at,
+    actorUsername: event.actor?.username ?? null,
+  }));
+};
+
 /**
- * Update message status
+ * Move a message to a new status, if the lifecycle allows it (see MESSAGE_TRANSITIONS).
+ * The database records the change in its event log.
+ * @param transactionSignature The transaction behind the change
+ * @param approvedAmount The recipient's share when a payment was only partially approved
+ * @returns Whether the message is now in the requested status
  */
 export const updateMessageStatus = async (
   messageId: string,
   status: MessageStatus,
-  transactionSignature?: string
+  transactionSignature?: string,
+  approvedAmount?: number
 ): Promise<boolean> => {
   try {
     console.log(`Updating message status for message ID: ${messageId}`);
@@ -465,21 +890,44 @@ export const updateMessageStatus = async (
     
     console.log('Found message to update:', existingMessage);
     
-    // Update the message status in the database
-    const { data, error } = await supabase
+    if (existingMessage.status === status) {
+      console.log(`Message ${messageId} is already ${status}`);
+      return true;
+    }
+    
+    if (!canTransition(existingMessage.status, status)) {
+      console.error(`Invalid status transition for message ${messageId}: ${existingMessage.status} -> ${status}`);
+      return false;
+    }
+    
+    // The row keeps the signature of the transaction that moved the escrow; a donation
+    // is a separate payment, so its signature is kept apart for the event log
+    const isDonation = status === 'donated';
+    
+    // Only update from the status we checked, so concurrent changes can't skip a step
+    const { data: updated, error } = await supabase
       .from('messages')
       .update({ 
         status, 
-        ...(transactionSignature ? { transaction_signature: transactionSignature } : {}),
+        ...(transactionSignature && !isDonation ? { transaction_signature: transactionSignature } : {}),
+        ...(transactionSignature && isDonation ? { donation_signature: transactionSignature } : {}),
+        ...(approvedAmount !== undefined ? { approved_amount: approvedAmount } : {}),
         updated_at: new Date().toISOString()
       })
-      .eq('message_id', messageId);
+      .eq('message_id', messageId)
+      .eq('status', existingMessage.status)
+      .select('id');
 
     if (error) {
       console.error('Error updating message status:', error);
       return false;
     }
     
+    if (!updated || updated.length === 0) {
+      console.error(`Message ${messageId} changed status while it was being updated`);
+      return false;
+    }
+    
     console.log(`Successfully updated status for message ID: ${messageId}`);
     return true;
   } catch (error) {
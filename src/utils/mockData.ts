@@ -219,12 +219,30 @@ export const getTransactionsByUser = (userId: string) => {
   );
 };
 
-export const formatAmount = (amount: number) => {
+export const formatAmount = (amount: number, currency = 'SOL') => {
   // Convert to string with 8 decimal places
   const amountStr = amount.toFixed(8);
   // Remove trailing zeros after decimal point while keeping at least one digit after decimal
   const trimmedStr = amountStr.replace(/(\.\d*[1-9])0+$|\.0+$/, '$1');
-  return `${trimmedStr} SOL`;
+  return `${trimmedStr} ${currency}`;
+};
+
+// Format totals kept per currency, e.g. "1.5 SOL + 20 USDC"
+export const formatAmounts = (amountsByCurrency: Record<string, number>) => {
+  const entries = Object.entries(amountsByCurrency);
+  if (entries.length === 0) {
+    return formatAmount(0);
+  }
+  return entries.map(([currency, amount]) => formatAmount(amount, currency)).join(' + ');
+};
+
+// Sum message amounts per currency
+export const sumByCurrency = (messages: { amount: number; currency?: string }[]) => {
+  return messages.reduce<Record<string, number>>((totals, message) => {
+    const currency = message.currency || 'SOL';
+    totals[currency] = (totals[currency] || 0) + (Number(message.amount) || 0);
+    return totals;
+  }, {});
 };
 
 export const formatDate = (dateString: string) => {
@@ -246,6 +264,25 @@ export const formatDate = (dateString: string) => {
   }
 };
 
+export const formatTimeRemaining = (dateString: string) => {
+  const diffMs = new Date(dateString).getTime() - Date.now();
+  if (diffMs <= 0) {
+    return 'Expired';
+  }
+
+  const diffMins = Math.floor(diffMs / (1000 * 60));
+  const diffHours = Math.floor(diffMs / (1000 * 60 * 60));
+  const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
+
+  if (diffMins < 60) {
+    return `${diffMins} min${diffMins !== 1 ? 's' : ''} left`;
+  } else if (diffHours < 24) {
+    return `${diffHours} hour${diffHours !== 1 ? 's' : ''} left`;
+  } else {
+    return `${diffDays} day${diffDays !== 1 ? 's' : ''} left`;
+  }
+};
+
 export const getStatusColor = (status: string) => {
   switch (status) {
     case 'pending':
@@ -259,6 +296,8 @@ export const getStatusColor = (status: string) => {
     case 'expired':
     case 'failed':
       return 'bg-gray-500/10 text-gray-600 border-gray-500/30';
+    case 'donated':
+      return 'bg-pink-500/10 text-pink-600 border-pink-500/30';
     default:
       return 'bg-blue-500/10 text-blue-600 border-blue-500/30';
   }
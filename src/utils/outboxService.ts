@@ -0,0 +1,408 @@
+import { PublicKey } from '@solana/web3.js';
+import { supabase } from '@/integrations/supabase/client';
+import { getActiveCluster, getConnection, getProgramId } from '@/utils/activeCluster';
+import { decryptContent, EncryptedContent } from '@/utils/encryptionService';
+import { fetchOnChainEscrows, findEscrowCreationSignature, OnChainEscrow } from '@/utils/escrowReconciler';
+import { OUTBOX_STATUSES, OutboxStatus, saveMessage, updateMessageStatus } from '@/utils/messageService';
+import { SOL_CURRENCY } from '@/utils/tokens';
+
+// Paid messages are written to the outbox before their escrow transaction is signed:
+// a copy in localStorage (so nothing is lost if Supabase is unreachable) and a
+// 'submitting' row in the messages table. Once the transaction confirms the row
+// becomes 'pending'. If the tab closes or the save fails in between, resumeOutbox
+// settles the entry from chain state on the next load.
+
+const LOCAL_OUTBOX_KEY = 'squeakyWheelOutbox';
+
+// A submitting entry with no escrow after this long never landed (blockhashes last ~60-90s)
+const SUBMIT_TIMEOUT_MS = 3 * 60 * 1000;
+
+export interface OutboxEntry {
+  messageId: string;
+  senderWalletAddress: string;
+  recipientWalletAddress: string;
+  recipientUsername?: string;
+  // Empty for an encrypted row when the sender's key is locked and this browser has no copy
+  content: string;
+  // Salt of the content hash the payment commits; null for entries from before salting
+  contentSalt: string | null;
+  amount: number;
+  // 'SOL' or the payment token's symbol
+  currency: string;
+  // Token mint; null for SOL
+  mint: string | null;
+  // The recipient has to reply before approving
+  requiresReply: boolean;
+  expiresAt: string | null;
+  escrowAddress: string;
+  status: OutboxStatus;
+  transactionSignature?: string | null;
+  createdAt: string;
+  // Whether the entry has a messages row, or only exists in this browser
+  savedToDatabase: boolean;
+}
+
+export interface OutboxResumeResult {
+  completed: number;
+  reverted: number;
+}
+
+type LocalOutboxEntry = Omit<OutboxEntry, 'recipientUsername' | 'savedToDatabase'>;
+
+const readLocalOutbox = (): LocalOutboxEntry[] => {
+  try {
+    const stored = localStorage.getItem(LOCAL_OUTBOX_KEY);
+    // Entries stored before token payments have no currency and were paid in SOL,
+    // ones stored before reply-gated approval didn't require a reply, and ones stored
+    // before salting committed the bare content hash
+    return stored
+      ? JSON.parse(stored).map((entry: LocalOutboxEntry) => ({ currency: SOL_CURRENCY, mint: null, requiresReply: false, contentSalt: null, ...entry }))
+      : [];
+  } catch (error) {
+    console.error('Failed to read local outbox:', error);
+    return [];
+  }
+};
+
+const writeLocalOutbox = (entries: LocalOutboxEntry[]) => {
+  try {
+    localStorage.setItem(LOCAL_OUTBOX_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.error('Failed to write local outbox:', error);
+  }
+};
+
+const upsertLocalEntry = (entry: LocalOutboxEntry) => {
+  writeLocalOutbox([...readLocalOutbox().filter(e => e.messageId !== entry.messageId), entry]);
+};
+
+const removeLocalEntry = (messageId: string) => {
+  writeLocalOutbox(readLocalOutbox().filter(e => e.messageId !== messageId));
+};
+
+/**
+ * Persist a message before its escrow transaction is sent
+ * @param entry The message, with the escrow PDA it will be paid into
+ * @returns Whether the 'submitting' row was written; the local copy is always kept
+ */
+export const recordOutboxMessage = async (
+  entry: Omit<LocalOutboxEntry, 'status' | 'createdAt' | 'transactionSignature'>
+): Promise<boolean> => {
+  console.log('Recording outbox message:', entry.messageId);
+
+  const existing = readLocalOutbox().find(e => e.messageId === entry.messageId);
+  upsertLocalEntry({ ...entry, status: 'submitting', createdAt: existing?.createdAt || new Date().toISOString() });
+
+  // Retrying a draft reuses its row
+  const { data: updated, error: updateError } = await supabase
+    .from('messages')
+    .update({ status: 'submitting', expires_at: entry.expiresAt, updated_at: new Date().toISOString() })
+    .eq('message_id', entry.messageId)
+    .eq('status', 'draft')
+    .select('id');
+
+  if (updateError) {
+    console.error('Error updating existing outbox row:', updateError);
+  } else if (updated && updated.length > 0) {
+    return true;
+  }
+
+  return saveMessage(
+    entry.senderWalletAddress,
+    entry.recipientWalletAddress,
+    entry.messageId,
+    entry.content,
+    entry.amount,
+    undefined,
+    entry.expiresAt,
+    'submitting',
+    entry.escrowAddress,
+    entry.currency,
+    entry.mint,
+    entry.requiresReply,
+    entry.contentSalt
+  );
+};
+
+/**
+ * Move an outbox message to 'pending' once its escrow transaction has confirmed
+ * @returns Whether the messages row now reflects the payment
+ */
+export const completeOutboxMessage = async (
+  messageId: string,
+  transactionSignature: string
+): Promise<boolean> => {
+  console.log(`Completing outbox message ${messageId} with transaction ${transactionSignature}`);
+
+  const local = readLocalOutbox().find(e => e.messageId === messageId);
+  if (local) {
+    upsertLocalEntry({ ...local, transactionSignature });
+  }
+
+  let saved = await updateMessageStatus(messageId, 'pending', transactionSignature);
+
+  // The 'submitting' row may never have been written; insert it from the local copy
+  if (!saved && local) {
+    saved = await saveMessage(
+      local.senderWalletAddress,
+      local.recipientWalletAddress,
+      messageId,
+      local.content,
+      local.amount,
+      transactionSignature,
+      local.expiresAt,
+      'pending',
+      local.escrowAddress,
+      local.currency,
+      local.mint,
+      local.requiresReply,
+      local.contentSalt
+    );
+  }
+
+  if (saved) {
+    removeLocalEntry(messageId);
+  }
+  return saved;
+};
+
+/**
+ * Return an outbox message to 'draft' after its transaction failed without landing
+ */
+export const revertOutboxMessage = async (messageId: string): Promise<void> => {
+  console.log(`Reverting outbox message ${messageId} to draft`);
+
+  const local = readLocalOutbox().find(e => e.messageId === messageId);
+  if (local) {
+    upsertLocalEntry({ ...local, status: 'draft' });
+  }
+
+  const { data: reverted, error } = await supabase
+    .from('messages')
+    .update({ status: 'draft', updated_at: new Date().toISOString() })
+    .eq('message_id', messageId)
+    .eq('status', 'submitting')
+    .select('id');
+
+  if (error) {
+    console.error(`Failed to revert outbox message ${messageId}:`, error);
+  }
+};
+
+/**
+ * Fetch a sender's outbox: unsent drafts and messages still being submitted
+ * @param walletAddress The sender's wallet address
+ * @returns Database rows merged with entries only stored in this browser, newest first
+ */
+export const fetchOutbox = async (walletAddress: string): Promise<OutboxEntry[]> => {
+  const { data: profiles, error: profileError } = await supabase
+    .from('profiles')
+    .select('id')
+    .eq('wallet_address', walletAddress);
+
+  if (profileError) {
+    console.error('Error fetching profile for outbox:', profileError);
+  }
+
+  const entries = new Map<string, OutboxEntry>();
+  const localEntries = readLocalOutbox().filter(local => local.senderWalletAddress === walletAddress);
+
+  if (profiles && profiles.length > 0) {
+    const { data: rows, error } = await supabase
+      .from('messages')
+      .select(`
+        message_id,
+        content,
+        content_salt,
+        encrypted_content,
+        amount,
+        currency,
+        mint,
+        requires_reply,
+        status,
+        expires_at,
+        escrow_address,
+        transaction_signature,
+        created_at,
+        recipient:profiles!fk_recipient_profile(username, wallet_address)
+      `)
+      .in('sender_id', profiles.map(profile => profile.id))
+      .in('status', OUTBOX_STATUSES);
+
+    if (error) {
+      console.error('Error fetching outbox rows:', error);
+    }
+
+    for (const row of rows || []) {
+      // Encrypted rows fall back to this browser's plaintext copy while the key is locked
+      const local = localEntries.find(entry => entry.messageId === row.message_id);
+      const decrypted = row.encrypted_content ? await decryptContent(row.encrypted_content as EncryptedContent) : null;
+      const content = row.encrypted_content ? decrypted?.content ?? local?.content ?? '' : row.content;
+      const contentSalt = row.encrypted_content ? (decrypted ? decrypted.salt : local?.contentSalt ?? null) : row.content_salt;
+
+      entries.set(row.message_id, {
+        messageId: row.message_id,
+        senderWalletAddress: walletAddress,
+        recipientWalletAddress: row.recipient?.wallet_address || '',
+        recipientUsername: row.recipient?.username,
+        content,
+        contentSalt,
+        amount: Number(row.amount),
+        currency: row.currency || SOL_CURRENCY,
+        mint: row.mint,
+        requiresReply: row.requires_reply,
+        expiresAt: row.expires_at,
+        escrowAddress: row.escrow_address || '',
+        status: row.status as OutboxStatus,
+        transactionSignature: row.transaction_signature,
+        createdAt: row.created_at,
+        savedToDatabase: true,
+      });
+    }
+  }
+
+  for (const local of localEntries) {
+    if (!entries.has(local.messageId)) {
+      entries.set(local.messageId, { ...local, savedToDatabase: false });
+    }
+  }
+
+  return [...entries.values()].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+/**
+ * Settle 'submitting' outbox entries from chain state: entries whose escrow exists,
+ * or existed and was closed, become pending messages, and entries that never landed
+ * go back to draft. The reconciler picks up the settled status of a closed escrow.
+ * Run on app load so a closed tab or failed save doesn't strand a payment.
+ * @param walletAddress The sender's wallet address
+ */
+export const resumeOutbox = async (walletAddress: string): Promise<OutboxResumeResult> => {
+  const result: OutboxResumeResult = { completed: 0, reverted: 0 };
+  const submitting = (await fetchOutbox(walletAddress)).filter(entry => entry.status === 'submitting');
+
+  if (submitting.length === 0) {
+    return result;
+  }
+
+  console.log(`Resuming ${submitting.length} outbox messages for ${walletAddress}`);
+  const connection = getConnection();
+
+  for (const entry of submitting) {
+    try {
+      if (!entry.escrowAddress) {
+        console.warn(`Outbox message ${entry.messageId} has no escrow address, skipping`);
+        continue;
+      }
+
+      const escrowAddress = new PublicKey(entry.escrowAddress);
+      const accountInfo = await connection.getAccountInfo(escrowAddress);
+
+      if (accountInfo) {
+        const signature = entry.transactionSignature || await findEscrowCreationSignature(connection, escrowAddress);
+        if (!signature) {
+          console.warn(`Escrow for outbox message ${entry.messageId} exists but its signature wasn't found yet`);
+          continue;
+        }
+        if (await completeOutboxMessage(entry.messageId, signature)) {
+          result.completed++;
+        }
+        continue;
+      }
+
+      // Escrows are closed once settled, so a missing account with history still landed
+      const closedSignature = await findEscrowCreationSignature(connection, escrowAddress);
+      if (closedSignature) {
+        console.log(`Escrow for outbox message ${entry.messageId} was already settled and closed`);
+        if (await completeOutboxMessage(entry.messageId, entry.transactionSignature || closedSignature)) {
+          result.completed++;
+        }
+      } else if (Date.now() - new Date(entry.createdAt).getTime() > SUBMIT_TIMEOUT_MS) {
+        await revertOutboxMessage(entry.messageId);
+        result.reverted++;
+      }
+    } catch (error) {
+      console.error(`Failed to resume outbox message ${entry.messageId}:`, error);
+    }
+  }
+
+  console.log(`Outbox resume finished: ${result.completed} completed, ${result.reverted} returned to drafts`);
+  return result;
+};
+
+/**
+ * Delete an unsent draft from the outbox
+ */
+export const discardOutboxMessage = async (messageId: string): Promise<boolean> => {
+  console.log(`Discarding outbox message ${messageId}`);
+  removeLocalEntry(messageId);
+
+  const { error } = await supabase
+    .from('messages')
+    .delete()
+    .eq('message_id', messageId)
+    .eq('status', 'draft');
+
+  if (error) {
+    console.error(`Failed to discard outbox message ${messageId}:`, error);
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Save a message for an escrow that was paid but whose content was lost
+ * @param escrow An escrow returned by fetchUnmatchedEscrows
+ * @param content The message text, rewritten by the sender
+ */
+export const restoreEscrowMessage = async (escrow: OnChainEscrow, content: string): Promise<boolean> => {
+  console.log(`Restoring message ${escrow.messageId} for escrow ${escrow.address}`);
+
+  const signature = await findEscrowCreationSignature(getConnection(), new PublicKey(escrow.address));
+
+  return saveMessage(
+    escrow.sender,
+    escrow.recipient,
+    escrow.messageId,
+    content,
+    escrow.amount,
+    signature || undefined,
+    escrow.expiresAt > 0 ? new Date(escrow.expiresAt * 1000).toISOString() : null,
+    'pending',
+    escrow.address,
+    escrow.currency,
+    escrow.mint
+  );
+};
+
+/**
+ * Find pending escrows paid by this wallet that have no message anywhere:
+ * not in the messages table and not in this browser's outbox
+ * @param walletAddress The sender's wallet address
+ */
+export const fetchUnmatchedEscrows = async (walletAddress: string): Promise<OnChainEscrow[]> => {
+  const escrows = (await fetchOnChainEscrows(getConnection(), getProgramId(), walletAddress, getActiveCluster().paymentTokens))
+    .filter(escrow => escrow.sender === walletAddress && escrow.status === 'pending');
+
+  if (escrows.length === 0) {
+    return [];
+  }
+
+  const { data: rows, error } = await supabase
+    .from('messages')
+    .select('message_id')
+    .in('message_id', escrows.map(escrow => escrow.messageId));
+
+  if (error) {
+    throw new Error(`Failed to fetch messages: ${error.message}`);
+  }
+
+  const known = new Set([
+    ...(rows || []).map(row => row.message_id),
+    ...readLocalOutbox().map(entry => entry.messageId),
+  ]);
+
+  const unmatched = escrows.filter(escrow => !known.has(escrow.messageId));
+  console.log(`Found ${unmatched.length} unmatched escrows`);
+  return unmatched;
+};
@@ -0,0 +1,131 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { MessageSigner } from '@/utils/encryptionService';
+import { isWalletRejection, WalletAlreadyLinkedError, WalletOwnershipError } from '@/utils/errors';
+
+// Each wallet belongs to at most one profile. A wallet with no account gets a
+// placeholder profile (username user_xxxxxxxx, no Twitter link) only when a message is
+// sent to or from it; the Twitter account that later links the same wallet claims the
+// placeholder and takes over its messages. Reads only ever look profiles up.
+
+// Postgres unique_violation, returned when another request provisioned the wallet first
+const UNIQUE_VIOLATION = '23505';
+
+// Postgres insufficient_privilege, returned when a wallet claim's signature doesn't check out
+const INSUFFICIENT_PRIVILEGE = '42501';
+
+/**
+ * Look up the profile that owns a wallet, without creating one
+ * @param walletAddress The wallet address
+ * @returns The profile ID, or null if the wallet has no profile yet
+ * @throws If the lookup fails
+ */
+export const findProfileIdByWallet = async (walletAddress: string): Promise<string | null> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id')
+    .eq('wallet_address', walletAddress)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up profile: ${error.message}`);
+  }
+
+  return data?.id ?? null;
+};
+
+/**
+ * Get the profile for a wallet, creating a placeholder if it has none. Only for write
+ * paths that need a profile to point at, such as saving a message.
+ * @param walletAddress The wallet address
+ * @returns The profile ID, or null if it couldn't be looked up or created
+ */
+export const provisionWalletProfile = async (walletAddress: string): Promise<string | null> => {
+  try {
+    const existingId = await findProfileIdByWallet(walletAddress);
+    if (existingId) {
+      return existingId;
+    }
+
+    console.log('No profile for wallet, creating a placeholder for', walletAddress);
+    const { data, error } = await supabase
+      .from('profiles')
+      .insert({
+        id: crypto.randomUUID(),
+        wallet_address: walletAddress,
+        username: `user_${walletAddress.substring(0, 8)}`
+      })
+      .select('id')
+      .single();
+
+    // Lost a race with another request for the same wallet, so use its profile
+    if (error?.code === UNIQUE_VIOLATION) {
+      return findProfileIdByWallet(walletAddress);
+    }
+
+    if (error || !data) {
+      console.error('Failed to create placeholder profile:', error);
+      return null;
+    }
+
+    console.log('Created placeholder profile with ID:', data.id);
+    return data.id;
+  } catch (error) {
+    console.error('Error provisioning profile:', error);
+    return null;
+  }
+};
+
+/**
+ * Link a wallet to the signed-in user's profile. The wallet signs a one-time challenge
+ * from the server to prove the user holds it. If the wallet already has a placeholder
+ * profile, its messages move to the user's profile and the placeholder is deleted (see
+ * claim_wallet_profile).
+ * @param wallet Signs the challenge
+ * @param walletAddress The wallet to link
+ * @param walletName The wallet app it was connected with, e.g. 'phantom'
+ * @returns How many messages were taken over from the placeholder
+ * @throws WalletAlreadyLinkedError if another account has already linked the wallet,
+ * WalletOwnershipError if the signature isn't from the wallet, WalletRejectedError if the user declines
+ */
+export const claimWalletProfile = async (
+  wallet: MessageSigner,
+  walletAddress: string,
+  walletName?: string | null
+): Promise<number> => {
+  const { data: challenge, error: challengeError } = await supabase.rpc('issue_wallet_claim_challenge', {
+    p_wallet_address: walletAddress
+  });
+
+  if (challengeError || !challenge) {
+    throw new Error(`Failed to link wallet: ${challengeError?.message ?? 'no challenge was issued'}`);
+  }
+
+  let signature: Uint8Array;
+  try {
+    signature = await wallet.signMessage(new TextEncoder().encode(challenge));
+  } catch (error) {
+    if (isWalletRejection(error)) throw error;
+    throw new WalletOwnershipError(walletAddress, 'Your wallet could not sign the request to link it');
+  }
+
+  const { data, error } = await supabase.rpc('claim_wallet_profile', {
+    p_wallet_address: walletAddress,
+    p_signature: Buffer.from(signature).toString('base64'),
+    p_wallet_name: walletName ?? undefined
+  });
+
+  if (error?.code === UNIQUE_VIOLATION) {
+    throw new WalletAlreadyLinkedError(walletAddress);
+  }
+
+  if (error?.code === INSUFFICIENT_PRIVILEGE) {
+    throw new WalletOwnershipError(walletAddress, error.message);
+  }
+
+  if (error) {
+    throw new Error(`Failed to link wallet: ${error.message}`);
+  }
+
+  console.log(`Linked wallet ${walletAddress}, took over ${data} messages`);
+  return data ?? 0;
+};
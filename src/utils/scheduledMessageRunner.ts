@@ -0,0 +1,323 @@
+import { BorshInstructionCoder } from '@coral-xyz/anchor';
+import { ComputeBudgetProgram, Connection, LAMPORTS_PER_SOL, PublicKey, SystemInstruction, SystemProgram, Transaction } from '@solana/web3.js';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { IDL } from '@/idl/pay_to_reply';
+import type { Database } from '@/integrations/supabase/types';
+import { hashMessageContent } from '@/utils/contentCommitment';
+import type { ScheduledMessageStatus } from '@/utils/scheduledMessageService';
+import { ASSOCIATED_TOKEN_PROGRAM_ID, getMintDecimals, toBaseUnits } from '@/utils/tokens';
+import { fetchNonce, getDurableTransactionNonce, getDurableTransactionSignature, submitDurableTransaction } from '@/utils/durableNonce';
+import { errorFromTransaction, NetworkError, toAppError } from '@/utils/errors';
+
+// Sends scheduled messages once they are due. Each one carries a transaction the sender
+// signed when scheduling it, against a durable nonce account, so no wallet is needed
+// here. A row is claimed by moving it to 'sending', which stops the sender editing or
+// cancelling it; it only leaves 'sending' once the transaction has confirmed and the
+// message is saved, or has definitely failed. Rows left 'sending' by an interrupted run
+// are picked up again by the next one.
+//
+// The sender writes both the row and the signed transaction, so before sending, the
+// transaction is checked against the row: the same parties, escrow, amount, expiry and
+// content hash. A transaction that doesn't match is never sent or recorded.
+//
+// Takes its Supabase client as a parameter so the CLI can pass a service-role client
+// instead of pulling in the browser one.
+
+type ScheduledRow = Database['public']['Tables']['scheduled_messages']['Row'];
+
+// The parties' wallets, to check the signed transaction against
+const DUE_COLUMNS = `
+  *,
+  sender:profiles!scheduled_messages_sender_id_fkey(wallet_address),
+  recipient:profiles!scheduled_messages_recipient_id_fkey(wallet_address)
+`;
+
+type DueRow = ScheduledRow & {
+  sender: { wallet_address: string | null } | null;
+  recipient: { wallet_address: string | null } | null;
+};
+
+// Statuses the runner works through
+const DUE_STATUSES: ScheduledMessageStatus[] = ['scheduled', 'sending'];
+
+const DEFAULT_BATCH_SIZE = 50;
+
+const instructionCoder = new BorshInstructionCoder(IDL);
+
+export type ScheduledSendOutcome = 'sent' | 'failed' | 'pending' | 'skipped';
+
+export interface ScheduledSendResult {
+  id: string;
+  messageId: string;
+  // 'pending' rows are still being sent and are retried by the next run;
+  // 'skipped' rows were cancelled or claimed by another run first
+  outcome: ScheduledSendOutcome;
+  signature?: string;
+  error?: string;
+}
+
+export interface RunScheduledMessagesOptions {
+  connection: Connection;
+  supabase: SupabaseClient<Database>;
+  // The pay_to_reply program the messages were signed for
+  programId: PublicKey;
+  // Send messages due at or before this time
+  now?: Date;
+  limit?: number;
+  // How long to wait for each transaction to confirm before leaving it to the next run
+  submitTimeoutMs?: number;
+}
+
+/**
+ * Send every scheduled message that is due
+ * @returns What happened to each due message, in the order they were due
+ * @throws If the due messages can't be fetched
+ */
+export const runScheduledMessages = async (options: RunScheduledMessagesOptions): Promise<ScheduledSendResult[]> => {
+  const { supabase, now = new Date(), limit = DEFAULT_BATCH_SIZE } = options;
+
+  const { data: rows, error } = await supabase
+    .from('scheduled_messages')
+    .select(DUE_COLUMNS)
+    .in('status', DUE_STATUSES)
+    .lte('send_at', now.toISOString())
+    .order('send_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to fetch due scheduled messages: ${error.message}`);
+  }
+
+  console.log(`Found ${rows?.length || 0} due scheduled messages`);
+
+  const results: ScheduledSendResult[] = [];
+  for (const row of rows || []) {
+    const result = await sendScheduledMessage(options, row);
+    console.log(`Scheduled message ${row.message_id}: ${result.outcome}${result.error ? ` (${result.error})` : ''}`);
+    results.push(result);
+  }
+  return results;
+};
+
+// Claim, submit and record one due message
+const sendScheduledMessage = async (
+  { connection, supabase, programId, submitTimeoutMs }: RunScheduledMessagesOptions,
+  due: DueRow
+): Promise<ScheduledSendResult> => {
+  let row = due;
+
+  if (row.status === 'scheduled') {
+    // The claim returns the row as it is now, in case the sender edited it since it was fetched
+    const { data: claimed, error } = await supabase
+      .from('scheduled_messages')
+      .update({ status: 'sending', updated_at: new Date().toISOString() })
+      .eq('id', row.id)
+      .eq('status', 'scheduled')
+      .select(DUE_COLUMNS);
+
+    if (error) {
+      return { id: row.id, messageId: row.message_id, outcome: 'pending', error: `Failed to claim: ${error.message}` };
+    }
+    if (!claimed || claimed.length === 0) {
+      return { id: row.id, messageId: row.message_id, outcome: 'skipped' };
+    }
+    row = claimed[0];
+  }
+
+  const signature = getDurableTransactionSignature(row.signed_transaction);
+  const result = { id: row.id, messageId: row.message_id, signature };
+
+  try {
+    await checkSignedTransaction(connection, programId, row);
+
+    // An earlier run may already have sent it
+    const { value: [status] } = await connection.getSignatureStatuses([signature], { searchTransactionHistory: true });
+
+    if (status?.err) {
+      throw errorFromTransaction(status.err, []);
+    }
+
+    if (status && status.confirmationStatus !== 'confirmed' && status.confirmationStatus !== 'finalized') {
+      return { ...result, outcome: 'pending' };
+    }
+
+    if (!status) {
+      // Closing or advancing the nonce account is how a sender withdraws a signed message
+      const nonce = await fetchNonce(connection, row.nonce_account);
+      if (nonce !== getDurableTransactionNonce(row.signed_transaction)) {
+        throw new Error('The nonce account was closed or used, so the signed transaction can no longer be sent');
+      }
+
+      const outcome = await submitDurableTransaction(connection, row.signed_transaction, submitTimeoutMs);
+      if (outcome === 'pending') {
+        return { ...result, outcome: 'pending' };
+      }
+    }
+  } catch (error) {
+    const failure = toAppError(error);
+    if (failure instanceof NetworkError) {
+      return { ...result, outcome: 'pending', error: failure.message };
+    }
+
+    await supabase
+      .from('scheduled_messages')
+      .update({ status: 'failed', error: failure.message, updated_at: new Date().toISOString() })
+      .eq('id', row.id)
+      .eq('status', 'sending');
+    return { ...result, outcome: 'failed', error: failure.message };
+  }
+
+  // The payment has landed, so the row stays 'sending' until the message is saved
+  const saveError = await recordSentMessage(supabase, row, signature);
+  if (saveError) {
+    return { ...result, outcome: 'pending', error: saveError };
+  }
+
+  const { error: updateError } = await supabase
+    .from('scheduled_messages')
+    .update({ status: 'sent', transaction_signature: signature, error: null, updated_at: new Date().toISOString() })
+    .eq('id', row.id);
+
+  if (updateError) {
+    return { ...result, outcome: 'pending', error: `Failed to mark sent: ${updateError.message}` };
+  }
+  return { ...result, outcome: 'sent' };
+};
+
+// Throw unless the row's signed transaction advances the row's nonce account and makes
+// exactly the escrow payment the row describes
+const checkSignedTransaction = async (connection: Connection, programId: PublicKey, row: DueRow): Promise<void> => {
+  const senderAddress = row.sender?.wallet_address;
+  const recipientAddress = row.recipient?.wallet_address;
+  if (!senderAddress || !recipientAddress) {
+    throw new Error('The sender or recipient has no wallet linked');
+  }
+  const sender = new PublicKey(senderAddress);
+  const recipient = new PublicKey(recipientAddress);
+  const mismatch = (what: string) => new Error(`The signed transaction's ${what} doesn't match the scheduled message`);
+
+  const transaction = Transaction.from(Buffer.from(row.signed_transaction, 'base64'));
+  if (!transaction.feePayer?.equals(sender) || !transaction.verifySignatures()) {
+    throw mismatch('signer');
+  }
+
+  const [advance, ...instructions] = transaction.instructions;
+  if (
+    !advance?.programId.equals(SystemProgram.programId) ||
+    SystemInstruction.decodeInstructionType(advance) !== 'AdvanceNonceAccount' ||
+    SystemInstruction.decodeNonceAdvance(advance).noncePubkey.toBase58() !== row.nonce_account
+  ) {
+    throw mismatch('nonce account');
+  }
+
+  // Besides the compute budget, only the escrow payment and, for tokens, its vault
+  const payments = instructions.filter(instruction => instruction.programId.equals(programId));
+  const others = instructions.filter(instruction =>
+    !instruction.programId.equals(programId) &&
+    !instruction.programId.equals(ComputeBudgetProgram.programId) &&
+    !(row.mint && instruction.programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID))
+  );
+  if (payments.length !== 1 || others.length > 0) {
+    throw mismatch('instructions');
+  }
+
+  const [payment] = payments;
+  const expectedName = row.mint ? 'createTokenMessagePayment' : 'createMessagePayment';
+  const decoded = instructionCoder.decode(payment.data);
+  if (decoded?.name !== expectedName) {
+    throw mismatch('instruction');
+  }
+
+  const { amount, messageId, expiresAt, contentHash } = decoded.data as {
+    amount: { toString(): string };
+    messageId: string;
+    expiresAt: { toString(): string };
+    contentHash: number[];
+  };
+
+  const expectedAmount = row.mint
+    ? toBaseUnits(row.amount, await getMintDecimals(connection, new PublicKey(row.mint))).toString()
+    : Math.round(row.amount * LAMPORTS_PER_SOL).toString();
+  if (amount.toString() !== expectedAmount) {
+    throw mismatch('amount');
+  }
+  if (messageId !== row.message_id) {
+    throw mismatch('message ID');
+  }
+  const expectedExpiry = row.expires_at ? Math.floor(new Date(row.expires_at).getTime() / 1000) : 0;
+  if (expiresAt.toString() !== expectedExpiry.toString()) {
+    throw mismatch('expiry');
+  }
+
+  // Accounts are positional, in the order the IDL lists them
+  const accountNames = IDL.instructions.find(instruction => instruction.name === expectedName)!.accounts.map(account => account.name);
+  const account = (name: string) => payment.keys[accountNames.indexOf(name)]?.pubkey;
+  const [escrow] = PublicKey.findProgramAddressSync(
+    [Buffer.from('msg'), sender.toBuffer(), recipient.toBuffer(), Buffer.from(row.message_id)],
+    programId
+  );
+  if (!account('sender')?.equals(sender) || !account('recipient')?.equals(recipient)) {
+    throw mismatch('sender or recipient');
+  }
+  if (!account('messageEscrow')?.equals(escrow) || escrow.toBase58() !== row.escrow_address) {
+    throw mismatch('escrow');
+  }
+  if (row.mint && account('mint')?.toBase58() !== row.mint) {
+    throw mismatch('token');
+  }
+
+  // Encrypted content can't be read here; its hash is checked when the message is read
+  if (!row.encrypted_content) {
+    const committed = Buffer.from(contentHash).toString('hex');
+    if (committed !== await hashMessageContent(row.content, row.content_salt)) {
+      throw mismatch('content hash');
+    }
+  }
+};
+
+// Write the messages row for a scheduled message whose payment has landed, the same
+// way completing an outbox message does. Returns an error message if it failed.
+const recordSentMessage = async (
+  supabase: SupabaseClient<Database>,
+  row: ScheduledRow,
+  signature: string
+): Promise<string | null> => {
+  const { data: existing, error: lookupError } = await supabase
+    .from('messages')
+    .select('id')
+    .eq('message_id', row.message_id)
+    .maybeSingle();
+
+  if (lookupError) {
+    return `Failed to look up message: ${lookupError.message}`;
+  }
+  // Saved by an earlier run that stopped before marking the row sent
+  if (existing) {
+    return null;
+  }
+
+  // The database logs the message's creation in message_events
+  const { error } = await supabase
+    .from('messages')
+    .insert({
+      sender_id: row.sender_id,
+      recipient_id: row.recipient_id,
+      message_id: row.message_id,
+      content: row.content,
+      content_salt: row.content_salt,
+      encrypted_content: row.encrypted_content,
+      amount: row.amount,
+      status: 'pending',
+      transaction_signature: signature,
+      expires_at: row.expires_at,
+      escrow_address: row.escrow_address,
+      currency: row.currency,
+      mint: row.mint,
+      requires_reply: row.requires_reply,
+    });
+
+  if (error) {
+    return `Failed to save message: ${error.message}`;
+  }
+  return null;
+};
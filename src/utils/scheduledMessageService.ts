@@ -0,0 +1,221 @@
+import { PublicKey } from '@solana/web3.js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json } from '@/integrations/supabase/types';
+import { getConnection } from '@/utils/activeCluster';
+import { decryptContent, EncryptedContent, EncryptionState } from '@/utils/encryptionService';
+import { findProfileIdByWallet } from '@/utils/profileService';
+
+// Paid messages scheduled to be sent later. When a message is scheduled, its escrow
+// transaction is signed against a durable nonce account the sender owns (see
+// durableNonce.ts) and stored in scheduled_messages. At the scheduled time
+// scripts/send-scheduled-messages.ts submits it and writes the message. The
+// signing and chain side of scheduling lives in anchorClient.ts.
+
+export type ScheduledMessageStatus = 'scheduled' | 'sending' | 'sent' | 'failed' | 'cancelled';
+
+// Scheduled messages the sender can still edit or cancel
+export const EDITABLE_SCHEDULED_STATUS: ScheduledMessageStatus = 'scheduled';
+
+export interface ScheduledMessage {
+  id: string;
+  messageId: string;
+  recipientId: string;
+  recipientUsername: string;
+  recipientWalletAddress: string;
+  // Empty when the message is encrypted and the sender's key is locked
+  content: string;
+  encryption?: EncryptionState;
+  amount: number;
+  // 'SOL' or the payment token's symbol
+  currency: string;
+  // Token mint; null for SOL
+  mint: string | null;
+  requiresReply: boolean;
+  expiresAt: string | null;
+  sendAt: string;
+  escrowAddress: string;
+  // Holds the sender's deposit until it is closed
+  nonceAccount: string;
+  status: ScheduledMessageStatus;
+  transactionSignature: string | null;
+  // Why sending failed
+  error: string | null;
+  createdAt: string;
+}
+
+// Messages can be scheduled from a few minutes ahead, so the runner has time to pick them up
+export const MIN_SCHEDULE_DELAY_MS = 5 * 60 * 1000;
+
+// Format a date for a datetime-local input, in the browser's time zone
+export const toSendAtInputValue = (date: Date): string => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000);
+  return local.toISOString().slice(0, 16);
+};
+
+/**
+ * Read a datetime-local input value as a send time
+ * @returns The time, or null if it is invalid or not far enough ahead
+ */
+export const parseSendAtInput = (value: string): Date | null => {
+  const date = new Date(value);
+  if (isNaN(date.getTime()) || date.getTime() < Date.now() + MIN_SCHEDULE_DELAY_MS) {
+    return null;
+  }
+  return date;
+};
+
+export type ScheduledMessageInsert = Database['public']['Tables']['scheduled_messages']['Insert'];
+
+const SCHEDULED_COLUMNS = `
+  id,
+  message_id,
+  recipient_id,
+  content,
+  encrypted_content,
+  amount,
+  currency,
+  mint,
+  requires_reply,
+  expires_at,
+  send_at,
+  escrow_address,
+  nonce_account,
+  status,
+  transaction_signature,
+  error,
+  created_at,
+  recipient:profiles!scheduled_messages_recipient_id_fkey(username, wallet_address)
+`;
+
+/**
+ * Fetch a sender's scheduled messages, including ones already sent, failed or cancelled
+ * @param walletAddress The sender's wallet address
+ * @returns Messages ordered by when they are due, soonest first
+ */
+export const fetchScheduledMessages = async (walletAddress: string): Promise<ScheduledMessage[]> => {
+  const senderId = await findProfileIdByWallet(walletAddress);
+  if (!senderId) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('scheduled_messages')
+    .select(SCHEDULED_COLUMNS)
+    .eq('sender_id', senderId)
+    .order('send_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch scheduled messages: ${error.message}`);
+  }
+
+  return Promise.all((data || []).map(async row => {
+    let content = row.content;
+    let encryption: EncryptionState | undefined;
+    if (row.encrypted_content) {
+      const decrypted = await decryptContent(row.encrypted_content as EncryptedContent);
+      content = decrypted?.content ?? '';
+      encryption = decrypted === null ? 'locked' : 'decrypted';
+    }
+
+    return {
+      id: row.id,
+      messageId: row.message_id,
+      recipientId: row.recipient_id,
+      recipientUsername: row.recipient?.username || 'Unknown',
+      recipientWalletAddress: row.recipient?.wallet_address || '',
+      content,
+      encryption,
+      amount: row.amount,
+      currency: row.currency,
+      mint: row.mint,
+      requiresReply: row.requires_reply,
+      expiresAt: row.expires_at,
+      sendAt: row.send_at,
+      escrowAddress: row.escrow_address,
+      nonceAccount: row.nonce_account,
+      status: row.status as ScheduledMessageStatus,
+      transactionSignature: row.transaction_signature,
+      error: row.error,
+      createdAt: row.created_at,
+    };
+  }));
+};
+
+/**
+ * Queue a signed message to be sent
+ * @returns Whether the row was written
+ */
+export const insertScheduledMessage = async (row: ScheduledMessageInsert): Promise<boolean> => {
+  const { error } = await supabase
+    .from('scheduled_messages')
+    .insert({ ...row, status: EDITABLE_SCHEDULED_STATUS });
+
+  if (error) {
+    console.error('Error saving scheduled message:', error);
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Replace the content, amount, times and signed transaction of a scheduled message,
+ * only if the runner hasn't picked it up yet. Its parties, escrow and nonce account
+ * can't be changed.
+ * @returns Whether the message was still scheduled and is now updated
+ */
+export const saveScheduledMessageEdit = async (
+  id: string,
+  changes: {
+    content: string;
+    content_salt: string | null;
+    encrypted_content: Json | null;
+    amount: number;
+    send_at: string;
+    expires_at: string | null;
+    signed_transaction: string;
+  },
+): Promise<boolean> => {
+  const { data, error } = await supabase.rpc('reschedule_scheduled_message', {
+    p_id: id,
+    p_content: changes.content,
+    p_content_salt: changes.content_salt,
+    p_encrypted_content: changes.encrypted_content,
+    p_amount: changes.amount,
+    p_send_at: changes.send_at,
+    p_expires_at: changes.expires_at,
+    p_signed_transaction: changes.signed_transaction,
+  });
+
+  if (error) {
+    console.error(`Error updating scheduled message ${id}:`, error);
+    return false;
+  }
+  return data === true;
+};
+
+/**
+ * Cancel a scheduled message, only if the runner hasn't picked it up yet
+ * @returns Whether the message was still scheduled and is now cancelled
+ */
+export const markScheduledMessageCancelled = async (id: string): Promise<boolean> => {
+  const { data, error } = await supabase.rpc('cancel_scheduled_message', { p_id: id });
+
+  if (error) {
+    console.error(`Error cancelling scheduled message ${id}:`, error);
+    return false;
+  }
+  return data === true;
+};
+
+/**
+ * Find which nonce accounts still exist and hold a deposit the sender can recover
+ * @param nonceAccounts Addresses of the accounts to check
+ */
+export const fetchOpenNonceAccounts = async (nonceAccounts: string[]): Promise<Set<string>> => {
+  if (nonceAccounts.length === 0) {
+    return new Set();
+  }
+
+  const accounts = await getConnection().getMultipleAccountsInfo(nonceAccounts.map(address => new PublicKey(address)));
+  return new Set(nonceAccounts.filter((_, index) => accounts[index] !== null));
+};
@@ -0,0 +1,140 @@
+import { supabase } from '@/integrations/supabase/client';
+import {
+  formatMessage,
+  MESSAGE_COLUMNS,
+  MessageData,
+  OUTBOX_STATUSES,
+  REPLY_STATUS,
+} from '@/utils/messageService';
+import { decryptMessages } from '@/utils/encryptionService';
+import { findProfileIdByWallet } from '@/utils/profileService';
+
+// A conversation is a paid message plus the unpaid replies its sender and recipient
+// write afterwards. Every reply points at the paid message (parent_message_id), so a
+// thread is flat and read back in the order it was written.
+
+// Longest reply we accept; paid messages have no limit but replies are meant to be short
+export const MAX_REPLY_LENGTH = 2000;
+
+// Reply IDs never seed an escrow, so they use their own prefix
+const generateReplyId = (): string => {
+  return `r${crypto.randomUUID().replace(/-/g, '').slice(0, 31)}`;
+};
+
+/**
+ * Fetch a conversation: the paid message followed by its replies, oldest first
+ * @param rootMessageId Database id of the paid message that started the thread
+ * @returns The messages in the thread
+ * @throws If the thread can't be fetched
+ */
+export const fetchThread = async (rootMessageId: string): Promise<MessageData[]> => {
+  const { data, error } = await supabase
+    .from('messages')
+    .select(MESSAGE_COLUMNS)
+    .or(`id.eq.${rootMessageId},parent_message_id.eq.${rootMessageId}`)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch conversation: ${error.message}`);
+  }
+
+  // The paid message may be encrypted; replies never are
+  const messages = await decryptMessages(data.map(formatMessage));
+
+  // The paid message always comes first, even if a reply shares its timestamp
+  return [
+    ...messages.filter(message => message.id === rootMessageId),
+    ...messages.filter(message => message.id !== rootMessageId),
+  ];
+};
+
+/**
+ * Reply to a paid message, or follow up on it. Either party can write; the reply
+ * goes to the other one.
+ * @param rootMessage The paid message that started the thread
+ * @param authorWalletAddress The wallet of the person replying
+ * @param content The reply text
+ * @returns The saved reply
+ * @throws If the author isn't part of the conversation, or the reply can't be saved
+ */
+export const sendReply = async (
+  rootMessage: Pick<MessageData, 'id' | 'sender_id' | 'recipient_id' | 'status' | 'parent_message_id'>,
+  authorWalletAddress: string,
+  content: string
+): Promise<MessageData> => {
+  const text = content.trim();
+  if (!text) {
+    throw new Error('Reply is empty');
+  }
+  if (text.length > MAX_REPLY_LENGTH) {
+    throw new Error(`Replies can be at most ${MAX_REPLY_LENGTH} characters`);
+  }
+  if (rootMessage.parent_message_id) {
+    throw new Error('Reply to the paid message that started the conversation');
+  }
+  if ((OUTBOX_STATUSES as string[]).includes(rootMessage.status)) {
+    throw new Error('This message has not been paid for yet');
+  }
+
+  const authorId = await findProfileIdByWallet(authorWalletAddress);
+  if (authorId !== rootMessage.sender_id && authorId !== rootMessage.recipient_id) {
+    throw new Error('Only the sender and recipient can reply to this message');
+  }
+
+  const recipientId = authorId === rootMessage.sender_id ? rootMessage.recipient_id : rootMessage.sender_id;
+  console.log(`Saving reply to ${rootMessage.id} from ${authorId} to ${recipientId}`);
+
+  const { data, error } = await supabase
+    .from('messages')
+    .insert({
+      parent_message_id: rootMessage.id,
+      sender_id: authorId,
+      recipient_id: recipientId,
+      message_id: generateReplyId(),
+      content: text,
+      amount: 0,
+      status: REPLY_STATUS,
+    })
+    .select(MESSAGE_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to save reply: ${error?.message ?? 'no row returned'}`);
+  }
+
+  return formatMessage(data);
+};
+
+/**
+ * Answer a message that requires a reply before its payment can be approved. The
+ * reply is saved to the thread and linked to the message as its answer, so the
+ * sender sees it with the message.
+ * @param rootMessage The paid message being answered
+ * @param recipientWalletAddress The recipient's wallet
+ * @param content The answer text
+ * @returns The saved reply
+ * @throws If the answer can't be saved or linked
+ */
+export const answerMessage = async (
+  rootMessage: Pick<MessageData, 'id' | 'sender_id' | 'recipient_id' | 'status' | 'parent_message_id'>,
+  recipientWalletAddress: string,
+  content: string
+): Promise<MessageData> => {
+  if (await findProfileIdByWallet(recipientWalletAddress) !== rootMessage.recipient_id) {
+    throw new Error('Only the recipient can answer this message');
+  }
+
+  const reply = await sendReply(rootMessage, recipientWalletAddress, content);
+
+  const { error } = await supabase
+    .from('messages')
+    .update({ answer_message_id: reply.id, updated_at: new Date().toISOString() })
+    .eq('id', rootMessage.id);
+
+  if (error) {
+    throw new Error(`Failed to link answer: ${error.message}`);
+  }
+
+  console.log(`Message ${rootMessage.id} answered with reply ${reply.id}`);
+  return reply;
+};
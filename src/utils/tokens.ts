@@ -0,0 +1,118 @@
+import { Connection, PublicKey, SystemProgram, TransactionInstruction } from '@solana/web3.js';
+
+// The few SPL token helpers needed to pay for messages in tokens such as USDC:
+// associated token addresses, idempotent account creation, mint decimals and
+// balances. Like clusterConfig.ts this has no browser dependencies, so the node
+// scripts can use it too.
+
+export const TOKEN_PROGRAM_ID = new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
+export const ASSOCIATED_TOKEN_PROGRAM_ID = new PublicKey('ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL');
+
+// Currency recorded for payments in native SOL
+export const SOL_CURRENCY = 'SOL';
+
+// Bytes in an SPL token account, used to price the escrow vault's rent
+export const TOKEN_ACCOUNT_SPACE = 165;
+
+// Layout offsets: a mint stores decimals after its mint authority and supply,
+// a token account stores its amount after the mint and owner
+const MINT_DECIMALS_OFFSET = 44;
+const TOKEN_ACCOUNT_AMOUNT_OFFSET = 64;
+
+// Associated token account instruction index for CreateIdempotent
+const CREATE_IDEMPOTENT_INSTRUCTION = 1;
+
+// A token the app accepts for payments on a cluster
+export interface PaymentToken {
+  symbol: string;
+  mint: string;
+}
+
+// Decimals never change for a mint, so look each one up once per RPC endpoint
+const decimalsCache = new Map<string, number>();
+
+/**
+ * Derive the associated token account of an owner for a mint
+ * @param mint The token mint
+ * @param owner The wallet or PDA that owns the account
+ */
+export const getAssociatedTokenAddress = (mint: PublicKey, owner: PublicKey): PublicKey => {
+  const [address] = PublicKey.findProgramAddressSync(
+    [owner.toBuffer(), TOKEN_PROGRAM_ID.toBuffer(), mint.toBuffer()],
+    ASSOCIATED_TOKEN_PROGRAM_ID
+  );
+  return address;
+};
+
+/**
+ * Build an instruction that creates an associated token account unless it already exists
+ * @param payer Pays the new account's rent
+ * @param owner The wallet or PDA that will own the account
+ * @param mint The token mint
+ */
+export const createAssociatedTokenAccountIdempotentInstruction = (
+  payer: PublicKey,
+  owner: PublicKey,
+  mint: PublicKey
+): TransactionInstruction => {
+  return new TransactionInstruction({
+    programId: ASSOCIATED_TOKEN_PROGRAM_ID,
+    keys: [
+      { pubkey: payer, isSigner: true, isWritable: true },
+      { pubkey: getAssociatedTokenAddress(mint, owner), isSigner: false, isWritable: true },
+      { pubkey: owner, isSigner: false, isWritable: false },
+      { pubkey: mint, isSigner: false, isWritable: false },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+    ],
+    data: Buffer.from([CREATE_IDEMPOTENT_INSTRUCTION]),
+  });
+};
+
+/**
+ * Read a mint's decimals from chain
+ * @throws If the mint account doesn't exist or isn't a token mint
+ */
+export const getMintDecimals = async (connection: Connection, mint: PublicKey): Promise<number> => {
+  const cacheKey = `${connection.rpcEndpoint}:${mint.toBase58()}`;
+  const cached = decimalsCache.get(cacheKey);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const accountInfo = await connection.getAccountInfo(mint);
+  if (!accountInfo || !accountInfo.owner.equals(TOKEN_PROGRAM_ID)) {
+    throw new Error(`Token mint ${mint.toBase58()} was not found on this cluster`);
+  }
+
+  const decimals = accountInfo.data[MINT_DECIMALS_OFFSET];
+  decimalsCache.set(cacheKey, decimals);
+  return decimals;
+};
+
+/**
+ * Get an owner's balance of a token in base units
+ * @returns 0 when the owner has no associated token account yet
+ */
+export const getTokenBalance = async (connection: Connection, owner: PublicKey, mint: PublicKey): Promise<bigint> => {
+  const accountInfo = await connection.getAccountInfo(getAssociatedTokenAddress(mint, owner));
+  if (!accountInfo) {
+    return BigInt(0);
+  }
+  return accountInfo.data.readBigUInt64LE(TOKEN_ACCOUNT_AMOUNT_OFFSET);
+};
+
+/**
+ * Convert a display amount (e.g. 1.5 USDC) to base units without floating point drift
+ */
+export const toBaseUnits = (amount: number, decimals: number): bigint => {
+  const [whole, fraction = ''] = amount.toFixed(decimals).split('.');
+  return BigInt(whole + fraction);
+};
+
+/**
+ * Convert base units back to a display amount
+ */
+export const fromBaseUnits = (baseUnits: bigint | number | string, decimals: number): number => {
+  return Number(baseUnits) / 10 ** decimals;
+};
@@ -0,0 +1,566 @@
+import {
+  Commitment,
+  ComputeBudgetProgram,
+  Connection,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  Signer,
+  Transaction,
+  TransactionError,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import type { PriorityFeeSetting } from '@/utils/clusterConfig';
+import { errorFromTransaction, toAppError, TransactionExpiredError } from '@/utils/errors';
+
+// Simulate → sign → send → rebroadcast until confirmed, reporting each step to the caller.
+// Used for every pay_to_reply instruction instead of Anchor's bare `.rpc()`.
+
+export type TransactionStage = 'simulating' | 'signing' | 'sent' | 'confirmed' | 'finalized' | 'failed';
+
+export interface TransactionEvent {
+  stage: TransactionStage;
+  // Set once the transaction has been signed
+  signature?: string;
+  // Signing attempt, starting at 1; a new attempt starts when the blockhash expires
+  attempt: number;
+  error?: Error;
+}
+
+export type TransactionEventListener = (event: TransactionEvent) => void;
+
+// The part of a wallet the sender needs
+export interface TransactionSigner {
+  publicKey: PublicKey;
+  signTransaction: <T extends Transaction | VersionedTransaction>(tx: T) => Promise<T>;
+}
+
+// A wallet that can sign several transactions in one prompt
+export interface BatchTransactionSigner extends TransactionSigner {
+  signAllTransactions: <T extends Transaction | VersionedTransaction>(txs: T[]) => Promise<T[]>;
+}
+
+export interface SendTransactionOptions {
+  onEvent?: TransactionEventListener;
+  commitment?: Commitment;
+  priorityFee?: PriorityFeeSetting;
+  // How many times to sign with a fresh blockhash before giving up
+  maxAttempts?: number;
+  // Keypairs that also sign, e.g. a new account being created
+  signers?: Signer[];
+}
+
+// Headroom on top of the simulated compute units
+const COMPUTE_UNIT_MARGIN = 1.2;
+const DEFAULT_COMPUTE_UNIT_LIMIT = 200_000;
+const MAX_COMPUTE_UNIT_LIMIT = 1_400_000;
+
+// Upper bound for 'auto' so a fee spike can't drain the wallet (0.001 SOL at 200k CU)
+const MAX_AUTO_PRIORITY_FEE = 5_000_000;
+
+const REBROADCAST_INTERVAL_MS = 2000;
+const FINALIZATION_TIMEOUT_MS = 90 * 1000;
+
+// Stands in for a real blockhash when measuring transaction size
+const PLACEHOLDER_BLOCKHASH = PublicKey.default.toBase58();
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Work out the compute-unit price to attach to a transaction
+ * @param connection Cluster connection
+ * @param setting A fixed price in micro-lamports, or 'auto'
+ * @param writableAccounts Accounts the transaction writes to, used to scope recent fees
+ * @returns The price in micro-lamports per compute unit
+ */
+export const getPriorityFee = async (
+  connection: Connection,
+  setting: PriorityFeeSetting,
+  writableAccounts: PublicKey[]
+): Promise<number> => {
+  if (setting !== 'auto') {
+    return setting;
+  }
+
+  try {
+    const recentFees = await connection.getRecentPrioritizationFees({
+      lockedWritableAccounts: writableAccounts,
+    });
+    const fees = recentFees
+      .map(fee => fee.prioritizationFee)
+      .filter(fee => fee > 0)
+      .sort((a, b) => a - b);
+
+    if (fees.length === 0) {
+      return 0;
+    }
+
+    // Median of the recent non-zero fees
+    const median = fees[Math.floor(fees.length / 2)];
+    return Math.min(median, MAX_AUTO_PRIORITY_FEE);
+  } catch (error) {
+    console.warn('Could not fetch recent prioritization fees, sending without a priority fee:', error);
+    return 0;
+  }
+};
+
+const getWritableAccounts = (instructions: TransactionInstruction[]): PublicKey[] => {
+  return instructions.flatMap(ix => ix.keys.filter(key => key.isWritable).map(key => key.pubkey));
+};
+
+const getComputeUnitLimit = (unitsConsumed?: number): number => {
+  return unitsConsumed
+    ? Math.min(Math.ceil(unitsConsumed * COMPUTE_UNIT_MARGIN), MAX_COMPUTE_UNIT_LIMIT)
+    : DEFAULT_COMPUTE_UNIT_LIMIT;
+};
+
+// Compute-unit limit (from simulation) and price instructions to prepend to a transaction
+const buildComputeBudgetInstructions = (unitsConsumed: number | undefined, microLamports: number): TransactionInstruction[] => {
+  const computeUnitLimit = getComputeUnitLimit(unitsConsumed);
+  console.log(`Compute unit limit: ${computeUnitLimit}, priority fee: ${microLamports} micro-lamports/CU`);
+
+  const budgetInstructions = [ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnitLimit })];
+  if (microLamports > 0) {
+    budgetInstructions.push(ComputeBudgetProgram.setComputeUnitPrice({ microLamports }));
+  }
+  return budgetInstructions;
+};
+
+/**
+ * Simulate instructions without a signature
+ * @returns Compute units consumed, if the RPC reported them
+ * @throws ProgramError, InsufficientFundsError or TransactionSimulationError if the simulation fails
+ */
+const simulateInstructions = async (
+  connection: Connection,
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  commitment: Commitment
+): Promise<number | undefined> => {
+  const { blockhash } = await connection.getLatestBlockhash(commitment);
+  const message = new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash: blockhash,
+    // Simulate with the maximum limit so the measurement isn't capped by the default
+    instructions: [ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNIT_LIMIT }), ...instructions],
+  }).compileToV0Message();
+
+  const { value } = await connection.simulateTransaction(new VersionedTransaction(message), {
+    sigVerify: false,
+    replaceRecentBlockhash: true,
+    commitment,
+  });
+
+  const logs = value.logs || [];
+  if (value.err) {
+    console.error('Simulation failed:', value.err, logs);
+    throw errorFromTransaction(value.err, logs);
+  }
+
+  console.log(`Simulation succeeded, ${value.unitsConsumed ?? 'unknown'} compute units consumed`);
+  return value.unitsConsumed;
+};
+
+export interface TransactionFeeEstimate {
+  computeUnitLimit: number;
+  // Compute-unit price in micro-lamports
+  microLamports: number;
+  // Base signature fee charged by the cluster
+  networkFeeLamports: number;
+  // computeUnitLimit * microLamports, rounded up to whole lamports
+  priorityFeeLamports: number;
+}
+
+export interface EstimateTransactionFeesOptions {
+  commitment?: Commitment;
+  priorityFee?: PriorityFeeSetting;
+}
+
+/**
+ * Estimate what sendTransaction will charge in fees for a set of instructions,
+ * using the same simulation and priority fee logic it uses when sending.
+ * If the simulation fails (e.g. the payer can't yet afford it), the default
+ * compute-unit limit is assumed so a breakdown can still be shown.
+ * @returns The network and priority fees in lamports
+ */
+export const estimateTransactionFees = async (
+  connection: Connection,
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  options: EstimateTransactionFeesOptions = {}
+): Promise<TransactionFeeEstimate> => {
+  const { commitment = 'confirmed', priorityFee = 'auto' } = options;
+
+  let unitsConsumed: number | undefined;
+  try {
+    unitsConsumed = await simulateInstructions(connection, payer, instructions, commitment);
+  } catch (error) {
+    console.warn('Simulation failed while estimating fees, assuming the default compute-unit limit:', error);
+  }
+
+  const computeUnitLimit = getComputeUnitLimit(unitsConsumed);
+  const microLamports = await getPriorityFee(connection, priorityFee, getWritableAccounts(instructions));
+
+  // Price the message without the compute-unit price so the base fee isn't mixed with the priority fee
+  const { blockhash } = await connection.getLatestBlockhash(commitment);
+  const message = new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash: blockhash,
+    instructions: [ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnitLimit }), ...instructions],
+  }).compileToV0Message();
+
+  const { value: networkFeeLamports } = await connection.getFeeForMessage(message, commitment);
+  if (networkFeeLamports === null) {
+    throw new Error('The cluster could not price the transaction. Please try again.');
+  }
+
+  const priorityFeeLamports = Math.ceil((computeUnitLimit * microLamports) / 1_000_000);
+  console.log(`Estimated fees: ${networkFeeLamports} lamports network, ${priorityFeeLamports} lamports priority (${computeUnitLimit} CU at ${microLamports} micro-lamports/CU)`);
+
+  return { computeUnitLimit, microLamports, networkFeeLamports, priorityFeeLamports };
+};
+
+/**
+ * Simulate instructions and work out the compute budget and priority fee instructions
+ * to put in front of them
+ * @throws ProgramError, InsufficientFundsError or TransactionSimulationError if the simulation fails
+ */
+export const prepareComputeBudget = async (
+  connection: Connection,
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  commitment: Commitment,
+  priorityFee: PriorityFeeSetting
+): Promise<TransactionInstruction[]> => {
+  const unitsConsumed = await simulateInstructions(connection, payer, instructions, commitment);
+  const microLamports = await getPriorityFee(connection, priorityFee, getWritableAccounts(instructions));
+  return buildComputeBudgetInstructions(unitsConsumed, microLamports);
+};
+
+/**
+ * Check whether a sent transaction has landed
+ * @param searchTransactionHistory Also look past the recent status cache
+ * @returns Whether it is confirmed
+ * @throws If the transaction landed but failed
+ */
+const isSignatureConfirmed = async (
+  connection: Connection,
+  signature: string,
+  searchTransactionHistory = false
+): Promise<boolean> => {
+  const { value: [status] } = await connection.getSignatureStatuses([signature], { searchTransactionHistory });
+
+  if (status?.err) {
+    const landed = await connection.getTransaction(signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0,
+    });
+    throw errorFromTransaction(status.err, landed?.meta?.logMessages || []);
+  }
+
+  return status?.confirmationStatus === 'confirmed' || status?.confirmationStatus === 'finalized';
+};
+
+/**
+ * Rebroadcast a signed transaction until it is confirmed or its blockhash expires
+ * @returns 'confirmed', or 'expired' if it can no longer land
+ * @throws If the transaction landed but failed
+ */
+const confirmWithRebroadcast = async (
+  connection: Connection,
+  signature: string,
+  rawTransaction: Buffer,
+  lastValidBlockHeight: number,
+  commitment: Commitment
+): Promise<'confirmed' | 'expired'> => {
+  while (true) {
+    if (await isSignatureConfirmed(connection, signature)) {
+      return 'confirmed';
+    }
+
+    const blockHeight = await connection.getBlockHeight(commitment);
+    if (blockHeight > lastValidBlockHeight) {
+      // It may have landed between the last status check and expiry; retrying it
+      // with a new blockhash would pay twice
+      return await isSignatureConfirmed(connection, signature, true) ? 'confirmed' : 'expired';
+    }
+
+    try {
+      await connection.sendRawTransaction(rawTransaction, { skipPreflight: true, maxRetries: 0 });
+    } catch (error) {
+      // Rebroadcasts are best-effort; the status check above decides the outcome
+      console.warn(`Rebroadcast of ${signature} failed:`, error);
+    }
+
+    await sleep(REBROADCAST_INTERVAL_MS);
+  }
+};
+
+// Poll in the background until the transaction is finalized, then emit 'finalized'
+const watchFinalization = async (
+  connection: Connection,
+  signature: string,
+  emit: (event: TransactionEvent) => void,
+  attempt: number
+) => {
+  const deadline = Date.now() + FINALIZATION_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    try {
+      const { value: [status] } = await connection.getSignatureStatuses([signature]);
+      if (status?.confirmationStatus === 'finalized') {
+        emit({ stage: 'finalized', signature, attempt });
+        return;
+      }
+    } catch (error) {
+      console.warn(`Failed to check finalization of ${signature}:`, error);
+    }
+    await sleep(REBROADCAST_INTERVAL_MS * 2);
+  }
+
+  console.warn(`Transaction ${signature} was not finalized within ${FINALIZATION_TIMEOUT_MS / 1000}s`);
+};
+
+/**
+ * Send instructions as one transaction: simulate, attach compute budget and priority
+ * fee, sign, and rebroadcast until confirmed. If the blockhash expires first, the
+ * transaction is re-signed with a fresh one up to `maxAttempts` times.
+ *
+ * Resolves once the transaction is confirmed; a 'finalized' event follows later.
+ * @returns The confirmed transaction signature
+ */
+export const sendTransaction = async (
+  connection: Connection,
+  wallet: TransactionSigner,
+  instructions: TransactionInstruction[],
+  options: SendTransactionOptions = {}
+): Promise<string> => {
+  const {
+    onEvent,
+    commitment = 'confirmed',
+    priorityFee = 'auto',
+    maxAttempts = 2,
+    signers = [],
+  } = options;
+
+  let attempt = 1;
+
+  const emit = (event: TransactionEvent) => {
+    console.log(`Transaction ${event.stage}${event.signature ? `: ${event.signature}` : ''} (attempt ${event.attempt})`);
+    try {
+      onEvent?.(event);
+    } catch (error) {
+      console.error('Transaction event listener threw:', error);
+    }
+  };
+
+  try {
+    emit({ stage: 'simulating', attempt });
+    const budgetInstructions = await prepareComputeBudget(connection, wallet.publicKey, instructions, commitment, priorityFee);
+
+    for (; attempt <= maxAttempts; attempt++) {
+      const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash(commitment);
+      const transaction = new Transaction({
+        feePayer: wallet.publicKey,
+        blockhash,
+        lastValidBlockHeight,
+      }).add(...budgetInstructions, ...instructions);
+
+      emit({ stage: 'signing', attempt });
+      const signed = await wallet.signTransaction(transaction);
+      if (signers.length > 0) {
+        signed.partialSign(...signers);
+      }
+      const rawTransaction = signed.serialize();
+
+      const signature = await connection.sendRawTransaction(rawTransaction, {
+        skipPreflight: true,
+        maxRetries: 0,
+      });
+      emit({ stage: 'sent', signature, attempt });
+
+      const outcome = await confirmWithRebroadcast(connection, signature, rawTransaction, lastValidBlockHeight, commitment);
+
+      if (outcome === 'confirmed') {
+        emit({ stage: 'confirmed', signature, attempt });
+        void watchFinalization(connection, signature, emit, attempt);
+        return signature;
+      }
+
+      console.warn(`Transaction ${signature} expired before confirmation`);
+    }
+
+    throw new TransactionExpiredError(maxAttempts);
+  } catch (error) {
+    const failure = toAppError(error);
+    emit({ stage: 'failed', attempt: Math.min(attempt, maxAttempts), error: failure });
+    throw failure;
+  }
+};
+
+export interface BatchInstructionResult {
+  signature?: string;
+  error?: Error;
+}
+
+export type BatchStage = 'simulating' | 'signing' | 'sending' | 'done';
+
+export interface BatchProgress {
+  stage: BatchStage;
+  transactionCount: number;
+  confirmedCount: number;
+}
+
+export interface SendInstructionBatchOptions {
+  onProgress?: (progress: BatchProgress) => void;
+  commitment?: Commitment;
+  priorityFee?: PriorityFeeSetting;
+}
+
+// Whether the instructions, plus compute budget, fit in one legacy transaction
+const fitsInTransaction = (payer: PublicKey, instructions: TransactionInstruction[]): boolean => {
+  const transaction = new Transaction({
+    feePayer: payer,
+    blockhash: PLACEHOLDER_BLOCKHASH,
+    lastValidBlockHeight: 0,
+  }).add(
+    ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNIT_LIMIT }),
+    ComputeBudgetProgram.setComputeUnitPrice({ microLamports: MAX_AUTO_PRIORITY_FEE }),
+    ...instructions
+  );
+
+  try {
+    return transaction.serialize({ requireAllSignatures: false, verifySignatures: false }).length <= PACKET_DATA_SIZE;
+  } catch {
+    // serialize() throws once the transaction is over the packet size
+    return false;
+  }
+};
+
+/**
+ * Send many independent instructions with a single wallet prompt.
+ *
+ * Each instruction is simulated on its own so one bad instruction doesn't sink the
+ * rest, the survivors are packed into as few transactions as fit (by size and compute
+ * units), all transactions are signed with signAllTransactions, then each is sent and
+ * rebroadcast until confirmed. Expired transactions are not re-signed.
+ * An entry may also be an array of instructions that depend on each other (e.g.
+ * creating a token account before paying into it); they are kept together.
+ * @returns One result per entry, in the same order
+ */
+export const sendInstructionBatch = async (
+  connection: Connection,
+  wallet: BatchTransactionSigner,
+  instructions: (TransactionInstruction | TransactionInstruction[])[],
+  options: SendInstructionBatchOptions = {}
+): Promise<BatchInstructionResult[]> => {
+  const { onProgress, commitment = 'confirmed', priorityFee = 'auto' } = options;
+  const entries = instructions.map(entry => Array.isArray(entry) ? entry : [entry]);
+  const results: BatchInstructionResult[] = entries.map(() => ({}));
+
+  const report = (progress: BatchProgress) => {
+    console.log(`Batch ${progress.stage}: ${progress.confirmedCount}/${progress.transactionCount} transactions confirmed`);
+    try {
+      onProgress?.(progress);
+    } catch (error) {
+      console.error('Batch progress listener threw:', error);
+    }
+  };
+
+  report({ stage: 'simulating', transactionCount: 0, confirmedCount: 0 });
+
+  // Simulate each instruction to weed out the ones that would fail
+  const unitsByIndex = new Map<number, number | undefined>();
+  for (let i = 0; i < entries.length; i++) {
+    try {
+      unitsByIndex.set(i, await simulateInstructions(connection, wallet.publicKey, entries[i], commitment));
+    } catch (error) {
+      results[i].error = toAppError(error);
+    }
+  }
+
+  // Pack the instructions that simulated cleanly, in order
+  const groups: { indexes: number[]; units: number }[] = [];
+  for (const [index, units] of unitsByIndex) {
+    const instructionUnits = units ?? DEFAULT_COMPUTE_UNIT_LIMIT;
+    const current = groups[groups.length - 1];
+
+    if (
+      current &&
+      getComputeUnitLimit(current.units + instructionUnits) < MAX_COMPUTE_UNIT_LIMIT &&
+      fitsInTransaction(wallet.publicKey, [...current.indexes, index].flatMap(i => entries[i]))
+    ) {
+      current.indexes.push(index);
+      current.units += instructionUnits;
+    } else {
+      groups.push({ indexes: [index], units: instructionUnits });
+    }
+  }
+
+  if (groups.length === 0) {
+    report({ stage: 'done', transactionCount: 0, confirmedCount: 0 });
+    return results;
+  }
+
+  console.log(`Packed ${unitsByIndex.size} instructions into ${groups.length} transactions`);
+
+  const failGroup = (indexes: number[], error: unknown) => {
+    const failure = toAppError(error);
+    indexes.forEach(i => {
+      results[i].error = failure;
+    });
+  };
+
+  try {
+    const groupInstructions = groups.map(group => group.indexes.flatMap(i => entries[i]));
+    const microLamports = await getPriorityFee(connection, priorityFee, getWritableAccounts(groupInstructions.flat()));
+    const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash(commitment);
+
+    const transactions = groups.map((group, g) => new Transaction({
+      feePayer: wallet.publicKey,
+      blockhash,
+      lastValidBlockHeight,
+    }).add(...buildComputeBudgetInstructions(group.units, microLamports), ...groupInstructions[g]));
+
+    report({ stage: 'signing', transactionCount: groups.length, confirmedCount: 0 });
+    const signed = await wallet.signAllTransactions(transactions);
+
+    report({ stage: 'sending', transactionCount: groups.length, confirmedCount: 0 });
+    let confirmedCount = 0;
+
+    await Promise.all(signed.map(async (transaction, g) => {
+      const { indexes } = groups[g];
+      try {
+        const rawTransaction = transaction.serialize();
+        const signature = await connection.sendRawTransaction(rawTransaction, {
+          skipPreflight: true,
+          maxRetries: 0,
+        });
+
+        const outcome = await confirmWithRebroadcast(connection, signature, rawTransaction, lastValidBlockHeight, commitment);
+        if (outcome === 'expired') {
+          throw new TransactionExpiredError(1);
+        }
+
+        indexes.forEach(i => {
+          results[i].signature = signature;
+        });
+        confirmedCount++;
+        report({ stage: 'sending', transactionCount: groups.length, confirmedCount });
+      } catch (error) {
+        console.error(`Batch transaction ${g + 1}/${groups.length} failed:`, error);
+        failGroup(indexes, error);
+      }
+    }));
+
+    report({ stage: 'done', transactionCount: groups.length, confirmedCount });
+  } catch (error) {
+    // Signing was rejected or the cluster couldn't be reached; nothing was sent
+    console.error('Batch failed before sending:', error);
+    failGroup(groups.flatMap(group => group.indexes), error);
+    report({ stage: 'done', transactionCount: groups.length, confirmedCount: 0 });
+  }
+
+  return results;
+};
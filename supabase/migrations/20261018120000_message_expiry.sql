@@ -0,0 +1,8 @@
+-- Deadline after which the sender may reclaim an unanswered message payment.
+-- NULL means the escrow never expires (all messages sent before this change).
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS expires_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS messages_pending_expiry_idx
+  ON public.messages (expires_at)
+  WHERE status = 'pending' AND expires_at IS NOT NULL;
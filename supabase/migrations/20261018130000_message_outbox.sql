@@ -0,0 +1,9 @@
+-- Outbox for paid messages: the row is written as 'submitting' before the
+-- escrow transaction is signed, then moved to 'pending' once it confirms.
+-- Rows whose transaction never landed fall back to 'draft' so they can be retried.
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS escrow_address text;
+
+CREATE INDEX IF NOT EXISTS messages_outbox_idx
+  ON public.messages (sender_id, created_at)
+  WHERE status IN ('draft', 'submitting');
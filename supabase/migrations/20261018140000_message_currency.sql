@@ -0,0 +1,6 @@
+-- Paid messages can be paid in SOL or in an SPL token such as USDC.
+-- amount stays in display units of the currency (SOL, not lamports); mint is
+-- null for SOL and the token mint address otherwise.
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'SOL',
+  ADD COLUMN IF NOT EXISTS mint text;
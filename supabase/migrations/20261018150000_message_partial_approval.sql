@@ -0,0 +1,6 @@
+-- Recipients can approve part of a payment and refund the rest to the sender.
+-- approved_amount is the recipient's share, in the message's currency; null
+-- means an approved message paid out its full amount.
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS approved_amount numeric
+    CHECK (approved_amount IS NULL OR (approved_amount > 0 AND approved_amount <= amount));
@@ -0,0 +1,22 @@
+-- The inbox pages through a profile's sent or received messages in the database,
+-- ordered by date or amount with the id breaking ties (see fetchMessagePage).
+CREATE INDEX IF NOT EXISTS messages_recipient_created_idx
+  ON public.messages (recipient_id, created_at, id);
+
+CREATE INDEX IF NOT EXISTS messages_sender_created_idx
+  ON public.messages (sender_id, created_at, id);
+
+CREATE INDEX IF NOT EXISTS messages_recipient_amount_idx
+  ON public.messages (recipient_id, amount, id);
+
+CREATE INDEX IF NOT EXISTS messages_sender_amount_idx
+  ON public.messages (sender_id, amount, id);
+
+-- Substring search (ILIKE '%term%') over message content and usernames
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+CREATE INDEX IF NOT EXISTS messages_content_trgm_idx
+  ON public.messages USING gin (content extensions.gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS profiles_username_trgm_idx
+  ON public.profiles USING gin (username extensions.gin_trgm_ops);
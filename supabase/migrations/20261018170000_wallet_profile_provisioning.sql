@@ -0,0 +1,109 @@
+-- Each wallet belongs to at most one profile (see profileService.ts). Messages to or
+-- from a wallet without an account create a placeholder profile for it, which the
+-- Twitter account that later links the same wallet claims.
+
+-- A placeholder is a profile no signed-in user owns
+CREATE OR REPLACE FUNCTION public.is_placeholder_profile(p_profile_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (SELECT 1 FROM auth.users WHERE id = p_profile_id)
+    AND NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = p_profile_id AND twitter_id IS NOT NULL);
+$$;
+
+-- Move a profile's messages to another profile and delete it
+CREATE OR REPLACE FUNCTION public.merge_profile(p_from uuid, p_into uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.messages SET sender_id = p_into WHERE sender_id = p_from;
+  UPDATE public.messages SET recipient_id = p_into WHERE recipient_id = p_from;
+  DELETE FROM public.profiles WHERE id = p_from;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.is_placeholder_profile(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.merge_profile(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Fold the duplicates earlier reads and sends created into one profile per wallet,
+-- keeping a real account over a placeholder and otherwise the oldest profile. Real
+-- accounts that lose out keep their messages but have to link the wallet again.
+DO $$
+DECLARE
+  duplicate record;
+  keeper uuid;
+BEGIN
+  FOR duplicate IN
+    SELECT wallet_address FROM public.profiles
+    WHERE wallet_address IS NOT NULL
+    GROUP BY wallet_address
+    HAVING count(*) > 1
+  LOOP
+    SELECT id INTO keeper FROM public.profiles
+    WHERE wallet_address = duplicate.wallet_address
+    ORDER BY public.is_placeholder_profile(id), created_at, id
+    LIMIT 1;
+
+    PERFORM public.merge_profile(id, keeper) FROM public.profiles
+    WHERE wallet_address = duplicate.wallet_address
+      AND id <> keeper
+      AND public.is_placeholder_profile(id);
+
+    UPDATE public.profiles SET wallet_address = NULL, wallet_name = NULL
+    WHERE wallet_address = duplicate.wallet_address AND id <> keeper;
+  END LOOP;
+END;
+$$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS profiles_wallet_address_key
+  ON public.profiles (wallet_address);
+
+-- Link a wallet to the caller's profile, taking over the wallet's placeholder profile
+-- and its messages. Returns how many messages moved over.
+CREATE OR REPLACE FUNCTION public.claim_wallet_profile(p_wallet_address text, p_wallet_name text DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller uuid := auth.uid();
+  current_owner uuid;
+  moved integer := 0;
+BEGIN
+  IF caller IS NULL THEN
+    RAISE EXCEPTION 'Sign in before linking a wallet' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT id INTO current_owner FROM public.profiles
+  WHERE wallet_address = p_wallet_address
+  FOR UPDATE;
+
+  IF current_owner IS NOT NULL AND current_owner <> caller THEN
+    IF NOT public.is_placeholder_profile(current_owner) THEN
+      RAISE EXCEPTION 'Wallet % is already linked to another account', p_wallet_address
+        USING ERRCODE = 'unique_violation';
+    END IF;
+
+    SELECT count(*) INTO moved FROM public.messages
+    WHERE sender_id = current_owner OR recipient_id = current_owner;
+
+    PERFORM public.merge_profile(current_owner, caller);
+  END IF;
+
+  UPDATE public.profiles
+  SET wallet_address = p_wallet_address, wallet_name = p_wallet_name, updated_at = now()
+  WHERE id = caller;
+
+  RETURN moved;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_wallet_profile(text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.claim_wallet_profile(text, text) TO authenticated;
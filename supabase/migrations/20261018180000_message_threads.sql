@@ -0,0 +1,56 @@
+-- Conversations: after a paid message, the sender and recipient can keep writing to
+-- each other. Replies are unpaid messages rows with status 'reply' that point at the
+-- paid message starting the thread (see threadService.ts). Inbox queries and the
+-- escrow reconciler skip them by status.
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS parent_message_id uuid
+    REFERENCES public.messages (id) ON DELETE CASCADE;
+
+ALTER TABLE public.messages
+  ADD CONSTRAINT messages_reply_has_parent
+    CHECK ((parent_message_id IS NOT NULL) = (status = 'reply'));
+
+CREATE INDEX IF NOT EXISTS messages_parent_created_idx
+  ON public.messages (parent_message_id, created_at)
+  WHERE parent_message_id IS NOT NULL;
+
+-- Replies hang off a paid message, carry no payment, and are between its two parties
+CREATE OR REPLACE FUNCTION public.check_message_reply()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  parent public.messages;
+BEGIN
+  IF NEW.parent_message_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO parent FROM public.messages WHERE id = NEW.parent_message_id;
+
+  IF parent.parent_message_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Replies must point at the paid message that started the conversation';
+  END IF;
+
+  IF parent.status IN ('draft', 'submitting') THEN
+    RAISE EXCEPTION 'Cannot reply to a message that has not been paid for';
+  END IF;
+
+  IF NOT ((NEW.sender_id = parent.sender_id AND NEW.recipient_id = parent.recipient_id)
+       OR (NEW.sender_id = parent.recipient_id AND NEW.recipient_id = parent.sender_id)) THEN
+    RAISE EXCEPTION 'Only the sender and recipient of a message can reply to it';
+  END IF;
+
+  IF NEW.amount <> 0 OR NEW.escrow_address IS NOT NULL THEN
+    RAISE EXCEPTION 'Replies cannot carry a payment';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_message_reply ON public.messages;
+CREATE TRIGGER check_message_reply
+  BEFORE INSERT OR UPDATE OF parent_message_id, sender_id, recipient_id, amount ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.check_message_reply();
@@ -0,0 +1,37 @@
+-- Senders can require an answer for their money: the recipient has to reply before
+-- approving, and the paid message links to that reply (answer_message_id) so the
+-- sender sees it with the message.
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS requires_reply boolean NOT NULL DEFAULT false;
+
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS answer_message_id uuid
+    REFERENCES public.messages (id) ON DELETE SET NULL;
+
+-- The answer is the recipient's reply in this message's own thread
+CREATE OR REPLACE FUNCTION public.check_message_answer()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  answer public.messages;
+BEGIN
+  IF NEW.answer_message_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO answer FROM public.messages WHERE id = NEW.answer_message_id;
+
+  IF answer.parent_message_id IS DISTINCT FROM NEW.id OR answer.sender_id <> NEW.recipient_id THEN
+    RAISE EXCEPTION 'A message can only be answered by its recipient''s reply to it';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_message_answer ON public.messages;
+CREATE TRIGGER check_message_answer
+  BEFORE INSERT OR UPDATE OF answer_message_id ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.check_message_answer();
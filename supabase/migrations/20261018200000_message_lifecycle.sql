@@ -0,0 +1,96 @@
+-- Message statuses follow a fixed lifecycle (MESSAGE_TRANSITIONS in messageService.ts):
+--   draft -> submitting -> pending (or back to draft if the payment never landed)
+--   pending -> approved | rejected | expired | refunded
+--   expired -> refunded | rejected
+--   approved -> donated
+-- 'refunded' is a payment the sender reclaimed after its deadline, which used to be
+-- recorded as 'expired'. Every change is appended to message_events.
+
+-- Every expired row so far was written by a reclaim
+UPDATE public.messages SET status = 'refunded' WHERE status = 'expired';
+
+CREATE OR REPLACE FUNCTION public.message_status_transition_allowed(p_from text, p_to text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT p_from = p_to OR (p_from, p_to) IN (
+    ('draft', 'submitting'),
+    ('submitting', 'pending'),
+    ('submitting', 'draft'),
+    ('pending', 'approved'),
+    ('pending', 'rejected'),
+    ('pending', 'expired'),
+    ('pending', 'refunded'),
+    ('expired', 'refunded'),
+    ('expired', 'rejected'),
+    ('approved', 'donated')
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.check_message_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.message_status_transition_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Invalid message status transition: % -> %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_message_status_transition ON public.messages;
+CREATE TRIGGER check_message_status_transition
+  BEFORE UPDATE OF status ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.check_message_status_transition();
+
+-- Audit log of status changes. actor_id is null for changes synced from chain state.
+CREATE TABLE IF NOT EXISTS public.message_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid NOT NULL REFERENCES public.messages (id) ON DELETE CASCADE,
+  from_status text,
+  to_status text NOT NULL,
+  actor_id uuid REFERENCES public.profiles (id) ON DELETE SET NULL,
+  transaction_signature text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS message_events_message_created_idx
+  ON public.message_events (message_id, created_at);
+
+-- Events are never rewritten; they only go away with their message
+CREATE OR REPLACE FUNCTION public.prevent_message_event_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Message events are append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_message_event_update ON public.message_events;
+CREATE TRIGGER prevent_message_event_update
+  BEFORE UPDATE ON public.message_events
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_message_event_update();
+
+-- Give existing paid messages a history: sent when created, then settled when last updated
+INSERT INTO public.message_events (message_id, from_status, to_status, actor_id, transaction_signature, created_at)
+SELECT id, NULL, 'pending', sender_id, NULL, created_at
+FROM public.messages
+WHERE status NOT IN ('draft', 'submitting', 'reply');
+
+INSERT INTO public.message_events (message_id, from_status, to_status, actor_id, transaction_signature, created_at)
+SELECT
+  id,
+  'pending',
+  status,
+  CASE WHEN status = 'refunded' THEN sender_id ELSE recipient_id END,
+  transaction_signature,
+  updated_at
+FROM public.messages
+WHERE status IN ('approved', 'rejected', 'refunded');
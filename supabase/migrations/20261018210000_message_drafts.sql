@@ -0,0 +1,56 @@
+-- Unsent compose drafts, one per sender and recipient. The browser keeps its own copy
+-- in localStorage; this table lets a draft follow the sender's wallet to another device.
+-- Drafts have no payment yet, so they are separate from the outbox 'draft' messages.
+CREATE TABLE IF NOT EXISTS public.message_drafts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  sender_id uuid NOT NULL REFERENCES public.profiles (id) ON DELETE CASCADE,
+  recipient_id uuid NOT NULL REFERENCES public.profiles (id) ON DELETE CASCADE,
+  content text NOT NULL,
+  amount numeric NOT NULL DEFAULT 0,
+  currency text NOT NULL DEFAULT 'SOL',
+  mint text,
+  -- One of EXPIRY_OPTIONS in messageService.ts
+  expiry text,
+  requires_reply boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT message_drafts_sender_recipient_key UNIQUE (sender_id, recipient_id)
+);
+
+CREATE INDEX IF NOT EXISTS message_drafts_sender_updated_idx
+  ON public.message_drafts (sender_id, updated_at DESC);
+
+-- Claiming a placeholder profile brings its drafts (and its event history) along.
+-- Where both profiles have a draft for the same recipient, the account's own one wins.
+CREATE OR REPLACE FUNCTION public.merge_profile(p_from uuid, p_into uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.messages SET sender_id = p_into WHERE sender_id = p_from;
+  UPDATE public.messages SET recipient_id = p_into WHERE recipient_id = p_from;
+  UPDATE public.message_events SET actor_id = p_into WHERE actor_id = p_from;
+
+  DELETE FROM public.message_drafts placeholder
+  WHERE placeholder.sender_id = p_from
+    AND EXISTS (
+      SELECT 1 FROM public.message_drafts own
+      WHERE own.sender_id = p_into AND own.recipient_id = placeholder.recipient_id
+    );
+  UPDATE public.message_drafts SET sender_id = p_into WHERE sender_id = p_from;
+
+  DELETE FROM public.message_drafts placeholder
+  WHERE placeholder.recipient_id = p_from
+    AND EXISTS (
+      SELECT 1 FROM public.message_drafts own
+      WHERE own.recipient_id = p_into AND own.sender_id = placeholder.sender_id
+    );
+  UPDATE public.message_drafts SET recipient_id = p_into WHERE recipient_id = p_from;
+
+  DELETE FROM public.profiles WHERE id = p_from;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.merge_profile(uuid, uuid) FROM PUBLIC, anon, authenticated;
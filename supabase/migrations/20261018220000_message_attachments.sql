@@ -0,0 +1,99 @@
+-- Files attached to paid messages. The files live in the private message-attachments
+-- Storage bucket under the uploader's user id; message_attachments links each one to
+-- its message. Only the message's sender and recipient can list or download them.
+-- Limits match MAX_ATTACHMENT_BYTES and ATTACHMENT_CONTENT_TYPES in attachmentService.ts.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'message-attachments',
+  'message-attachments',
+  false,
+  10485760,
+  ARRAY[
+    'image/png',
+    'image/jpeg',
+    'image/gif',
+    'image/webp',
+    'application/pdf',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'text/plain',
+    'text/markdown',
+    'text/csv',
+    'application/json'
+  ]
+)
+ON CONFLICT (id) DO UPDATE SET
+  public = EXCLUDED.public,
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+CREATE TABLE IF NOT EXISTS public.message_attachments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid NOT NULL REFERENCES public.messages (id) ON DELETE CASCADE,
+  uploader_id uuid NOT NULL REFERENCES public.profiles (id) ON DELETE CASCADE,
+  file_name text NOT NULL,
+  content_type text NOT NULL,
+  size_bytes bigint NOT NULL CHECK (size_bytes > 0 AND size_bytes <= 10485760),
+  -- Object name in the message-attachments bucket: <uploader id>/<random id>/<file name>
+  storage_path text NOT NULL UNIQUE,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS message_attachments_message_idx
+  ON public.message_attachments (message_id);
+
+-- Whether the signed-in user sent or received a message
+CREATE OR REPLACE FUNCTION public.is_message_participant(p_message_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.messages
+    WHERE id = p_message_id AND auth.uid() IN (sender_id, recipient_id)
+  );
+$$;
+
+ALTER TABLE public.message_attachments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Participants can see attachments" ON public.message_attachments;
+CREATE POLICY "Participants can see attachments"
+  ON public.message_attachments FOR SELECT TO authenticated
+  USING (public.is_message_participant(message_id));
+
+-- Only the sender attaches files, and only ones they uploaded
+DROP POLICY IF EXISTS "Senders can attach their uploads" ON public.message_attachments;
+CREATE POLICY "Senders can attach their uploads"
+  ON public.message_attachments FOR INSERT TO authenticated
+  WITH CHECK (
+    uploader_id = auth.uid()
+    AND split_part(storage_path, '/', 1) = auth.uid()::text
+    AND EXISTS (SELECT 1 FROM public.messages WHERE id = message_id AND sender_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Users upload attachments to their own folder" ON storage.objects;
+CREATE POLICY "Users upload attachments to their own folder"
+  ON storage.objects FOR INSERT TO authenticated
+  WITH CHECK (bucket_id = 'message-attachments' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Uploaders can clean up files that never made it onto a message
+DROP POLICY IF EXISTS "Users delete their own attachment uploads" ON storage.objects;
+CREATE POLICY "Users delete their own attachment uploads"
+  ON storage.objects FOR DELETE TO authenticated
+  USING (bucket_id = 'message-attachments' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Participants download attachments" ON storage.objects;
+CREATE POLICY "Participants download attachments"
+  ON storage.objects FOR SELECT TO authenticated
+  USING (
+    bucket_id = 'message-attachments'
+    AND (
+      (storage.foldername(name))[1] = auth.uid()::text
+      OR EXISTS (
+        SELECT 1 FROM public.message_attachments attachment
+        WHERE attachment.storage_path = objects.name
+          AND public.is_message_participant(attachment.message_id)
+      )
+    )
+  );
@@ -0,0 +1,46 @@
+-- Optional end-to-end encryption of message content (see encryptionService.ts). Each
+-- user can publish an X25519 public key derived from a wallet signature; messages to
+-- a recipient with a key are stored as ciphertext in encrypted_content, with one copy
+-- for the recipient and one for the sender, and an empty content column.
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS encryption_public_key text
+    CHECK (encryption_public_key ~ '^[A-Za-z0-9+/]{43}=$');
+
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS encrypted_content jsonb;
+
+-- The plaintext must never be stored next to its ciphertext
+ALTER TABLE public.messages
+  DROP CONSTRAINT IF EXISTS messages_encrypted_content_check;
+ALTER TABLE public.messages
+  ADD CONSTRAINT messages_encrypted_content_check
+    CHECK (encrypted_content IS NULL OR content = '');
+
+-- Publish the caller's encryption key. The wallet must be linked to the caller's
+-- profile, so nobody can swap in a key for someone else's wallet.
+CREATE OR REPLACE FUNCTION public.publish_encryption_key(p_wallet_address text, p_public_key text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller uuid := auth.uid();
+BEGIN
+  IF caller IS NULL THEN
+    RAISE EXCEPTION 'Sign in before turning on encryption' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE public.profiles
+  SET encryption_public_key = p_public_key, updated_at = now()
+  WHERE id = caller AND wallet_address = p_wallet_address;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Wallet % is not linked to your account', p_wallet_address
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.publish_encryption_key(text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.publish_encryption_key(text, text) TO authenticated;
@@ -0,0 +1,96 @@
+-- Paid messages queued to be sent later (see scheduledMessageService.ts). The sender
+-- signs the escrow transaction when scheduling, against a durable nonce account they
+-- own instead of a blockhash, so it stays valid until it is used.
+-- scripts/send-scheduled-messages.ts submits due rows with the service role and
+-- writes the message, so the sender doesn't have to be online.
+CREATE TABLE IF NOT EXISTS public.scheduled_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id text NOT NULL UNIQUE,
+  sender_id uuid NOT NULL REFERENCES public.profiles (id) ON DELETE CASCADE,
+  recipient_id uuid NOT NULL REFERENCES public.profiles (id) ON DELETE CASCADE,
+  -- Stored the way messages stores it: empty, with encrypted_content, if encrypted
+  content text NOT NULL,
+  encrypted_content jsonb,
+  amount numeric NOT NULL CHECK (amount > 0),
+  currency text NOT NULL DEFAULT 'SOL',
+  mint text,
+  requires_reply boolean NOT NULL DEFAULT false,
+  expires_at timestamptz,
+  escrow_address text NOT NULL,
+  send_at timestamptz NOT NULL,
+  nonce_account text NOT NULL,
+  -- Base64 of the fully signed transaction
+  signed_transaction text NOT NULL,
+  status text NOT NULL DEFAULT 'scheduled'
+    CHECK (status IN ('scheduled', 'sending', 'sent', 'failed', 'cancelled')),
+  transaction_signature text,
+  -- Why sending failed
+  error text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT scheduled_messages_encrypted_content_check
+    CHECK (encrypted_content IS NULL OR content = '')
+);
+
+CREATE INDEX IF NOT EXISTS scheduled_messages_due_idx
+  ON public.scheduled_messages (send_at)
+  WHERE status IN ('scheduled', 'sending');
+
+CREATE INDEX IF NOT EXISTS scheduled_messages_sender_idx
+  ON public.scheduled_messages (sender_id, send_at DESC);
+
+ALTER TABLE public.scheduled_messages ENABLE ROW LEVEL SECURITY;
+
+-- The signed transaction is only for the sender and the runner (service role)
+DROP POLICY IF EXISTS "Senders can see their scheduled messages" ON public.scheduled_messages;
+CREATE POLICY "Senders can see their scheduled messages"
+  ON public.scheduled_messages FOR SELECT TO authenticated
+  USING (sender_id = auth.uid());
+
+DROP POLICY IF EXISTS "Senders can schedule messages" ON public.scheduled_messages;
+CREATE POLICY "Senders can schedule messages"
+  ON public.scheduled_messages FOR INSERT TO authenticated
+  WITH CHECK (sender_id = auth.uid() AND status = 'scheduled');
+
+-- Senders can edit or cancel a message until the runner picks it up; only the runner
+-- marks messages sent or failed
+DROP POLICY IF EXISTS "Senders can edit or cancel scheduled messages" ON public.scheduled_messages;
+CREATE POLICY "Senders can edit or cancel scheduled messages"
+  ON public.scheduled_messages FOR UPDATE TO authenticated
+  USING (sender_id = auth.uid() AND status = 'scheduled')
+  WITH CHECK (sender_id = auth.uid() AND status IN ('scheduled', 'cancelled'));
+
+-- Scheduled messages to a placeholder profile follow it when it is claimed
+CREATE OR REPLACE FUNCTION public.merge_profile(p_from uuid, p_into uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.messages SET sender_id = p_into WHERE sender_id = p_from;
+  UPDATE public.messages SET recipient_id = p_into WHERE recipient_id = p_from;
+  UPDATE public.message_events SET actor_id = p_into WHERE actor_id = p_from;
+  UPDATE public.scheduled_messages SET recipient_id = p_into WHERE recipient_id = p_from;
+
+  DELETE FROM public.message_drafts placeholder
+  WHERE placeholder.sender_id = p_from
+    AND EXISTS (
+      SELECT 1 FROM public.message_drafts own
+      WHERE own.sender_id = p_into AND own.recipient_id = placeholder.recipient_id
+    );
+  UPDATE public.message_drafts SET sender_id = p_into WHERE sender_id = p_from;
+
+  DELETE FROM public.message_drafts placeholder
+  WHERE placeholder.recipient_id = p_from
+    AND EXISTS (
+      SELECT 1 FROM public.message_drafts own
+      WHERE own.recipient_id = p_into AND own.sender_id = placeholder.sender_id
+    );
+  UPDATE public.message_drafts SET recipient_id = p_into WHERE recipient_id = p_from;
+
+  DELETE FROM public.profiles WHERE id = p_from;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.merge_profile(uuid, uuid) FROM PUBLIC, anon, authenticated;
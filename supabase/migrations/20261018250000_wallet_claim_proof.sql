@@ -0,0 +1,169 @@
+-- Linking a wallet takes over its placeholder profile and messages, so the caller has
+-- to prove they hold the wallet: they ask for a one-time challenge, sign it with the
+-- wallet, and claim_wallet_profile checks the ed25519 signature against the address.
+
+CREATE EXTENSION IF NOT EXISTS pgsodium;
+
+-- The challenge a signed-in user was last issued for a wallet; used up by a claim
+CREATE TABLE IF NOT EXISTS public.wallet_claim_challenges (
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  wallet_address text NOT NULL,
+  message text NOT NULL,
+  expires_at timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, wallet_address)
+);
+
+-- No policies: only the functions below read or write challenges
+ALTER TABLE public.wallet_claim_challenges ENABLE ROW LEVEL SECURITY;
+
+-- Solana addresses are base58 encoded public keys
+CREATE OR REPLACE FUNCTION public.base58_decode(p_value text)
+RETURNS bytea
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  alphabet constant text := '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+  value numeric := 0;
+  digit integer;
+  leading_zeros integer := 0;
+  decoded bytea := '';
+BEGIN
+  FOR i IN 1..length(p_value) LOOP
+    digit := strpos(alphabet, substr(p_value, i, 1)) - 1;
+    IF digit < 0 THEN
+      RAISE EXCEPTION 'Invalid base58 character in %', p_value USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+    value := value * 58 + digit;
+  END LOOP;
+
+  -- Each leading '1' is a zero byte
+  WHILE leading_zeros < length(p_value) AND substr(p_value, leading_zeros + 1, 1) = '1' LOOP
+    leading_zeros := leading_zeros + 1;
+  END LOOP;
+
+  WHILE value > 0 LOOP
+    decoded := set_byte('\x00'::bytea, 0, mod(value, 256)::integer) || decoded;
+    value := div(value, 256);
+  END LOOP;
+
+  RETURN decode(repeat('00', leading_zeros), 'hex') || decoded;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.base58_decode(text) FROM PUBLIC, anon, authenticated;
+
+-- Issue the message the caller must sign with a wallet to link it. Asking again
+-- replaces the previous challenge for that wallet.
+CREATE OR REPLACE FUNCTION public.issue_wallet_claim_challenge(p_wallet_address text)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller uuid := auth.uid();
+  challenge text;
+BEGIN
+  IF caller IS NULL THEN
+    RAISE EXCEPTION 'Sign in before linking a wallet' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  challenge := format(
+    E'Squeaky Wheel wallet link\n\nSign this to link wallet %s to your account.\nIt is free and does not send a transaction.\n\nNonce: %s',
+    p_wallet_address,
+    gen_random_uuid()
+  );
+
+  INSERT INTO public.wallet_claim_challenges (user_id, wallet_address, message, expires_at)
+  VALUES (caller, p_wallet_address, challenge, now() + interval '10 minutes')
+  ON CONFLICT (user_id, wallet_address)
+  DO UPDATE SET message = EXCLUDED.message, expires_at = EXCLUDED.expires_at, created_at = now();
+
+  RETURN challenge;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.issue_wallet_claim_challenge(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.issue_wallet_claim_challenge(text) TO authenticated;
+
+-- Replaced by a version that takes the wallet's signature over its challenge
+DROP FUNCTION IF EXISTS public.claim_wallet_profile(text, text);
+
+-- Link a wallet to the caller's profile, taking over the wallet's placeholder profile
+-- and its messages, once p_signature (base64) proves the caller holds the wallet.
+-- Returns how many messages moved over.
+CREATE OR REPLACE FUNCTION public.claim_wallet_profile(
+  p_wallet_address text,
+  p_signature text,
+  p_wallet_name text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller uuid := auth.uid();
+  challenge public.wallet_claim_challenges%ROWTYPE;
+  verified boolean;
+  current_owner uuid;
+  moved integer := 0;
+BEGIN
+  IF caller IS NULL THEN
+    RAISE EXCEPTION 'Sign in before linking a wallet' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  DELETE FROM public.wallet_claim_challenges
+  WHERE user_id = caller AND wallet_address = p_wallet_address
+  RETURNING * INTO challenge;
+
+  IF challenge.message IS NULL OR challenge.expires_at < now() THEN
+    RAISE EXCEPTION 'The request to link wallet % has expired', p_wallet_address
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Malformed addresses and signatures don't verify either
+  BEGIN
+    verified := pgsodium.crypto_sign_verify_detached(
+      decode(p_signature, 'base64'),
+      convert_to(challenge.message, 'UTF8'),
+      public.base58_decode(p_wallet_address)
+    );
+  EXCEPTION WHEN others THEN
+    verified := false;
+  END;
+
+  IF NOT verified THEN
+    RAISE EXCEPTION 'The signature does not prove ownership of wallet %', p_wallet_address
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT id INTO current_owner FROM public.profiles
+  WHERE wallet_address = p_wallet_address
+  FOR UPDATE;
+
+  IF current_owner IS NOT NULL AND current_owner <> caller THEN
+    IF NOT public.is_placeholder_profile(current_owner) THEN
+      RAISE EXCEPTION 'Wallet % is already linked to another account', p_wallet_address
+        USING ERRCODE = 'unique_violation';
+    END IF;
+
+    SELECT count(*) INTO moved FROM public.messages
+    WHERE sender_id = current_owner OR recipient_id = current_owner;
+
+    PERFORM public.merge_profile(current_owner, caller);
+  END IF;
+
+  UPDATE public.profiles
+  SET wallet_address = p_wallet_address, wallet_name = p_wallet_name, updated_at = now()
+  WHERE id = caller;
+
+  RETURN moved;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_wallet_profile(text, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.claim_wallet_profile(text, text, text) TO authenticated;
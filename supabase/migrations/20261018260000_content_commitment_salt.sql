@@ -0,0 +1,22 @@
+-- The content hash committed on chain is public, so new messages commit a random salt
+-- in front of the content (see contentCommitment.ts). Encrypted messages carry the
+-- salt inside their ciphertext; plaintext messages store it here. Null for messages
+-- committed before salting.
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS content_salt text;
+
+ALTER TABLE public.scheduled_messages
+  ADD COLUMN IF NOT EXISTS content_salt text;
+
+-- A salt stored next to ciphertext would let anyone confirm a guess at the content
+ALTER TABLE public.messages
+  DROP CONSTRAINT IF EXISTS messages_content_salt_check;
+ALTER TABLE public.messages
+  ADD CONSTRAINT messages_content_salt_check
+    CHECK (encrypted_content IS NULL OR content_salt IS NULL);
+
+ALTER TABLE public.scheduled_messages
+  DROP CONSTRAINT IF EXISTS scheduled_messages_content_salt_check;
+ALTER TABLE public.scheduled_messages
+  ADD CONSTRAINT scheduled_messages_content_salt_check
+    CHECK (encrypted_content IS NULL OR content_salt IS NULL);
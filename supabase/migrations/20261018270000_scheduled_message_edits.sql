@@ -0,0 +1,61 @@
+-- Senders could update any column of a scheduled message, including its recipient,
+-- escrow and signed transaction. Edits and cancels now go through functions that only
+-- touch the columns a sender may change. The runner still checks the signed
+-- transaction against the row before sending it (see scheduledMessageRunner.ts), since
+-- the sender writes both.
+DROP POLICY IF EXISTS "Senders can edit or cancel scheduled messages" ON public.scheduled_messages;
+
+-- Cancel a message the runner hasn't picked up yet. Returns whether it was cancelled.
+CREATE OR REPLACE FUNCTION public.cancel_scheduled_message(p_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.scheduled_messages
+  SET status = 'cancelled', updated_at = now()
+  WHERE id = p_id AND sender_id = auth.uid() AND status = 'scheduled';
+
+  RETURN FOUND;
+END;
+$$;
+
+-- Replace the content, amount, times and re-signed transaction of a message the runner
+-- hasn't picked up yet. Its parties, escrow and nonce account stay as scheduled.
+-- Returns whether it was updated.
+CREATE OR REPLACE FUNCTION public.reschedule_scheduled_message(
+  p_id uuid,
+  p_content text,
+  p_content_salt text,
+  p_encrypted_content jsonb,
+  p_amount numeric,
+  p_send_at timestamptz,
+  p_expires_at timestamptz,
+  p_signed_transaction text
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.scheduled_messages
+  SET content = p_content,
+      content_salt = p_content_salt,
+      encrypted_content = p_encrypted_content,
+      amount = p_amount,
+      send_at = p_send_at,
+      expires_at = p_expires_at,
+      signed_transaction = p_signed_transaction,
+      updated_at = now()
+  WHERE id = p_id AND sender_id = auth.uid() AND status = 'scheduled';
+
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.cancel_scheduled_message(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.cancel_scheduled_message(uuid) TO authenticated;
+REVOKE ALL ON FUNCTION public.reschedule_scheduled_message(uuid, text, text, jsonb, numeric, timestamptz, timestamptz, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.reschedule_scheduled_message(uuid, text, text, jsonb, numeric, timestamptz, timestamptz, text) TO authenticated;
@@ -0,0 +1,23 @@
+-- Searching messages by username looked up matching profiles across the whole table
+-- and kept the first few, so a counterpart with a common name could be left out.
+-- This only looks at the people a profile has messages with (see fetchMessagePage).
+CREATE OR REPLACE FUNCTION public.search_message_counterparts(
+  p_profile_id uuid,
+  p_received boolean,
+  p_pattern text
+)
+RETURNS TABLE (id uuid)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT DISTINCT counterpart.id
+  FROM public.messages message
+  JOIN public.profiles counterpart
+    ON counterpart.id = CASE WHEN p_received THEN message.sender_id ELSE message.recipient_id END
+  WHERE (CASE WHEN p_received THEN message.recipient_id ELSE message.sender_id END) = p_profile_id
+    AND counterpart.username ILIKE p_pattern;
+$$;
+
+REVOKE ALL ON FUNCTION public.search_message_counterparts(uuid, boolean, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.search_message_counterparts(uuid, boolean, text) TO anon, authenticated;
@@ -0,0 +1,22 @@
+-- A message that requires a reply can't be approved until its answer is linked
+-- (answer_message_id), whichever client approves it. Approving from the inbox also
+-- checks this before the payment is released on chain (approveMessagePayment).
+CREATE OR REPLACE FUNCTION public.check_message_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.message_status_transition_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Invalid message status transition: % -> %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF OLD.status = 'pending' AND NEW.status = 'approved' AND NEW.requires_reply AND NEW.answer_message_id IS NULL THEN
+    RAISE EXCEPTION 'Message % needs an answer before it can be approved', NEW.message_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,75 @@
+-- message_events was written by clients after each change, in a separate call, so
+-- anyone could append made-up transitions or read every message's history. Events
+-- are now written by triggers on messages, in the same statement as the change,
+-- and only the two parties can read them.
+
+-- A donation is its own payment, so its signature can't replace the approval's in
+-- transaction_signature; it is kept here for the approved -> donated event.
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS donation_signature text;
+
+-- Changes that come with a transaction are credited to the party who signs it; the
+-- sender's own outbox steps to the sender. Changes without one were synced from
+-- chain or reverted, and have no actor.
+CREATE OR REPLACE FUNCTION public.record_message_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  from_status text;
+  signature text;
+  actor uuid;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    from_status := NULL;
+    signature := NEW.transaction_signature;
+  ELSE
+    from_status := OLD.status;
+    signature := CASE
+      WHEN NEW.status = 'donated' THEN NEW.donation_signature
+      WHEN NEW.transaction_signature IS DISTINCT FROM OLD.transaction_signature THEN NEW.transaction_signature
+    END;
+  END IF;
+
+  actor := CASE
+    WHEN NEW.status = 'draft' THEN NULL
+    WHEN NEW.status IN ('submitting', 'pending') THEN NEW.sender_id
+    WHEN signature IS NULL THEN NULL
+    WHEN NEW.status = 'refunded' THEN NEW.sender_id
+    ELSE NEW.recipient_id
+  END;
+
+  INSERT INTO public.message_events (message_id, from_status, to_status, actor_id, transaction_signature)
+  VALUES (NEW.id, from_status, NEW.status, actor, signature);
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_message_event() FROM PUBLIC, anon, authenticated;
+
+-- Replies are part of a thread, not a payment, so they have no history
+DROP TRIGGER IF EXISTS record_message_created ON public.messages;
+CREATE TRIGGER record_message_created
+  AFTER INSERT ON public.messages
+  FOR EACH ROW
+  WHEN (NEW.status <> 'reply')
+  EXECUTE FUNCTION public.record_message_event();
+
+-- Runs after check_message_status_transition has let the change through
+DROP TRIGGER IF EXISTS record_message_status_change ON public.messages;
+CREATE TRIGGER record_message_status_change
+  AFTER UPDATE OF status ON public.messages
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.record_message_event();
+
+-- No insert, update or delete policies: only the triggers write events
+ALTER TABLE public.message_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Participants can see message events" ON public.message_events;
+CREATE POLICY "Participants can see message events"
+  ON public.message_events FOR SELECT TO authenticated
+  USING (public.is_message_participant(message_id));
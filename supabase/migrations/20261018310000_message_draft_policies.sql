@@ -0,0 +1,24 @@
+-- Drafts hold unsent message text in plaintext, so only their sender may read or
+-- change them. Drafts are saved under the signed-in account (see draftService.ts).
+ALTER TABLE public.message_drafts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Senders can see their drafts" ON public.message_drafts;
+CREATE POLICY "Senders can see their drafts"
+  ON public.message_drafts FOR SELECT TO authenticated
+  USING (sender_id = auth.uid());
+
+DROP POLICY IF EXISTS "Senders can save drafts" ON public.message_drafts;
+CREATE POLICY "Senders can save drafts"
+  ON public.message_drafts FOR INSERT TO authenticated
+  WITH CHECK (sender_id = auth.uid());
+
+DROP POLICY IF EXISTS "Senders can update their drafts" ON public.message_drafts;
+CREATE POLICY "Senders can update their drafts"
+  ON public.message_drafts FOR UPDATE TO authenticated
+  USING (sender_id = auth.uid())
+  WITH CHECK (sender_id = auth.uid());
+
+DROP POLICY IF EXISTS "Senders can delete their drafts" ON public.message_drafts;
+CREATE POLICY "Senders can delete their drafts"
+  ON public.message_drafts FOR DELETE TO authenticated
+  USING (sender_id = auth.uid());
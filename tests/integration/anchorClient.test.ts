@@ -0,0 +1,166 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { LAMPORTS_PER_SOL, PublicKey } from "@solana/web3.js";
+import { getConnection } from "@/utils/activeCluster";
+import {
+  approveMessagePayment,
+  checkMessageExists,
+  createMessagePayment,
+  EscrowStatus,
+  fetchMessageEscrow,
+  partiallyApproveMessagePayment,
+  reclaimMessagePayment,
+  rejectMessagePayment,
+} from "@/utils/anchorClient";
+import { InsufficientFundsError, InvalidSplitAmountError } from "@/utils/errors";
+import { getRows } from "./support/fakeSupabase";
+import { createFundedWallet, KeypairWallet } from "./support/wallets";
+
+// A settlement costs the recipient (or a reclaim the sender) one signature fee
+const MAX_FEE_LAMPORTS = 10_000;
+
+const lamports = (sol: number) => Math.round(sol * LAMPORTS_PER_SOL);
+
+describe("anchorClient", () => {
+  const connection = getConnection();
+  let sender: KeypairWallet;
+  let recipient: KeypairWallet;
+  let senderAddress: string;
+  let recipientAddress: string;
+
+  beforeAll(async () => {
+    sender = await createFundedWallet(5);
+    recipient = await createFundedWallet(1);
+    senderAddress = sender.publicKey.toBase58();
+    recipientAddress = recipient.publicKey.toBase58();
+  });
+
+  // Send a paid message and return its messages row
+  const sendMessage = async (amount: number, content = "Hello from the integration tests", expiresAt?: Date) => {
+    const signature = await createMessagePayment(sender, recipientAddress, amount, content, expiresAt);
+    const row = getRows("messages").find(message => message.transaction_signature === signature);
+    expect(row).toBeDefined();
+    return { signature, messageId: row!.message_id as string, escrow: new PublicKey(row!.escrow_address as string) };
+  };
+
+  // Escrow rent is refunded to the sender on settlement
+  const getRent = async (escrow: PublicKey, amount: number) => {
+    return (await connection.getBalance(escrow)) - lamports(amount);
+  };
+
+  it("escrows the payment and saves the message as pending", async () => {
+    const amount = 0.01;
+    const { signature, messageId, escrow } = await sendMessage(amount, "Can you review my PR?");
+
+    const onChain = await fetchMessageEscrow(sender, senderAddress, recipientAddress, messageId);
+    expect(onChain?.status).toBe(EscrowStatus.Pending);
+    expect(onChain?.amount.toNumber()).toBe(lamports(amount));
+    expect(await connection.getBalance(escrow)).toBeGreaterThan(lamports(amount));
+
+    const [row] = getRows("messages");
+    expect(row).toMatchObject({
+      message_id: messageId,
+      content: "Can you review my PR?",
+      amount,
+      currency: "SOL",
+      status: "pending",
+      transaction_signature: signature,
+      escrow_address: escrow.toBase58(),
+    });
+
+    // Both parties get a profile, and the outbox entry is cleared once saved
+    const profileWallets = getRows("profiles").map(profile => profile.wallet_address);
+    expect(profileWallets).toEqual(expect.arrayContaining([senderAddress, recipientAddress]));
+    expect(JSON.parse(localStorage.getItem("squeakyWheelOutbox") || "[]")).toEqual([]);
+  });
+
+  it("releases the payment to the recipient on approval", async () => {
+    const amount = 0.02;
+    const { messageId, escrow } = await sendMessage(amount);
+    const rent = await getRent(escrow, amount);
+    const initialSenderBalance = await connection.getBalance(sender.publicKey);
+    const initialRecipientBalance = await connection.getBalance(recipient.publicKey);
+
+    const signature = await approveMessagePayment(recipient, senderAddress, messageId);
+
+    expect(await checkMessageExists(recipient, senderAddress, messageId)).toBe("closed");
+    expect(await connection.getBalance(recipient.publicKey))
+      .toBeGreaterThan(initialRecipientBalance + lamports(amount) - MAX_FEE_LAMPORTS);
+    expect(await connection.getBalance(sender.publicKey)).toBe(initialSenderBalance + rent);
+
+    const row = getRows("messages").find(message => message.message_id === messageId);
+    expect(row).toMatchObject({ status: "approved", transaction_signature: signature });
+  });
+
+  it("splits the payment on partial approval and records the recipient's share", async () => {
+    const amount = 0.02;
+    const recipientAmount = 0.005;
+    const { messageId, escrow } = await sendMessage(amount);
+    const rent = await getRent(escrow, amount);
+    const initialSenderBalance = await connection.getBalance(sender.publicKey);
+    const initialRecipientBalance = await connection.getBalance(recipient.publicKey);
+
+    await partiallyApproveMessagePayment(recipient, senderAddress, messageId, recipientAmount);
+
+    expect(await connection.getBalance(recipient.publicKey))
+      .toBeGreaterThan(initialRecipientBalance + lamports(recipientAmount) - MAX_FEE_LAMPORTS);
+    expect(await connection.getBalance(sender.publicKey))
+      .toBe(initialSenderBalance + lamports(amount - recipientAmount) + rent);
+
+    const row = getRows("messages").find(message => message.message_id === messageId);
+    expect(row).toMatchObject({ status: "approved", approved_amount: recipientAmount });
+  });
+
+  it("refuses a partial approval larger than the payment", async () => {
+    const { messageId } = await sendMessage(0.01);
+
+    await expect(partiallyApproveMessagePayment(recipient, senderAddress, messageId, 0.02))
+      .rejects.toBeInstanceOf(InvalidSplitAmountError);
+
+    expect(await checkMessageExists(recipient, senderAddress, messageId)).toBe("open");
+    const row = getRows("messages").find(message => message.message_id === messageId);
+    expect(row?.status).toBe("pending");
+  });
+
+  it("refunds the sender on rejection", async () => {
+    const amount = 0.015;
+    const { messageId, escrow } = await sendMessage(amount);
+    const rent = await getRent(escrow, amount);
+    const initialSenderBalance = await connection.getBalance(sender.publicKey);
+
+    const signature = await rejectMessagePayment(recipient, senderAddress, messageId);
+
+    expect(await checkMessageExists(recipient, senderAddress, messageId)).toBe("closed");
+    expect(await connection.getBalance(sender.publicKey)).toBe(initialSenderBalance + lamports(amount) + rent);
+
+    const row = getRows("messages").find(message => message.message_id === messageId);
+    expect(row).toMatchObject({ status: "rejected", transaction_signature: signature });
+  });
+
+  it("lets the sender reclaim an expired payment", async () => {
+    const amount = 0.01;
+    const expiresAt = new Date(Date.now() + 5_000);
+    const { messageId, escrow } = await sendMessage(amount, "This one will expire", expiresAt);
+    const rent = await getRent(escrow, amount);
+
+    // The program checks the cluster's clock, which can trail the wall clock
+    await expect.poll(async () => {
+      return connection.getBlockTime(await connection.getSlot());
+    }, { timeout: 30_000, interval: 1_000 }).toBeGreaterThan(expiresAt.getTime() / 1000);
+
+    const initialSenderBalance = await connection.getBalance(sender.publicKey);
+    await reclaimMessagePayment(sender, recipientAddress, messageId);
+
+    expect(await connection.getBalance(sender.publicKey))
+      .toBeGreaterThan(initialSenderBalance + lamports(amount) + rent - MAX_FEE_LAMPORTS);
+
+    const row = getRows("messages").find(message => message.message_id === messageId);
+    expect(row?.status).toBe("refunded");
+  });
+
+  it("refuses a payment the wallet can't cover without touching the database", async () => {
+    await expect(createMessagePayment(recipient, senderAddress, 100, "Too expensive"))
+      .rejects.toBeInstanceOf(InsufficientFundsError);
+
+    expect(getRows("messages")).toEqual([]);
+  });
+});
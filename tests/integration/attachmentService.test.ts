@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { Keypair } from "@solana/web3.js";
+import {
+  ATTACHMENTS_BUCKET,
+  getAttachmentUrl,
+  linkAttachments,
+  MAX_ATTACHMENT_BYTES,
+  uploadAttachments,
+} from "@/utils/attachmentService";
+import { fetchMessages } from "@/utils/messageService";
+import { getRows, getStoredObjects, seedRows, signInAs } from "./support/fakeSupabase";
+
+describe("attachmentService", () => {
+  const senderAddress = Keypair.generate().publicKey.toBase58();
+  const recipientAddress = Keypair.generate().publicKey.toBase58();
+  let senderId: string;
+
+  // Attachments only touch the database and storage, so the message is seeded
+  beforeEach(() => {
+    senderId = crypto.randomUUID();
+    seedRows("profiles", [
+      { id: senderId, wallet_address: senderAddress, username: "alice", avatar_url: null },
+      { id: crypto.randomUUID(), wallet_address: recipientAddress, username: "bob", avatar_url: null },
+    ]);
+    seedRows("messages", [{
+      id: crypto.randomUUID(),
+      message_id: "mattachmenttest",
+      sender_id: senderId,
+      recipient_id: getRows("profiles")[1].id,
+      content: "Deck attached",
+      amount: 0.01,
+      currency: "SOL",
+      status: "pending",
+      parent_message_id: null,
+      created_at: new Date().toISOString(),
+    }]);
+    signInAs(senderId);
+  });
+
+  it("uploads files into the sender's folder and lists them with the message", async () => {
+    const uploaded = await uploadAttachments([
+      new File(["%PDF-1.4"], "Pitch Deck (final).pdf", { type: "application/pdf" }),
+      new File(["export const answer = 42;"], "snippet.ts", { type: "video/mp2t" }),
+    ]);
+
+    expect(uploaded).toEqual([
+      expect.objectContaining({ file_name: "Pitch Deck (final).pdf", content_type: "application/pdf", size_bytes: 8 }),
+      expect.objectContaining({ file_name: "snippet.ts", content_type: "text/plain" }),
+    ]);
+    expect(getStoredObjects(ATTACHMENTS_BUCKET).every(name => name.startsWith(`${senderId}/`))).toBe(true);
+
+    await linkAttachments("mattachmenttest", uploaded);
+
+    const [received] = await fetchMessages(recipientAddress, "received");
+    expect(received.attachments?.map(attachment => attachment.file_name)).toEqual(["Pitch Deck (final).pdf", "snippet.ts"]);
+    expect(await getAttachmentUrl(received.attachments![0].storage_path)).toContain(ATTACHMENTS_BUCKET);
+    expect(getRows("message_attachments")[0]).toMatchObject({ uploader_id: senderId });
+  });
+
+  it("refuses files that break the limits before uploading anything", async () => {
+    await expect(uploadAttachments([new File([new Uint8Array(MAX_ATTACHMENT_BYTES + 1)], "huge.png", { type: "image/png" })]))
+      .rejects.toThrow("huge.png is larger than 10 MB");
+    await expect(uploadAttachments([new File(["MZ"], "setup.exe", { type: "application/x-msdownload" })]))
+      .rejects.toThrow("setup.exe isn't a supported file type");
+
+    expect(getStoredObjects(ATTACHMENTS_BUCKET)).toEqual([]);
+  });
+
+  it("needs a signed-in sender", async () => {
+    signInAs(null);
+
+    await expect(uploadAttachments([new File(["hello"], "notes.txt", { type: "text/plain" })]))
+      .rejects.toThrow("Sign in to send attachments");
+  });
+});
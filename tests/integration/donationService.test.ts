@@ -0,0 +1,68 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { Keypair, LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { getConnection } from "@/utils/activeCluster";
+import { processDonation } from "@/utils/donationService";
+import { getRows, seedRows } from "./support/fakeSupabase";
+import { createFundedWallet, KeypairWallet, toBrowserWallet } from "./support/wallets";
+
+describe("donationService", () => {
+  const connection = getConnection();
+  let donor: KeypairWallet;
+
+  beforeAll(async () => {
+    donor = await createFundedWallet(1);
+  });
+
+  it("sends the donation to the chosen address", async () => {
+    const charity = Keypair.generate().publicKey;
+    const onSuccess = vi.fn();
+    const initialDonorBalance = await connection.getBalance(donor.publicKey);
+
+    const signature = await processDonation(toBrowserWallet(donor), {
+      amountSol: 0.01,
+      donationAddress: charity.toBase58(),
+      onSuccess,
+    });
+
+    expect(signature).toEqual(expect.any(String));
+    expect(onSuccess).toHaveBeenCalledWith(signature);
+    expect(await connection.getBalance(charity)).toBe(0.01 * LAMPORTS_PER_SOL);
+    expect(await connection.getBalance(donor.publicKey)).toBeLessThan(initialDonorBalance - 0.01 * LAMPORTS_PER_SOL);
+  });
+
+  it("marks the approved message it was made for as donated", async () => {
+    const messageRowId = crypto.randomUUID();
+    seedRows("messages", [{
+      id: messageRowId,
+      message_id: "mdonationtest",
+      status: "approved",
+      amount: 0.01,
+      transaction_signature: "approvalsignature",
+    }]);
+
+    const signature = await processDonation(toBrowserWallet(donor), {
+      amountSol: 0.005,
+      donationAddress: Keypair.generate().publicKey.toBase58(),
+      messageId: "mdonationtest",
+    });
+
+    const [row] = getRows("messages");
+    expect(row).toMatchObject({ status: "donated", transaction_signature: "approvalsignature" });
+    expect(getRows("message_events")).toEqual([
+      expect.objectContaining({ message_id: messageRowId, from_status: "approved", to_status: "donated", transaction_signature: signature }),
+    ]);
+  });
+
+  it("reports a donation the wallet can't cover", async () => {
+    const onError = vi.fn();
+
+    const signature = await processDonation(toBrowserWallet(donor), {
+      amountSol: 100,
+      donationAddress: Keypair.generate().publicKey.toBase58(),
+      onError,
+    });
+
+    expect(signature).toBe(null);
+    expect(onError).toHaveBeenCalledWith(expect.any(Error));
+  });
+});
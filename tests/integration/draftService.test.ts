@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { Keypair } from "@solana/web3.js";
+import { deleteDraft, fetchDrafts, loadDraft, MessageDraft, saveDraft, saveLocalDraft } from "@/utils/draftService";
+import { getRows, seedRows, signInAs } from "./support/fakeSupabase";
+
+describe("draftService", () => {
+  const senderAddress = Keypair.generate().publicKey.toBase58();
+  let recipientId: string;
+
+  const draftTo = (id: string, content: string, updatedAt = new Date().toISOString()): MessageDraft => ({
+    recipientId: id,
+    recipientUsername: "bob",
+    content,
+    amount: 0.25,
+    currency: "SOL",
+    mint: null,
+    expiry: "3",
+    requiresReply: true,
+    updatedAt,
+  });
+
+  // Drafts only touch the database, so the profiles are seeded; the sender is signed in
+  beforeEach(() => {
+    const senderId = crypto.randomUUID();
+    recipientId = crypto.randomUUID();
+    seedRows("profiles", [
+      { id: senderId, wallet_address: senderAddress, username: "alice", avatar_url: null },
+      { id: recipientId, wallet_address: Keypair.generate().publicKey.toBase58(), username: "bob", avatar_url: null },
+    ]);
+    signInAs(senderId);
+  });
+
+  it("keeps a draft written before a wallet connects for the wallet that connects", async () => {
+    saveLocalDraft(draftTo(recipientId, "Typed before connecting"), null);
+
+    expect(await loadDraft(recipientId, senderAddress)).toMatchObject({ content: "Typed before connecting", requiresReply: true });
+    expect(getRows("message_drafts")).toEqual([]);
+  });
+
+  it("saves one draft per recipient to the database for another device", async () => {
+    expect(await saveDraft(draftTo(recipientId, "First version"), senderAddress)).toBe(true);
+    expect(await saveDraft(draftTo(recipientId, "Second version"), senderAddress)).toBe(true);
+    expect(getRows("message_drafts")).toHaveLength(1);
+
+    localStorage.clear();
+
+    const drafts = await fetchDrafts(senderAddress);
+    expect(drafts).toEqual([expect.objectContaining({
+      recipientId,
+      recipientUsername: "bob",
+      content: "Second version",
+      amount: 0.25,
+      expiry: "3",
+    })]);
+  });
+
+  it("keeps drafts in this browser only until the sender signs in", async () => {
+    signInAs(null);
+
+    expect(await saveDraft(draftTo(recipientId, "Not signed in"), senderAddress)).toBe(false);
+
+    expect(getRows("message_drafts")).toEqual([]);
+    expect(await loadDraft(recipientId, senderAddress)).toMatchObject({ content: "Not signed in" });
+  });
+
+  it("prefers whichever copy of a draft was saved last", async () => {
+    await saveDraft(draftTo(recipientId, "Saved on another device", "2026-10-18T10:00:00.000Z"), senderAddress);
+    saveLocalDraft(draftTo(recipientId, "Newer in this browser", "2026-10-18T11:00:00.000Z"), senderAddress);
+
+    expect(await loadDraft(recipientId, senderAddress)).toMatchObject({ content: "Newer in this browser" });
+  });
+
+  it("deletes both copies once the message is sent", async () => {
+    await saveDraft(draftTo(recipientId, "About to send"), senderAddress);
+
+    await deleteDraft(recipientId, senderAddress);
+
+    expect(getRows("message_drafts")).toEqual([]);
+    expect(await fetchDrafts(senderAddress)).toEqual([]);
+  });
+});
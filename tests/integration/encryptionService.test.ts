@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { ed25519 } from "@noble/curves/ed25519";
+import { Keypair } from "@solana/web3.js";
+import { generateContentSalt, hashMessageContent } from "@/utils/contentCommitment";
+import { lockEncryption, MessageSigner, unlockEncryption } from "@/utils/encryptionService";
+import { fetchMessages, saveMessage } from "@/utils/messageService";
+import { getRows, seedRows } from "./support/fakeSupabase";
+
+// Signs like a wallet's signMessage, with the keypair's ed25519 seed
+const signerFor = (keypair: Keypair): MessageSigner => ({
+  signMessage: async (message: Uint8Array) => ed25519.sign(message, keypair.secretKey.slice(0, 32)),
+});
+
+describe("encryptionService", () => {
+  const sender = Keypair.generate();
+  const recipient = Keypair.generate();
+  const senderAddress = sender.publicKey.toBase58();
+  const recipientAddress = recipient.publicKey.toBase58();
+  let senderKey: string;
+  let recipientKey: string;
+
+  // Keys are derived the same way every time, so derive them once and publish them by seeding
+  beforeEach(async () => {
+    senderKey = await unlockEncryption(signerFor(sender), senderAddress);
+    recipientKey = await unlockEncryption(signerFor(recipient), recipientAddress);
+    lockEncryption();
+  });
+
+  afterEach(() => {
+    lockEncryption();
+  });
+
+  const seedProfiles = (senderPublicKey: string | null, recipientPublicKey: string | null) => {
+    seedRows("profiles", [
+      { id: crypto.randomUUID(), wallet_address: senderAddress, username: "alice", avatar_url: null, encryption_public_key: senderPublicKey },
+      { id: crypto.randomUUID(), wallet_address: recipientAddress, username: "bob", avatar_url: null, encryption_public_key: recipientPublicKey },
+    ]);
+  };
+
+  it("stores only ciphertext and decrypts for each party once they unlock", async () => {
+    seedProfiles(senderKey, recipientKey);
+
+    expect(await saveMessage(senderAddress, recipientAddress, "mencryptedtest", "Meet at noon", 0.01)).toBe(true);
+
+    const [row] = getRows("messages");
+    expect(row.content).toBe("");
+    expect(JSON.stringify(row)).not.toContain("Meet at noon");
+    expect((row.encrypted_content as { copies: { public_key: string }[] }).copies.map(copy => copy.public_key))
+      .toEqual([recipientKey, senderKey]);
+
+    const [locked] = await fetchMessages(recipientAddress, "received");
+    expect(locked).toMatchObject({ content: "", encryption: "locked" });
+
+    await unlockEncryption(signerFor(recipient), recipientAddress);
+    const [received] = await fetchMessages(recipientAddress, "received");
+    expect(received).toMatchObject({ content: "Meet at noon", encryption: "decrypted" });
+
+    lockEncryption();
+    await unlockEncryption(signerFor(sender), senderAddress);
+    const [sent] = await fetchMessages(senderAddress, "sent");
+    expect(sent).toMatchObject({ content: "Meet at noon", encryption: "decrypted" });
+  });
+
+  it("leaves messages in plaintext when the recipient hasn't turned encryption on", async () => {
+    seedProfiles(senderKey, null);
+
+    expect(await saveMessage(senderAddress, recipientAddress, "mplaintexttest", "Hello in the clear", 0.01)).toBe(true);
+
+    expect(getRows("messages")[0]).toMatchObject({ content: "Hello in the clear", encrypted_content: null });
+    const [received] = await fetchMessages(recipientAddress, "received");
+    expect(received.content).toBe("Hello in the clear");
+    expect(received.encryption).toBeUndefined();
+  });
+
+  it("keeps the salt of the on-chain content hash inside the ciphertext", async () => {
+    seedProfiles(senderKey, recipientKey);
+    const salt = generateContentSalt();
+
+    expect(await saveMessage(senderAddress, recipientAddress, "msaltedtest", "Yes", 0.01, undefined, null, "pending", null, "SOL", null, false, salt)).toBe(true);
+
+    // Without the salt, the public hash of a short answer could be matched by guessing
+    const [row] = getRows("messages");
+    expect(row.content_salt).toBeNull();
+    expect(JSON.stringify(row)).not.toContain(salt);
+    expect(await hashMessageContent("Yes", salt)).not.toBe(await hashMessageContent("Yes"));
+
+    await unlockEncryption(signerFor(recipient), recipientAddress);
+    const [received] = await fetchMessages(recipientAddress, "received");
+    expect(received).toMatchObject({ content: "Yes", content_salt: salt });
+  });
+
+  it("refuses a signature from a different wallet", async () => {
+    await expect(unlockEncryption(signerFor(sender), recipientAddress))
+      .rejects.toThrow("The wallet returned an invalid signature");
+  });
+});
@@ -0,0 +1,105 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { approveMessagePayment, createMessagePayment, partiallyApproveMessagePayment } from "@/utils/anchorClient";
+import { fetchMessageEvents, fetchMessages, getMessageStats, saveMessage, updateMessageStatus } from "@/utils/messageService";
+import { getRows, seedRows } from "./support/fakeSupabase";
+import { createFundedWallet, KeypairWallet } from "./support/wallets";
+
+describe("messageService", () => {
+  let sender: KeypairWallet;
+  let recipient: KeypairWallet;
+  let senderAddress: string;
+  let recipientAddress: string;
+
+  beforeAll(async () => {
+    sender = await createFundedWallet(2);
+    recipient = await createFundedWallet(1);
+    senderAddress = sender.publicKey.toBase58();
+    recipientAddress = recipient.publicKey.toBase58();
+  });
+
+  const getMessageId = (signature: string) => {
+    return getRows("messages").find(message => message.transaction_signature === signature)!.message_id as string;
+  };
+
+  it("lists paid messages for both parties with their profiles", async () => {
+    seedRows("profiles", [{ id: crypto.randomUUID(), wallet_address: senderAddress, username: "alice", avatar_url: null }]);
+
+    const signature = await createMessagePayment(sender, recipientAddress, 0.01, "First message");
+    const messageId = getMessageId(signature!);
+
+    const [received] = await fetchMessages(recipientAddress, "received");
+    expect(received).toMatchObject({
+      message_id: messageId,
+      content: "First message",
+      status: "pending",
+      senderUsername: "alice",
+      recipientUsername: `user_${recipientAddress.substring(0, 8)}`,
+    });
+
+    const sent = await fetchMessages(senderAddress, "sent");
+    expect(sent.map(message => message.message_id)).toEqual([messageId]);
+    expect(await fetchMessages(senderAddress, "received")).toEqual([]);
+  });
+
+  it("doesn't create profiles when listing messages", async () => {
+    expect(await fetchMessages(recipientAddress, "received")).toEqual([]);
+    expect(getRows("profiles")).toEqual([]);
+  });
+
+  it("reuses a wallet's placeholder profile for later messages", async () => {
+    await createMessagePayment(sender, recipientAddress, 0.01, "First");
+    await createMessagePayment(sender, recipientAddress, 0.01, "Second");
+
+    const profileWallets = getRows("profiles").map(profile => profile.wallet_address);
+    expect(profileWallets.sort()).toEqual([senderAddress, recipientAddress].sort());
+    expect(new Set(getRows("messages").map(message => message.recipient_id)).size).toBe(1);
+  });
+
+  it("leaves outbox drafts out of the message lists", async () => {
+    await saveMessage(senderAddress, recipientAddress, "mdrafttest", "Not paid for yet", 0.01, undefined, null, "draft");
+
+    expect(getRows("messages")).toHaveLength(1);
+    expect(await fetchMessages(recipientAddress, "received")).toEqual([]);
+  });
+
+  it("counts only the recipient's share of approved payments as earnings", async () => {
+    const full = await createMessagePayment(sender, recipientAddress, 0.02, "Approve all of this");
+    const partial = await createMessagePayment(sender, recipientAddress, 0.02, "Approve some of this");
+    await createMessagePayment(sender, recipientAddress, 0.01, "Leave this pending");
+
+    await approveMessagePayment(recipient, senderAddress, getMessageId(full!));
+    await partiallyApproveMessagePayment(recipient, senderAddress, getMessageId(partial!), 0.005);
+
+    const recipientStats = await getMessageStats(recipientAddress);
+    expect(recipientStats).toMatchObject({
+      pendingReceived: 1,
+      approvedReceived: 2,
+      totalReceived: 3,
+      earningsByCurrency: { SOL: expect.closeTo(0.025) },
+    });
+
+    const senderStats = await getMessageStats(senderAddress);
+    expect(senderStats).toMatchObject({ pendingSent: 1, approvedSent: 2, totalSent: 3 });
+  });
+
+  it("doesn't update a message that was never saved", async () => {
+    expect(await updateMessageStatus("mmissing", "approved")).toBe(false);
+  });
+
+  it("records each status change and refuses ones the lifecycle doesn't allow", async () => {
+    seedRows("profiles", [{ id: crypto.randomUUID(), wallet_address: recipientAddress, username: "bob", avatar_url: null }]);
+    await saveMessage(senderAddress, recipientAddress, "mlifecycletest", "Pay me back", 0.01, "sendsignature");
+
+    expect(await updateMessageStatus("mlifecycletest", "approved", "approvesignature")).toBe(true);
+    expect(await updateMessageStatus("mlifecycletest", "refunded", "reclaimsignature")).toBe(false);
+
+    const [row] = getRows("messages");
+    expect(row).toMatchObject({ status: "approved", transaction_signature: "approvesignature" });
+
+    const events = await fetchMessageEvents(row.id as string);
+    expect(events).toEqual([
+      expect.objectContaining({ from_status: null, to_status: "pending", transaction_signature: "sendsignature" }),
+      expect.objectContaining({ from_status: "pending", to_status: "approved", transaction_signature: "approvesignature", actorUsername: "bob" }),
+    ]);
+  });
+});
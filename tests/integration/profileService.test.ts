@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { ed25519 } from "@noble/curves/ed25519";
+import { Keypair } from "@solana/web3.js";
+import type { MessageSigner } from "@/utils/encryptionService";
+import { WalletOwnershipError } from "@/utils/errors";
+import { claimWalletProfile } from "@/utils/profileService";
+import { getRows, seedRows, signInAs } from "./support/fakeSupabase";
+
+// Signs like a wallet's signMessage, with the keypair's ed25519 seed
+const signerFor = (keypair: Keypair): MessageSigner => ({
+  signMessage: async (message: Uint8Array) => ed25519.sign(message, keypair.secretKey.slice(0, 32)),
+});
+
+describe("profileService", () => {
+  const userId = crypto.randomUUID();
+  const placeholderId = crypto.randomUUID();
+  const wallet = Keypair.generate();
+  const otherWallet = Keypair.generate();
+  const walletAddress = wallet.publicKey.toBase58();
+  const otherWalletAddress = otherWallet.publicKey.toBase58();
+
+  // The signed-in user has no wallet yet; the other wallet has a placeholder with a message
+  beforeEach(() => {
+    seedRows("profiles", [
+      { id: userId, wallet_address: null, username: "alice", twitter_id: "1001" },
+      { id: placeholderId, wallet_address: otherWalletAddress, username: `user_${otherWalletAddress.substring(0, 8)}`, twitter_id: null },
+    ]);
+    seedRows("messages", [
+      { id: crypto.randomUUID(), message_id: "mclaimtest", sender_id: userId, recipient_id: placeholderId, status: "pending" },
+    ]);
+    signInAs(userId);
+  });
+
+  it("links a wallet the user signs for and takes over its placeholder", async () => {
+    seedRows("profiles", [{ id: crypto.randomUUID(), wallet_address: walletAddress, username: "placeholder", twitter_id: null }]);
+    seedRows("messages", [{ id: crypto.randomUUID(), message_id: "mclaimmine", sender_id: getRows("profiles")[2].id, recipient_id: placeholderId, status: "pending" }]);
+
+    expect(await claimWalletProfile(signerFor(wallet), walletAddress, "phantom")).toBe(1);
+
+    expect(getRows("profiles").find(profile => profile.id === userId)).toMatchObject({ wallet_address: walletAddress, wallet_name: "phantom" });
+    expect(getRows("profiles").filter(profile => profile.wallet_address === walletAddress)).toHaveLength(1);
+    expect(getRows("messages").find(message => message.message_id === "mclaimmine")?.sender_id).toBe(userId);
+    expect(getRows("wallet_claim_challenges")).toEqual([]);
+  });
+
+  it("refuses to link someone else's wallet", async () => {
+    // Signing with your own wallet doesn't prove you hold another address
+    await expect(claimWalletProfile(signerFor(wallet), otherWalletAddress))
+      .rejects.toBeInstanceOf(WalletOwnershipError);
+
+    expect(getRows("profiles").find(profile => profile.id === userId)?.wallet_address).toBeNull();
+    expect(getRows("profiles").find(profile => profile.id === placeholderId)?.wallet_address).toBe(otherWalletAddress);
+    expect(getRows("messages")[0].recipient_id).toBe(placeholderId);
+  });
+
+  it("refuses a signature over a different challenge", async () => {
+    // Replaying a signature made for another challenge fails once a new one is issued
+    const captured: Uint8Array[] = [];
+    const recordingSigner: MessageSigner = {
+      signMessage: async message => {
+        const signature = await signerFor(wallet).signMessage(message);
+        captured.push(signature);
+        return signature;
+      },
+    };
+    await claimWalletProfile(recordingSigner, walletAddress);
+    signInAs(crypto.randomUUID());
+
+    await expect(claimWalletProfile({ signMessage: async () => captured[0] }, walletAddress))
+      .rejects.toBeInstanceOf(WalletOwnershipError);
+  });
+});
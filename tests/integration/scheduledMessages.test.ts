@@ -0,0 +1,145 @@
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { LAMPORTS_PER_SOL, PublicKey } from "@solana/web3.js";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/integrations/supabase/types";
+import { getConnection, getProgramId } from "@/utils/activeCluster";
+import {
+  cancelScheduledMessage,
+  EscrowStatus,
+  fetchMessageEscrow,
+  rescheduleMessagePayment,
+  scheduleMessagePayment,
+} from "@/utils/anchorClient";
+import { closeNonceAccount } from "@/utils/durableNonce";
+import { fetchScheduledMessages } from "@/utils/scheduledMessageService";
+import { runScheduledMessages } from "@/utils/scheduledMessageRunner";
+import { getRows, seedRows, signInAs, supabase } from "./support/fakeSupabase";
+import { createFundedWallet, KeypairWallet } from "./support/wallets";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const lamports = (sol: number) => Math.round(sol * LAMPORTS_PER_SOL);
+
+describe("scheduled messages", () => {
+  const connection = getConnection();
+  // The runner gets the service-role client in production; the fake stands in for it
+  const runnerSupabase = supabase as unknown as SupabaseClient<Database>;
+  let sender: KeypairWallet;
+  let recipient: KeypairWallet;
+  let senderAddress: string;
+  let recipientAddress: string;
+
+  beforeAll(async () => {
+    sender = await createFundedWallet(5);
+    recipient = await createFundedWallet(1);
+    senderAddress = sender.publicKey.toBase58();
+    recipientAddress = recipient.publicKey.toBase58();
+  });
+
+  // Scheduling needs the sender's own profile, signed in to edit or cancel
+  beforeEach(() => {
+    const senderId = crypto.randomUUID();
+    seedRows("profiles", [
+      { id: senderId, wallet_address: senderAddress, username: "alice", avatar_url: null, encryption_public_key: null },
+    ]);
+    signInAs(senderId);
+  });
+
+  const schedule = async (amount: number, content: string, sendAt = new Date(Date.now() + HOUR_MS)) => {
+    const messageId = await scheduleMessagePayment(sender, recipientAddress, amount, content, sendAt, new Date(sendAt.getTime() + 24 * HOUR_MS));
+    const [scheduled] = (await fetchScheduledMessages(senderAddress)).filter(message => message.messageId === messageId);
+    return scheduled;
+  };
+
+  const runAt = (now: Date) => runScheduledMessages({ connection, supabase: runnerSupabase, programId: getProgramId(), now });
+
+  it("sends the pre-signed payment once the message is due", async () => {
+    const amount = 0.01;
+    const scheduled = await schedule(amount, "Happy birthday!");
+
+    expect(scheduled).toMatchObject({ status: "scheduled", content: "Happy birthday!", amount, recipientWalletAddress: recipientAddress });
+    expect(await connection.getAccountInfo(new PublicKey(scheduled.nonceAccount))).not.toBeNull();
+    expect(await connection.getAccountInfo(new PublicKey(scheduled.escrowAddress))).toBeNull();
+
+    // Nothing is sent before its time
+    expect(await runAt(new Date())).toEqual([]);
+    expect(getRows("messages")).toEqual([]);
+
+    const [result] = await runAt(new Date(scheduled.sendAt));
+    expect(result).toMatchObject({ messageId: scheduled.messageId, outcome: "sent" });
+
+    const onChain = await fetchMessageEscrow(sender, senderAddress, recipientAddress, scheduled.messageId);
+    expect(onChain?.status).toBe(EscrowStatus.Pending);
+    expect(onChain?.amount.toNumber()).toBe(lamports(amount));
+    // The refund window is counted from the scheduled time
+    expect(onChain?.expiresAt.toNumber()).toBe(Math.floor(new Date(scheduled.expiresAt!).getTime() / 1000));
+
+    expect(getRows("messages")).toEqual([expect.objectContaining({
+      message_id: scheduled.messageId,
+      content: "Happy birthday!",
+      status: "pending",
+      transaction_signature: result.signature,
+    })]);
+    expect(getRows("message_events")).toEqual([expect.objectContaining({ from_status: null, to_status: "pending" })]);
+    expect(getRows("scheduled_messages")[0]).toMatchObject({ status: "sent", transaction_signature: result.signature });
+
+    // A sent message isn't due again
+    expect(await runAt(new Date(scheduled.sendAt))).toEqual([]);
+  });
+
+  it("sends the edited message instead of the original", async () => {
+    const scheduled = await schedule(0.01, "First draft");
+    const sendAt = new Date(Date.now() + 2 * HOUR_MS);
+
+    await rescheduleMessagePayment(sender, scheduled, { content: "Final version", amount: 0.02, sendAt });
+
+    expect(await runAt(new Date(scheduled.sendAt))).toEqual([]);
+    const [result] = await runAt(sendAt);
+    expect(result.outcome).toBe("sent");
+
+    const onChain = await fetchMessageEscrow(sender, senderAddress, recipientAddress, scheduled.messageId);
+    expect(onChain?.amount.toNumber()).toBe(lamports(0.02));
+    expect(getRows("messages")[0]).toMatchObject({ content: "Final version", amount: 0.02 });
+  });
+
+  it("returns the deposit on cancel and never sends the message", async () => {
+    const scheduled = await schedule(0.01, "Never mind");
+    const balanceBeforeCancel = await connection.getBalance(sender.publicKey);
+    const deposit = await connection.getBalance(new PublicKey(scheduled.nonceAccount));
+
+    await cancelScheduledMessage(sender, scheduled);
+
+    expect(getRows("scheduled_messages")[0].status).toBe("cancelled");
+    expect(await connection.getAccountInfo(new PublicKey(scheduled.nonceAccount))).toBeNull();
+    expect(await connection.getBalance(sender.publicKey)).toBeGreaterThan(balanceBeforeCancel + deposit - 10_000);
+
+    expect(await runAt(new Date(scheduled.sendAt))).toEqual([]);
+    expect(getRows("messages")).toEqual([]);
+  });
+
+  it("marks the message failed when its nonce account was closed", async () => {
+    const scheduled = await schedule(0.01, "Withdrawn elsewhere");
+    await closeNonceAccount(connection, sender, scheduled.nonceAccount);
+
+    const [result] = await runAt(new Date(scheduled.sendAt));
+
+    expect(result.outcome).toBe("failed");
+    expect(getRows("scheduled_messages")[0]).toMatchObject({ status: "failed", error: result.error });
+    expect(await connection.getAccountInfo(new PublicKey(scheduled.escrowAddress))).toBeNull();
+    expect(getRows("messages")).toEqual([]);
+  });
+
+  it("refuses to send a transaction that doesn't match its row", async () => {
+    const scheduled = await schedule(0.01, "Small tip");
+    // The row now claims a bigger payment than the one signed
+    getRows("scheduled_messages")[0].amount = 5;
+
+    const [result] = await runAt(new Date(scheduled.sendAt));
+
+    expect(result.outcome).toBe("failed");
+    expect(result.error).toMatch(/amount/);
+    expect(getRows("scheduled_messages")[0].status).toBe("failed");
+    expect(await connection.getAccountInfo(new PublicKey(scheduled.escrowAddress))).toBeNull();
+    expect(getRows("messages")).toEqual([]);
+  });
+});
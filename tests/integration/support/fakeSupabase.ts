@@ -0,0 +1,531 @@
+// An in-memory stand-in for the Supabase client, covering the PostgREST query
+// builder calls the services make: select (with embedded profiles), insert, update,
+// delete and the filters they chain. Tests read and seed the tables directly.
+// Storage buckets and the signed-in user are faked just far enough for attachments,
+// and the Postgres functions and triggers the services rely on follow their SQL closely
+// enough to test the callers.
+
+import { ed25519 } from "@noble/curves/ed25519";
+import { PublicKey } from "@solana/web3.js";
+
+type Row = Record<string, unknown>;
+
+interface QueryError {
+  code: string;
+  message: string;
+}
+
+interface QueryResult {
+  data: Row | Row[] | null;
+  error: QueryError | null;
+  count?: number | null;
+}
+
+// Foreign keys named in embedded selects, e.g. sender:profiles!fk_sender_profile(username),
+// or by column for the self-referencing key, e.g. answer:messages!answer_message_id(content)
+const FOREIGN_KEYS: Record<string, string> = {
+  fk_sender_profile: "sender_id",
+  fk_recipient_profile: "recipient_id",
+  answer_message_id: "answer_message_id",
+  message_events_actor_id_fkey: "actor_id",
+  message_drafts_recipient_id_fkey: "recipient_id",
+  scheduled_messages_sender_id_fkey: "sender_id",
+  scheduled_messages_recipient_id_fkey: "recipient_id",
+};
+
+// One-to-many embeds by the related table's key column, e.g.
+// attachments:message_attachments!message_attachments_message_id_fkey(file_name)
+const REFERENCING_KEYS: Record<string, string> = {
+  message_attachments_message_id_fkey: "message_id",
+};
+
+// Unique constraints enforced on insert
+const UNIQUE_COLUMNS: Record<string, string[]> = {
+  messages: ["message_id"],
+  scheduled_messages: ["message_id"],
+  profiles: ["wallet_address"],
+};
+
+const EMBED_PATTERN = /^(\w+):(\w+)!(\w+)\((.*)\)$/;
+
+const tables = new Map<string, Row[]>();
+
+const getTable = (table: string): Row[] => {
+  if (!tables.has(table)) {
+    tables.set(table, []);
+  }
+  return tables.get(table)!;
+};
+
+// Mirrors the record_message_event trigger: messages log their own status changes
+const recordMessageEvent = (before: Row | null, message: Row) => {
+  let signature: unknown = null;
+  if (!before) {
+    signature = message.transaction_signature ?? null;
+  } else if (message.status === "donated") {
+    signature = message.donation_signature ?? null;
+  } else if (message.transaction_signature !== before.transaction_signature) {
+    signature = message.transaction_signature ?? null;
+  }
+
+  let actor: unknown = message.recipient_id;
+  if (message.status === "draft") actor = null;
+  else if (message.status === "submitting" || message.status === "pending") actor = message.sender_id;
+  else if (signature === null) actor = null;
+  else if (message.status === "refunded") actor = message.sender_id;
+
+  getTable("message_events").push({
+    id: crypto.randomUUID(),
+    message_id: message.id,
+    from_status: before ? before.status : null,
+    to_status: message.status,
+    actor_id: actor ?? null,
+    transaction_signature: signature,
+    created_at: new Date().toISOString(),
+  });
+};
+
+// Split a select list on commas that aren't inside an embed's parentheses
+const splitColumns = (columns: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+
+  for (const char of columns) {
+    if (char === "(") depth++;
+    if (char === ")") depth--;
+    if (char === "," && depth === 0) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts.map(part => part.trim()).filter(Boolean);
+};
+
+const project = (row: Row, columns: string): Row => {
+  const result: Row = {};
+
+  for (const column of splitColumns(columns)) {
+    if (column === "*") {
+      Object.assign(result, row);
+      continue;
+    }
+
+    const embed = column.match(EMBED_PATTERN);
+    if (embed) {
+      const [, alias, table, foreignKey, embedColumns] = embed;
+      const referencingColumn = REFERENCING_KEYS[foreignKey];
+      if (referencingColumn) {
+        result[alias] = getTable(table)
+          .filter(candidate => candidate[referencingColumn] === row.id)
+          .map(candidate => project(candidate, embedColumns));
+        continue;
+      }
+      const keyColumn = FOREIGN_KEYS[foreignKey];
+      if (!keyColumn) {
+        throw new Error(`Fake Supabase doesn't know foreign key ${foreignKey}`);
+      }
+      const related = getTable(table).find(candidate => candidate.id === row[keyColumn]);
+      result[alias] = related ? project(related, embedColumns) : null;
+      continue;
+    }
+
+    result[column] = row[column] ?? null;
+  }
+
+  return result;
+};
+
+// Parse a PostgREST list such as "(draft,submitting)"
+const parseList = (value: string): string[] => {
+  return value.replace(/^\(|\)$/g, "").split(",").map(item => item.trim());
+};
+
+const matches = (value: unknown, expected: unknown): boolean => {
+  // Filters arrive as strings in or() and not(), so compare loosely like Postgres casts would
+  return value === expected || (value !== null && value !== undefined && String(value) === String(expected));
+};
+
+class FakeQuery implements PromiseLike<QueryResult> {
+  private operation: "select" | "insert" | "update" | "delete" = "select";
+  private columns: string | null = null;
+  private values: Row[] = [];
+  private filters: ((row: Row) => boolean)[] = [];
+  private ordering: { column: string; ascending: boolean } | null = null;
+  private limitCount: number | null = null;
+  private singleMode: "single" | "maybeSingle" | null = null;
+  private countOptions: { count?: string; head?: boolean } | null = null;
+
+  constructor(private readonly table: string) {}
+
+  select(columns = "*", options?: { count?: string; head?: boolean }) {
+    this.columns = columns;
+    this.countOptions = options ?? null;
+    return this;
+  }
+
+  insert(values: Row | Row[]) {
+    this.operation = "insert";
+    this.values = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  update(values: Row) {
+    this.operation = "update";
+    this.values = [values];
+    return this;
+  }
+
+  delete() {
+    this.operation = "delete";
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push(row => matches(row[column], value));
+    return this;
+  }
+
+  neq(column: string, value: unknown) {
+    this.filters.push(row => !matches(row[column], value));
+    return this;
+  }
+
+  // Values compare as strings, which orders ISO timestamps correctly
+  lte(column: string, value: unknown) {
+    this.filters.push(row => row[column] != null && String(row[column]).localeCompare(String(value)) <= 0);
+    return this;
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push(row => values.some(value => matches(row[column], value)));
+    return this;
+  }
+
+  not(column: string, operator: string, value: unknown) {
+    if (operator === "in") {
+      const values = parseList(String(value));
+      this.filters.push(row => !values.some(item => matches(row[column], item)));
+    } else if (operator === "eq") {
+      this.filters.push(row => !matches(row[column], value));
+    } else if (operator === "is") {
+      this.filters.push(row => (row[column] ?? null) !== value);
+    } else {
+      throw new Error(`Fake Supabase doesn't support not(${operator})`);
+    }
+    return this;
+  }
+
+  // Only "column.eq.value" conditions, e.g. "sender_id.eq.x,recipient_id.eq.y"
+  or(conditions: string) {
+    const parsed = conditions.split(",").map(condition => {
+      const [column, operator, ...rest] = condition.split(".");
+      if (operator !== "eq") {
+        throw new Error(`Fake Supabase doesn't support or(${condition})`);
+      }
+      return { column, value: rest.join(".") };
+    });
+    this.filters.push(row => parsed.some(({ column, value }) => matches(row[column], value)));
+    return this;
+  }
+
+  order(column: string, options?: { ascending?: boolean }) {
+    this.ordering = { column, ascending: options?.ascending ?? true };
+    return this;
+  }
+
+  limit(count: number) {
+    this.limitCount = count;
+    return this;
+  }
+
+  single() {
+    this.singleMode = "single";
+    return this;
+  }
+
+  maybeSingle() {
+    this.singleMode = "maybeSingle";
+    return this;
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private matching(): Row[] {
+    return getTable(this.table).filter(row => this.filters.every(filter => filter(row)));
+  }
+
+  private execute(): QueryResult {
+    let rows: Row[];
+
+    switch (this.operation) {
+      case "insert": {
+        const now = new Date().toISOString();
+        rows = this.values.map(values => ({ id: crypto.randomUUID(), created_at: now, updated_at: now, ...values }));
+
+        for (const column of UNIQUE_COLUMNS[this.table] ?? []) {
+          const existing = getTable(this.table);
+          const duplicate = rows.find(row => row[column] != null && existing.some(other => other[column] === row[column]));
+          if (duplicate) {
+            return {
+              data: null,
+              error: { code: "23505", message: `duplicate key value violates unique constraint on ${this.table}.${column}` },
+            };
+          }
+        }
+
+        getTable(this.table).push(...rows);
+        if (this.table === "messages") {
+          rows.filter(row => row.status !== "reply").forEach(row => recordMessageEvent(null, row));
+        }
+        break;
+      }
+      case "update":
+        rows = this.matching();
+        rows.forEach(row => {
+          const before = { ...row };
+          Object.assign(row, this.values[0]);
+          if (this.table === "messages" && before.status !== row.status) {
+            recordMessageEvent(before, row);
+          }
+        });
+        break;
+      case "delete":
+        rows = this.matching();
+        tables.set(this.table, getTable(this.table).filter(row => !rows.includes(row)));
+        break;
+      default:
+        rows = this.matching();
+    }
+
+    if (this.ordering) {
+      const { column, ascending } = this.ordering;
+      rows = [...rows].sort((a, b) => {
+        const order = String(a[column]).localeCompare(String(b[column]));
+        return ascending ? order : -order;
+      });
+    }
+    if (this.limitCount !== null) {
+      rows = rows.slice(0, this.limitCount);
+    }
+
+    const count = this.countOptions?.count ? rows.length : null;
+
+    // Writes only return rows when a select() is chained
+    if (this.columns === null || this.countOptions?.head) {
+      return { data: null, error: null, count };
+    }
+
+    const data = rows.map(row => project(row, this.columns!));
+
+    if (this.singleMode) {
+      if (data.length === 1) {
+        return { data: data[0], error: null, count };
+      }
+      if (data.length === 0 && this.singleMode === "maybeSingle") {
+        return { data: null, error: null, count };
+      }
+      return {
+        data: null,
+        error: { code: "PGRST116", message: "JSON object requested, multiple (or no) rows returned" },
+        count,
+      };
+    }
+
+    return { data, error: null, count };
+  }
+}
+
+const buckets = new Map<string, Map<string, Blob>>();
+let signedInUserId: string | null = null;
+
+const getBucket = (bucket: string): Map<string, Blob> => {
+  if (!buckets.has(bucket)) {
+    buckets.set(bucket, new Map());
+  }
+  return buckets.get(bucket)!;
+};
+
+class FakeBucket {
+  constructor(private readonly bucket: string) {}
+
+  async upload(path: string, file: Blob, options?: { contentType?: string; upsert?: boolean }) {
+    const objects = getBucket(this.bucket);
+    // Storage policies only let signed-in users upload
+    if (!signedInUserId) {
+      return { data: null, error: { message: "new row violates row-level security policy" } };
+    }
+    if (objects.has(path) && !options?.upsert) {
+      return { data: null, error: { message: "The resource already exists" } };
+    }
+    objects.set(path, file);
+    return { data: { path }, error: null };
+  }
+
+  async remove(paths: string[]) {
+    const objects = getBucket(this.bucket);
+    const removed = paths.filter(path => objects.delete(path));
+    return { data: removed.map(name => ({ name })), error: null };
+  }
+
+  async createSignedUrl(path: string, expiresIn: number) {
+    if (!getBucket(this.bucket).has(path)) {
+      return { data: null, error: { message: "Object not found" } };
+    }
+    return { data: { signedUrl: `http://storage.test/${this.bucket}/${path}?expiresIn=${expiresIn}` }, error: null };
+  }
+}
+
+const rpcError = (code: string, message: string) => ({ data: null, error: { code, message } });
+
+// Whether a signature over a message was made by the wallet, as pgsodium checks it
+const verifyWalletSignature = (walletAddress: string, message: string, signature: string): boolean => {
+  try {
+    return ed25519.verify(Buffer.from(signature, "base64"), new TextEncoder().encode(message), new PublicKey(walletAddress).toBytes());
+  } catch {
+    return false;
+  }
+};
+
+// See 20261018250000_wallet_claim_proof.sql
+// The caller's own scheduled message, if the runner hasn't picked it up yet
+const findEditableScheduledMessage = (id: unknown): Row | undefined =>
+  getTable("scheduled_messages").find(row => row.id === id && row.sender_id === signedInUserId && row.status === "scheduled");
+
+const RPC_FUNCTIONS: Record<string, (args: Row) => { data: unknown; error: QueryError | null }> = {
+  issue_wallet_claim_challenge: ({ p_wallet_address }) => {
+    if (!signedInUserId) {
+      return rpcError("42501", "Sign in before linking a wallet");
+    }
+
+    const message = `Squeaky Wheel wallet link\n\nSign this to link wallet ${p_wallet_address} to your account.\nIt is free and does not send a transaction.\n\nNonce: ${crypto.randomUUID()}`;
+    const challenges = getTable("wallet_claim_challenges")
+      .filter(challenge => challenge.user_id !== signedInUserId || challenge.wallet_address !== p_wallet_address);
+    tables.set("wallet_claim_challenges", [...challenges, { user_id: signedInUserId, wallet_address: p_wallet_address, message }]);
+    return { data: message, error: null };
+  },
+
+  claim_wallet_profile: ({ p_wallet_address, p_signature, p_wallet_name }) => {
+    const caller = signedInUserId;
+    if (!caller) {
+      return rpcError("42501", "Sign in before linking a wallet");
+    }
+
+    const walletAddress = p_wallet_address as string;
+    const challenge = getTable("wallet_claim_challenges")
+      .find(row => row.user_id === caller && row.wallet_address === walletAddress);
+    if (!challenge) {
+      return rpcError("42501", `The request to link wallet ${walletAddress} has expired`);
+    }
+    if (!verifyWalletSignature(walletAddress, challenge.message as string, p_signature as string)) {
+      return rpcError("42501", `The signature does not prove ownership of wallet ${walletAddress}`);
+    }
+
+    let moved = 0;
+    const profiles = getTable("profiles");
+    const currentOwner = profiles.find(profile => profile.wallet_address === walletAddress);
+    if (currentOwner && currentOwner.id !== caller) {
+      // Placeholders have no account behind them
+      if (currentOwner.twitter_id) {
+        return rpcError("23505", `Wallet ${walletAddress} is already linked to another account`);
+      }
+
+      for (const message of getTable("messages")) {
+        if (message.sender_id === currentOwner.id || message.recipient_id === currentOwner.id) moved++;
+        if (message.sender_id === currentOwner.id) message.sender_id = caller;
+        if (message.recipient_id === currentOwner.id) message.recipient_id = caller;
+      }
+      tables.set("profiles", profiles.filter(profile => profile !== currentOwner));
+    }
+
+    tables.set("wallet_claim_challenges", getTable("wallet_claim_challenges").filter(row => row !== challenge));
+    const profile = getTable("profiles").find(row => row.id === caller);
+    if (profile) {
+      Object.assign(profile, { wallet_address: walletAddress, wallet_name: p_wallet_name ?? null });
+    }
+    return { data: moved, error: null };
+  },
+  cancel_scheduled_message: ({ p_id }) => {
+    const scheduled = findEditableScheduledMessage(p_id);
+    if (scheduled) {
+      Object.assign(scheduled, { status: "cancelled", updated_at: new Date().toISOString() });
+    }
+    return { data: !!scheduled, error: null };
+  },
+  reschedule_scheduled_message: args => {
+    const scheduled = findEditableScheduledMessage(args.p_id);
+    if (scheduled) {
+      Object.assign(scheduled, {
+        content: args.p_content,
+        content_salt: args.p_content_salt ?? null,
+        encrypted_content: args.p_encrypted_content ?? null,
+        amount: args.p_amount,
+        send_at: args.p_send_at,
+        expires_at: args.p_expires_at ?? null,
+        signed_transaction: args.p_signed_transaction,
+        updated_at: new Date().toISOString(),
+      });
+    }
+    return { data: !!scheduled, error: null };
+  },
+};
+
+export const supabase = {
+  from: (table: string) => new FakeQuery(table),
+  rpc: async (fn: string, args: Row = {}) => {
+    const handler = RPC_FUNCTIONS[fn];
+    return handler ? handler(args) : rpcError("PGRST202", `Could not find the function public.${fn}`);
+  },
+  storage: {
+    from: (bucket: string) => new FakeBucket(bucket),
+  },
+  auth: {
+    getUser: async () => ({ data: { user: signedInUserId ? { id: signedInUserId } : null }, error: null }),
+  },
+};
+
+/**
+ * Rows currently in a table
+ */
+export const getRows = (table: string): Row[] => {
+  return getTable(table);
+};
+
+/**
+ * Add rows to a table, e.g. profiles that exist before a test runs
+ */
+export const seedRows = (table: string, rows: Row[]): void => {
+  getTable(table).push(...rows);
+};
+
+/**
+ * Names of the objects stored in a bucket
+ */
+export const getStoredObjects = (bucket: string): string[] => {
+  return [...getBucket(bucket).keys()];
+};
+
+/**
+ * Sign a user in, or out with null, for the auth and storage calls
+ */
+export const signInAs = (userId: string | null): void => {
+  signedInUserId = userId;
+};
+
+/**
+ * Empty every table and bucket and sign out
+ */
+export const resetFakeDatabase = (): void => {
+  tables.clear();
+  buckets.clear();
+  signedInUserId = null;
+};
@@ -0,0 +1,44 @@
+import { beforeEach, vi } from "vitest";
+import { resetFakeDatabase } from "./fakeSupabase";
+
+// Runs before each test file: swaps the Supabase client for the in-memory fake and
+// gives node the localStorage that the cluster selection and outbox rely on.
+
+vi.mock("@/integrations/supabase/client", () => import("./fakeSupabase"));
+
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+
+  get length() {
+    return this.items.size;
+  }
+
+  clear() {
+    this.items.clear();
+  }
+
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+
+  key(index: number) {
+    return [...this.items.keys()][index] ?? null;
+  }
+
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+
+  setItem(key: string, value: string) {
+    this.items.set(key, String(value));
+  }
+}
+
+if (typeof globalThis.localStorage === "undefined") {
+  globalThis.localStorage = new MemoryStorage();
+}
+
+beforeEach(() => {
+  resetFakeDatabase();
+  localStorage.clear();
+});
@@ -0,0 +1,83 @@
+import { ChildProcess, spawn } from "child_process";
+import { existsSync, mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { resolveClusterConfig } from "@/utils/clusterConfig";
+
+// Boots a fresh solana-test-validator with the pay_to_reply program preloaded at the
+// localnet program ID, and shuts it down once every test file has run.
+
+const PROGRAM_PATH = path.resolve(__dirname, "../../../anchor-program/target/deploy/pay_to_reply.so");
+
+// Building the genesis ledger can take a while on slow machines
+const STARTUP_TIMEOUT_MS = 60_000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Poll until the RPC answers and the program is deployed
+const waitForProgram = async (connection: Connection, programId: PublicKey, validator: ChildProcess) => {
+  const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    if (validator.exitCode !== null) {
+      throw new Error(`solana-test-validator exited with code ${validator.exitCode}`);
+    }
+
+    try {
+      const program = await connection.getAccountInfo(programId);
+      if (program?.executable) return;
+    } catch {
+      // Not accepting connections yet
+    }
+
+    await sleep(500);
+  }
+
+  throw new Error(`solana-test-validator did not start within ${STARTUP_TIMEOUT_MS / 1000}s`);
+};
+
+export default async function setup() {
+  if (!existsSync(PROGRAM_PATH)) {
+    throw new Error(`${PROGRAM_PATH} not found. Run \`anchor build\` in anchor-program first.`);
+  }
+
+  const cluster = resolveClusterConfig({ cluster: "localnet" });
+  const programId = new PublicKey(cluster.programId);
+  const ledger = mkdtempSync(path.join(tmpdir(), "squeaky-wheel-ledger-"));
+
+  console.log(`Starting solana-test-validator with ${cluster.programId} at ${cluster.rpcUrl}`);
+
+  const validator = spawn(
+    "solana-test-validator",
+    ["--reset", "--quiet", "--ledger", ledger, "--bpf-program", cluster.programId, PROGRAM_PATH],
+    { stdio: "ignore" }
+  );
+
+  const spawnError = new Promise<never>((_, reject) => {
+    validator.once("error", error => {
+      reject(new Error(`Could not start solana-test-validator (is the Solana CLI installed?): ${error.message}`));
+    });
+  });
+
+  const stop = async () => {
+    // No pid means the binary never started
+    if (validator.pid !== undefined && validator.exitCode === null && validator.signalCode === null) {
+      const exited = new Promise(resolve => validator.once("exit", resolve));
+      validator.kill("SIGTERM");
+      await exited;
+    }
+    rmSync(ledger, { recursive: true, force: true });
+  };
+
+  try {
+    await Promise.race([waitForProgram(new Connection(cluster.rpcUrl, "confirmed"), programId, validator), spawnError]);
+  } catch (error) {
+    await stop();
+    throw error;
+  }
+
+  console.log("solana-test-validator is ready");
+
+  return stop;
+}
@@ -0,0 +1,47 @@
+import { Keypair, LAMPORTS_PER_SOL, Transaction, VersionedTransaction } from "@solana/web3.js";
+import { getConnection } from "@/utils/activeCluster";
+import type { AnchorWallet } from "@/utils/anchorClient";
+import { BrowserWalletAdapter } from "@/utils/browserWalletAdapter";
+
+// A wallet that signs with a local keypair, standing in for a browser extension
+export class KeypairWallet implements AnchorWallet {
+  constructor(readonly keypair: Keypair) {}
+
+  get publicKey() {
+    return this.keypair.publicKey;
+  }
+
+  async signTransaction<T extends Transaction | VersionedTransaction>(transaction: T): Promise<T> {
+    if (transaction instanceof VersionedTransaction) {
+      transaction.sign([this.keypair]);
+    } else {
+      transaction.partialSign(this.keypair);
+    }
+    return transaction;
+  }
+
+  async signAllTransactions<T extends Transaction | VersionedTransaction>(transactions: T[]): Promise<T[]> {
+    return Promise.all(transactions.map(transaction => this.signTransaction(transaction)));
+  }
+}
+
+/**
+ * Create a keypair wallet and airdrop it SOL on the local validator
+ */
+export const createFundedWallet = async (sol = 2): Promise<KeypairWallet> => {
+  const connection = getConnection();
+  const wallet = new KeypairWallet(Keypair.generate());
+
+  const signature = await connection.requestAirdrop(wallet.publicKey, sol * LAMPORTS_PER_SOL);
+  const latestBlockhash = await connection.getLatestBlockhash();
+  await connection.confirmTransaction({ signature, ...latestBlockhash }, "confirmed");
+
+  return wallet;
+};
+
+/**
+ * Wrap a keypair wallet the way the app wraps Phantom
+ */
+export const toBrowserWallet = (wallet: KeypairWallet): BrowserWalletAdapter => {
+  return new BrowserWalletAdapter("phantom", wallet);
+};
@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { Keypair } from "@solana/web3.js";
+import { approveMessagePayment } from "@/utils/anchorClient";
+import { AnswerRequiredError } from "@/utils/errors";
+import { canSettleInBatch, fetchMessages, getMessageStats, MessageData } from "@/utils/messageService";
+import { answerMessage, fetchThread, sendReply } from "@/utils/threadService";
+import { seedRows } from "./support/fakeSupabase";
+import { KeypairWallet } from "./support/wallets";
+
+describe("threadService", () => {
+  const senderAddress = Keypair.generate().publicKey.toBase58();
+  const recipientAddress = Keypair.generate().publicKey.toBase58();
+  let paidMessage: MessageData;
+
+  // Threads only touch the database, so the paid message is seeded rather than sent
+  beforeEach(async () => {
+    const senderId = crypto.randomUUID();
+    const recipientId = crypto.randomUUID();
+    seedRows("profiles", [
+      { id: senderId, wallet_address: senderAddress, username: "alice", avatar_url: null },
+      { id: recipientId, wallet_address: recipientAddress, username: "bob", avatar_url: null },
+    ]);
+    seedRows("messages", [{
+      id: crypto.randomUUID(),
+      message_id: "mthreadtest",
+      sender_id: senderId,
+      recipient_id: recipientId,
+      content: "Can you review my PR?",
+      amount: 0.01,
+      currency: "SOL",
+      status: "pending",
+      parent_message_id: null,
+      requires_reply: true,
+      created_at: new Date(Date.now() - 60_000).toISOString(),
+    }]);
+    [paidMessage] = await fetchMessages(recipientAddress, "received");
+  });
+
+  it("keeps replies and follow-ups in order after the paid message", async () => {
+    const reply = await sendReply(paidMessage, recipientAddress, "  Sure, send the link  ");
+    const followUp = await sendReply(paidMessage, senderAddress, "Here it is");
+
+    expect(reply).toMatchObject({
+      content: "Sure, send the link",
+      status: "reply",
+      parent_message_id: paidMessage.id,
+      sender_id: paidMessage.recipient_id,
+      recipient_id: paidMessage.sender_id,
+      amount: 0,
+      senderUsername: "bob",
+    });
+    expect(followUp).toMatchObject({ sender_id: paidMessage.sender_id, recipient_id: paidMessage.recipient_id });
+
+    const thread = await fetchThread(paidMessage.id);
+    expect(thread.map(message => message.content)).toEqual(["Can you review my PR?", "Sure, send the link", "Here it is"]);
+  });
+
+  it("leaves replies out of the inbox and stats", async () => {
+    await sendReply(paidMessage, recipientAddress, "Sure");
+
+    expect(await fetchMessages(senderAddress, "received")).toEqual([]);
+    expect(await getMessageStats(senderAddress)).toMatchObject({ totalReceived: 0, totalSent: 1 });
+  });
+
+  it("links the recipient's answer to a message that requires one", async () => {
+    expect(paidMessage).toMatchObject({ requires_reply: true, answer: null });
+
+    await expect(answerMessage(paidMessage, senderAddress, "Answering myself"))
+      .rejects.toThrow("Only the recipient");
+
+    const reply = await answerMessage(paidMessage, recipientAddress, "Looks good to me");
+
+    const [sent] = await fetchMessages(senderAddress, "sent");
+    expect(sent.answer).toMatchObject({ id: reply.id, content: "Looks good to me" });
+    expect(await fetchThread(paidMessage.id)).toHaveLength(2);
+  });
+
+  it("keeps a message out of batch settlement until it is answered", async () => {
+    // Batch approval has no answer step, so it mustn't skip the one the sender asked for
+    expect(canSettleInBatch(paidMessage)).toBe(false);
+
+    await answerMessage(paidMessage, recipientAddress, "Done");
+
+    const [answered] = await fetchMessages(recipientAddress, "received");
+    expect(canSettleInBatch(answered)).toBe(true);
+  });
+
+  it("refuses to approve a message that is still awaiting its answer", async () => {
+    // Checked before anything is sent, whichever client approves it
+    await expect(approveMessagePayment(new KeypairWallet(Keypair.generate()), senderAddress, paidMessage.message_id))
+      .rejects.toBeInstanceOf(AnswerRequiredError);
+  });
+
+  it("only lets the two parties reply", async () => {
+    await expect(sendReply(paidMessage, Keypair.generate().publicKey.toBase58(), "Me too"))
+      .rejects.toThrow("Only the sender and recipient");
+    await expect(sendReply(paidMessage, recipientAddress, "   ")).rejects.toThrow("Reply is empty");
+
+    expect(await fetchThread(paidMessage.id)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,28 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+// Integration tests: the real client code against a local validator running the
+// pay_to_reply program, with Supabase replaced by an in-memory fake.
+// Build the program first with `anchor build` in anchor-program.
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+  test: {
+    include: ["tests/integration/**/*.test.ts"],
+    environment: "node",
+    globalSetup: ["tests/integration/support/validator.ts"],
+    setupFiles: ["tests/integration/support/setup.ts"],
+    env: {
+      VITE_SOLANA_CLUSTER: "localnet",
+      VITE_SOLANA_COMMITMENT: "confirmed",
+      VITE_SOLANA_PRIORITY_FEE: "0",
+    },
+    // Every file talks to the same validator
+    fileParallelism: false,
+    testTimeout: 60_000,
+    hookTimeout: 120_000,
+  },
+});